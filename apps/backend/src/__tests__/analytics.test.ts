@@ -0,0 +1,170 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AuthConfig } from '../config/auth';
+import { loadAnalyticsConfig } from '../config/analytics';
+import { createAuthMiddleware, requireAdmin } from '../auth';
+import { CompletionStream, MockProvider } from '../providers';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { SqliteChatEventRepository } from '../repositories/sqliteChatEventRepository';
+import { ChatEvent } from '../repositories/chatEventRepository';
+import { ChatActivityTracker } from '../analytics';
+import { createChatRouter } from '../routes/chat';
+import { createAnalyticsRouter } from '../routes/analytics';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOON = Date.UTC(2025, 0, 15, 12);
+
+// Events are recorded once the response has closed
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('loadAnalyticsConfig', () => {
+  it('should read how long chat events are kept', () => {
+    expect(loadAnalyticsConfig({})).toEqual({ enabled: true, retentionDays: 90 });
+    expect(loadAnalyticsConfig({ ANALYTICS_ENABLED: 'false', ANALYTICS_RETENTION_DAYS: '7' }))
+      .toEqual({ enabled: false, retentionDays: 7 });
+    expect(() => loadAnalyticsConfig({ ANALYTICS_RETENTION_DAYS: 'soon' })).toThrow('ANALYTICS_RETENTION_DAYS');
+  });
+});
+
+describe('Chat analytics API', () => {
+  const authConfig: AuthConfig = {
+    required: false,
+    jwtSecret: 'test-secret',
+    ephemeralSecret: false,
+    tokenTtlSeconds: 3600,
+    users: {},
+    apiKeys: { 'sam-key': 'sam', 'kim-key': 'kim', 'admin-key': 'admin' },
+    admins: ['admin'],
+  };
+
+  let now: number;
+  let provider: MockProvider;
+  let repository: SqliteChatEventRepository;
+  let tracker: ChatActivityTracker;
+  let app: express.Express;
+
+  beforeEach(() => {
+    now = NOON;
+    const database = openDatabase({ path: ':memory:' });
+    provider = new MockProvider();
+    repository = new SqliteChatEventRepository(database);
+    tracker = new ChatActivityTracker({ repository, retentionDays: 90, clock: () => now });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', createAuthMiddleware(authConfig));
+    app.use('/api/admin', requireAdmin(authConfig));
+    app.post(['/api/chat', '/api/chat/stream'], tracker.middleware());
+    app.use('/api', createChatRouter({
+      provider,
+      conversations: new SqliteConversationRepository(database),
+      contextWindow: 4096,
+      onError: req => tracker.markFailed(req),
+    }));
+    app.use('/api', createAnalyticsRouter({ tracker }));
+  });
+
+  // A second later, so that requests made just now are in range
+  const report = async (query = '') => {
+    await settle();
+    now += 1000;
+    return (await request(app).get(`/api/admin/analytics/chat${query}`).set('X-API-Key', 'admin-key').expect(200)).body;
+  };
+
+  const event = (overrides: Partial<ChatEvent>): ChatEvent => ({
+    userId: 'sam',
+    stream: false,
+    outcome: 'completed',
+    status: 200,
+    durationMs: 100,
+    topics: [],
+    createdAt: now,
+    ...overrides,
+  });
+
+  it('should record how each chat request ended, with its topics and emotion', async () => {
+    const context = { activeTopics: ['Music', ' music ', 'travel'], userEmotion: 'Happy' };
+    await request(app).post('/api/chat').set('X-API-Key', 'sam-key').send({ message: 'Hi', context }).expect(200);
+    await request(app).post('/api/chat/stream').set('X-API-Key', 'kim-key')
+      .send({ message: 'Hello', context: { activeTopics: ['music'], userEmotion: 'sad' } }).expect(200);
+    await request(app).post('/api/chat').set('X-API-Key', 'kim-key').send({ message: '' }).expect(400);
+
+    // A stream that fails after its first token still answers 200
+    vi.spyOn(provider, 'stream').mockImplementation((): CompletionStream => ({
+      toolCalls: [],
+      async *[Symbol.asyncIterator]() {
+        yield 'Hel';
+        throw new Error('Stream interrupted');
+      },
+    }));
+    await request(app).post('/api/chat/stream').set('X-API-Key', 'sam-key').send({ message: 'Again' }).expect(200);
+
+    const { totals, daily, topTopics, emotions } = await report();
+
+    expect(totals).toMatchObject({ requests: 4, users: 2, failed: 1, cancelled: 0, rejected: 1, errorRate: 0.25 });
+    expect(daily).toEqual([expect.objectContaining({ date: '2025-01-15', requests: 4 })]);
+    expect(topTopics).toEqual([{ topic: 'music', count: 2 }, { topic: 'travel', count: 1 }]);
+    expect(emotions).toEqual([{ emotion: 'happy', count: 1 }, { emotion: 'sad', count: 1 }]);
+
+    const events = await repository.list({});
+    expect(events.map(recorded => [recorded.stream, recorded.outcome, recorded.status])).toEqual([
+      [false, 'completed', 200],
+      [true, 'completed', 200],
+      [false, 'rejected', 400],
+      [true, 'failed', 200],
+    ]);
+  });
+
+  it('should report volume, error rate and latency by day', async () => {
+    await repository.record(event({ createdAt: now - DAY, durationMs: 200, conversationId: 'c1' }));
+    await repository.record(event({ createdAt: now - DAY, outcome: 'failed', status: 500, durationMs: 5000 }));
+    for (const durationMs of [100, 200, 300, 400]) {
+      await repository.record(event({ durationMs, conversationId: 'c1' }));
+    }
+    await repository.record(event({ userId: 'kim', outcome: 'cancelled', durationMs: 50, conversationId: 'c1' }));
+    await repository.record(event({ createdAt: now - 40 * DAY }));
+
+    const { totals, daily } = await report();
+
+    expect(totals).toMatchObject({
+      requests: 7,
+      // The same conversation id of two users is two conversations
+      conversations: 2,
+      users: 2,
+      failed: 1,
+      cancelled: 1,
+      errorRate: 1 / 7,
+      averageLatencyMs: 240,
+      p95LatencyMs: 400,
+    });
+    expect(daily.map((day: { date: string; requests: number; errorRate: number; averageLatencyMs: number }) =>
+      [day.date, day.requests, day.errorRate, day.averageLatencyMs]))
+      .toEqual([
+        ['2025-01-14', 2, 0.5, 200],
+        ['2025-01-15', 5, 0, 250],
+      ]);
+
+    expect((await report(`?since=${now - 60 * DAY}`)).totals.requests).toBe(8);
+  });
+
+  it('should delete events past the retention period', async () => {
+    await repository.record(event({ createdAt: now - 100 * DAY }));
+    await request(app).post('/api/chat').set('X-API-Key', 'sam-key').send({ message: 'Hi' }).expect(200);
+    await settle();
+
+    expect((await repository.list({})).map(recorded => recorded.createdAt)).toEqual([NOON]);
+  });
+
+  it('should keep the report to admins and reject invalid ranges', async () => {
+    await request(app).get('/api/admin/analytics/chat').set('X-API-Key', 'sam-key').expect(403);
+    await request(app).get('/api/admin/analytics/chat').expect(403);
+
+    const { body } = await request(app)
+      .get('/api/admin/analytics/chat?since=yesterday')
+      .set('X-API-Key', 'admin-key')
+      .expect(400);
+    expect(body.error).toBe('Invalid analytics request');
+  });
+});
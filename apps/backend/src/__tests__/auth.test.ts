@@ -0,0 +1,171 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuthConfig, loadAuthConfig } from '../config/auth';
+import { ANONYMOUS_USER_ID, createAuthMiddleware, issueToken, verifyToken } from '../auth';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { createAuthRouter } from '../routes/auth';
+import { createConversationRouter } from '../routes/conversations';
+
+const baseConfig: AuthConfig = {
+  required: true,
+  jwtSecret: 'test-secret',
+  ephemeralSecret: false,
+  tokenTtlSeconds: 3600,
+  users: {},
+  apiKeys: { 'ci-key': 'ci-bot' },
+  admins: [],
+};
+
+const createApp = (config: AuthConfig = baseConfig) => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', createAuthRouter(config));
+  app.use('/api', createAuthMiddleware(config));
+  app.use('/api', createConversationRouter(
+    new SqliteConversationRepository(openDatabase({ path: ':memory:' }))
+  ));
+  return app;
+};
+
+interface LoginResponse {
+  token: string;
+  expiresAt: number;
+  sessionId: string;
+  user: { id: string; name: string; guest: boolean };
+}
+
+const login = async (app: express.Express, body: object = {}): Promise<LoginResponse> => {
+  const response = await request(app).post('/api/auth/login').send(body).expect(200);
+  return response.body;
+};
+
+describe('loadAuthConfig', () => {
+  it('should only require auth outside of tests by default', () => {
+    expect(loadAuthConfig({ NODE_ENV: 'test' }).required).toBe(false);
+    expect(loadAuthConfig({ NODE_ENV: 'production' }).required).toBe(true);
+  });
+
+  it('should generate a secret when none is configured', () => {
+    const config = loadAuthConfig({});
+
+    expect(config.ephemeralSecret).toBe(true);
+    expect(config.jwtSecret).toHaveLength(64);
+    expect(loadAuthConfig({ AUTH_JWT_SECRET: 'shh' })).toMatchObject({ jwtSecret: 'shh', ephemeralSecret: false });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => loadAuthConfig({ AUTH_TOKEN_TTL: '-1' })).toThrow('AUTH_TOKEN_TTL');
+    expect(() => loadAuthConfig({ AUTH_USERS: '{"sam": 1}' })).toThrow('AUTH_USERS');
+  });
+});
+
+describe('Session tokens', () => {
+  it('should round-trip the identity', () => {
+    const { token, expiresAt } = issueToken({ userId: 'sam', sessionId: 's-1', name: 'Sam' }, baseConfig);
+
+    expect(expiresAt).toBeGreaterThan(Date.now());
+    expect(verifyToken(token, baseConfig)).toEqual({ userId: 'sam', sessionId: 's-1', name: 'Sam', method: 'token' });
+  });
+
+  it('should reject tokens signed with another secret or expired', () => {
+    const { token } = issueToken({ userId: 'sam', sessionId: 's-1' }, baseConfig);
+    expect(verifyToken(token, { jwtSecret: 'other-secret' })).toBeNull();
+
+    const expired = issueToken({ userId: 'sam', sessionId: 's-1' }, { ...baseConfig, tokenTtlSeconds: -10 });
+    expect(verifyToken(expired.token, baseConfig)).toBeNull();
+  });
+});
+
+describe('Auth API', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = createApp();
+  });
+
+  it('should refuse unauthenticated and invalid requests', async () => {
+    const missing = await request(app).get('/api/conversations').expect(401);
+    expect(missing.body).toEqual({ error: 'Authentication required' });
+
+    const invalid = await request(app)
+      .get('/api/conversations')
+      .set('Authorization', 'Bearer not-a-token')
+      .expect(401);
+    expect(invalid.body).toEqual({ error: 'Invalid or expired token' });
+  });
+
+  it('should log in guests and scope conversations to them', async () => {
+    const alice = await login(app, { username: 'Alice' });
+    const bob = await login(app);
+
+    expect(alice.user.name).toBe('Alice');
+    expect(bob.user).toMatchObject({ name: 'Guest', guest: true });
+    expect(alice.user.id).not.toBe(bob.user.id);
+
+    const created = await request(app)
+      .post('/api/conversations')
+      .set('Authorization', `Bearer ${alice.token}`)
+      .send({ title: 'Secret plans' })
+      .expect(201);
+
+    await request(app)
+      .get(`/api/conversations/${created.body.id}`)
+      .set('Authorization', `Bearer ${alice.token}`)
+      .expect(200);
+    await request(app)
+      .get(`/api/conversations/${created.body.id}`)
+      .set('Authorization', `Bearer ${bob.token}`)
+      .expect(404);
+
+    const bobsList = await request(app).get('/api/conversations').set('Authorization', `Bearer ${bob.token}`);
+    expect(bobsList.body).toEqual([]);
+  });
+
+  it('should identify callers by API key', async () => {
+    const response = await request(app).get('/api/auth/me').set('X-API-Key', 'ci-key').expect(200);
+
+    expect(response.body).toMatchObject({ userId: 'ci-bot', method: 'api_key' });
+  });
+
+  it('should check passwords when users are configured', async () => {
+    const withUsers = createApp({ ...baseConfig, users: { sam: 'correct horse' } });
+
+    await request(withUsers).post('/api/auth/login').send({ username: 'sam', password: 'wrong' }).expect(401);
+    await request(withUsers).post('/api/auth/login').send({ username: 'nobody', password: 'x' }).expect(401);
+
+    const session = await login(withUsers, { username: 'sam', password: 'correct horse' });
+    const me = await request(withUsers).get('/api/auth/me').set('Authorization', `Bearer ${session.token}`);
+
+    expect(me.body).toMatchObject({ userId: 'sam', sessionId: session.sessionId, method: 'token' });
+  });
+
+  it('should treat unauthenticated callers as the anonymous user when auth is optional', async () => {
+    const optional = createApp({ ...baseConfig, required: false });
+
+    const me = await request(optional).get('/api/auth/me').expect(200);
+
+    expect(me.body).toMatchObject({ userId: ANONYMOUS_USER_ID, method: 'anonymous' });
+  });
+});
+
+describe('Conversation ownership migration', () => {
+  it('should give conversations stored before users existed to the anonymous user', async () => {
+    const db = openDatabase({ path: ':memory:' });
+    db.exec(`
+      CREATE TABLE conversations (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      INSERT INTO conversations VALUES ('old', 'Before users', 1, 1);
+    `);
+
+    const repository = new SqliteConversationRepository(db);
+
+    expect((await repository.get(ANONYMOUS_USER_ID, 'old'))?.title).toBe('Before users');
+    expect(await repository.get('sam', 'old')).toBeNull();
+  });
+});
@@ -0,0 +1,213 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import express from 'express';
+import { WebSocket } from 'ws';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuthConfig } from '../config/auth';
+import { createAuthMiddleware, issueToken } from '../auth';
+import {
+  AVATAR_EVENTS_PATH,
+  AvatarEvent,
+  AvatarEventHub,
+  AvatarEventPayload,
+  AvatarResponsePublisher,
+  attachAvatarEventServer,
+  detectEmotion,
+  detectGestures,
+} from '../avatarEvents';
+import { MockProvider } from '../providers';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { createChatRouter } from '../routes/chat';
+
+const authConfig: AuthConfig = {
+  required: false,
+  jwtSecret: 'test-secret',
+  ephemeralSecret: false,
+  tokenTtlSeconds: 3600,
+  users: {},
+  apiKeys: {},
+  admins: [],
+};
+
+describe('response cues', () => {
+  it('should detect the strongest emotion', () => {
+    expect(detectEmotion('Wow, that is amazing!')).toEqual({ emotion: 'excited', intensity: 0.9 });
+    expect(detectEmotion("I'm so sorry to hear that.")?.emotion).toBe('sad');
+    expect(detectEmotion('The sky is blue.')).toBeNull();
+  });
+
+  it('should pick gestures for a sentence', () => {
+    expect(detectGestures('Hello there!')).toEqual(['wave']);
+    expect(detectGestures('Yes, of course.')).toEqual(['nod']);
+    expect(detectGestures('What would you like to do?')).toEqual(['head_tilt']);
+    expect(detectGestures('That is awesome!', 'excited')).toEqual(['bounce']);
+    expect(detectGestures('I love that.', 'happy')).toEqual(['tail_wag']);
+  });
+});
+
+describe('AvatarResponsePublisher', () => {
+  it('should publish cues as sentences complete', () => {
+    const events: AvatarEventPayload[] = [];
+    const publisher = new AvatarResponsePublisher({ publish: event => events.push(event) }, 'req-1');
+
+    publisher.started('conv-1');
+    for (const token of ['Hello', ' there! ', 'I love ', 'puppies. ', 'Do you?']) {
+      publisher.token(token);
+    }
+    publisher.finished('Hello there! I love puppies. Do you?', 'conv-1');
+
+    expect(events.filter(event => event.type !== 'token')).toEqual([
+      { type: 'response_started', requestId: 'req-1', conversationId: 'conv-1' },
+      { type: 'gesture', requestId: 'req-1', gesture: 'wave' },
+      { type: 'emotion', requestId: 'req-1', emotion: 'happy', intensity: 0.6 },
+      { type: 'gesture', requestId: 'req-1', gesture: 'tail_wag' },
+      { type: 'gesture', requestId: 'req-1', gesture: 'head_tilt' },
+      {
+        type: 'response_finished',
+        requestId: 'req-1',
+        response: 'Hello there! I love puppies. Do you?',
+        conversationId: 'conv-1',
+      },
+    ]);
+    expect(events.filter(event => event.type === 'token')).toHaveLength(5);
+  });
+});
+
+describe('AvatarEventHub', () => {
+  it('should only publish to channels of the same user', () => {
+    const hub = new AvatarEventHub(() => Date.UTC(2025, 0, 1));
+    const received: AvatarEvent[] = [];
+    const channelId = hub.connect('user-1', event => received.push(event));
+
+    expect(hub.publish('user-2', channelId, { type: 'token', requestId: 'r', content: 'x' })).toBe(false);
+    expect(hub.publish('user-1', channelId, { type: 'token', requestId: 'r', content: 'hi' })).toBe(true);
+
+    expect(received).toEqual([
+      { type: 'connected', channelId, timestamp: '2025-01-01T00:00:00.000Z' },
+      { type: 'token', requestId: 'r', content: 'hi', timestamp: '2025-01-01T00:00:00.000Z' },
+    ]);
+  });
+
+  it('should drop channels that fail to send', () => {
+    const hub = new AvatarEventHub();
+    let connected = false;
+    const channelId = hub.connect('user-1', () => {
+      if (connected) throw new Error('socket gone');
+      connected = true;
+    });
+
+    hub.publish('user-1', channelId, { type: 'token', requestId: 'r', content: 'hi' });
+
+    expect(hub.size).toBe(0);
+  });
+});
+
+describe('Avatar event WebSocket', () => {
+  let server: http.Server;
+  let hub: AvatarEventHub;
+  let baseUrl: string;
+
+  const startServer = async (auth: AuthConfig) => {
+    hub = new AvatarEventHub();
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createAuthMiddleware(auth));
+    app.use('/api', createChatRouter({
+      provider: new MockProvider(),
+      conversations: new SqliteConversationRepository(openDatabase({ path: ':memory:' })),
+      contextWindow: 4096,
+      avatarEvents: hub,
+    }));
+
+    server = http.createServer(app);
+    attachAvatarEventServer(server, { hub, auth });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  // Connect and collect events until the socket closes
+  const connect = (query = '') => new Promise<{ ws: WebSocket; events: AvatarEvent[] }>((resolve, reject) => {
+    const ws = new WebSocket(`${baseUrl}${AVATAR_EVENTS_PATH}${query}`);
+    const events: AvatarEvent[] = [];
+    ws.on('message', data => {
+      events.push(JSON.parse(data.toString()));
+      if (events.length === 1) resolve({ ws, events });
+    });
+    ws.on('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+    ws.on('error', reject);
+  });
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('without required auth', () => {
+    beforeEach(() => startServer(authConfig));
+
+    it('should push the events of a streamed response to the named channel', async () => {
+      const { ws, events } = await connect();
+      const connected = events[0];
+      expect(connected.type).toBe('connected');
+      if (connected.type !== 'connected') return;
+
+      await request(server)
+        .post('/api/chat/stream')
+        .set('X-Avatar-Channel', connected.channelId)
+        .send({ message: 'hello' })
+        .expect(200);
+      await waitFor(() => events.some(event => event.type === 'response_finished'));
+      ws.close();
+
+      const types = events.map(event => event.type);
+      expect(types[1]).toBe('response_started');
+      expect(types).toContain('token');
+      expect(types).toContain('gesture');
+      expect(types[types.length - 1]).toBe('response_finished');
+
+      const tokens = events.flatMap(event => (event.type === 'token' ? [event.content] : []));
+      expect(tokens.join('')).toBe('Hi there! I am your 3D avatar. How can I help you today?');
+    });
+
+    it('should not push events for requests naming no channel', async () => {
+      const { ws, events } = await connect();
+
+      await request(server).post('/api/chat').send({ message: 'hello' }).expect(200);
+      ws.close();
+
+      expect(events.map(event => event.type)).toEqual(['connected']);
+    });
+
+    it('should refuse other paths', async () => {
+      const ws = new WebSocket(`${baseUrl}/api/other`);
+      const status = await new Promise(resolve => ws.on('unexpected-response', (_req, res) => resolve(res.statusCode)));
+
+      expect(status).toBe(404);
+    });
+  });
+
+  describe('with required auth', () => {
+    beforeEach(() => startServer({ ...authConfig, required: true }));
+
+    it('should refuse connections without a valid token', async () => {
+      await expect(connect()).rejects.toThrow('HTTP 401');
+      await expect(connect('?token=nope')).rejects.toThrow('HTTP 401');
+    });
+
+    it('should accept the session token as a query parameter', async () => {
+      const { token } = issueToken({ userId: 'user-1', sessionId: 'session-1' }, authConfig);
+      const { ws, events } = await connect(`?token=${token}`);
+      ws.close();
+
+      expect(events[0].type).toBe('connected');
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createTokenCounter,
+  fitToContextWindow,
+  getModelContextWindow,
+  validateChatContext,
+  DEFAULT_CONTEXT_WINDOW,
+  ChatHistoryTurn,
+} from '../context';
+import { MockProvider } from '../providers';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { createChatRouter } from '../routes/chat';
+import { ANONYMOUS_USER_ID } from '../auth';
+
+const counter = createTokenCounter('gpt-3.5-turbo');
+
+const createHistory = (turns: number): ChatHistoryTurn[] =>
+  Array.from({ length: turns }, (_, index) => ({
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content: `Turn number ${index} talks about something that happened earlier in the chat.`,
+  }));
+
+describe('Token counting', () => {
+  it('should count tokens with the model encoding', () => {
+    expect(counter.countText('Hello world')).toBe(2);
+    expect(counter.countMessages([
+      { role: 'system', content: 'Hello world' },
+      { role: 'user', content: 'Hello world' },
+    ])).toBe(2 * (4 + 2) + 3);
+  });
+
+  it('should count special token markers as plain text', () => {
+    expect(counter.countText('<|endoftext|>')).toBeGreaterThan(1);
+  });
+
+  it('should look up context windows by model name', () => {
+    expect(getModelContextWindow('gpt-3.5-turbo')).toBe(16385);
+    expect(getModelContextWindow('gpt-4o-mini')).toBe(128000);
+    expect(getModelContextWindow('gpt-4')).toBe(8192);
+    expect(getModelContextWindow('mock-scripted')).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+});
+
+describe('fitToContextWindow', () => {
+  const systemPrompt = 'You are a friendly avatar.';
+
+  it('should include everything that fits', () => {
+    const result = fitToContextWindow({
+      systemPrompt,
+      message: 'What did we talk about?',
+      history: createHistory(2),
+      context: { activeTopics: ['robots', 'space'], userEmotion: 'curious', memories: ['Likes astronomy'] },
+      counter,
+      budget: 1000,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(result.messages[0].content).toBe([
+      systemPrompt,
+      '',
+      '## Conversation context',
+      'Active topics: robots, space',
+      'The user currently seems curious.',
+      'Things you remember about the user:',
+      '- Likes astronomy',
+    ].join('\n'));
+    expect(result.dropped).toEqual({ historyTurns: 0, memories: 0 });
+    // Pieces are counted separately, so the estimate never undercounts
+    expect(result.promptTokens).toBeGreaterThanOrEqual(counter.countMessages(result.messages));
+  });
+
+  it('should keep the most recent turns and drop memories first when over budget', () => {
+    const history = createHistory(20);
+    const budget = 200;
+
+    const result = fitToContextWindow({
+      systemPrompt,
+      message: 'And now?',
+      history,
+      context: { memories: ['Likes astronomy', 'Has a cat'] },
+      counter,
+      budget,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const kept = result.messages.slice(1, -1);
+    expect(kept.length).toBeGreaterThan(0);
+    expect(kept.length).toBeLessThan(history.length);
+    expect(kept[kept.length - 1].content).toBe(history[history.length - 1].content);
+    expect(result.dropped).toEqual({ historyTurns: history.length - kept.length, memories: 2 });
+    expect(counter.countMessages(result.messages)).toBeLessThanOrEqual(budget);
+  });
+
+  it('should reject messages that cannot fit at all', () => {
+    const result = fitToContextWindow({
+      systemPrompt,
+      message: 'word '.repeat(500),
+      counter,
+      budget: 100,
+    });
+
+    expect(result).toEqual({ ok: false, error: 'Message is too long for the model context window' });
+  });
+});
+
+describe('validateChatContext', () => {
+  it('should accept missing or well-formed history and context', () => {
+    expect(validateChatContext(undefined, undefined)).toEqual({ ok: true });
+    expect(validateChatContext(createHistory(2), { userEmotion: 'happy' }).ok).toBe(true);
+  });
+
+  it('should describe every problem', () => {
+    expect(validateChatContext([{ role: 'system', content: 'x' }], { memories: 'x' })).toEqual({
+      ok: false,
+      error: 'Invalid chat context',
+      details: [
+        'history[0] needs a role of user or assistant and string content',
+        'context.memories must be a list of strings',
+      ],
+    });
+  });
+});
+
+describe('Chat API history and context', () => {
+  let app: express.Application;
+  let provider: MockProvider;
+  let repository: SqliteConversationRepository;
+
+  beforeEach(() => {
+    provider = new MockProvider();
+    vi.spyOn(provider, 'complete');
+    repository = new SqliteConversationRepository(openDatabase({ path: ':memory:' }));
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', createChatRouter({ provider, conversations: repository, contextWindow: 4096 }));
+  });
+
+  const sentMessages = () => vi.mocked(provider.complete).mock.calls[0][0].messages;
+
+  it('should send history turns and context to the provider', async () => {
+    await request(app)
+      .post('/api/chat')
+      .send({
+        message: 'Do you remember my name?',
+        history: [
+          { role: 'user', content: 'My name is Sam' },
+          { role: 'assistant', content: 'Nice to meet you, Sam!' },
+        ],
+        context: { activeTopics: ['names'], memories: ['The user is called Sam'] },
+      })
+      .expect(200);
+
+    const messages = sentMessages();
+    expect(messages.slice(1)).toEqual([
+      { role: 'user', content: 'My name is Sam' },
+      { role: 'assistant', content: 'Nice to meet you, Sam!' },
+      { role: 'user', content: 'Do you remember my name?' },
+    ]);
+    expect(messages[0].content).toContain('Active topics: names');
+    expect(messages[0].content).toContain('- The user is called Sam');
+  });
+
+  it('should fall back to the stored conversation when no history is sent', async () => {
+    const conversation = await repository.create(ANONYMOUS_USER_ID, {
+      messages: [
+        { sender: 'user', content: 'I like robots' },
+        { sender: 'assistant', content: 'Robots are great!' },
+      ],
+    });
+
+    await request(app)
+      .post('/api/chat')
+      .send({ message: 'What do I like?', conversationId: conversation.id })
+      .expect(200);
+
+    expect(sentMessages().slice(1).map(m => m.content)).toEqual([
+      'I like robots',
+      'Robots are great!',
+      'What do I like?',
+    ]);
+  });
+
+  it('should reject invalid history and oversized messages with a 400', async () => {
+    const invalid = await request(app)
+      .post('/api/chat')
+      .send({ message: 'Hi', history: 'earlier' })
+      .expect(400);
+    expect(invalid.body).toEqual({ error: 'Invalid chat context', details: ['history must be a list of turns'] });
+
+    const oversized = await request(app)
+      .post('/api/chat')
+      .send({ message: 'word '.repeat(5000) })
+      .expect(400);
+    expect(oversized.body).toEqual({ error: 'Message is too long for the model context window' });
+
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ChatResponseSchema,
+  ClientActionSchema,
+  CreateConversationRequestSchema,
+  formatIssuePath,
+  validateContract,
+} from '../contracts';
+import { createOpenAPIDocument } from '../contracts/openapi';
+
+// Mock OpenAI
+const mockOpenAI = {
+  chat: {
+    completions: {
+      create: vi.fn(),
+    },
+  },
+};
+
+vi.mock('openai', () => ({
+  default: vi.fn(() => mockOpenAI),
+}));
+
+describe('API contract validation', () => {
+  it('should describe each problem with the path of the field', () => {
+    const validation = validateContract(CreateConversationRequestSchema, {
+      title: 7,
+      messages: [{ sender: 'robot', content: 'beep' }, { sender: 'user' }],
+    });
+
+    expect(validation).toEqual({
+      ok: false,
+      details: [
+        'title must be a string',
+        'messages[0].sender must be one of user, assistant',
+        'messages[1].content is required',
+      ],
+    });
+  });
+
+  it('should accept valid values and drop unknown fields', () => {
+    const validation = validateContract(ChatResponseSchema, {
+      response: 'Hi!',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      actions: [{ type: 'room.load_preset', preset: 'Cozy Living Room' }],
+      debug: true,
+    });
+
+    expect(validation).toEqual({
+      ok: true,
+      data: {
+        response: 'Hi!',
+        timestamp: '2025-01-01T00:00:00.000Z',
+        actions: [{ type: 'room.load_preset', preset: 'Cozy Living Room' }],
+      },
+    });
+  });
+
+  it('should refuse settings actions that change nothing or unknown settings', () => {
+    expect(validateContract(ClientActionSchema, { type: 'settings.update', settings: {} }).ok).toBe(false);
+    expect(validateContract(ClientActionSchema, { type: 'settings.update', settings: { fontSize: 'huge' } }))
+      .toEqual({ ok: false, details: ['settings.fontSize must be one of small, medium, large'] });
+    expect(validateContract(ClientActionSchema, { type: 'settings.update', settings: { volume: 1 } }))
+      .toEqual({ ok: false, details: ['settings has unknown fields: volume'] });
+  });
+
+  it('should format nested paths', () => {
+    expect(formatIssuePath(['history', 3, 'role'])).toBe('history[3].role');
+    expect(formatIssuePath([])).toBe('');
+  });
+});
+
+describe('OpenAPI document', () => {
+  it('should reference a component schema for every request and response body', () => {
+    const document = createOpenAPIDocument();
+    const bodies = Object.values(document.paths).flatMap(operations =>
+      Object.values(operations).flatMap(operation => [
+        operation.requestBody,
+        ...Object.values(operation.responses as Record<string, unknown>),
+      ])
+    );
+    const refs = JSON.stringify(bodies).match(/#\/components\/schemas\/\w+/g) ?? [];
+
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      expect(document.components.schemas).toHaveProperty(ref.split('/').pop()!);
+    }
+    expect(document.components.schemas.ChatRequest).not.toHaveProperty('$schema');
+    expect(document.components.schemas.ChatRequest).not.toHaveProperty('id');
+  });
+});
+
+describe('Contract validation in the routes', () => {
+  let app: express.Application;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.OPENAI_API_KEY = 'test-api-key';
+
+    const appModule = await import('../index');
+    app = appModule.default || appModule;
+  });
+
+  it('should serve the OpenAPI document without authentication', async () => {
+    const response = await request(app).get('/api/openapi.json').expect(200);
+
+    expect(response.body.openapi).toBe('3.1.0');
+    expect(response.body.paths).toHaveProperty('/api/chat');
+  });
+
+  it('should answer invalid chat requests with the problems found', async () => {
+    const response = await request(app)
+      .post('/api/chat')
+      .send({ message: 'Hello', conversationId: 42, personalityId: ['friendly'] })
+      .expect(400);
+
+    expect(response.body).toEqual({
+      error: 'Invalid chat request',
+      details: ['conversationId must be a string', 'personalityId must be a string'],
+    });
+    expect(mockOpenAI.chat.completions.create).not.toHaveBeenCalled();
+  });
+
+  it('should answer invalid conversation requests with the problems found', async () => {
+    const response = await request(app)
+      .post('/api/conversations')
+      .send({ messages: [{ sender: 'robot', content: 'beep' }] })
+      .expect(400);
+
+    expect(response.body).toEqual({
+      error: 'Invalid conversation',
+      details: ['messages[0].sender must be one of user, assistant'],
+    });
+  });
+});
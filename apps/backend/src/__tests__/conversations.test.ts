@@ -0,0 +1,178 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { deriveConversationTitle } from '../repositories/conversationRepository';
+
+// Mock OpenAI
+const mockOpenAI = {
+  chat: {
+    completions: {
+      create: vi.fn(),
+    },
+  },
+};
+
+vi.mock('openai', () => ({
+  default: vi.fn(() => mockOpenAI),
+}));
+
+const OWNER = 'user-1';
+
+describe('SqliteConversationRepository', () => {
+  let repository: SqliteConversationRepository;
+
+  beforeEach(() => {
+    repository = new SqliteConversationRepository(openDatabase({ path: ':memory:' }));
+  });
+
+  it('should create and load a conversation with its messages in order', async () => {
+    const created = await repository.create(OWNER, {
+      messages: [
+        { sender: 'user', content: 'Hello there', timestamp: 1000 },
+        { sender: 'assistant', content: 'Hi!', timestamp: 2000 },
+      ],
+    });
+
+    const loaded = await repository.get(OWNER, created.id);
+
+    expect(loaded?.title).toBe('Hello there');
+    expect(loaded?.messages.map(m => m.content)).toEqual(['Hello there', 'Hi!']);
+    expect(loaded?.messages[0].timestamp).toBe(1000);
+  });
+
+  it('should list conversations most recently updated first', async () => {
+    const older = await repository.create(OWNER, { title: 'Older' });
+    await repository.create(OWNER, { title: 'Newer' });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await repository.appendMessages(OWNER, older.id, [{ sender: 'user', content: 'bump' }]);
+
+    const summaries = await repository.list(OWNER);
+
+    expect(summaries.map(s => s.title)).toEqual(['Older', 'Newer']);
+    expect(summaries[0].messageCount).toBe(1);
+  });
+
+  it('should return null or false for unknown conversations', async () => {
+    expect(await repository.get(OWNER, 'missing')).toBeNull();
+    expect(await repository.delete(OWNER, 'missing')).toBe(false);
+    expect(await repository.appendMessages(OWNER, 'missing', [{ sender: 'user', content: 'x' }])).toBeNull();
+  });
+
+  it('should delete a conversation and its messages', async () => {
+    const created = await repository.create(OWNER, { messages: [{ sender: 'user', content: 'Bye' }] });
+
+    expect(await repository.delete(OWNER, created.id)).toBe(true);
+    expect(await repository.get(OWNER, created.id)).toBeNull();
+  });
+
+  it("should hide other users' conversations", async () => {
+    const created = await repository.create(OWNER, { title: 'Private' });
+
+    expect(await repository.get('user-2', created.id)).toBeNull();
+    expect(await repository.list('user-2')).toEqual([]);
+    expect(await repository.appendMessages('user-2', created.id, [{ sender: 'user', content: 'x' }])).toBeNull();
+    expect(await repository.delete('user-2', created.id)).toBe(false);
+    expect(await repository.get(OWNER, created.id)).not.toBeNull();
+  });
+
+  it('should derive short titles from the first user message', () => {
+    expect(deriveConversationTitle([])).toBe('New conversation');
+    expect(deriveConversationTitle([{ sender: 'user', content: 'A'.repeat(100) }])).toHaveLength(60);
+  });
+});
+
+describe('Conversation API', () => {
+  let app: express.Application;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.OPENAI_API_KEY = 'test-api-key';
+
+    const appModule = await import('../index');
+    app = appModule.default || appModule;
+  });
+
+  it('should create, fetch, list and delete conversations', async () => {
+    const created = await request(app)
+      .post('/api/conversations')
+      .send({ messages: [{ sender: 'user', content: 'Saved locally' }] })
+      .expect(201);
+
+    const { id } = created.body;
+    expect(created.body.messages).toHaveLength(1);
+
+    const fetched = await request(app).get(`/api/conversations/${id}`).expect(200);
+    expect(fetched.body.messages[0].content).toBe('Saved locally');
+
+    const listed = await request(app).get('/api/conversations').expect(200);
+    expect(listed.body.some((summary: { id: string }) => summary.id === id)).toBe(true);
+
+    await request(app).delete(`/api/conversations/${id}`).expect(204);
+    await request(app).get(`/api/conversations/${id}`).expect(404);
+  });
+
+  it('should reject malformed messages', async () => {
+    const response = await request(app)
+      .post('/api/conversations')
+      .send({ messages: [{ sender: 'robot', content: 'beep' }] })
+      .expect(400);
+
+    expect(response.body).toHaveProperty('error');
+  });
+
+  it('should append messages and serve them from the history endpoint', async () => {
+    const created = await request(app).post('/api/conversations').send({}).expect(201);
+    const { id } = created.body;
+
+    await request(app)
+      .post(`/api/conversations/${id}/messages`)
+      .send({ messages: [{ sender: 'user', content: 'One' }, { sender: 'assistant', content: 'Two' }] })
+      .expect(201);
+
+    const history = await request(app)
+      .get('/api/chat/history')
+      .query({ conversationId: id })
+      .expect(200);
+
+    expect(history.body.map((m: { content: string }) => m.content)).toEqual(['One', 'Two']);
+  });
+
+  it('should require a conversation id for history', async () => {
+    await request(app).get('/api/chat/history').expect(400);
+    await request(app).get('/api/chat/history').query({ conversationId: 'missing' }).expect(404);
+  });
+
+  it('should store chat exchanges in the given conversation', async () => {
+    mockOpenAI.chat.completions.create.mockResolvedValue({
+      choices: [{ message: { content: 'Stored reply' } }],
+    });
+
+    const created = await request(app).post('/api/conversations').send({}).expect(201);
+    const { id } = created.body;
+
+    const chat = await request(app)
+      .post('/api/chat')
+      .send({ message: 'Remember this', conversationId: id })
+      .expect(200);
+
+    expect(chat.body.conversationId).toBe(id);
+
+    const history = await request(app).get('/api/chat/history').query({ conversationId: id });
+    expect(history.body.map((m: { sender: string; content: string }) => [m.sender, m.content])).toEqual([
+      ['user', 'Remember this'],
+      ['assistant', 'Stored reply'],
+    ]);
+  });
+
+  it('should reject chat requests for unknown conversations', async () => {
+    const response = await request(app)
+      .post('/api/chat')
+      .send({ message: 'Hello', conversationId: 'missing' })
+      .expect(404);
+
+    expect(response.body).toEqual({ error: 'Conversation not found' });
+    expect(mockOpenAI.chat.completions.create).not.toHaveBeenCalled();
+  });
+});
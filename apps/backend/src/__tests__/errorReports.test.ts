@@ -0,0 +1,161 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuthConfig } from '../config/auth';
+import { loadErrorReportsConfig } from '../config/errorReports';
+import { createAuthMiddleware, requireAdmin } from '../auth';
+import { openDatabase } from '../db/database';
+import { SqliteErrorReportRepository } from '../repositories/sqliteErrorReportRepository';
+import { ErrorReportCollector, fingerprintError } from '../errorReports';
+import { createErrorReportRouter } from '../routes/errorReports';
+
+const NOON = Date.UTC(2025, 0, 15, 12);
+
+const stackAt = (origin: string, line: number) => [
+  "TypeError: Cannot read properties of undefined (reading 'position')",
+  `    at AvatarModel (${origin}/src/components/AvatarModel.tsx?t=1736942400000:${line}:17)`,
+  `    at renderWithHooks (${origin}/node_modules/.vite/deps/chunk-QWERTY12.js?v=9f8e7d6c:11548:26)`,
+].join('\n');
+
+describe('loadErrorReportsConfig', () => {
+  it('should read the samples kept per error', () => {
+    expect(loadErrorReportsConfig({})).toEqual({ enabled: true, samplesPerError: 20 });
+    expect(loadErrorReportsConfig({ ERROR_REPORTS_ENABLED: 'false', ERROR_REPORTS_SAMPLES: '5' }))
+      .toEqual({ enabled: false, samplesPerError: 5 });
+    expect(() => loadErrorReportsConfig({ ERROR_REPORTS_SAMPLES: '0' })).toThrow('ERROR_REPORTS_SAMPLES');
+  });
+});
+
+describe('fingerprintError', () => {
+  it('should ignore origins, query strings, bundle hashes and line numbers', () => {
+    const local = fingerprintError({ name: 'TypeError', message: 'a', stack: stackAt('http://localhost:5173', 42) });
+    const deployed = fingerprintError({ name: 'TypeError', message: 'b', stack: stackAt('https://avatar.example', 57) });
+
+    expect(deployed).toBe(local);
+  });
+
+  it('should tell errors apart by name and frames', () => {
+    const stack = stackAt('http://localhost:5173', 42);
+
+    expect(fingerprintError({ name: 'RangeError', message: 'a', stack }))
+      .not.toBe(fingerprintError({ name: 'TypeError', message: 'a', stack }));
+    expect(fingerprintError({ name: 'TypeError', message: 'a', stack: stack.replace('AvatarModel', 'Room') }))
+      .not.toBe(fingerprintError({ name: 'TypeError', message: 'a', stack }));
+  });
+
+  it('should read Firefox stacks and fall back to the message without one', () => {
+    const firefox = (line: number) => `AvatarModel@http://localhost:5173/src/components/AvatarModel.tsx:${line}:17`;
+    expect(fingerprintError({ name: 'TypeError', message: 'a', stack: firefox(1) }))
+      .toBe(fingerprintError({ name: 'TypeError', message: 'b', stack: firefox(2) }));
+
+    expect(fingerprintError({ name: 'Error', message: 'Chunk 12 failed to load' }))
+      .toBe(fingerprintError({ name: 'Error', message: 'Chunk 345 failed to load' }));
+  });
+});
+
+describe('Error report API', () => {
+  const authConfig: AuthConfig = {
+    required: false,
+    jwtSecret: 'test-secret',
+    ephemeralSecret: false,
+    tokenTtlSeconds: 3600,
+    users: {},
+    apiKeys: { 'sam-key': 'sam', 'admin-key': 'admin' },
+    admins: ['admin'],
+  };
+
+  let now: number;
+  let app: express.Express;
+
+  beforeEach(() => {
+    now = NOON;
+    const repository = new SqliteErrorReportRepository(openDatabase({ path: ':memory:' }));
+    const collector = new ErrorReportCollector({ repository, samplesPerError: 2, clock: () => now });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', createAuthMiddleware(authConfig));
+    app.use('/api/admin', requireAdmin(authConfig));
+    app.use('/api', createErrorReportRouter({ collector, repository }));
+  });
+
+  const report = (errorId: string, line = 42, message = 'Boom') => ({
+    errorId,
+    timestamp: now - 1000,
+    error: { name: 'TypeError', message, stack: stackAt('http://localhost:5173', line) },
+    componentStack: '\n    at AvatarModel\n    at Room',
+    url: 'http://localhost:5173/',
+    userAgent: 'vitest',
+    retryCount: 0,
+    recoveryAttempted: false,
+  });
+
+  const send = (reports: object[], apiKey = 'sam-key') =>
+    request(app).post('/api/errors').set('X-API-Key', apiKey).send({ reports });
+
+  const listErrors = async (query = '') =>
+    (await request(app).get(`/api/admin/errors${query}`).set('X-API-Key', 'admin-key').expect(200)).body;
+
+  it('should group reports of the same error and count resent ones once', async () => {
+    const { body: first } = await send([report('e1', 42, 'Boom'), report('e2', 57, 'Bang')]).expect(200);
+    expect(first).toEqual({ accepted: 2, duplicates: 0 });
+
+    // The batch again, as after a lost response
+    const { body: resent } = await send([report('e2'), report('e3')]).expect(200);
+    expect(resent).toEqual({ accepted: 1, duplicates: 1 });
+
+    const groups = await listErrors();
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ name: 'TypeError', message: 'Boom', count: 3, lastSeen: NOON - 1000 });
+  });
+
+  it('should recognise a resent report after its sample was trimmed', async () => {
+    await send([report('e1'), report('e2'), report('e3')]).expect(200);
+
+    const { body: resent } = await send([report('e1')]).expect(200);
+    expect(resent).toEqual({ accepted: 0, duplicates: 1 });
+
+    const [group] = await listErrors();
+    expect(group.count).toBe(3);
+  });
+
+  it('should keep the latest reports of each error with who sent them', async () => {
+    await send([report('e1'), report('e2')]).expect(200);
+    now += 1000;
+    await send([report('e3')], 'admin-key').expect(200);
+
+    const [group] = await listErrors();
+    const { body: detail } = await request(app)
+      .get(`/api/admin/errors/${group.fingerprint}`)
+      .set('X-API-Key', 'admin-key')
+      .expect(200);
+
+    expect(detail.count).toBe(3);
+    expect(detail.occurrences.map((occurrence: { errorId: string }) => occurrence.errorId)).toEqual(['e3', 'e2']);
+    expect(detail.occurrences[0]).toMatchObject({
+      userId: 'admin',
+      componentStack: '\n    at AvatarModel\n    at Room',
+      receivedAt: NOON + 1000,
+      recoveryAttempted: false,
+    });
+  });
+
+  it('should list errors seen since a time, and forget deleted ones', async () => {
+    await send([report('e1')]).expect(200);
+    expect(await listErrors(`?since=${NOON}`)).toEqual([]);
+
+    const [group] = await listErrors('?limit=10');
+    await request(app).delete(`/api/admin/errors/${group.fingerprint}`).set('X-API-Key', 'admin-key').expect(204);
+    await request(app).delete(`/api/admin/errors/${group.fingerprint}`).set('X-API-Key', 'admin-key').expect(404);
+    expect(await listErrors()).toEqual([]);
+  });
+
+  it('should keep the query routes to admins and reject invalid batches', async () => {
+    await request(app).get('/api/admin/errors').set('X-API-Key', 'sam-key').expect(403);
+    await request(app).get('/api/admin/errors').expect(403);
+
+    await send([]).expect(400);
+    const { body } = await send([{ ...report('e1'), retryCount: -1 }]).expect(400);
+    expect(body.error).toBe('Invalid error reports');
+  });
+});
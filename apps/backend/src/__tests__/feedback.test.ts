@@ -0,0 +1,293 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuthConfig } from '../config/auth';
+import { loadFeedbackConfig } from '../config/feedback';
+import { createAuthMiddleware, requireAdmin } from '../auth';
+import { openDatabase } from '../db/database';
+import { SqliteFeedbackRepository } from '../repositories/sqliteFeedbackRepository';
+import { FeedbackAggregator, FeedbackIngestor } from '../feedback';
+import { createFeedbackRouter } from '../routes/feedback';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOON = Date.UTC(2025, 0, 15, 12);
+
+describe('loadFeedbackConfig', () => {
+  it('should read how long feedback is kept', () => {
+    expect(loadFeedbackConfig({})).toEqual({ enabled: true, retentionDays: 90 });
+    expect(loadFeedbackConfig({ FEEDBACK_ENABLED: 'false', FEEDBACK_RETENTION_DAYS: '30' }))
+      .toEqual({ enabled: false, retentionDays: 30 });
+    expect(() => loadFeedbackConfig({ FEEDBACK_RETENTION_DAYS: '-1' })).toThrow('FEEDBACK_RETENTION_DAYS');
+  });
+});
+
+describe('Feedback API', () => {
+  const authConfig: AuthConfig = {
+    required: false,
+    jwtSecret: 'test-secret',
+    ephemeralSecret: false,
+    tokenTtlSeconds: 3600,
+    users: {},
+    apiKeys: { 'sam-key': 'sam', 'kim-key': 'kim', 'admin-key': 'admin' },
+    admins: ['admin'],
+  };
+
+  let now: number;
+  let repository: SqliteFeedbackRepository;
+  let app: express.Express;
+
+  beforeEach(() => {
+    now = NOON;
+    repository = new SqliteFeedbackRepository(openDatabase({ path: ':memory:' }));
+    const clock = () => now;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', createAuthMiddleware(authConfig));
+    app.use('/api/admin', requireAdmin(authConfig));
+    app.use('/api', createFeedbackRouter({
+      ingestor: new FeedbackIngestor({ repository, retentionDays: 90, clock }),
+      aggregator: new FeedbackAggregator({ repository, clock }),
+      repository,
+    }));
+  });
+
+  const feedback = (id: string, rating: number, category = 'response_quality', timestamp = now - 1000) => ({
+    id,
+    sessionId: 'session-1',
+    timestamp,
+    type: 'explicit',
+    rating,
+    category,
+    content: `Rated ${rating}`,
+    context: {
+      conversationPhase: 'middle',
+      userEmotion: 'neutral',
+      responseTime: 800,
+      contextSize: 12,
+      activeFeatures: ['voice'],
+      userIntent: 'question',
+    },
+    metadata: {
+      source: 'user_action',
+      confidence: 1,
+      deviceType: 'desktop',
+      sessionDuration: 300,
+      messageCount: 8,
+      userEngagement: 0.7,
+    },
+  });
+
+  const interaction = (sessionId: string, engagementScore: number, errorCount = 0, timestamp = now - 1000) => ({
+    sessionId,
+    timestamp,
+    duration: 300,
+    messageCount: 8,
+    userInitiated: true,
+    completionRate: 1,
+    engagementScore,
+    satisfactionScore: 0.8,
+    technicalMetrics: {
+      averageResponseTime: 1000,
+      errorCount,
+      cacheHitRate: 0.5,
+      memoryUsage: 0,
+      processingTime: 200,
+      networkLatency: 50,
+    },
+    behavioralMetrics: {
+      messageLength: 40,
+      questionCount: 2,
+      emotionalExpressions: 0,
+      topicChanges: 1,
+      interruptions: 0,
+      clarificationRequests: 0,
+    },
+  });
+
+  const send = (batch: object, apiKey = 'sam-key') =>
+    request(app).post('/api/feedback').set('X-API-Key', apiKey).send(batch);
+
+  const analytics = async (query = '') =>
+    (await request(app).get(`/api/admin/feedback/analytics${query}`).set('X-API-Key', 'admin-key').expect(200)).body;
+
+  it('should store feedback once however often it is resent', async () => {
+    const { body: first } = await send({ feedback: [feedback('f1', 5), feedback('f2', 4)] }).expect(200);
+    expect(first).toEqual({ accepted: 2, duplicates: 0 });
+
+    const { body: resent } = await send({ feedback: [feedback('f2', 4), feedback('f3', 3)] }).expect(200);
+    expect(resent).toEqual({ accepted: 1, duplicates: 1 });
+
+    // Ids are chosen by each client, so another user's f1 is different feedback
+    await send({ feedback: [feedback('f1', 2)] }, 'kim-key').expect(200);
+
+    const { body: stored } = await request(app).get('/api/admin/feedback').set('X-API-Key', 'admin-key').expect(200);
+    expect(stored).toHaveLength(4);
+    expect(stored.filter((item: { userId: string }) => item.userId === 'kim')).toEqual([
+      expect.objectContaining({
+        id: 'f1',
+        rating: 2,
+        receivedAt: NOON,
+        context: expect.objectContaining({ activeFeatures: ['voice'] }),
+      }),
+    ]);
+  });
+
+  it('should keep the latest interaction snapshot of each session', async () => {
+    await send({ interactions: [interaction('s1', 0.4, 0, now - 2000)] }).expect(200);
+    await send({ interactions: [interaction('s1', 0.8, 0, now - 1000)] }).expect(200);
+    // A resent batch with an older snapshot
+    await send({ interactions: [interaction('s1', 0.4, 0, now - 2000)] }).expect(200);
+
+    const interactions = await repository.listInteractions({});
+    expect(interactions).toHaveLength(1);
+    expect(interactions[0]).toMatchObject({ userId: 'sam', sessionId: 's1', engagementScore: 0.8 });
+  });
+
+  it('should aggregate ratings, engagement and critical issues across users', async () => {
+    await send({
+      feedback: [
+        feedback('f1', 5, 'helpfulness'),
+        feedback('f2', 1, 'accuracy'),
+        feedback('f3', 4, 'helpfulness', now - DAY),
+      ],
+      interactions: [interaction('session-1', 0.25)],
+    }).expect(200);
+    await send({
+      feedback: [feedback('f1', 2, 'accuracy'), feedback('f2', 1, 'accuracy')],
+      interactions: [interaction('session-1', 0.75, 3)],
+    }, 'kim-key').expect(200);
+
+    const result = await analytics();
+
+    expect(result.summary).toMatchObject({
+      totalFeedback: 5,
+      users: 2,
+      sessions: 2,
+      averageRating: 13 / 5,
+      satisfactionRate: 2 / 5,
+      topCategories: [{ category: 'accuracy', count: 3 }, { category: 'helpfulness', count: 2 }],
+    });
+    expect(result.summary.responseDistribution[0]).toEqual({ rating: 1, count: 2 });
+    expect(result.trends.volumeTrend).toEqual([
+      { date: '2025-01-14', feedbackCount: 1 },
+      { date: '2025-01-15', feedbackCount: 4 },
+    ]);
+    expect(result.trends.engagementTrend).toEqual([{ date: '2025-01-15', engagementScore: 0.5 }]);
+    expect(result.insights.strengths).toEqual(['Helpful assistance']);
+    expect(result.insights.weaknesses).toEqual(['Accuracy issues']);
+    expect(result.insights.criticalIssues.map((issue: { issue: string; severity: string }) => [issue.issue, issue.severity]))
+      .toEqual([
+        ['Very low ratings detected', 'critical'],
+        ['Errors in many sessions', 'critical'],
+        ['Low ratings for accuracy', 'high'],
+      ]);
+    expect(result.performance.engagementLevel).toBe(0.5);
+  });
+
+  it('should compare each category with the week before', async () => {
+    await send({
+      feedback: [
+        feedback('old-1', 5, 'helpfulness', now - 10 * DAY),
+        feedback('old-2', 5, 'conversation_flow', now - 10 * DAY),
+        feedback('new-1', 3, 'helpfulness'),
+        feedback('new-2', 5, 'conversation_flow'),
+        feedback('new-3', 4, 'personality_fit'),
+      ],
+    }).expect(200);
+
+    const { trends, insights } = await analytics();
+
+    expect(trends.categoryTrends).toEqual(expect.arrayContaining([
+      { category: 'helpfulness', averageRating: 3, previousAverageRating: 5, trend: 'declining' },
+      { category: 'conversation_flow', averageRating: 5, previousAverageRating: 5, trend: 'stable' },
+      { category: 'personality_fit', averageRating: 4, previousAverageRating: null, trend: 'stable' },
+    ]));
+    expect(insights.criticalIssues).toEqual([
+      expect.objectContaining({ issue: 'Ratings for helpfulness are declining', severity: 'medium' }),
+    ]);
+
+    // Only feedback given in the range counts
+    expect((await analytics(`?since=${now - 2 * DAY}`)).summary.totalFeedback).toBe(3);
+  });
+
+  it('should recommend improvements and compare the overall score with its benchmarks', async () => {
+    await send({
+      feedback: [feedback('f1', 1, 'accuracy'), feedback('f2', 2, 'accuracy'), feedback('f3', 5, 'helpfulness')],
+      interactions: [interaction('session-1', 0.5)],
+    }).expect(200);
+
+    const { body: recommendations } = await request(app)
+      .get('/api/admin/feedback/recommendations')
+      .set('X-API-Key', 'admin-key')
+      .expect(200);
+    expect(recommendations.areas.map((area: { priority: string; category?: string }) => [area.priority, area.category]))
+      .toEqual([['critical', undefined], ['high', 'accuracy'], ['medium', 'user_experience']]);
+    expect(recommendations.areas[1]).toMatchObject({ effort: 'medium', timeline: '1-2 months' });
+    expect(recommendations.priorityActions).toEqual([
+      'Address Very low ratings detected (Priority: critical)',
+      'Improve Accuracy issues (Priority: high)',
+    ]);
+
+    const { body: benchmarks } = await request(app)
+      .get('/api/admin/feedback/benchmarks')
+      .set('X-API-Key', 'admin-key')
+      .expect(200);
+    // An average rating of 8/3 out of 5, and engagement of 0.5
+    const overallScore = (8 / 15 + 0.5) / 2;
+    expect(benchmarks.overallScore).toBeCloseTo(overallScore);
+    expect(benchmarks.ratios.target).toBeCloseTo(overallScore / 0.85);
+    expect(benchmarks.performanceGaps).toEqual([
+      'Below industry average by 23.3%',
+      'Below internal benchmark by 28.3%',
+      'Below target by 33.3%',
+    ]);
+    expect(benchmarks.optimizationSuggestions).toContain('Focus on user experience improvements');
+  });
+
+  it('should add up the validation results sessions reported', async () => {
+    const validated = (sessionId: string, validations: number, invalid: number, averageValidationTime: number) => ({
+      ...interaction(sessionId, 0.5),
+      validationMetrics: {
+        validations,
+        invalid,
+        averageValidationTime,
+        maxValidationTime: averageValidationTime * 2,
+        issues: [{ type: 'missing_required', count: invalid }, { type: 'out_of_range', count: 1 }],
+      },
+    });
+    await send({ interactions: [validated('s1', 30, 3, 2), validated('s2', 10, 1, 6), interaction('s3', 0.5)] })
+      .expect(200);
+
+    const { body } = await request(app).get('/api/admin/feedback/validation').set('X-API-Key', 'admin-key').expect(200);
+
+    expect(body).toMatchObject({
+      sessions: 2,
+      totalValidations: 40,
+      validCount: 36,
+      invalidCount: 4,
+      errorRate: 0.1,
+      averageValidationTime: 3,
+      maxValidationTime: 12,
+      commonIssues: [{ type: 'missing_required', count: 4 }, { type: 'out_of_range', count: 2 }],
+    });
+  });
+
+  it('should delete feedback past the retention period', async () => {
+    await send({ feedback: [feedback('f1', 4, 'helpfulness', now - 100 * DAY), feedback('f2', 4)] }).expect(200);
+
+    const stored = await repository.listFeedback({});
+    expect(stored.map(item => item.id)).toEqual(['f2']);
+  });
+
+  it('should keep the query routes to admins and reject invalid batches', async () => {
+    await request(app).get('/api/admin/feedback/analytics').set('X-API-Key', 'sam-key').expect(403);
+    await request(app).get('/api/admin/feedback/validation').set('X-API-Key', 'sam-key').expect(403);
+    await request(app).get('/api/admin/feedback').expect(403);
+
+    await send({}).expect(400);
+    await send({ feedback: [], interactions: [] }).expect(400);
+    const { body } = await send({ feedback: [feedback('f1', 6)] }).expect(400);
+    expect(body.error).toBe('Invalid feedback');
+  });
+});
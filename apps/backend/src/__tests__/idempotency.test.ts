@@ -0,0 +1,245 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AuthConfig } from '../config/auth';
+import { loadIdempotencyConfig } from '../config/idempotency';
+import { createAuthMiddleware } from '../auth';
+import { IdempotencyCache } from '../idempotency';
+import { RateLimiter } from '../rateLimit';
+import { ChatCompletionResult, CompletionStream, MockProvider } from '../providers';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { createChatRouter } from '../routes/chat';
+
+describe('loadIdempotencyConfig', () => {
+  it('should read the TTL and entry limit', () => {
+    expect(loadIdempotencyConfig({})).toEqual({ ttlSeconds: 600, maxEntries: 10000 });
+    expect(loadIdempotencyConfig({ IDEMPOTENCY_TTL_SECONDS: '60', IDEMPOTENCY_MAX_ENTRIES: '5' }))
+      .toEqual({ ttlSeconds: 60, maxEntries: 5 });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => loadIdempotencyConfig({ IDEMPOTENCY_TTL_SECONDS: '0' })).toThrow('IDEMPOTENCY_TTL_SECONDS');
+    expect(() => loadIdempotencyConfig({ IDEMPOTENCY_MAX_ENTRIES: '1.5' })).toThrow('IDEMPOTENCY_MAX_ENTRIES');
+  });
+});
+
+describe('Idempotent chat requests', () => {
+  const authConfig: AuthConfig = {
+    required: false,
+    jwtSecret: 'test-secret',
+    ephemeralSecret: false,
+    tokenTtlSeconds: 3600,
+    users: {},
+    apiKeys: { 'sam-key': 'sam', 'alex-key': 'alex' },
+    admins: [],
+  };
+
+  let now: number;
+  let provider: MockProvider;
+  let onUsage: ReturnType<typeof vi.fn>;
+  let cache: IdempotencyCache;
+  let app: express.Express;
+
+  beforeEach(() => {
+    now = Date.UTC(2025, 0, 1, 12);
+    provider = new MockProvider();
+    onUsage = vi.fn();
+    cache = new IdempotencyCache({ ttlSeconds: 60, maxEntries: 100 }, () => now);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', createAuthMiddleware(authConfig));
+    app.post(['/api/chat', '/api/chat/stream'], cache.middleware());
+    app.use('/api', createChatRouter({
+      provider,
+      conversations: new SqliteConversationRepository(openDatabase({ path: ':memory:' })),
+      contextWindow: 4096,
+      onUsage,
+      onError: req => cache.markFailed(req),
+      onCancel: req => cache.markFailed(req),
+    }));
+  });
+
+  const chat = (key: string, message = 'Hi', path = '/api/chat') =>
+    request(app).post(path).set('Idempotency-Key', key).send({ message });
+
+  it('should replay the first response to repeats instead of generating again', async () => {
+    const complete = vi.spyOn(provider, 'complete');
+
+    const first = await chat('key-1').expect(200);
+    const repeat = await chat('key-1').expect(200);
+
+    expect(repeat.body).toEqual(first.body);
+    expect(repeat.headers['idempotent-replayed']).toBe('true');
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(onUsage).toHaveBeenCalledTimes(1);
+
+    await chat('key-2').expect(200);
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('should hold repeats of a running request until its response is ready', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const original = provider.complete.bind(provider);
+    const complete = vi.spyOn(provider, 'complete').mockImplementation(async (completion): Promise<ChatCompletionResult> => {
+      await gate;
+      return original(completion);
+    });
+
+    // supertest only sends once then() is called
+    const first = chat('key-1').then(response => response);
+    // Let the first request reach the provider before repeating it
+    await vi.waitFor(() => expect(complete).toHaveBeenCalledTimes(1));
+    const repeat = chat('key-1').then(response => response);
+    release();
+
+    const [firstResponse, repeatResponse] = await Promise.all([first, repeat]);
+    expect(repeatResponse.status).toBe(200);
+    expect(repeatResponse.body).toEqual(firstResponse.body);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep generating for a client that timed out and answer its retry', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const original = provider.complete.bind(provider);
+    const complete = vi.spyOn(provider, 'complete').mockImplementation(async (completion): Promise<ChatCompletionResult> => {
+      await gate;
+      return original(completion);
+    });
+
+    await expect(chat('key-1').timeout(100).then(response => response)).rejects.toThrow('Timeout');
+    const retry = chat('key-1').then(response => response);
+    // Let the retry reach the cache while the first request is still running
+    await new Promise(resolve => setTimeout(resolve, 50));
+    release();
+
+    const response = await retry;
+    expect(response.status).toBe(200);
+    expect(response.headers['idempotent-replayed']).toBe('true');
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(complete.mock.calls[0][0].signal?.aborted).toBe(false);
+    expect(onUsage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel a keyed request through the cancel route only', async () => {
+    let cancelled!: AbortSignal;
+    vi.spyOn(provider, 'complete').mockImplementationOnce(completion => new Promise((_resolve, reject) => {
+      cancelled = completion.signal!;
+      cancelled.addEventListener('abort', () => reject(cancelled.reason));
+    }));
+
+    const first = chat('key-1').then(response => response);
+    await vi.waitFor(() => expect(cancelled).toBeDefined());
+
+    await request(app).delete('/api/chat/requests/key-1').set('X-API-Key', 'alex-key').expect(404);
+    await request(app).delete('/api/chat/requests/key-1').expect(204);
+    expect(cancelled.aborted).toBe(true);
+    expect((await first).body).toEqual({ error: 'Chat request cancelled' });
+    await request(app).delete('/api/chat/requests/key-1').expect(404);
+
+    // Nothing kept, so the message can be sent again under its key
+    const again = await chat('key-1').expect(200);
+    expect(again.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('should replay streamed responses event for event', async () => {
+    const stream = vi.spyOn(provider, 'stream');
+
+    const first = await chat('key-1', 'Hi', '/api/chat/stream').expect(200);
+    const repeat = await chat('key-1', 'Hi', '/api/chat/stream').expect(200);
+
+    expect(repeat.headers['content-type']).toContain('text/event-stream');
+    expect(repeat.text).toBe(first.text);
+    expect(repeat.text).toContain('event: done');
+    expect(stream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run failed requests again', async () => {
+    const complete = vi.spyOn(provider, 'complete').mockRejectedValueOnce(new Error('Upstream timeout'));
+
+    await chat('key-1').expect(500);
+    await chat('key-1').expect(200);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run streams that failed midway again', async () => {
+    const stream = vi.spyOn(provider, 'stream').mockImplementationOnce((): CompletionStream => ({
+      toolCalls: [],
+      async *[Symbol.asyncIterator]() {
+        yield 'Hel';
+        throw new Error('Stream interrupted');
+      },
+    }));
+
+    const failed = await chat('key-1', 'Hi', '/api/chat/stream').expect(200);
+    const retried = await chat('key-1', 'Hi', '/api/chat/stream').expect(200);
+
+    expect(failed.text).toContain('event: error');
+    expect(retried.headers['idempotent-replayed']).toBeUndefined();
+    expect(retried.text).toContain('event: done');
+    expect(stream).toHaveBeenCalledTimes(2);
+  });
+
+  it('should answer replays before the rate limiter', async () => {
+    const limiter = new RateLimiter({
+      enabled: true,
+      defaults: { burst: 1, refillPerMinute: 1, dailyTokenQuota: 100000 },
+      apiKeys: {},
+    }, () => now);
+    const limited = express();
+    limited.use(express.json());
+    limited.post('/api/chat', cache.middleware(), limiter.middleware());
+    limited.use('/api', createChatRouter({
+      provider,
+      conversations: new SqliteConversationRepository(openDatabase({ path: ':memory:' })),
+      contextWindow: 4096,
+    }));
+    const send = (key: string) => request(limited).post('/api/chat').set('Idempotency-Key', key).send({ message: 'Hi' });
+
+    await send('key-1').expect(200);
+    const replay = await send('key-1').expect(200);
+
+    expect(replay.headers['idempotent-replayed']).toBe('true');
+    await send('key-2').expect(429);
+  });
+
+  it('should forget responses once they expire', async () => {
+    const complete = vi.spyOn(provider, 'complete');
+
+    await chat('key-1').expect(200);
+    now += 61 * 1000;
+    const later = await chat('key-1').expect(200);
+
+    expect(later.headers['idempotent-replayed']).toBeUndefined();
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse a key reused for a different message, and invalid keys', async () => {
+    await chat('key-1', 'Hi').expect(200);
+
+    const reused = await chat('key-1', 'How are you?').expect(422);
+    expect(reused.body.error).toBe('Idempotency-Key was already used for a different request');
+
+    await chat('not a key').expect(400);
+  });
+
+  it('should keep keys apart per user and per route', async () => {
+    const complete = vi.spyOn(provider, 'complete');
+
+    await chat('key-1').set('X-API-Key', 'sam-key').expect(200);
+    await chat('key-1').set('X-API-Key', 'alex-key').expect(200);
+    await chat('key-1', 'Hi', '/api/chat/stream').set('X-API-Key', 'sam-key').expect(200);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(cache.size).toBe(3);
+  });
+});
@@ -1,6 +1,11 @@
 import request from 'supertest';
 import express from 'express';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  composeSystemPrompt,
+  DEFAULT_AVATAR_PERSONALITY,
+  DEFAULT_CONVERSATION_GUIDELINES,
+} from '../personality';
 
 // Mock OpenAI
 const mockOpenAI = {
@@ -72,7 +77,7 @@ describe('Backend API', () => {
         messages: [
           {
             role: 'system',
-            content: 'You are a helpful AI assistant in a 3D virtual room. Keep responses concise and friendly.'
+            content: composeSystemPrompt(DEFAULT_AVATAR_PERSONALITY, DEFAULT_CONVERSATION_GUIDELINES)
           },
           {
             role: 'user',
@@ -81,7 +86,7 @@ describe('Backend API', () => {
         ],
         max_tokens: 150,
         temperature: 0.7,
-      });
+      }, { signal: expect.any(AbortSignal) });
     });
 
     it('should return 400 when message is missing', async () => {
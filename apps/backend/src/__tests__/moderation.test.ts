@@ -0,0 +1,244 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  KeywordClassifier,
+  ModerationContext,
+  ModerationEvent,
+  ModerationPipeline,
+} from '../moderation';
+import { DEFAULT_AVATAR_PERSONALITY, DEFAULT_CONVERSATION_GUIDELINES } from '../personality';
+import { MockProvider } from '../providers';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { createChatRouter } from '../routes/chat';
+
+const context: ModerationContext = {
+  boundaries: DEFAULT_AVATAR_PERSONALITY.boundaries,
+  guidelines: DEFAULT_CONVERSATION_GUIDELINES,
+  userId: 'user-1',
+};
+
+const refusingGuidelines = {
+  ...DEFAULT_CONVERSATION_GUIDELINES,
+  responseRules: [{ condition: 'user_asks_prohibited_topic', action: 'refuse_and_change_topic', priority: 1 }],
+};
+
+async function collect(stream: AsyncGenerator<string, string | undefined>) {
+  const chunks: string[] = [];
+  let next = await stream.next();
+  while (!next.done) {
+    chunks.push(next.value);
+    next = await stream.next();
+  }
+  return { chunks, replacement: next.value };
+}
+
+describe('KeywordClassifier', () => {
+  const classifier = new KeywordClassifier({ patterns: { 'legal advice': [/\bsmall claims\b/i] } });
+  const topics = DEFAULT_AVATAR_PERSONALITY.boundaries.prohibitedTopics;
+
+  it('should flag messages matching topic patterns', async () => {
+    expect(await classifier.classify('Should I sue my landlord?', topics)).toEqual({
+      flagged: true,
+      topics: ['legal advice'],
+    });
+    expect((await classifier.classify('Should I buy bitcoin right now?', topics)).topics)
+      .toEqual(['financial investment advice']);
+    expect((await classifier.classify('Can I win in small claims?', topics)).flagged).toBe(true);
+  });
+
+  it('should match topics without patterns by their wording', async () => {
+    expect((await classifier.classify('Tell me about Tax   Evasion', ['tax evasion'])).topics).toEqual(['tax evasion']);
+  });
+
+  it('should let ordinary messages through', async () => {
+    expect(await classifier.classify('What is your favorite planet?', topics)).toEqual({ flagged: false, topics: [] });
+  });
+
+  it('should only check the given topics', async () => {
+    expect((await classifier.classify('Should I sue them?', ['hate speech'])).flagged).toBe(false);
+  });
+});
+
+describe('ModerationPipeline', () => {
+  let events: ModerationEvent[];
+  let now: number;
+  let pipeline: ModerationPipeline;
+
+  beforeEach(() => {
+    events = [];
+    now = Date.UTC(2025, 0, 1);
+    pipeline = new ModerationPipeline(new KeywordClassifier(), { record: event => events.push(event) }, () => now);
+  });
+
+  it('should reject messages over the maximum length', async () => {
+    const verdict = await pipeline.screenInput('a'.repeat(2001), context);
+
+    expect(verdict).toEqual({
+      action: 'reject',
+      error: 'Message is too long',
+      details: ['Messages are limited to 2000 characters'],
+    });
+    expect(events[0]).toMatchObject({ direction: 'input', action: 'reject', reason: 'message_too_long' });
+  });
+
+  it('should redirect prohibited topics per the default response rules', async () => {
+    const verdict = await pipeline.screenInput('Should I sue my neighbor?', context);
+
+    expect(verdict.action).toBe('redirect');
+    if (verdict.action !== 'redirect') return;
+    expect(verdict.instruction).toContain('legal advice');
+    expect(verdict.instruction).toContain('politely redirect with explanation');
+  });
+
+  it('should refuse when the rules say so, or when there is no rule', async () => {
+    const refused = await pipeline.screenInput('Should I sue?', { ...context, guidelines: refusingGuidelines });
+    expect(refused).toMatchObject({ action: 'refuse', topics: ['legal advice'] });
+
+    const noRules = { ...DEFAULT_CONVERSATION_GUIDELINES, responseRules: [] };
+    expect((await pipeline.screenInput('Should I sue?', { ...context, guidelines: noRules })).action).toBe('refuse');
+  });
+
+  it('should firmly refuse users who keep asking', async () => {
+    await pipeline.screenInput('Should I sue?', context);
+    now += 60000;
+    await pipeline.screenInput('Any legal advice then?', context);
+    now += 60000;
+
+    const verdict = await pipeline.screenInput('Should I sue or not?', context);
+
+    expect(verdict.action).toBe('refuse');
+    expect(events[2].reason).toBe('persistent_prohibited_topic');
+
+    // Other users are unaffected
+    expect((await pipeline.screenInput('Should I sue?', { ...context, userId: 'user-2' })).action).toBe('redirect');
+  });
+
+  it('should log events without the moderated text', async () => {
+    await pipeline.screenInput('Should I sue my neighbor?', { ...context, conversationId: 'conv-1' });
+
+    expect(events).toEqual([{
+      timestamp: '2025-01-01T00:00:00.000Z',
+      direction: 'input',
+      action: 'redirect',
+      reason: 'prohibited_topic',
+      topics: ['legal advice'],
+      classifier: 'keyword',
+      userId: 'user-1',
+      conversationId: 'conv-1',
+      textLength: 25,
+    }]);
+  });
+
+  it('should replace flagged responses and truncate long ones', async () => {
+    const replaced = await pipeline.screenOutput('You should buy bitcoin today.', context);
+    expect(replaced.action).toBe('replace');
+    expect(replaced.response).not.toContain('bitcoin');
+
+    const long = `${'This sentence is fine. '.repeat(100)}`;
+    const truncated = await pipeline.screenOutput(long, context);
+    expect(truncated.action).toBe('truncate');
+    expect(truncated.response.length).toBeLessThanOrEqual(2000);
+    expect(truncated.response.endsWith('fine.')).toBe(true);
+
+    expect(await pipeline.screenOutput('Hello!', context)).toEqual({ action: 'allow', response: 'Hello!' });
+  });
+
+  it('should release streamed responses a sentence at a time', async () => {
+    async function* tokens() {
+      yield* ['Hello ', 'there. ', 'How ', 'are ', 'you?'];
+    }
+
+    expect(await collect(pipeline.screenStream(tokens(), context))).toEqual({
+      chunks: ['Hello there. ', 'How are you?'],
+      replacement: undefined,
+    });
+  });
+
+  it('should stop a stream at the first flagged sentence', async () => {
+    const upstream = vi.fn();
+    async function* tokens() {
+      try {
+        yield* ['Sure. ', 'You should ', 'buy bitcoin. ', 'Then more.'];
+      } finally {
+        upstream();
+      }
+    }
+
+    const { chunks, replacement } = await collect(pipeline.screenStream(tokens(), context));
+
+    expect(chunks).toEqual(['Sure. ']);
+    expect(replacement).toMatch(/something else/);
+    expect(upstream).toHaveBeenCalled();
+  });
+});
+
+describe('Chat API moderation', () => {
+  const createApp = (provider: MockProvider, onUsage?: () => void) => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createChatRouter({
+      provider,
+      conversations: new SqliteConversationRepository(openDatabase({ path: ':memory:' })),
+      contextWindow: 4096,
+      onUsage,
+      moderation: new ModerationPipeline(new KeywordClassifier(), { record: () => {} }),
+    }));
+    return app;
+  };
+
+  it('should answer refused messages without calling the model', async () => {
+    const provider = new MockProvider();
+    const complete = vi.spyOn(provider, 'complete');
+
+    const response = await request(createApp(provider))
+      .post('/api/chat')
+      .send({ message: 'Should I sue my boss?', guidelines: refusingGuidelines })
+      .expect(200);
+
+    expect(response.body.response).toContain("can't help with");
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it('should tell the model to redirect', async () => {
+    const provider = new MockProvider();
+    const complete = vi.spyOn(provider, 'complete');
+
+    await request(createApp(provider)).post('/api/chat').send({ message: 'Should I sue my boss?' }).expect(200);
+
+    const [{ messages }] = complete.mock.calls[0];
+    expect(messages[0].content).toContain('## Moderation');
+  });
+
+  it('should reject messages over the personality maximum length', async () => {
+    const response = await request(createApp(new MockProvider()))
+      .post('/api/chat')
+      .send({ message: 'a'.repeat(2001) })
+      .expect(400);
+
+    expect(response.body.error).toBe('Message is too long');
+  });
+
+  it('should replace flagged streamed responses', async () => {
+    const provider = new MockProvider({
+      script: { rules: [], fallback: 'Good question. You should buy bitcoin now. It will go up.' },
+    });
+
+    const onUsage = vi.fn();
+
+    const response = await request(createApp(provider, onUsage))
+      .post('/api/chat/stream')
+      .send({ message: 'What now?' })
+      .expect(200);
+
+    expect(response.text).toContain('event: token\ndata: {"content":"Good question. "}');
+    expect(response.text).not.toContain('bitcoin');
+    expect(response.text).toContain("I'd rather not go into that.");
+
+    // The stream ended before the provider counted it, so it is counted here
+    const [, usage] = onUsage.mock.calls[0];
+    expect(usage.promptTokens).toBeGreaterThan(0);
+    expect(usage.completionTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,185 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  InstrumentedProvider,
+  JsonLogger,
+  MetricsRegistry,
+  ServerMetrics,
+  observeRequests,
+  requestContext,
+} from '../observability';
+import { MockProvider } from '../providers';
+import { loadObservabilityConfig } from '../config/observability';
+
+// Mock OpenAI
+const mockOpenAI = {
+  chat: {
+    completions: {
+      create: vi.fn(),
+    },
+  },
+};
+
+vi.mock('openai', () => ({
+  default: vi.fn(() => mockOpenAI),
+}));
+
+const FIXED_TIME = new Date('2025-01-01T00:00:00.000Z');
+
+const createLogger = (level: 'debug' | 'info' | 'warn' = 'info') => {
+  const lines: string[] = [];
+  const logger = new JsonLogger({ level, write: line => lines.push(line), clock: () => FIXED_TIME });
+  return { logger, entries: () => lines.map(line => JSON.parse(line)) };
+};
+
+describe('JsonLogger', () => {
+  it('should write one JSON object per line with the fields of the logger and the call', () => {
+    const { logger, entries } = createLogger();
+
+    logger.child({ component: 'tts' }).warn('Engine failed', { error: new Error('espeak-ng crashed') });
+
+    expect(entries()).toEqual([{
+      time: '2025-01-01T00:00:00.000Z',
+      level: 'warn',
+      msg: 'Engine failed',
+      component: 'tts',
+      error: expect.objectContaining({ name: 'Error', message: 'espeak-ng crashed' }),
+    }]);
+  });
+
+  it('should skip lines below its level', () => {
+    const { logger, entries } = createLogger('warn');
+
+    logger.debug('noise');
+    logger.info('noise');
+    logger.error('signal');
+
+    expect(entries().map(entry => entry.msg)).toEqual(['signal']);
+  });
+
+  it('should refuse unknown levels in the configuration', () => {
+    expect(loadObservabilityConfig({ LOG_LEVEL: 'DEBUG' }).logLevel).toBe('debug');
+    expect(() => loadObservabilityConfig({ LOG_LEVEL: 'chatty' })).toThrow('Unknown LOG_LEVEL');
+  });
+});
+
+describe('MetricsRegistry', () => {
+  it('should render counters and cumulative histogram buckets in the Prometheus format', () => {
+    const registry = new MetricsRegistry();
+    const errors = registry.counter({ name: 'errors_total', help: 'Errors', labelNames: ['route'] });
+    const latency = registry.histogram({ name: 'latency_seconds', help: 'Latency', labelNames: [], buckets: [0.1, 1] });
+
+    errors.inc({ route: '/a "quoted"\n' });
+    errors.inc({ route: '/a "quoted"\n' }, 2);
+    latency.observe({}, 0.05);
+    latency.observe({}, 0.5);
+    latency.observe({}, 3);
+
+    expect(registry.render()).toBe([
+      '# HELP errors_total Errors',
+      '# TYPE errors_total counter',
+      'errors_total{route="/a \\"quoted\\"\\n"} 3',
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{le="0.1"} 1',
+      'latency_seconds_bucket{le="1"} 2',
+      'latency_seconds_bucket{le="+Inf"} 3',
+      'latency_seconds_sum 3.55',
+      'latency_seconds_count 3',
+      '',
+    ].join('\n'));
+  });
+
+  it('should refuse a metric name twice', () => {
+    const registry = new MetricsRegistry();
+    registry.counter({ name: 'requests_total', help: 'Requests', labelNames: [] });
+
+    expect(() => registry.counter({ name: 'requests_total', help: 'Again', labelNames: [] })).toThrow('already registered');
+  });
+});
+
+describe('InstrumentedProvider', () => {
+  it('should time completions and streams by outcome', async () => {
+    const metrics = new ServerMetrics();
+    const provider = new InstrumentedProvider(new MockProvider(), metrics);
+    const request = { messages: [{ role: 'user' as const, content: 'Hello' }], maxTokens: 50, temperature: 0 };
+    const labels = { provider: 'mock', model: provider.model };
+
+    await provider.complete(request);
+    for await (const token of provider.stream(request)) {
+      expect(typeof token).toBe('string');
+    }
+
+    expect(metrics.providerDuration.get({ ...labels, operation: 'complete', outcome: 'success' }).count).toBe(1);
+    expect(metrics.providerDuration.get({ ...labels, operation: 'stream', outcome: 'success' }).count).toBe(1);
+  });
+});
+
+describe('Request observation', () => {
+  it('should log each request with its id, route and status', async () => {
+    const { logger, entries } = createLogger();
+    const metrics = new ServerMetrics();
+    const app = express();
+    app.use(requestContext());
+    app.use(observeRequests({ logger, metrics }));
+    const router = express.Router();
+    router.get('/items/:id', (req, res) => {
+      logger.info('Loading item');
+      res.status(404).json({ error: 'Item not found' });
+    });
+    app.use('/api', router);
+
+    const response = await request(app).get('/api/items/7').set('X-Request-Id', 'req-123').expect(404);
+    await request(app).get('/nowhere').expect(404);
+
+    expect(response.headers['x-request-id']).toBe('req-123');
+    expect(entries()[0]).toMatchObject({ msg: 'Loading item', requestId: 'req-123' });
+    expect(entries()[1]).toMatchObject({
+      msg: 'Request completed',
+      requestId: 'req-123',
+      method: 'GET',
+      route: '/api/items/:id',
+      status: 404,
+    });
+    expect(metrics.httpErrors.get({ method: 'GET', route: '/api/items/:id', status: '404' })).toBe(1);
+    expect(metrics.httpErrors.get({ method: 'GET', route: 'unmatched', status: '404' })).toBe(1);
+  });
+
+  it('should replace request ids it cannot use', async () => {
+    const app = express();
+    app.use(requestContext());
+    app.get('/', (req, res) => {
+      res.json({ requestId: req.requestId });
+    });
+
+    const response = await request(app).get('/').set('X-Request-Id', 'not an id; DROP TABLE').expect(200);
+
+    expect(response.body.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.headers['x-request-id']).toBe(response.body.requestId);
+  });
+});
+
+describe('GET /metrics', () => {
+  let app: express.Application;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.OPENAI_API_KEY = 'test-api-key';
+
+    const appModule = await import('../index');
+    app = appModule.default || appModule;
+  });
+
+  it('should serve the metrics in the Prometheus text format without authentication', async () => {
+    await request(app).get('/health').expect(200);
+
+    const response = await request(app).get('/metrics').expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0.0.4/);
+    expect(response.text).toContain('# TYPE http_request_duration_seconds histogram');
+    expect(response.text).toMatch(/http_request_duration_seconds_count\{method="GET",route="\/health",status="200"\} \d+/);
+    expect(response.text).toContain('# TYPE llm_tokens_total counter');
+    expect(response.text).toContain('# TYPE moderation_events_total counter');
+  });
+});
@@ -73,6 +73,31 @@ describe('Performance Tests', () => {
       const responseTimeVariance = performanceResult.maxResponseTime - performanceResult.minResponseTime;
       expect(responseTimeVariance).toBeLessThan(1000);
     });
+
+    it('should measure the same requests on the server', async () => {
+      const chatRoute = { method: 'POST', route: '/api/chat', status: '200' };
+      const before = await apiTestUtils.metrics.scrape(app);
+
+      const performanceResult = await apiTestUtils.performance.runPerformanceTest(app, mockOpenAI, {
+        requestCount: 10,
+      });
+
+      const after = await apiTestUtils.metrics.scrape(app);
+      const delta = (name: string, labels: Record<string, string> = {}) =>
+        apiTestUtils.metrics.total(after, name, labels) - apiTestUtils.metrics.total(before, name, labels);
+
+      // Every request was timed, and the server's share of the time is within what the client saw
+      expect(delta('http_request_duration_seconds_count', chatRoute)).toBe(10);
+      const serverAverageMs = delta('http_request_duration_seconds_sum', chatRoute) / 10 * 1000;
+      expect(serverAverageMs).toBeLessThanOrEqual(performanceResult.averageResponseTime);
+      expect(serverAverageMs).toBeLessThan(1000);
+
+      // One provider call each, and the tokens the mock reported
+      expect(delta('llm_request_duration_seconds_count', { operation: 'complete', outcome: 'success' })).toBe(10);
+      expect(delta('llm_tokens_total', { type: 'prompt' })).toBe(10 * 20);
+      expect(delta('llm_tokens_total', { type: 'completion' })).toBe(10 * 15);
+      expect(delta('http_request_errors_total', { route: '/api/chat' })).toBe(0);
+    });
   });
 
   describe('Concurrency Performance', () => {
@@ -228,12 +253,22 @@ describe('Performance Tests', () => {
     });
 
     it('should recover gracefully from error conditions', async () => {
+      const errorsBefore = await apiTestUtils.metrics.scrape(app);
+
       // First, cause some errors
       const errorRequests = Array.from({ length: 5 }, () => 
         apiTestUtils.testChatEndpoint.missingMessage(app)
       );
       
       await Promise.all(errorRequests);
+
+      // The server counted them against the route
+      const errorsAfter = await apiTestUtils.metrics.scrape(app);
+      const badRequests = { route: '/api/chat', status: '400' };
+      expect(
+        apiTestUtils.metrics.total(errorsAfter, 'http_request_errors_total', badRequests) -
+        apiTestUtils.metrics.total(errorsBefore, 'http_request_errors_total', badRequests)
+      ).toBe(5);
       
       // Then test normal operation
       const normalRequests = Array.from({ length: 5 }, () => 
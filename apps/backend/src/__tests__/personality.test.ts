@@ -0,0 +1,157 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  composeSystemPrompt,
+  resolvePersonality,
+  DEFAULT_AVATAR_PERSONALITY,
+  DEFAULT_CONVERSATION_GUIDELINES,
+  AvatarPersonality,
+} from '../personality';
+
+// Mock OpenAI
+const mockOpenAI = {
+  chat: {
+    completions: {
+      create: vi.fn(),
+    },
+  },
+};
+
+vi.mock('openai', () => ({
+  default: vi.fn(() => mockOpenAI),
+}));
+
+const withTraits = (traits: Partial<AvatarPersonality['traits']>): AvatarPersonality => ({
+  ...DEFAULT_AVATAR_PERSONALITY,
+  traits: { ...DEFAULT_AVATAR_PERSONALITY.traits, ...traits },
+});
+
+describe('composeSystemPrompt', () => {
+  const prompt = composeSystemPrompt(DEFAULT_AVATAR_PERSONALITY, DEFAULT_CONVERSATION_GUIDELINES);
+
+  it('should describe traits, communication patterns and response styles', () => {
+    expect(prompt).toContain('deeply empathetic');
+    expect(prompt).toContain('Use a casual but respectful tone.');
+    expect(prompt).toContain('Use gentle, kind humor');
+    expect(prompt).toContain('Greeting the user: be warm and welcoming');
+    expect(prompt).toContain('- educational:');
+  });
+
+  it('should include boundaries and prioritised response rules', () => {
+    expect(prompt).toContain('Do not engage with these topics: personal medical diagnosis, legal advice');
+    expect(prompt).toContain('Keep every reply under 2000 characters.');
+    expect(prompt).toContain('- Always maintain a respectful and supportive tone');
+
+    const prohibited = prompt.indexOf('- If user asks prohibited topic: politely redirect with explanation.');
+    const confused = prompt.indexOf('- If user seems confused:');
+    expect(prohibited).toBeGreaterThan(-1);
+    expect(prohibited).toBeLessThan(confused);
+  });
+
+  it('should change when the personality changes', () => {
+    const formal = composeSystemPrompt(withTraits({ formality: 0.9, humor: 'none' }), DEFAULT_CONVERSATION_GUIDELINES);
+
+    expect(formal).not.toBe(prompt);
+    expect(formal).toContain('Use a formal, polished tone.');
+    expect(formal).toContain('Do not use humor.');
+  });
+});
+
+describe('resolvePersonality', () => {
+  it('should use the default preset when nothing is selected', () => {
+    const resolved = resolvePersonality({});
+
+    expect(resolved).toEqual({
+      ok: true,
+      personality: DEFAULT_AVATAR_PERSONALITY,
+      guidelines: DEFAULT_CONVERSATION_GUIDELINES,
+    });
+  });
+
+  it('should merge a partial inline personality over the preset', () => {
+    const resolved = resolvePersonality({ personality: { traits: { humor: 'witty' } } });
+
+    expect(resolved.ok && resolved.personality.traits).toEqual({
+      ...DEFAULT_AVATAR_PERSONALITY.traits,
+      humor: 'witty',
+    });
+  });
+
+  it('should reject unknown ids and invalid personalities', () => {
+    expect(resolvePersonality({ personalityId: 'pirate' })).toEqual({
+      ok: false,
+      error: 'Unknown personality: pirate',
+    });
+
+    const invalid = resolvePersonality({
+      personality: { traits: { empathy: 2 }, boundaries: { maxMessageLength: -1 } },
+    });
+    expect(invalid).toEqual({
+      ok: false,
+      error: 'Invalid personality',
+      details: [
+        'traits.empathy must be a number between 0 and 1',
+        'boundaries.maxMessageLength must be a positive integer',
+      ],
+    });
+  });
+});
+
+describe('Chat API personality selection', () => {
+  let app: express.Application;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.OPENAI_API_KEY = 'test-api-key';
+    mockOpenAI.chat.completions.create.mockResolvedValue({
+      choices: [{ message: { content: 'Ahoy!' } }],
+    });
+
+    const appModule = await import('../index');
+    app = appModule.default || appModule;
+  });
+
+  const sentSystemPrompt = () => mockOpenAI.chat.completions.create.mock.calls[0][0].messages[0].content;
+
+  it('should compose the system prompt from a personality id', async () => {
+    await request(app)
+      .post('/api/chat')
+      .send({ message: 'Hello', personalityId: 'default' })
+      .expect(200);
+
+    expect(sentSystemPrompt()).toBe(
+      composeSystemPrompt(DEFAULT_AVATAR_PERSONALITY, DEFAULT_CONVERSATION_GUIDELINES)
+    );
+  });
+
+  it('should compose the system prompt from an inline personality', async () => {
+    await request(app)
+      .post('/api/chat')
+      .send({
+        message: 'Hello',
+        personality: { traits: { formality: 0.9 }, boundaries: { maxMessageLength: 200 } },
+      })
+      .expect(200);
+
+    expect(sentSystemPrompt()).toContain('Use a formal, polished tone.');
+    expect(sentSystemPrompt()).toContain('Keep every reply under 200 characters.');
+  });
+
+  it('should reject unknown or invalid personalities with a 400', async () => {
+    const unknown = await request(app)
+      .post('/api/chat')
+      .send({ message: 'Hello', personalityId: 'pirate' })
+      .expect(400);
+    expect(unknown.body).toEqual({ error: 'Unknown personality: pirate' });
+
+    const invalid = await request(app)
+      .post('/api/chat/stream')
+      .send({ message: 'Hello', personality: { traits: { humor: 'dark' } } })
+      .expect(400);
+    expect(invalid.body.error).toBe('Invalid personality');
+    expect(invalid.body.details).toContain('traits.humor must be one of none, gentle, witty, playful');
+
+    expect(mockOpenAI.chat.completions.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,187 @@
+import request from 'supertest';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { loadLLMConfig } from '../config/llm';
+import {
+  createProvider,
+  MockProvider,
+  OpenAIProvider,
+  DEFAULT_MOCK_SCRIPT,
+  loadMockScript,
+  ChatCompletionRequest,
+} from '../providers';
+
+const createRequest = (message: string): ChatCompletionRequest => ({
+  messages: [
+    { role: 'system', content: 'You are a test assistant.' },
+    { role: 'user', content: message },
+  ],
+  maxTokens: 150,
+  temperature: 0.7,
+});
+
+const collect = async (tokens: AsyncIterable<string>) => {
+  const collected: string[] = [];
+  for await (const token of tokens) {
+    collected.push(token);
+  }
+  return collected;
+};
+
+describe('LLM configuration', () => {
+  it('should default to the OpenAI provider', () => {
+    expect(loadLLMConfig({}).provider).toBe('openai');
+  });
+
+  it('should read provider settings from the environment', () => {
+    const config = loadLLMConfig({
+      LLM_PROVIDER: 'openai-compatible',
+      LLM_MODEL: 'qwen2',
+      LLM_BASE_URL: 'http://localhost:11434/v1',
+      LLM_MOCK_DELAY_MS: '25',
+    });
+
+    expect(config).toMatchObject({
+      provider: 'openai-compatible',
+      model: 'qwen2',
+      baseURL: 'http://localhost:11434/v1',
+      mockTokenDelayMs: 25,
+    });
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => loadLLMConfig({ LLM_PROVIDER: 'carrier-pigeon' })).toThrow('Unknown LLM_PROVIDER');
+  });
+});
+
+describe('createProvider', () => {
+  it('should create the provider named in the configuration', () => {
+    expect(createProvider(loadLLMConfig({ LLM_PROVIDER: 'mock' }))).toBeInstanceOf(MockProvider);
+
+    const compatible = createProvider(loadLLMConfig({ LLM_PROVIDER: 'openai-compatible' }));
+    expect(compatible).toBeInstanceOf(OpenAIProvider);
+    expect(compatible.name).toBe('openai-compatible');
+    expect(compatible.model).toBe('llama3');
+    expect(compatible.getConfigurationError()).toBeNull();
+  });
+
+  it('should give the mock provider the configured model', () => {
+    expect(createProvider(loadLLMConfig({ LLM_PROVIDER: 'mock' })).model).toBe('mock-scripted');
+    expect(createProvider(loadLLMConfig({ LLM_PROVIDER: 'mock', LLM_MODEL: 'mock-tools' })).model).toBe('mock-tools');
+  });
+
+  it('should report a missing OpenAI key', () => {
+    const original = process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+
+    try {
+      const provider = createProvider(loadLLMConfig({ LLM_PROVIDER: 'openai' }));
+      expect(provider.getConfigurationError()).toBe('OpenAI API key not configured');
+    } finally {
+      process.env.OPENAI_API_KEY = original;
+    }
+  });
+});
+
+describe('MockProvider', () => {
+  const provider = new MockProvider();
+
+  it('should answer from the script deterministically', async () => {
+    const first = await provider.complete(createRequest('Hello there'));
+    const second = await provider.complete(createRequest('Hello there'));
+
+    expect(first.content).toBe(DEFAULT_MOCK_SCRIPT.rules[0].response);
+    expect(second.content).toBe(first.content);
+    expect(first.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('should fall back to echoing the message', async () => {
+    const result = await provider.complete(createRequest('Tell me about rockets'));
+
+    expect(result.content).toContain('Tell me about rockets');
+  });
+
+  it('should echo replacement patterns verbatim', async () => {
+    const result = await provider.complete(createRequest("it costs $& and $' and $` more"));
+
+    expect(result.content).toContain("it costs $& and $' and $` more");
+  });
+
+  it('should stream the same reply it completes', async () => {
+    const tokens = await collect(provider.stream(createRequest('how are you?')));
+    const completion = await provider.complete(createRequest('how are you?'));
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(completion.content);
+  });
+
+  describe('script files', () => {
+    let scriptDir: string;
+
+    beforeAll(() => {
+      scriptDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-script-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(scriptDir, { recursive: true, force: true });
+    });
+
+    it('should load a custom script', async () => {
+      const scriptPath = path.join(scriptDir, 'script.json');
+      fs.writeFileSync(scriptPath, JSON.stringify({
+        rules: [{ match: 'ping', response: 'pong' }],
+        fallback: 'unknown',
+      }));
+
+      const scripted = new MockProvider({ script: loadMockScript(scriptPath) });
+
+      expect((await scripted.complete(createRequest('ping'))).content).toBe('pong');
+      expect((await scripted.complete(createRequest('other'))).content).toBe('unknown');
+    });
+
+    it('should reject malformed scripts', () => {
+      const scriptPath = path.join(scriptDir, 'broken.json');
+      fs.writeFileSync(scriptPath, JSON.stringify({ rules: 'nope' }));
+
+      expect(() => loadMockScript(scriptPath)).toThrow('Invalid mock script');
+    });
+  });
+});
+
+describe('Chat API with the mock provider', () => {
+  let app: express.Application;
+
+  beforeAll(async () => {
+    process.env.LLM_PROVIDER = 'mock';
+    const appModule = await import('../index');
+    app = appModule.default || appModule;
+  });
+
+  afterAll(() => {
+    delete process.env.LLM_PROVIDER;
+  });
+
+  it('should answer without an OpenAI key', async () => {
+    delete process.env.OPENAI_API_KEY;
+
+    const response = await request(app)
+      .post('/api/chat')
+      .send({ message: 'hi' })
+      .expect(200);
+
+    expect(response.body.response).toBe(DEFAULT_MOCK_SCRIPT.rules[0].response);
+  });
+
+  it('should stream scripted replies', async () => {
+    const response = await request(app)
+      .post('/api/chat/stream')
+      .send({ message: 'hi' })
+      .expect(200);
+
+    expect(response.text).toContain('event: token');
+    expect(response.text).toContain(`"response":"${DEFAULT_MOCK_SCRIPT.rules[0].response}"`);
+  });
+});
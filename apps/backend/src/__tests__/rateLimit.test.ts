@@ -0,0 +1,160 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DailyTokenQuota, RateLimiter, TokenBucket } from '../rateLimit';
+import { loadRateLimitConfig, RateLimitConfig } from '../config/rateLimit';
+import { MockProvider } from '../providers';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { createChatRouter } from '../routes/chat';
+
+const NOON = Date.UTC(2025, 0, 1, 12);
+
+describe('TokenBucket', () => {
+  it('should allow a burst, then refill over time', () => {
+    const bucket = new TokenBucket(2, 60, NOON);
+
+    expect(bucket.take(NOON)).toBe(0);
+    expect(bucket.take(NOON)).toBe(0);
+    expect(bucket.take(NOON)).toBe(1000);
+    expect(bucket.take(NOON + 1000)).toBe(0);
+    expect(bucket.isFull(NOON + 1000)).toBe(false);
+    expect(bucket.isFull(NOON + 3000)).toBe(true);
+  });
+});
+
+describe('DailyTokenQuota', () => {
+  it('should reset at UTC midnight', () => {
+    const quota = new DailyTokenQuota();
+    quota.record('ip:1', 100, NOON);
+    quota.record('ip:1', 50, NOON);
+
+    expect(quota.used('ip:1', NOON)).toBe(150);
+    expect(quota.msUntilReset(NOON)).toBe(12 * 60 * 60 * 1000);
+    expect(quota.used('ip:1', Date.UTC(2025, 0, 2))).toBe(0);
+  });
+});
+
+describe('loadRateLimitConfig', () => {
+  it('should be disabled by default in tests', () => {
+    expect(loadRateLimitConfig({ NODE_ENV: 'test' }).enabled).toBe(false);
+    expect(loadRateLimitConfig({ NODE_ENV: 'production' }).enabled).toBe(true);
+  });
+
+  it('should read limits and per-key overrides', () => {
+    const config = loadRateLimitConfig({
+      RATE_LIMIT_BURST: '5',
+      RATE_LIMIT_API_KEYS: '{"team-key": {"burst": 50}}',
+      TRUST_PROXY: '1',
+    });
+
+    expect(config.defaults.burst).toBe(5);
+    expect(config.apiKeys['team-key']).toEqual({ ...config.defaults, burst: 50 });
+    expect(config.trustProxy).toBe(1);
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => loadRateLimitConfig({ RATE_LIMIT_BURST: '0' })).toThrow('RATE_LIMIT_BURST');
+    expect(() => loadRateLimitConfig({ RATE_LIMIT_API_KEYS: '[]' })).toThrow('RATE_LIMIT_API_KEYS');
+  });
+});
+
+describe('RateLimiter middleware', () => {
+  const config: RateLimitConfig = {
+    enabled: true,
+    defaults: { burst: 2, refillPerMinute: 6, dailyTokenQuota: 100000 },
+    apiKeys: { 'team-key': { burst: 5, refillPerMinute: 6, dailyTokenQuota: 100000 } },
+  };
+
+  let now: number;
+  let limiter: RateLimiter;
+  let app: express.Express;
+
+  beforeEach(() => {
+    now = NOON;
+    limiter = new RateLimiter(config, () => now);
+
+    app = express();
+    app.use(express.json());
+    app.post(['/api/chat', '/api/chat/stream'], limiter.middleware());
+    app.use('/api', createChatRouter({
+      provider: new MockProvider(),
+      conversations: new SqliteConversationRepository(openDatabase({ path: ':memory:' })),
+      contextWindow: 4096,
+      onUsage: limiter.recordUsage,
+    }));
+  });
+
+  it('should answer 429 with Retry-After once the burst is spent', async () => {
+    await request(app).post('/api/chat').send({ message: 'Hi' }).expect(200);
+    await request(app).post('/api/chat').send({ message: 'Hi' }).expect(200);
+
+    const response = await request(app).post('/api/chat').send({ message: 'Hi' }).expect(429);
+
+    expect(response.headers['retry-after']).toBe('10');
+    expect(response.body).toEqual({
+      error: 'Too many requests, please slow down',
+      reason: 'rate_limit',
+      retryAfter: 10,
+    });
+
+    now += 10000;
+    await request(app).post('/api/chat').send({ message: 'Hi' }).expect(200);
+  });
+
+  it('should limit API keys separately from IPs', async () => {
+    for (let i = 0; i < 2; i++) {
+      await request(app).post('/api/chat').send({ message: 'Hi' }).expect(200);
+    }
+    await request(app).post('/api/chat').send({ message: 'Hi' }).expect(429);
+
+    for (let i = 0; i < 5; i++) {
+      await request(app).post('/api/chat').set('X-API-Key', 'team-key').send({ message: 'Hi' }).expect(200);
+    }
+    await request(app).post('/api/chat').set('X-API-Key', 'team-key').send({ message: 'Hi' }).expect(429);
+  });
+
+  it('should refuse clients over their daily token quota until midnight', async () => {
+    const quotaLimiter = new RateLimiter(
+      { ...config, defaults: { ...config.defaults, dailyTokenQuota: 1 } },
+      () => now
+    );
+    const limited = express();
+    limited.use(express.json());
+    limited.post('/api/chat', quotaLimiter.middleware());
+    limited.use('/api', createChatRouter({
+      provider: new MockProvider(),
+      conversations: new SqliteConversationRepository(openDatabase({ path: ':memory:' })),
+      contextWindow: 4096,
+      onUsage: quotaLimiter.recordUsage,
+    }));
+
+    await request(limited).post('/api/chat').send({ message: 'Hi' }).expect(200);
+    now += 60000;
+
+    const response = await request(limited).post('/api/chat').send({ message: 'Hi' }).expect(429);
+
+    expect(response.body.reason).toBe('quota');
+    expect(response.body.error).toBe('Daily token quota exceeded');
+    expect(response.headers['retry-after']).toBe(String(12 * 60 * 60 - 60));
+  });
+
+  it('should report usage for streamed responses', async () => {
+    const onUsage = vi.fn();
+    const streaming = express();
+    streaming.use(express.json());
+    streaming.use('/api', createChatRouter({
+      provider: new MockProvider(),
+      conversations: new SqliteConversationRepository(openDatabase({ path: ':memory:' })),
+      contextWindow: 4096,
+      onUsage,
+    }));
+
+    await request(streaming).post('/api/chat/stream').send({ message: 'Hi' }).expect(200);
+
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    const [, usage] = onUsage.mock.calls[0];
+    expect(usage.completionTokens).toBeGreaterThan(0);
+    expect(usage.totalTokens).toBe(usage.promptTokens + usage.completionTokens);
+  });
+});
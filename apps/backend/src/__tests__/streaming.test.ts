@@ -0,0 +1,282 @@
+import request from 'supertest';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ChatCompletionRequest, MockProvider, OpenAIProvider } from '../providers';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { createChatRouter } from '../routes/chat';
+import { ToolRegistry, createCalculatorTool } from '../tools';
+
+// Mock OpenAI
+const mockOpenAI = {
+  chat: {
+    completions: {
+      create: vi.fn(),
+    },
+  },
+};
+
+vi.mock('openai', () => ({
+  default: vi.fn(() => mockOpenAI),
+}));
+
+// Build an async iterable that mimics the OpenAI chunk stream
+const createChunkStream = (tokens: string[], failAfter?: number, usage?: object) => ({
+  async *[Symbol.asyncIterator]() {
+    for (let i = 0; i < tokens.length; i++) {
+      if (failAfter !== undefined && i === failAfter) {
+        throw new Error('Stream interrupted');
+      }
+      yield { choices: [{ delta: { content: tokens[i] }, index: 0 }] };
+    }
+    // Sent last, without choices, when stream_options.include_usage is set
+    if (usage) {
+      yield { choices: [], usage };
+    }
+  },
+});
+
+// Parse an SSE body into { event, data } pairs
+const parseEvents = (body: string) =>
+  body
+    .split('\n\n')
+    .filter(block => block.trim().length > 0)
+    .map(block => {
+      const lines = block.split('\n');
+      const event = lines.find(line => line.startsWith('event: '))?.slice(7);
+      const data = lines.find(line => line.startsWith('data: '))?.slice(6);
+      return { event, data: data ? JSON.parse(data) : undefined };
+    });
+
+let app: express.Application;
+
+describe('POST /api/chat/stream', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.OPENAI_API_KEY = 'test-api-key';
+
+    const appModule = await import('../index');
+    app = appModule.default || appModule;
+  });
+
+  afterEach(() => {
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  it('should forward tokens as server-sent events', async () => {
+    mockOpenAI.chat.completions.create.mockResolvedValue(
+      createChunkStream(['Hello', ' there', '!'])
+    );
+
+    const response = await request(app)
+      .post('/api/chat/stream')
+      .send({ message: 'Hi' })
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    expect(mockOpenAI.chat.completions.create).toHaveBeenCalledWith(
+      expect.objectContaining({ stream: true, stream_options: { include_usage: true }, model: 'gpt-3.5-turbo' }),
+      { signal: expect.any(AbortSignal) }
+    );
+
+    const events = parseEvents(response.text);
+    const tokens = events.filter(e => e.event === 'token').map(e => e.data.content);
+    expect(tokens).toEqual(['Hello', ' there', '!']);
+
+    const done = events[events.length - 1];
+    expect(done.event).toBe('done');
+    expect(done.data.response).toBe('Hello there!');
+    expect(new Date(done.data.timestamp).getTime()).not.toBeNaN();
+  });
+
+  it('should report the usage the provider counted', async () => {
+    mockOpenAI.chat.completions.create.mockResolvedValue(
+      createChunkStream(['Hello', '!'], undefined, { prompt_tokens: 42, completion_tokens: 2, total_tokens: 44 })
+    );
+    const onUsage = vi.fn();
+    const counted = express();
+    counted.use(express.json());
+    counted.use('/api', createChatRouter({
+      provider: new OpenAIProvider({
+        name: 'openai',
+        model: 'gpt-3.5-turbo',
+        resolveApiKey: () => 'test-api-key',
+        missingKeyMessage: 'OpenAI API key not configured',
+      }),
+      conversations: new SqliteConversationRepository(openDatabase({ path: ':memory:' })),
+      contextWindow: 4096,
+      onUsage,
+    }));
+
+    await request(counted).post('/api/chat/stream').send({ message: 'Hi' }).expect(200);
+
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.anything(),
+      { promptTokens: 42, completionTokens: 2, totalTokens: 44 },
+      undefined
+    );
+  });
+
+  it('should send the fallback response when the model streams nothing', async () => {
+    mockOpenAI.chat.completions.create.mockResolvedValue(createChunkStream([]));
+
+    const response = await request(app)
+      .post('/api/chat/stream')
+      .send({ message: 'Hi' })
+      .expect(200);
+
+    const events = parseEvents(response.text);
+    expect(events).toHaveLength(1);
+    expect(events[0].data.response).toBe('Sorry, I could not generate a response.');
+  });
+
+  it('should return 400 when message is missing', async () => {
+    const response = await request(app)
+      .post('/api/chat/stream')
+      .send({})
+      .expect(400);
+
+    expect(response.body).toEqual({ error: 'Message is required' });
+  });
+
+  it('should return a JSON error when the stream cannot be opened', async () => {
+    mockOpenAI.chat.completions.create.mockRejectedValue(new Error('API Error'));
+
+    const response = await request(app)
+      .post('/api/chat/stream')
+      .send({ message: 'Hi' })
+      .expect(500);
+
+    expect(response.body).toEqual({
+      error: 'Failed to process chat request',
+      details: 'API Error'
+    });
+  });
+
+  it('should emit an error event when the stream fails midway', async () => {
+    mockOpenAI.chat.completions.create.mockResolvedValue(
+      createChunkStream(['Partial', ' answer'], 1)
+    );
+
+    const response = await request(app)
+      .post('/api/chat/stream')
+      .send({ message: 'Hi' })
+      .expect(200);
+
+    const events = parseEvents(response.text);
+    expect(events[0]).toEqual({ event: 'token', data: { content: 'Partial' } });
+    expect(events[events.length - 1]).toEqual({
+      event: 'error',
+      data: { error: 'Failed to process chat request', details: 'Stream interrupted' }
+    });
+  });
+});
+
+describe('Cancelling a chat request', () => {
+  let provider: MockProvider;
+  let conversations: SqliteConversationRepository;
+  let onUsage: ReturnType<typeof vi.fn>;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    provider = new MockProvider({ tokenDelayMs: 20 });
+    conversations = new SqliteConversationRepository(openDatabase({ path: ':memory:' }));
+    onUsage = vi.fn();
+
+    const cancellable = express();
+    cancellable.use(express.json());
+    cancellable.use('/api', createChatRouter({
+      provider,
+      conversations,
+      contextWindow: 4096,
+      onUsage,
+      tools: new ToolRegistry([createCalculatorTool()]),
+    }));
+
+    // Disconnects need a real socket; supertest cannot abort mid-response
+    server = cancellable.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const post = (path: string, body: object, signal: AbortSignal) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+  it('should stop the model stream when the client disconnects', async () => {
+    const stream = vi.spyOn(provider, 'stream');
+    const conversation = await conversations.create('anonymous', { title: 'Chat' });
+    const controller = new AbortController();
+
+    const response = await post('/api/chat/stream', {
+      message: 'Tell me a long story about the room',
+      conversationId: conversation.id,
+    }, controller.signal);
+    const reader = response.body!.getReader();
+    await reader.read();
+    controller.abort();
+
+    await vi.waitFor(() => expect(onUsage).toHaveBeenCalledTimes(1));
+    const streamed: ChatCompletionRequest = stream.mock.calls[0][0];
+    expect(streamed.signal?.aborted).toBe(true);
+
+    // Charged for what was generated before the disconnect, and nothing stored
+    const [, usage] = onUsage.mock.calls[0];
+    expect(usage.completionTokens).toBeGreaterThan(0);
+    expect(usage.completionTokens).toBeLessThan(15);
+    expect((await conversations.get('anonymous', conversation.id))?.messages).toEqual([]);
+  });
+
+  it('should cancel a completion whose client has gone', async () => {
+    let cancelled!: AbortSignal;
+    vi.spyOn(provider, 'complete').mockImplementation(completion => new Promise((_resolve, reject) => {
+      cancelled = completion.signal!;
+      cancelled.addEventListener('abort', () => reject(cancelled.reason));
+    }));
+    const controller = new AbortController();
+
+    const response = post('/api/chat', { message: 'Hi' }, controller.signal);
+    await vi.waitFor(() => expect(cancelled).toBeDefined());
+    controller.abort();
+
+    await expect(response).rejects.toThrow();
+    await vi.waitFor(() => expect(cancelled.aborted).toBe(true));
+    expect(onUsage).not.toHaveBeenCalled();
+  });
+
+  it('should charge a cancelled completion for the rounds it finished', async () => {
+    const toolRound = { promptTokens: 40, completionTokens: 10, totalTokens: 50 };
+    let cancelled!: AbortSignal;
+    vi.spyOn(provider, 'complete')
+      .mockResolvedValueOnce({
+        content: null,
+        toolCalls: [{ id: 'call-1', name: 'calculate', arguments: '{"expression":"6*7"}' }],
+        usage: toolRound,
+      })
+      .mockImplementation(completion => new Promise((_resolve, reject) => {
+        cancelled = completion.signal!;
+        cancelled.addEventListener('abort', () => reject(cancelled.reason));
+      }));
+    const controller = new AbortController();
+
+    const response = post('/api/chat', { message: 'What is 6 times 7?' }, controller.signal);
+    await vi.waitFor(() => expect(cancelled).toBeDefined());
+    controller.abort();
+
+    await expect(response).rejects.toThrow();
+    await vi.waitFor(() => expect(onUsage).toHaveBeenCalledTimes(1));
+    expect(onUsage.mock.calls[0][1]).toEqual(toolRound);
+  });
+});
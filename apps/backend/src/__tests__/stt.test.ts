@@ -0,0 +1,157 @@
+import fs from 'fs';
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, vi } from 'vitest';
+import { loadSTTConfig } from '../config/stt';
+import { STTEngine, WhisperEngine, parseWhisperOutput, whisperLanguage } from '../stt';
+import { createSTTRouter } from '../routes/stt';
+import { CommandRunner } from '../utils/runCommand';
+
+describe('loadSTTConfig', () => {
+  it('should be off by default', () => {
+    expect(loadSTTConfig({})).toMatchObject({
+      engine: 'none',
+      whisperPath: 'whisper-cli',
+      ffmpegPath: 'ffmpeg',
+      language: 'en',
+      maxAudioBytes: 10 * 1024 * 1024,
+    });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => loadSTTConfig({ STT_ENGINE: 'vosk' })).toThrow('Unknown STT_ENGINE');
+    expect(() => loadSTTConfig({ STT_ENGINE: 'whisper.cpp' })).toThrow('STT_WHISPER_MODEL');
+    expect(() => loadSTTConfig({ STT_WHISPER_THREADS: 'many' })).toThrow('STT_WHISPER_THREADS');
+  });
+});
+
+describe('whisper output', () => {
+  it('should join lines and drop non-speech annotations', () => {
+    expect(parseWhisperOutput(' Hello there.\n How are you?\n [BLANK_AUDIO]\n')).toBe('Hello there. How are you?');
+    expect(parseWhisperOutput('(wind blowing)\n[ Silence ]\n')).toBe('');
+  });
+
+  it('should use the primary language subtag', () => {
+    expect(whisperLanguage('en-US', 'auto')).toBe('en');
+    expect(whisperLanguage(undefined, 'auto')).toBe('auto');
+  });
+});
+
+describe('WhisperEngine', () => {
+  it('should convert the upload and transcribe it from a temporary file', async () => {
+    let wavPath = '';
+    const run = vi.fn<CommandRunner>(async (command, args) => {
+      if (command === 'ffmpeg') {
+        wavPath = args[args.length - 1];
+        return Buffer.alloc(0);
+      }
+      return Buffer.from(' Hi puppy!\n');
+    });
+    const engine = new WhisperEngine({
+      path: 'whisper-cli', model: 'ggml-base.en.bin', threads: 2, ffmpegPath: 'ffmpeg', language: 'en', timeoutMs: 1000, run,
+    });
+    const audio = Buffer.from('webm-bytes');
+
+    const result = await engine.transcribe({ audio, mimeType: 'audio/webm', lang: 'de-DE' });
+
+    expect(result).toEqual({ text: 'Hi puppy!', language: 'de' });
+    expect(run).toHaveBeenNthCalledWith(1, 'ffmpeg', expect.arrayContaining(['pipe:0', '16000', wavPath]), {
+      input: audio,
+      timeoutMs: 1000,
+    });
+    expect(run).toHaveBeenNthCalledWith(2, 'whisper-cli', [
+      '-m', 'ggml-base.en.bin', '-f', wavPath, '-l', 'de', '-t', '2', '--no-timestamps', '--no-prints',
+    ], { input: '', timeoutMs: 1000 });
+    expect(fs.existsSync(wavPath)).toBe(false);
+  });
+
+  it('should clean up when conversion fails', async () => {
+    let wavPath = '';
+    const run = vi.fn<CommandRunner>(async (_command, args) => {
+      wavPath = args[args.length - 1];
+      throw new Error('ffmpeg exited with code 1: Invalid data found');
+    });
+    const engine = new WhisperEngine({
+      path: 'whisper-cli', model: 'model.bin', ffmpegPath: 'ffmpeg', language: 'en', timeoutMs: 1000, run,
+    });
+
+    await expect(engine.transcribe({ audio: Buffer.from('noise'), mimeType: 'audio/ogg' })).rejects.toThrow('Invalid data');
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(fs.existsSync(wavPath)).toBe(false);
+  });
+});
+
+describe('POST /api/stt', () => {
+  const createApp = (engine: STTEngine | null, maxAudioBytes = 1024) => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createSTTRouter({ engine, maxAudioBytes }));
+    return app;
+  };
+
+  const fakeEngine = (transcribe: STTEngine['transcribe'] = async () => ({ text: 'hello puppy', language: 'en' })): STTEngine => ({
+    name: 'fake',
+    transcribe: vi.fn(transcribe),
+  });
+
+  it('should transcribe the uploaded recording', async () => {
+    const engine = fakeEngine();
+
+    const response = await request(createApp(engine))
+      .post('/api/stt?lang=en-US')
+      .set('Content-Type', 'audio/webm;codecs=opus')
+      .send(Buffer.from('webm-bytes'))
+      .expect(200);
+
+    expect(response.body).toEqual({ text: 'hello puppy', language: 'en', engine: 'fake' });
+    expect(engine.transcribe).toHaveBeenCalledWith({
+      audio: Buffer.from('webm-bytes'),
+      mimeType: 'audio/webm;codecs=opus',
+      lang: 'en-US',
+    });
+  });
+
+  it('should validate the request', async () => {
+    const app = createApp(fakeEngine());
+
+    await request(app).post('/api/stt').set('Content-Type', 'audio/webm').send(Buffer.alloc(0))
+      .expect(400, { error: 'Audio is required' });
+    await request(app).post('/api/stt').send({ audio: 'not a recording' })
+      .expect(400, { error: 'Audio is required' });
+
+    const response = await request(app)
+      .post('/api/stt?lang=--model')
+      .set('Content-Type', 'audio/ogg')
+      .send(Buffer.from('ogg-bytes'))
+      .expect(400);
+    expect(response.body.error).toBe('Invalid transcription request');
+  });
+
+  it('should reject recordings over the size limit', async () => {
+    const response = await request(createApp(fakeEngine(), 16))
+      .post('/api/stt')
+      .set('Content-Type', 'audio/wav')
+      .send(Buffer.alloc(17))
+      .expect(413);
+
+    expect(response.body.error).toBe('Audio is too large');
+  });
+
+  it('should answer 503 without an engine', async () => {
+    await request(createApp(null))
+      .post('/api/stt')
+      .set('Content-Type', 'audio/webm')
+      .send(Buffer.from('webm-bytes'))
+      .expect(503, { error: 'Speech recognition is not configured' });
+  });
+
+  it('should report engine failures', async () => {
+    const response = await request(createApp(fakeEngine(async () => { throw new Error('whisper-cli crashed'); })))
+      .post('/api/stt')
+      .set('Content-Type', 'audio/webm')
+      .send(Buffer.from('webm-bytes'))
+      .expect(500);
+
+    expect(response.body).toEqual({ error: 'Failed to transcribe speech', details: 'whisper-cli crashed' });
+  });
+});
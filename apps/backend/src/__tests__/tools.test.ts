@@ -0,0 +1,236 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, vi } from 'vitest';
+import { loadToolsConfig } from '../config/tools';
+import { ChatCompletionRequest, ChatCompletionResult, MockProvider } from '../providers';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { SqliteNoteRepository } from '../repositories/sqliteNoteRepository';
+import { createChatRouter } from '../routes/chat';
+import {
+  ToolRegistry,
+  createCalculatorTool,
+  createNoteTools,
+  createTimeTool,
+  createToolRegistry,
+  evaluateExpression,
+  switchRoomTool,
+  updateSettingsTool,
+  validateArguments,
+} from '../tools';
+
+const context = { userId: 'sam' };
+
+describe('loadToolsConfig', () => {
+  it('should be on outside of tests', () => {
+    expect(loadToolsConfig({})).toEqual({ enabled: true, maxRounds: 3 });
+    expect(loadToolsConfig({ NODE_ENV: 'test' }).enabled).toBe(false);
+    expect(loadToolsConfig({ NODE_ENV: 'test', TOOLS_ENABLED: 'true', TOOLS_MAX_ROUNDS: '1' })).toEqual({
+      enabled: true,
+      maxRounds: 1,
+    });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => loadToolsConfig({ TOOLS_MAX_ROUNDS: '0' })).toThrow('TOOLS_MAX_ROUNDS');
+  });
+});
+
+describe('validateArguments', () => {
+  const schema = updateSettingsTool.parameters;
+
+  it('should accept arguments matching the schema', () => {
+    expect(validateArguments(schema, '{"theme":"dark","voiceSpeed":1.5}')).toEqual({
+      ok: true,
+      args: { theme: 'dark', voiceSpeed: 1.5 },
+    });
+    expect(validateArguments(createNoteTools({} as never)[1].parameters, '')).toEqual({ ok: true, args: {} });
+  });
+
+  it('should explain what is wrong', () => {
+    expect(validateArguments(schema, '{theme: dark}')).toEqual({ ok: false, error: 'Arguments are not valid JSON' });
+    expect(validateArguments(schema, '[]')).toEqual({ ok: false, error: 'arguments must be an object' });
+    expect(validateArguments(schema, '{"theme":"neon"}')).toEqual({
+      ok: false,
+      error: 'arguments.theme must be one of: light, dark, auto',
+    });
+    expect(validateArguments(schema, '{"voiceVolume":3}')).toEqual({
+      ok: false,
+      error: 'arguments.voiceVolume must be at most 1',
+    });
+    expect(validateArguments(schema, '{"voiceEnabled":"yes"}')).toEqual({
+      ok: false,
+      error: 'arguments.voiceEnabled must be a boolean',
+    });
+    expect(validateArguments(schema, '{"apiKey":"x"}')).toEqual({ ok: false, error: 'arguments.apiKey is not allowed' });
+    expect(validateArguments(switchRoomTool.parameters, '{}')).toEqual({
+      ok: false,
+      error: 'arguments.preset is required',
+    });
+  });
+});
+
+describe('evaluateExpression', () => {
+  it('should follow operator precedence', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('-2 ^ 2 + 10 % 4')).toBe(6);
+    expect(evaluateExpression('.5 * pi')).toBeCloseTo(Math.PI / 2);
+  });
+
+  it('should reject anything but arithmetic', () => {
+    expect(() => evaluateExpression('process.exit()')).toThrow('Unexpected');
+    expect(() => evaluateExpression('2 +')).toThrow('Unexpected end of expression');
+    expect(() => evaluateExpression('(1 + 2')).toThrow('Missing closing parenthesis');
+    expect(() => evaluateExpression('1 / 0')).toThrow('not a finite number');
+    expect(() => evaluateExpression('1;2')).toThrow('Unexpected character ";"');
+  });
+});
+
+describe('built-in tools', () => {
+  it('should tell the time in a time zone', async () => {
+    const tool = createTimeTool(() => new Date('2025-01-15T12:00:00Z'));
+
+    const result = JSON.parse(await tool.execute({ timezone: 'Asia/Tokyo' }, context));
+
+    expect(result).toMatchObject({ iso: '2025-01-15T12:00:00.000Z', timezone: 'Asia/Tokyo' });
+    expect(result.local).toContain('9:00:00 PM');
+    await expect(tool.execute({ timezone: 'Mars/Olympus' }, context)).rejects.toThrow('Unknown time zone');
+  });
+
+  it('should keep notes per user', async () => {
+    const [takeNote, listNotes] = createNoteTools(new SqliteNoteRepository(openDatabase({ path: ':memory:' })));
+
+    await takeNote.execute({ content: 'Buy dog treats' }, context);
+    await takeNote.execute({ content: 'Call the vet' }, context);
+    await takeNote.execute({ content: 'Not yours' }, { userId: 'alex' });
+
+    const { notes } = JSON.parse(await listNotes.execute({}, context));
+    expect(notes.map((note: { content: string }) => note.content)).toEqual(['Call the vet', 'Buy dog treats']);
+  });
+});
+
+describe('ToolRegistry', () => {
+  const registry = new ToolRegistry([createCalculatorTool(), switchRoomTool]);
+
+  it('should offer the schemas of its tools', () => {
+    expect(registry.definitions().map(definition => definition.name)).toEqual(['calculate', 'switch_room']);
+    expect(() => registry.register(createCalculatorTool())).toThrow('already registered');
+  });
+
+  it('should run server tools and turn client tools into actions', async () => {
+    expect(await registry.call({ id: '1', name: 'calculate', arguments: '{"expression":"6 * 7"}' }, context)).toEqual({
+      content: '{"expression":"6 * 7","result":42}',
+    });
+
+    const switched = await registry.call({ id: '2', name: 'switch_room', arguments: '{"preset":"Modern Office"}' }, context);
+    expect(switched.action).toEqual({ type: 'room.load_preset', preset: 'Modern Office' });
+  });
+
+  it('should report failed calls to the model', async () => {
+    expect(await registry.call({ id: '1', name: 'launch_rocket', arguments: '{}' }, context)).toEqual({
+      content: '{"error":"Unknown tool \\"launch_rocket\\""}',
+    });
+    expect(await registry.call({ id: '2', name: 'switch_room', arguments: '{"preset":"Moon Base"}' }, context))
+      .toEqual({ content: expect.stringContaining('arguments.preset must be one of') });
+    expect(await registry.call({ id: '3', name: 'calculate', arguments: '{"expression":"1/0"}' }, context)).toEqual({
+      content: '{"error":"Result is not a finite number"}',
+    });
+  });
+});
+
+describe('POST /api/chat with tools', () => {
+  const createApp = (provider: MockProvider, maxToolRounds?: number) => {
+    const database = openDatabase({ path: ':memory:' });
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createChatRouter({
+      provider,
+      conversations: new SqliteConversationRepository(database),
+      contextWindow: 4096,
+      tools: createToolRegistry({ notes: new SqliteNoteRepository(database) }),
+      maxToolRounds,
+    }));
+    return app;
+  };
+
+  const scriptedProvider = () => new MockProvider({
+    script: {
+      fallback: 'Woof!',
+      rules: [
+        {
+          match: 'multiply',
+          toolCall: { name: 'calculate', arguments: { expression: '6 * 7' } },
+          response: 'The answer is {{toolResult}}',
+        },
+        {
+          match: 'office',
+          toolCall: { name: 'switch_room', arguments: { preset: 'Modern Office' } },
+          response: 'Off to the office!',
+        },
+      ],
+    },
+  });
+
+  it('should answer with the results of server tools', async () => {
+    const provider = scriptedProvider();
+    const complete = vi.spyOn(provider, 'complete');
+
+    const response = await request(createApp(provider))
+      .post('/api/chat')
+      .send({ message: 'Please multiply six by seven' })
+      .expect(200);
+
+    expect(response.body.response).toBe('The answer is {"expression":"6 * 7","result":42}');
+    expect(response.body.actions).toBeUndefined();
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[0][0].tools?.map(tool => tool.name)).toContain('calculate');
+    expect(complete.mock.calls[1][0].messages.slice(-2)).toEqual([
+      { role: 'assistant', content: '', toolCalls: [expect.objectContaining({ name: 'calculate' })] },
+      { role: 'tool', content: '{"expression":"6 * 7","result":42}', toolCallId: 'call_mock_1' },
+    ]);
+  });
+
+  it('should return the actions of client tools', async () => {
+    const response = await request(createApp(scriptedProvider()))
+      .post('/api/chat')
+      .send({ message: 'Take me to the office' })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      response: 'Off to the office!',
+      actions: [{ type: 'room.load_preset', preset: 'Modern Office' }],
+    });
+  });
+
+  it('should send the actions with the end of a stream', async () => {
+    const response = await request(createApp(scriptedProvider()))
+      .post('/api/chat/stream')
+      .send({ message: 'Take me to the office' })
+      .expect(200);
+
+    const done = response.text.split('\n\n').find(block => block.startsWith('event: done'))!;
+    expect(JSON.parse(done.split('data: ')[1])).toMatchObject({
+      response: 'Off to the office!',
+      actions: [{ type: 'room.load_preset', preset: 'Modern Office' }],
+    });
+  });
+
+  it('should stop offering tools after the last round', async () => {
+    const provider = new MockProvider();
+    const complete = vi.spyOn(provider, 'complete').mockImplementation(async (chat: ChatCompletionRequest) => ({
+      content: chat.tools ? null : 'Done calculating',
+      ...(chat.tools ? { toolCalls: [{ id: 'again', name: 'calculate', arguments: '{"expression":"1+1"}' }] } : {}),
+    }) as ChatCompletionResult);
+
+    const response = await request(createApp(provider, 2))
+      .post('/api/chat')
+      .send({ message: 'Keep calculating' })
+      .expect(200);
+
+    expect(response.body.response).toBe('Done calculating');
+    expect(complete).toHaveBeenCalledTimes(3);
+    expect(complete.mock.calls[2][0].tools).toBeUndefined();
+  });
+});
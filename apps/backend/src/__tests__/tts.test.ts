@@ -0,0 +1,224 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, vi } from 'vitest';
+import { loadTTSConfig } from '../config/tts';
+import {
+  EspeakEngine,
+  PiperEngine,
+  SynthesisResult,
+  TTSEngine,
+  estimateTimings,
+  lettersToPhonemes,
+  parseEspeakPhonemes,
+  pcmToWav,
+  phonemeToViseme,
+  toVisemeCues,
+  wavDurationMs,
+} from '../tts';
+import { createTTSRouter } from '../routes/tts';
+import { CommandRunner, runCommand } from '../utils/runCommand';
+
+// One second of silence at 16 kHz
+const ONE_SECOND_WAV = pcmToWav(Buffer.alloc(32000), 16000);
+
+describe('loadTTSConfig', () => {
+  it('should be off by default', () => {
+    expect(loadTTSConfig({})).toMatchObject({ engine: 'none', espeakPath: 'espeak-ng', maxTextLength: 1000 });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => loadTTSConfig({ TTS_ENGINE: 'festival' })).toThrow('Unknown TTS_ENGINE');
+    expect(() => loadTTSConfig({ TTS_ENGINE: 'piper' })).toThrow('TTS_PIPER_MODEL');
+    expect(() => loadTTSConfig({ TTS_TIMEOUT_MS: '0' })).toThrow('TTS_TIMEOUT_MS');
+  });
+});
+
+describe('visemes', () => {
+  it('should map espeak phonemes to mouth shapes', () => {
+    expect(['m', 'f', 'T', 't', 'k', 'tS', 's', 'n', 'r', "'a", 'E', 'i:', '0', 'u:', '_:'].map(phonemeToViseme))
+      .toEqual(['PP', 'FF', 'TH', 'DD', 'kk', 'CH', 'SS', 'nn', 'RR', 'aa', 'E', 'I', 'O', 'U', 'sil']);
+  });
+
+  it('should merge consecutive identical visemes', () => {
+    expect(toVisemeCues([
+      { phoneme: 'p', start: 0, end: 50 },
+      { phoneme: 'b', start: 50, end: 100 },
+      { phoneme: 'a', start: 100, end: 200 },
+    ])).toEqual([
+      { viseme: 'PP', start: 0, end: 100 },
+      { viseme: 'aa', start: 100, end: 200 },
+    ]);
+  });
+});
+
+describe('timing', () => {
+  it('should parse espeak phoneme output', () => {
+    expect(parseEspeakPhonemes("h_@_l_'oU w_'3:_l_d\n h_'aI\n")).toEqual([
+      'h', '@', 'l', "'oU", 'w', "'3:", 'l', 'd', '_', 'h', "'aI",
+    ]);
+  });
+
+  it('should fall back to letters', () => {
+    expect(lettersToPhonemes('Hi, Bo!')).toEqual(['h', 'i', '_', 'b', 'o']);
+  });
+
+  it('should spread phonemes over the duration, vowels longer', () => {
+    const timings = estimateTimings(['h', 'a', '_'], 600);
+
+    expect(timings).toEqual([
+      { phoneme: 'h', start: 0, end: 100 },
+      { phoneme: 'a', start: 100, end: 300 },
+      { phoneme: '_', start: 300, end: 600 },
+    ]);
+    expect(estimateTimings([], 600)).toEqual([]);
+  });
+
+  it('should measure WAV duration, also when streamed with an oversized length', () => {
+    expect(wavDurationMs(ONE_SECOND_WAV)).toBe(1000);
+
+    const streamed = Buffer.from(ONE_SECOND_WAV);
+    streamed.writeUInt32LE(0x7ffff000, 40);
+    expect(wavDurationMs(streamed)).toBe(1000);
+
+    expect(() => wavDurationMs(Buffer.from('not audio'))).toThrow('not a WAV file');
+  });
+});
+
+describe('runCommand', () => {
+  it('should pass input on stdin and collect stdout', async () => {
+    expect((await runCommand('cat', [], { input: 'hello', timeoutMs: 5000 })).toString()).toBe('hello');
+  });
+
+  it('should fail on missing executables, errors and timeouts', async () => {
+    await expect(runCommand('definitely-not-installed-tts', [], { input: '', timeoutMs: 5000 }))
+      .rejects.toThrow('Failed to run');
+    await expect(runCommand('sh', ['-c', 'echo oops >&2; exit 3'], { input: '', timeoutMs: 5000 }))
+      .rejects.toThrow('exited with code 3: oops');
+    await expect(runCommand('sleep', ['5'], { input: '', timeoutMs: 50 })).rejects.toThrow('timed out');
+  });
+});
+
+describe('EspeakEngine', () => {
+  it('should synthesize audio and time its phonemes', async () => {
+    const run = vi.fn<CommandRunner>(async (_command, args) =>
+      args.includes('--stdout') ? ONE_SECOND_WAV : Buffer.from("h_@_l_'oU\n")
+    );
+    const engine = new EspeakEngine({ path: 'espeak-ng', voice: 'en-us', timeoutMs: 1000, run });
+
+    const result = await engine.synthesize({ text: 'Hello', lang: 'en-GB', rate: 2, pitch: 1.5 });
+
+    expect(run).toHaveBeenCalledWith(
+      'espeak-ng',
+      ['-v', 'en-gb', '-s', '350', '-p', '75', '--stdout', '--stdin'],
+      { input: 'Hello', timeoutMs: 1000 }
+    );
+    expect(result.durationMs).toBe(1000);
+    expect(result.mimeType).toBe('audio/wav');
+    expect(result.phonemes.map(timing => timing.phoneme)).toEqual(['h', '@', 'l', "'oU"]);
+    expect(result.phonemes[result.phonemes.length - 1].end).toBe(1000);
+  });
+});
+
+describe('PiperEngine', () => {
+  it('should wrap raw audio and estimate phonemes from spelling without espeak-ng', async () => {
+    const run = vi.fn<CommandRunner>(async () => Buffer.alloc(44100));
+    const engine = new PiperEngine({ path: 'piper', model: '/nonexistent/voice.onnx', espeakVoice: 'en-us', timeoutMs: 1000, run });
+
+    const result = await engine.synthesize({ text: 'Hi', rate: 0.5 });
+
+    expect(run).toHaveBeenCalledWith(
+      'piper',
+      ['--model', '/nonexistent/voice.onnx', '--output-raw', '--length_scale', '2.00'],
+      { input: 'Hi', timeoutMs: 1000 }
+    );
+    expect(result.durationMs).toBe(1000);
+    expect(result.phonemes.map(timing => timing.phoneme)).toEqual(['h', 'i']);
+  });
+
+  it('should fall back to spelling when espeak-ng fails', async () => {
+    const run = vi.fn<CommandRunner>(async command => {
+      if (command === 'espeak-ng') throw new Error('not installed');
+      return Buffer.alloc(44100);
+    });
+    const engine = new PiperEngine({
+      path: 'piper', model: 'voice.onnx', espeakPath: 'espeak-ng', espeakVoice: 'en-us', timeoutMs: 1000, run,
+    });
+
+    expect((await engine.synthesize({ text: 'Yo' })).phonemes.map(timing => timing.phoneme)).toEqual(['y', 'o']);
+  });
+});
+
+describe('POST /api/tts', () => {
+  const result: SynthesisResult = {
+    audio: Buffer.from('RIFF-audio'),
+    mimeType: 'audio/wav',
+    durationMs: 300,
+    phonemes: [
+      { phoneme: 'h', start: 0, end: 100 },
+      { phoneme: "'aI", start: 100, end: 300 },
+    ],
+  };
+
+  const createApp = (engine: TTSEngine | null) => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createTTSRouter({ engine, maxTextLength: 20 }));
+    return app;
+  };
+
+  const fakeEngine = (synthesize: TTSEngine['synthesize'] = async () => result): TTSEngine => ({
+    name: 'fake',
+    synthesize: vi.fn(synthesize),
+  });
+
+  it('should answer with audio and the viseme track', async () => {
+    const engine = fakeEngine();
+
+    const response = await request(createApp(engine))
+      .post('/api/tts')
+      .send({ text: ' Hi ', lang: 'en-US', rate: 1.2 })
+      .expect(200);
+
+    expect(engine.synthesize).toHaveBeenCalledWith({ text: 'Hi', lang: 'en-US', rate: 1.2, pitch: undefined });
+    expect(response.body).toEqual({
+      audio: Buffer.from('RIFF-audio').toString('base64'),
+      mimeType: 'audio/wav',
+      durationMs: 300,
+      engine: 'fake',
+      phonemes: result.phonemes,
+      visemes: [
+        { viseme: 'kk', start: 0, end: 100 },
+        { viseme: 'aa', start: 100, end: 300 },
+      ],
+    });
+  });
+
+  it('should validate the request', async () => {
+    const app = createApp(fakeEngine());
+
+    await request(app).post('/api/tts').send({}).expect(400, { error: 'Text is required' });
+
+    const response = await request(app)
+      .post('/api/tts')
+      .send({ text: 'a'.repeat(21), lang: '--voice', rate: 5 })
+      .expect(400);
+    expect(response.body.error).toBe('Invalid speech request');
+    expect(response.body.details).toHaveLength(3);
+  });
+
+  it('should answer 503 without an engine', async () => {
+    await request(createApp(null))
+      .post('/api/tts')
+      .send({ text: 'Hi' })
+      .expect(503, { error: 'Text-to-speech is not configured' });
+  });
+
+  it('should report engine failures', async () => {
+    const response = await request(createApp(fakeEngine(async () => { throw new Error('espeak-ng crashed'); })))
+      .post('/api/tts')
+      .send({ text: 'Hi' })
+      .expect(500);
+
+    expect(response.body).toEqual({ error: 'Failed to synthesize speech', details: 'espeak-ng crashed' });
+  });
+});
@@ -0,0 +1,215 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuthConfig } from '../config/auth';
+import { DEFAULT_PRICES, loadUsageConfig } from '../config/usage';
+import { createAuthMiddleware, requireAdmin } from '../auth';
+import { MockProvider } from '../providers';
+import { openDatabase } from '../db/database';
+import { SqliteConversationRepository } from '../repositories/sqliteConversationRepository';
+import { SqliteUsageRepository } from '../repositories/sqliteUsageRepository';
+import { UsageTracker, budgetPeriodBounds, estimateCost } from '../usage';
+import { createChatRouter } from '../routes/chat';
+import { createConversationRouter } from '../routes/conversations';
+import { createUsageRouter } from '../routes/usage';
+
+const NOON = Date.UTC(2025, 0, 15, 12);
+
+describe('loadUsageConfig', () => {
+  it('should merge configured prices over the defaults', () => {
+    const config = loadUsageConfig({ USAGE_PRICES: '{"llama3": {"prompt": 0, "completion": 0.1}}' });
+
+    expect(config.enabled).toBe(true);
+    expect(config.prices).toEqual({ ...DEFAULT_PRICES, llama3: { prompt: 0, completion: 0.1 } });
+    expect(loadUsageConfig({ USAGE_TRACKING_ENABLED: 'false' }).enabled).toBe(false);
+  });
+
+  it('should reject invalid prices', () => {
+    expect(() => loadUsageConfig({ USAGE_PRICES: '[]' })).toThrow('USAGE_PRICES');
+    expect(() => loadUsageConfig({ USAGE_PRICES: '{"gpt-4o": {"prompt": -1, "completion": 1}}' }))
+      .toThrow('USAGE_PRICES["gpt-4o"]');
+  });
+});
+
+describe('estimateCost', () => {
+  const usage = { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 };
+
+  it('should price models by the longest name they start with', () => {
+    expect(estimateCost(DEFAULT_PRICES, 'gpt-4o', usage)).toBeCloseTo(0.0075);
+    expect(estimateCost(DEFAULT_PRICES, 'gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.00045);
+  });
+
+  it('should not charge for unpriced models', () => {
+    expect(estimateCost(DEFAULT_PRICES, 'llama3', usage)).toBe(0);
+  });
+});
+
+describe('budgetPeriodBounds', () => {
+  it('should span the UTC day or month', () => {
+    expect(budgetPeriodBounds('day', NOON)).toEqual({ start: Date.UTC(2025, 0, 15), end: Date.UTC(2025, 0, 16) });
+    expect(budgetPeriodBounds('month', Date.UTC(2025, 11, 31, 23)))
+      .toEqual({ start: Date.UTC(2025, 11, 1), end: Date.UTC(2026, 0, 1) });
+  });
+});
+
+describe('Usage API', () => {
+  const authConfig: AuthConfig = {
+    required: true,
+    jwtSecret: 'test-secret',
+    ephemeralSecret: false,
+    tokenTtlSeconds: 3600,
+    users: {},
+    apiKeys: { 'sam-key': 'sam', 'alex-key': 'alex', 'admin-key': 'admin' },
+    admins: ['admin'],
+  };
+
+  // A dollar per prompt token and two per completion token keep the sums readable
+  const prices = { 'test-model': { prompt: 1_000_000, completion: 2_000_000 } };
+
+  let now: number;
+  let app: express.Express;
+
+  beforeEach(() => {
+    now = NOON;
+    const database = openDatabase({ path: ':memory:' });
+    const conversations = new SqliteConversationRepository(database);
+    const repository = new SqliteUsageRepository(database);
+    const usage = new UsageTracker({
+      repository,
+      prices,
+      provider: { name: 'mock', model: 'test-model' },
+      clock: () => now,
+    });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', createAuthMiddleware(authConfig));
+    app.use('/api/admin', requireAdmin(authConfig));
+    app.post(['/api/chat', '/api/chat/stream'], usage.middleware());
+    app.use('/api', createChatRouter({
+      provider: new MockProvider(),
+      conversations,
+      contextWindow: 4096,
+      onUsage: usage.record,
+    }));
+    app.use('/api', createConversationRouter(conversations));
+    app.use('/api', createUsageRouter({ usage, repository }));
+  });
+
+  const chat = (apiKey: string, body: object = { message: 'Hi' }) =>
+    request(app).post('/api/chat').set('X-API-Key', apiKey).send(body);
+
+  const getUsage = async (apiKey: string) =>
+    (await request(app).get('/api/usage').set('X-API-Key', apiKey).expect(200)).body;
+
+  it('should record each request for its user, session and conversation', async () => {
+    const { body: conversation } = await request(app)
+      .post('/api/conversations')
+      .set('X-API-Key', 'sam-key')
+      .send({})
+      .expect(201);
+
+    await chat('sam-key').expect(200);
+    await chat('sam-key', { message: 'How are you?', conversationId: conversation.id }).expect(200);
+
+    const report = await getUsage('sam-key');
+    expect(report.userId).toBe('sam');
+    expect(report.user.requests).toBe(2);
+    expect(report.user.totalTokens).toBe(report.user.promptTokens + report.user.completionTokens);
+    expect(report.user.costUsd).toBe(report.user.promptTokens + 2 * report.user.completionTokens);
+    expect(report.session).toEqual(report.user);
+    expect(report.budget).toBeNull();
+
+    const { body: conversationUsage } = await request(app)
+      .get(`/api/usage/conversations/${conversation.id}`)
+      .set('X-API-Key', 'sam-key')
+      .expect(200);
+    expect(conversationUsage.requests).toBe(1);
+
+    // Other users see neither the requests nor the conversation's usage
+    expect((await getUsage('alex-key')).user.requests).toBe(0);
+    const { body: hidden } = await request(app)
+      .get(`/api/usage/conversations/${conversation.id}`)
+      .set('X-API-Key', 'alex-key')
+      .expect(200);
+    expect(hidden.requests).toBe(0);
+  });
+
+  it('should keep the admin routes to admins', async () => {
+    await request(app).get('/api/admin/usage').set('X-API-Key', 'sam-key').expect(403);
+    await request(app)
+      .put('/api/admin/budgets/sam')
+      .set('X-API-Key', 'sam-key')
+      .send({ limitUsd: 1000 })
+      .expect(403);
+
+    await chat('sam-key').expect(200);
+    await chat('alex-key').expect(200);
+    await chat('alex-key').expect(200);
+
+    const { body } = await request(app).get('/api/admin/usage').set('X-API-Key', 'admin-key').expect(200);
+    expect(body.map((user: { userId: string }) => user.userId)).toEqual(['alex', 'sam']);
+
+    const { body: later } = await request(app)
+      .get(`/api/admin/usage?since=${NOON + 1}`)
+      .set('X-API-Key', 'admin-key')
+      .expect(200);
+    expect(later).toEqual([]);
+  });
+
+  it('should refuse chat requests once the budget is spent, until the period resets', async () => {
+    const { body: budget } = await request(app)
+      .put('/api/admin/budgets/sam')
+      .set('X-API-Key', 'admin-key')
+      .send({ limitUsd: 1, period: 'day' })
+      .expect(200);
+    expect(budget).toMatchObject({ userId: 'sam', limitUsd: 1, period: 'day' });
+
+    await chat('sam-key').expect(200);
+    const response = await chat('sam-key').expect(429);
+
+    expect(response.body).toEqual({ error: 'Usage budget exceeded', reason: 'budget', retryAfter: 12 * 60 * 60 });
+    expect(response.headers['retry-after']).toBe(String(12 * 60 * 60));
+    expect((await getUsage('sam-key')).budget).toMatchObject({ limitUsd: 1, remainingUsd: 0 });
+
+    // Nobody else is limited, and the next day starts afresh
+    await chat('alex-key').expect(200);
+    now += 12 * 60 * 60 * 1000;
+    await chat('sam-key').expect(200);
+  });
+
+  it('should apply the default budget to users without their own', async () => {
+    await request(app)
+      .put('/api/admin/budgets/*')
+      .set('X-API-Key', 'admin-key')
+      .send({ limitUsd: 0 })
+      .expect(200);
+    await request(app)
+      .put('/api/admin/budgets/alex')
+      .set('X-API-Key', 'admin-key')
+      .send({ limitUsd: 1000 })
+      .expect(200);
+
+    await chat('sam-key').expect(429);
+    await chat('alex-key').expect(200);
+    expect((await getUsage('sam-key')).budget).toMatchObject({ limitUsd: 0, period: 'month' });
+
+    const { body: budgets } = await request(app).get('/api/admin/budgets').set('X-API-Key', 'admin-key').expect(200);
+    expect(budgets.map((budget: { userId: string }) => budget.userId)).toEqual(['*', 'alex']);
+
+    await request(app).delete('/api/admin/budgets/*').set('X-API-Key', 'admin-key').expect(204);
+    await request(app).delete('/api/admin/budgets/*').set('X-API-Key', 'admin-key').expect(404);
+    await chat('sam-key').expect(200);
+  });
+
+  it('should reject invalid budgets', async () => {
+    const response = await request(app)
+      .put('/api/admin/budgets/sam')
+      .set('X-API-Key', 'admin-key')
+      .send({ limitUsd: -5, period: 'year' })
+      .expect(400);
+
+    expect(response.body.error).toBe('Invalid budget');
+    expect(response.body.details).toHaveLength(2);
+  });
+});
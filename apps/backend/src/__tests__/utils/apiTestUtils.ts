@@ -281,6 +281,33 @@ export const apiTestUtils = {
     },
   },
 
+  // Server-side measurements, scraped from GET /metrics
+  metrics: {
+    scrape: async (app: Express): Promise<MetricSample[]> => {
+      const response = await apiTestUtils.createApiRequest(app, '/metrics', 'GET')
+        .expect(200);
+
+      return response.text
+        .split('\n')
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => {
+          const match = /^(\w+)(?:\{(.*)\})? (\S+)$/.exec(line);
+          if (!match) throw new Error(`Unexpected metrics line: ${line}`);
+          const labels = Object.fromEntries(
+            [...(match[2] ?? '').matchAll(/(\w+)="((?:[^"\\]|\\.)*)"/g)].map(([, name, value]) => [name, value])
+          );
+          return { name: match[1], labels, value: Number(match[3]) };
+        });
+    },
+
+    // Sum of the samples of a metric whose labels include the given ones
+    total: (samples: MetricSample[], name: string, labels: Record<string, string> = {}) =>
+      samples
+        .filter(sample => sample.name === name &&
+          Object.entries(labels).every(([label, value]) => sample.labels[label] === value))
+        .reduce((sum, sample) => sum + sample.value, 0),
+  },
+
   // Mock management utilities
   mockManagement: {
     setupOpenAIMocks: () => {
@@ -334,6 +361,12 @@ export const apiTestUtils = {
 };
 
 // Type definitions for performance testing
+export interface MetricSample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
 export interface PerformanceTestConfig {
   requestCount: number;
   delayBetweenRequests?: number;
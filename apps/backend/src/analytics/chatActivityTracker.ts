@@ -0,0 +1,198 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { getUserId } from '../auth';
+import { ChatActivityReport, ChatActivityTotals } from '../contracts';
+import { ChatEvent, ChatEventRepository, ChatOutcome } from '../repositories/chatEventRepository';
+import { logger } from '../observability';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reports cover the last 30 days unless asked otherwise
+const DEFAULT_WINDOW_MS = 30 * DAY_MS;
+
+// Old events are deleted at most this often, on the next request after it
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Topics and emotions are labels chosen by the client; longer ones are cut
+const LABEL_LIMIT = 50;
+const MAX_TOPICS = 10;
+
+// Entries of the topic and emotion rankings
+const RANKING_SIZE = 10;
+
+export interface ChatActivityTrackerOptions {
+  repository: ChatEventRepository;
+  /** Events older than this are deleted */
+  retentionDays: number;
+  clock?: () => number;
+}
+
+export interface ActivityRange {
+  /** Milliseconds since epoch; defaults to 30 days before until */
+  since?: number;
+  /** Milliseconds since epoch; defaults to now */
+  until?: number;
+}
+
+const normalizeLabel = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const label = value.trim().toLowerCase().slice(0, LABEL_LIMIT);
+  return label || undefined;
+};
+
+// The context payload is validated by the chat router, after this middleware has run
+function describeContext(body: unknown): { emotion?: string; topics: string[] } {
+  const context = (body as { context?: { activeTopics?: unknown; userEmotion?: unknown } } | undefined)?.context;
+  const topics = Array.isArray(context?.activeTopics)
+    ? [...new Set(context.activeTopics.map(normalizeLabel).filter((topic): topic is string => !!topic))]
+    : [];
+  const emotion = normalizeLabel(context?.userEmotion);
+
+  return { ...(emotion ? { emotion } : {}), topics: topics.slice(0, MAX_TOPICS) };
+}
+
+const outcomeOf = (res: Response, failed: boolean): ChatOutcome => {
+  if (failed || res.statusCode >= 500) return 'failed';
+  if (!res.writableFinished) return 'cancelled';
+  if (res.statusCode >= 400) return 'rejected';
+  return 'completed';
+};
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// Nearest-rank percentile
+const percentile = (values: number[], fraction: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+};
+
+const utcDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+function totalsOf(events: ChatEvent[]): ChatActivityTotals {
+  const count = (outcome: ChatOutcome) => events.filter(event => event.outcome === outcome).length;
+  const latencies = events.filter(event => event.outcome === 'completed').map(event => event.durationMs);
+  const failed = count('failed');
+
+  return {
+    requests: events.length,
+    conversations: new Set(events.flatMap(event =>
+      event.conversationId ? [`${event.userId}\n${event.conversationId}`] : [])).size,
+    users: new Set(events.map(event => event.userId)).size,
+    failed,
+    cancelled: count('cancelled'),
+    rejected: count('rejected'),
+    errorRate: events.length > 0 ? failed / events.length : 0,
+    averageLatencyMs: average(latencies),
+    p95LatencyMs: percentile(latencies, 0.95),
+  };
+}
+
+function ranking(labels: string[]): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const label of labels) {
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, RANKING_SIZE);
+}
+
+/**
+ * Records every chat request, how it ended and how long it took, and reports
+ * volume, error rates, latency, topics and emotions across every user
+ *
+ * Topics and emotion are those of the context payload the client sends with
+ * the message. A stream that fails after its first token still answers 200,
+ * so the chat router reports such failures through markFailed.
+ */
+export class ChatActivityTracker {
+  private readonly repository: ChatEventRepository;
+  private readonly retentionMs: number;
+  private readonly clock: () => number;
+  private readonly failed = new WeakSet<Request>();
+  private lastPrunedAt = 0;
+
+  constructor({ repository, retentionDays, clock = Date.now }: ChatActivityTrackerOptions) {
+    this.repository = repository;
+    this.retentionMs = retentionDays * DAY_MS;
+    this.clock = clock;
+  }
+
+  /**
+   * Express middleware recording each chat request once its response is
+   * over; mount it after the auth middleware
+   */
+  middleware(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      const start = this.clock();
+      const { emotion, topics } = describeContext(req.body);
+      const conversationId = typeof req.body?.conversationId === 'string' ? req.body.conversationId : undefined;
+
+      res.once('close', () => {
+        void this.record({
+          userId: getUserId(req),
+          ...(conversationId ? { conversationId } : {}),
+          stream: req.path.endsWith('/stream'),
+          outcome: outcomeOf(res, this.failed.has(req)),
+          status: res.statusCode,
+          durationMs: this.clock() - start,
+          ...(emotion ? { emotion } : {}),
+          topics,
+          createdAt: start,
+        });
+      });
+
+      next();
+    };
+  }
+
+  /** The request failed, whatever status its response went out with */
+  markFailed(req: Request): void {
+    this.failed.add(req);
+  }
+
+  async report(range: ActivityRange = {}): Promise<ChatActivityReport> {
+    const until = range.until ?? this.clock();
+    const since = range.since ?? until - DEFAULT_WINDOW_MS;
+    const events = await this.repository.list({ since, until });
+
+    const days = new Map<string, ChatEvent[]>();
+    for (const event of events) {
+      const date = utcDate(event.createdAt);
+      days.set(date, [...(days.get(date) ?? []), event]);
+    }
+
+    return {
+      since,
+      until,
+      totals: totalsOf(events),
+      daily: [...days.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, dayEvents]) => ({ date, ...totalsOf(dayEvents) })),
+      topTopics: ranking(events.flatMap(event => event.topics)).map(([topic, count]) => ({ topic, count })),
+      emotions: ranking(events.flatMap(event => event.emotion ? [event.emotion] : []))
+        .map(([emotion, count]) => ({ emotion, count })),
+    };
+  }
+
+  private async record(event: ChatEvent): Promise<void> {
+    try {
+      await this.repository.record(event);
+      await this.prune(event.createdAt);
+    } catch (error) {
+      // Analytics never get in the way of chatting
+      logger.error('Failed to record chat event', { error });
+    }
+  }
+
+  private async prune(now: number): Promise<void> {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+
+    const deleted = await this.repository.deleteBefore(now - this.retentionMs);
+    if (deleted > 0) {
+      logger.info('Deleted expired chat events', { deleted, retentionDays: this.retentionMs / DAY_MS });
+    }
+  }
+}
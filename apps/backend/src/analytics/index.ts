@@ -0,0 +1 @@
+export { ChatActivityTracker, ChatActivityTrackerOptions, ActivityRange } from './chatActivityTracker';
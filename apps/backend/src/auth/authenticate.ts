@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthConfig } from '../config/auth';
+import { verifyToken } from './tokens';
+import { ANONYMOUS_IDENTITY, ANONYMOUS_USER_ID, AuthIdentity } from './types';
+
+const BEARER_PREFIX = /^Bearer\s+/i;
+
+/**
+ * Identify the caller from `Authorization: Bearer <token>` or a known X-API-Key
+ *
+ * Unknown API keys are ignored rather than refused: the rate limiter has keys
+ * of its own that need not belong to a user.
+ */
+export function identifyRequest(req: Request, config: AuthConfig): AuthIdentity | 'invalid' | null {
+  const authorization = req.get('authorization');
+  const bearerToken = authorization && BEARER_PREFIX.test(authorization)
+    ? authorization.replace(BEARER_PREFIX, '')
+    : undefined;
+
+  return identifyCredentials({ bearerToken, apiKey: req.get('x-api-key') }, config);
+}
+
+/**
+ * Identify the caller from a session token or an API key, however they were sent
+ */
+export function identifyCredentials(
+  { bearerToken, apiKey }: { bearerToken?: string; apiKey?: string },
+  config: AuthConfig
+): AuthIdentity | 'invalid' | null {
+  if (bearerToken !== undefined) {
+    return verifyToken(bearerToken, config) ?? 'invalid';
+  }
+
+  if (apiKey && Object.prototype.hasOwnProperty.call(config.apiKeys, apiKey)) {
+    const userId = config.apiKeys[apiKey];
+    return { userId, sessionId: `api-key:${userId}`, method: 'api_key' };
+  }
+
+  return null;
+}
+
+/**
+ * Express middleware attaching `req.auth`, answering 401 when the caller
+ * can't be identified and authentication is required
+ */
+export function createAuthMiddleware(config: AuthConfig): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const identity = identifyRequest(req, config);
+
+    if (identity === 'invalid') {
+      res.status(401).json({ error: 'Invalid or expired token' });
+      return;
+    }
+
+    if (!identity && config.required) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    req.auth = identity ?? ANONYMOUS_IDENTITY;
+    next();
+  };
+}
+
+/**
+ * Express middleware answering 403 unless the caller is one of the configured
+ * admins; mount it after the auth middleware
+ */
+export function requireAdmin(config: AuthConfig): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth || req.auth.method === 'anonymous' || !config.admins.includes(req.auth.userId)) {
+      res.status(403).json({ error: 'Admin access required' });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Owner of the data a request reads and writes
+ */
+export function getUserId(req: Request): string {
+  return req.auth?.userId ?? ANONYMOUS_USER_ID;
+}
@@ -0,0 +1,3 @@
+export * from './types';
+export { issueToken, verifyToken, IssuedToken } from './tokens';
+export { createAuthMiddleware, identifyRequest, identifyCredentials, getUserId, requireAdmin } from './authenticate';
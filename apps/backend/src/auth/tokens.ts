@@ -0,0 +1,51 @@
+import jwt from 'jsonwebtoken';
+import { AuthConfig } from '../config/auth';
+import { AuthIdentity } from './types';
+
+export interface IssuedToken {
+  token: string;
+  /** Milliseconds since epoch */
+  expiresAt: number;
+}
+
+interface SessionClaims {
+  sub: string;
+  sid: string;
+  name?: string;
+  exp: number;
+}
+
+const ALGORITHM = 'HS256';
+
+/**
+ * Sign a session token (JWT) for a logged in user
+ */
+export function issueToken(
+  identity: Pick<AuthIdentity, 'userId' | 'sessionId' | 'name'>,
+  config: Pick<AuthConfig, 'jwtSecret' | 'tokenTtlSeconds'>
+): IssuedToken {
+  const token = jwt.sign(
+    { sid: identity.sessionId, name: identity.name },
+    config.jwtSecret,
+    { algorithm: ALGORITHM, subject: identity.userId, expiresIn: config.tokenTtlSeconds }
+  );
+  const { exp } = jwt.decode(token) as SessionClaims;
+
+  return { token, expiresAt: exp * 1000 };
+}
+
+/**
+ * Identity of a session token, or null when it is invalid or expired
+ */
+export function verifyToken(token: string, config: Pick<AuthConfig, 'jwtSecret'>): AuthIdentity | null {
+  try {
+    const claims = jwt.verify(token, config.jwtSecret, { algorithms: [ALGORITHM] }) as SessionClaims;
+    if (typeof claims.sub !== 'string' || typeof claims.sid !== 'string') {
+      return null;
+    }
+
+    return { userId: claims.sub, sessionId: claims.sid, name: claims.name, method: 'token' };
+  } catch {
+    return null;
+  }
+}
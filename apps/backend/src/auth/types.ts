@@ -0,0 +1,31 @@
+/**
+ * Who is calling, attached to every API request by the auth middleware
+ */
+
+export type AuthMethod = 'token' | 'api_key' | 'anonymous';
+
+export interface AuthIdentity {
+  /** Owner of conversations and other stored data */
+  userId: string;
+  /** One login; API keys and anonymous callers share a fixed session */
+  sessionId: string;
+  name?: string;
+  method: AuthMethod;
+}
+
+/** Shared identity of unauthenticated callers when auth is not required */
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+export const ANONYMOUS_IDENTITY: AuthIdentity = {
+  userId: ANONYMOUS_USER_ID,
+  sessionId: ANONYMOUS_USER_ID,
+  method: 'anonymous',
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthIdentity;
+    }
+  }
+}
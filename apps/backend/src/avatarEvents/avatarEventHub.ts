@@ -0,0 +1,83 @@
+import { randomUUID } from 'crypto';
+import { Request } from 'express';
+import { getUserId } from '../auth';
+import { AVATAR_CHANNEL_HEADER, AvatarEvent, AvatarEventPayload } from './types';
+import { logger } from '../observability';
+
+interface Channel {
+  userId: string;
+  send: (event: AvatarEvent) => void;
+}
+
+/**
+ * Where one chat request publishes its avatar events
+ */
+export interface AvatarChannel {
+  publish(event: AvatarEventPayload): void;
+}
+
+/**
+ * Routes avatar events to connected clients
+ *
+ * Each connection is a channel with an id of its own. A chat request names
+ * its channel in the X-Avatar-Channel header, and its events go to that
+ * channel only, provided it belongs to the same user. Without the header
+ * no events are sent.
+ */
+export class AvatarEventHub {
+  private channels = new Map<string, Channel>();
+
+  constructor(private readonly clock: () => number = Date.now) {}
+
+  /**
+   * Open a channel for a connection, sending it the `connected` event
+   */
+  connect(userId: string, send: (event: AvatarEvent) => void): string {
+    const channelId = randomUUID();
+    this.channels.set(channelId, { userId, send });
+    this.deliver(channelId, { type: 'connected', channelId });
+    return channelId;
+  }
+
+  disconnect(channelId: string): void {
+    this.channels.delete(channelId);
+  }
+
+  get size(): number {
+    return this.channels.size;
+  }
+
+  /**
+   * Publish to a channel if it exists and belongs to the user
+   */
+  publish(userId: string, channelId: string, event: AvatarEventPayload): boolean {
+    if (this.channels.get(channelId)?.userId !== userId) {
+      return false;
+    }
+    this.deliver(channelId, event);
+    return true;
+  }
+
+  /**
+   * The channel a chat request names, or null when it names none of the caller's
+   */
+  channelFor(req: Request): AvatarChannel | null {
+    const channelId = req.get(AVATAR_CHANNEL_HEADER);
+    const userId = getUserId(req);
+    if (!channelId || this.channels.get(channelId)?.userId !== userId) {
+      return null;
+    }
+
+    return { publish: event => this.publish(userId, channelId, event) };
+  }
+
+  // A failing connection must not break the chat request publishing to it
+  private deliver(channelId: string, event: AvatarEventPayload): void {
+    try {
+      this.channels.get(channelId)?.send({ ...event, timestamp: new Date(this.clock()).toISOString() } as AvatarEvent);
+    } catch (error) {
+      logger.error('Failed to send avatar event', { error });
+      this.disconnect(channelId);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { AuthConfig } from '../config/auth';
+import { ANONYMOUS_USER_ID, identifyCredentials } from '../auth';
+import { AvatarEventHub } from './avatarEventHub';
+
+export const AVATAR_EVENTS_PATH = '/api/avatar/events';
+
+// Connections that miss a ping for this long are dropped
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+export interface AvatarEventServerOptions {
+  hub: AvatarEventHub;
+  auth: AuthConfig;
+  /** Origins allowed to connect; undefined allows any */
+  origins?: string[];
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Serve the avatar event WebSocket on an HTTP server
+ *
+ * GET /api/avatar/events  WebSocket of AvatarEvents, one JSON message each
+ *
+ * Browsers can't set headers on a WebSocket, so the session token comes as
+ * the `token` query parameter; X-API-Key works for other clients. Callers
+ * are identified, and refused, as on the other API routes.
+ */
+export function attachAvatarEventServer(server: Server, { hub, auth, origins }: AvatarEventServerOptions): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== AVATAR_EVENTS_PATH) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    if (origins && req.headers.origin && !origins.includes(req.headers.origin)) {
+      rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+
+    const apiKey = req.headers['x-api-key'];
+    const identity = identifyCredentials({
+      bearerToken: url.searchParams.get('token') ?? undefined,
+      apiKey: typeof apiKey === 'string' ? apiKey : undefined,
+    }, auth);
+    if (identity === 'invalid' || (!identity && auth.required)) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      const channelId = hub.connect(identity?.userId ?? ANONYMOUS_USER_ID, event => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify(event));
+        }
+      });
+
+      alive.add(ws);
+      ws.on('pong', () => alive.add(ws));
+      ws.on('close', () => hub.disconnect(channelId));
+      ws.on('error', () => ws.terminate());
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        continue;
+      }
+      alive.delete(ws);
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  wss.on('close', () => clearInterval(heartbeat));
+  return wss;
+}
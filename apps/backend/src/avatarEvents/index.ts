@@ -0,0 +1,5 @@
+export * from './types';
+export { AvatarEventHub, AvatarChannel } from './avatarEventHub';
+export { AvatarResponsePublisher } from './responsePublisher';
+export { detectEmotion, detectGestures, EmotionCue } from './responseCues';
+export { attachAvatarEventServer, AvatarEventServerOptions, AVATAR_EVENTS_PATH } from './avatarEventServer';
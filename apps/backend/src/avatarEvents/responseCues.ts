@@ -0,0 +1,68 @@
+import { AvatarEmotion, AvatarGesture } from './types';
+
+/**
+ * Emotion and gesture cues read from the avatar's own response text
+ */
+
+export interface EmotionCue {
+  emotion: AvatarEmotion;
+  /** 0-1 */
+  intensity: number;
+}
+
+// Matched as whole words, case-insensitively; the first emotion with most hits wins
+const EMOTION_KEYWORDS: Record<Exclude<AvatarEmotion, 'neutral'>, string[]> = {
+  excited: ['excited', 'thrilled', 'amazing', 'incredible', 'awesome', 'wow', 'fantastic', "can't wait"],
+  happy: ['happy', 'glad', 'great', 'wonderful', 'love', 'delighted', 'nice', 'fun', 'enjoy'],
+  sad: ['sad', 'sorry', 'unfortunately', 'miss', 'disappointed', 'loss'],
+  frustrated: ['frustrating', 'annoying', 'ugh', 'difficult'],
+  confused: ['confused', 'not sure', 'unclear', 'hmm', "don't understand"],
+  curious: ['curious', 'wonder', 'interesting', 'tell me more', 'what about', 'fascinating'],
+  calm: ['relax', 'calm', 'gently', 'breathe', 'take your time', 'peaceful'],
+};
+
+const keywordPattern = (keyword: string) => new RegExp(`\\b${keyword.replace(/'/g, "['’]")}\\b`, 'gi');
+
+const EMOTION_PATTERNS = Object.entries(EMOTION_KEYWORDS).map(([emotion, keywords]) => ({
+  emotion: emotion as AvatarEmotion,
+  patterns: keywords.map(keywordPattern),
+}));
+
+const GREETING = /^\s*(hi|hello|hey|howdy|greetings|good (morning|afternoon|evening))\b/i;
+const AGREEMENT = /^\s*(yes|yeah|yep|sure|absolutely|of course|exactly|definitely|right)\b/i;
+const QUESTION = /\?["')\]]*\s*$/;
+
+/**
+ * The emotion a piece of text expresses, or null when none stands out
+ */
+export function detectEmotion(text: string): EmotionCue | null {
+  let best: { emotion: AvatarEmotion; hits: number } | null = null;
+
+  for (const { emotion, patterns } of EMOTION_PATTERNS) {
+    const hits = patterns.reduce((count, pattern) => count + (text.match(pattern)?.length ?? 0), 0);
+    if (hits > 0 && (!best || hits > best.hits)) {
+      best = { emotion, hits };
+    }
+  }
+
+  if (!best) return null;
+
+  const exclamations = text.match(/!/g)?.length ?? 0;
+  const intensity = Math.min(1, 0.4 + 0.2 * best.hits + 0.1 * exclamations);
+  return { emotion: best.emotion, intensity: Math.round(intensity * 100) / 100 };
+}
+
+/**
+ * Gestures that go with one sentence of the response
+ */
+export function detectGestures(sentence: string, emotion?: AvatarEmotion): AvatarGesture[] {
+  const gestures: AvatarGesture[] = [];
+
+  if (GREETING.test(sentence)) gestures.push('wave');
+  if (AGREEMENT.test(sentence)) gestures.push('nod');
+  if (QUESTION.test(sentence)) gestures.push('head_tilt');
+  if (emotion === 'excited' && sentence.includes('!')) gestures.push('bounce');
+  else if (emotion === 'happy') gestures.push('tail_wag');
+
+  return gestures;
+}
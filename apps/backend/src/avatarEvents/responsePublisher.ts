@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { AvatarChannel } from './avatarEventHub';
+import { AvatarEmotion } from './types';
+import { detectEmotion, detectGestures } from './responseCues';
+
+// Text up to the end of the first complete sentence
+const COMPLETE_SENTENCE = /^[\s\S]*?(?:[.!?]+["')\]]*(?=\s|$)|\n)\s*/;
+
+/**
+ * Publishes the avatar events of one chat response: started, each token,
+ * emotion and gesture cues as sentences complete, and finished
+ */
+export class AvatarResponsePublisher {
+  private pending = '';
+  private emotion?: AvatarEmotion;
+
+  constructor(
+    private readonly channel: AvatarChannel,
+    private readonly requestId: string = randomUUID()
+  ) {}
+
+  started(conversationId?: string): void {
+    this.channel.publish({
+      type: 'response_started',
+      requestId: this.requestId,
+      ...(conversationId ? { conversationId } : {}),
+    });
+  }
+
+  token(content: string): void {
+    this.channel.publish({ type: 'token', requestId: this.requestId, content });
+
+    this.pending += content;
+    let match: RegExpMatchArray | null;
+    while ((match = this.pending.match(COMPLETE_SENTENCE))) {
+      this.pending = this.pending.slice(match[0].length);
+      this.cue(match[0]);
+    }
+  }
+
+  finished(response: string, conversationId?: string): void {
+    if (this.pending.trim()) {
+      this.cue(this.pending);
+    }
+    this.pending = '';
+
+    this.channel.publish({
+      type: 'response_finished',
+      requestId: this.requestId,
+      response,
+      ...(conversationId ? { conversationId } : {}),
+    });
+  }
+
+  /**
+   * End a response that failed, so the avatar doesn't wait for it
+   */
+  failed(error = 'Failed to process chat request'): void {
+    this.pending = '';
+    this.channel.publish({ type: 'response_finished', requestId: this.requestId, response: '', error });
+  }
+
+  // Emotions are published when they change; gestures with every sentence that calls for one
+  private cue(sentence: string): void {
+    const detected = detectEmotion(sentence);
+    if (detected && detected.emotion !== this.emotion) {
+      this.emotion = detected.emotion;
+      this.channel.publish({ type: 'emotion', requestId: this.requestId, ...detected });
+    }
+
+    for (const gesture of detectGestures(sentence, detected?.emotion)) {
+      this.channel.publish({ type: 'gesture', requestId: this.requestId, gesture });
+    }
+  }
+}
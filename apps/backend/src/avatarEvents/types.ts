@@ -0,0 +1,78 @@
+/**
+ * Avatar event types, pushed to the client over the avatar WebSocket
+ */
+
+/** Same vocabulary as the client's EmotionState */
+export type AvatarEmotion =
+  | 'happy'
+  | 'sad'
+  | 'excited'
+  | 'calm'
+  | 'frustrated'
+  | 'confused'
+  | 'curious'
+  | 'neutral';
+
+export type AvatarGesture = 'wave' | 'nod' | 'head_tilt' | 'tail_wag' | 'bounce';
+
+interface AvatarEventBase {
+  /** ISO 8601 */
+  timestamp: string;
+}
+
+/** First event on a connection: the channel chat requests name to receive events */
+export interface ConnectedEvent extends AvatarEventBase {
+  type: 'connected';
+  channelId: string;
+}
+
+export interface ResponseStartedEvent extends AvatarEventBase {
+  type: 'response_started';
+  requestId: string;
+  conversationId?: string;
+}
+
+export interface TokenEvent extends AvatarEventBase {
+  type: 'token';
+  requestId: string;
+  content: string;
+}
+
+export interface EmotionEvent extends AvatarEventBase {
+  type: 'emotion';
+  requestId: string;
+  emotion: AvatarEmotion;
+  /** 0-1 */
+  intensity: number;
+}
+
+export interface GestureEvent extends AvatarEventBase {
+  type: 'gesture';
+  requestId: string;
+  gesture: AvatarGesture;
+}
+
+export interface ResponseFinishedEvent extends AvatarEventBase {
+  type: 'response_finished';
+  requestId: string;
+  /** Empty when the request failed */
+  response: string;
+  conversationId?: string;
+  error?: string;
+}
+
+export type AvatarEvent =
+  | ConnectedEvent
+  | ResponseStartedEvent
+  | TokenEvent
+  | EmotionEvent
+  | GestureEvent
+  | ResponseFinishedEvent;
+
+type WithoutTimestamp<E> = E extends AvatarEvent ? Omit<E, 'timestamp'> : never;
+
+/** An event as published; the hub stamps the time */
+export type AvatarEventPayload = WithoutTimestamp<AvatarEvent>;
+
+/** Header naming the avatar channel a chat request's events go to */
+export const AVATAR_CHANNEL_HEADER = 'x-avatar-channel';
@@ -0,0 +1,32 @@
+/**
+ * Chat analytics configuration, read from environment variables
+ *
+ * ANALYTICS_ENABLED          true | false (default: true)
+ * ANALYTICS_RETENTION_DAYS   chat request records older than this are deleted (default: 90)
+ */
+
+export interface AnalyticsConfig {
+  enabled: boolean;
+  retentionDays: number;
+}
+
+export const DEFAULT_ANALYTICS_CONFIG: AnalyticsConfig = {
+  enabled: true,
+  retentionDays: 90,
+};
+
+export function loadAnalyticsConfig(env: NodeJS.ProcessEnv = process.env): AnalyticsConfig {
+  const retention = env.ANALYTICS_RETENTION_DAYS;
+  let retentionDays = DEFAULT_ANALYTICS_CONFIG.retentionDays;
+  if (retention !== undefined && retention !== '') {
+    retentionDays = Number(retention);
+    if (!Number.isInteger(retentionDays) || retentionDays <= 0) {
+      throw new Error(`ANALYTICS_RETENTION_DAYS must be a positive integer, got "${retention}"`);
+    }
+  }
+
+  return {
+    enabled: env.ANALYTICS_ENABLED ? env.ANALYTICS_ENABLED.toLowerCase() !== 'false' : true,
+    retentionDays,
+  };
+}
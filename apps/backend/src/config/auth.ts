@@ -0,0 +1,73 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Authentication configuration, read from environment variables
+ *
+ * AUTH_REQUIRED     true | false (default: true, false when NODE_ENV is "test").
+ *                   When false, unauthenticated requests act as a shared anonymous user.
+ * AUTH_JWT_SECRET   secret that signs session tokens. When unset a random one is
+ *                   generated, so sessions end whenever the server restarts.
+ * AUTH_TOKEN_TTL    session token lifetime in seconds (default: 604800, one week)
+ * AUTH_USERS        JSON object of usernames to passwords, e.g. {"sam": "secret"}.
+ *                   When unset, the login route issues guest accounts instead.
+ * AUTH_API_KEYS     JSON object of API keys (sent as X-API-Key) to the user id they act as,
+ *                   e.g. {"ci-key": "ci-bot"}
+ * AUTH_ADMINS       comma-separated user ids allowed on the admin routes, e.g. "sam,ci-bot"
+ */
+
+export interface AuthConfig {
+  required: boolean;
+  jwtSecret: string;
+  /** True when the secret was generated for this process */
+  ephemeralSecret: boolean;
+  tokenTtlSeconds: number;
+  users: Record<string, string>;
+  apiKeys: Record<string, string>;
+  /** User ids allowed on /api/admin */
+  admins: string[];
+}
+
+export const DEFAULT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+function parseStringMap(value: string | undefined, name: string): Record<string, string> {
+  if (!value) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error(`${name} must be a JSON object of strings`);
+  }
+
+  if (
+    typeof parsed !== 'object' ||
+    parsed === null ||
+    Array.isArray(parsed) ||
+    !Object.values(parsed).every(entry => typeof entry === 'string' && entry.length > 0)
+  ) {
+    throw new Error(`${name} must be a JSON object of strings`);
+  }
+
+  return parsed as Record<string, string>;
+}
+
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const required = env.AUTH_REQUIRED
+    ? env.AUTH_REQUIRED.toLowerCase() !== 'false'
+    : env.NODE_ENV !== 'test';
+
+  const tokenTtlSeconds = env.AUTH_TOKEN_TTL ? Number(env.AUTH_TOKEN_TTL) : DEFAULT_TOKEN_TTL_SECONDS;
+  if (!Number.isInteger(tokenTtlSeconds) || tokenTtlSeconds <= 0) {
+    throw new Error(`AUTH_TOKEN_TTL must be a positive number of seconds, got "${env.AUTH_TOKEN_TTL}"`);
+  }
+
+  return {
+    required,
+    jwtSecret: env.AUTH_JWT_SECRET || randomBytes(32).toString('hex'),
+    ephemeralSecret: !env.AUTH_JWT_SECRET,
+    tokenTtlSeconds,
+    users: parseStringMap(env.AUTH_USERS, 'AUTH_USERS'),
+    apiKeys: parseStringMap(env.AUTH_API_KEYS, 'AUTH_API_KEYS'),
+    admins: (env.AUTH_ADMINS ?? '').split(',').map(id => id.trim()).filter(Boolean),
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * CORS configuration, read from environment variables
+ *
+ * CORS_ORIGINS  comma-separated origins allowed to call the API,
+ *               e.g. https://avatar.example.com (default: any origin)
+ */
+
+export interface CorsConfig {
+  /** Undefined allows any origin */
+  origins?: string[];
+}
+
+export function loadCorsConfig(env: NodeJS.ProcessEnv = process.env): CorsConfig {
+  const origins = env.CORS_ORIGINS
+    ?.split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+
+  return { origins: origins && origins.length > 0 ? origins : undefined };
+}
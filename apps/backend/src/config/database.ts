@@ -0,0 +1,22 @@
+/**
+ * Database configuration, read from environment variables
+ *
+ * DATABASE_PATH  SQLite file path, or ":memory:" (default: data/3davatar.db,
+ *                in-memory when NODE_ENV is "test")
+ */
+
+export interface DatabaseConfig {
+  path: string;
+}
+
+export const DEFAULT_DATABASE_PATH = 'data/3davatar.db';
+
+export function loadDatabaseConfig(env: NodeJS.ProcessEnv = process.env): DatabaseConfig {
+  if (env.DATABASE_PATH) {
+    return { path: env.DATABASE_PATH };
+  }
+
+  return {
+    path: env.NODE_ENV === 'test' ? ':memory:' : DEFAULT_DATABASE_PATH,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Error report configuration, read from environment variables
+ *
+ * ERROR_REPORTS_ENABLED   true | false (default: true)
+ * ERROR_REPORTS_SAMPLES   reports kept per distinct error, newest first; older ones
+ *                         only count towards its total (default: 20)
+ */
+
+export interface ErrorReportsConfig {
+  enabled: boolean;
+  samplesPerError: number;
+}
+
+export const DEFAULT_ERROR_REPORTS_CONFIG: ErrorReportsConfig = {
+  enabled: true,
+  samplesPerError: 20,
+};
+
+export function loadErrorReportsConfig(env: NodeJS.ProcessEnv = process.env): ErrorReportsConfig {
+  const samples = env.ERROR_REPORTS_SAMPLES;
+  let samplesPerError = DEFAULT_ERROR_REPORTS_CONFIG.samplesPerError;
+  if (samples !== undefined && samples !== '') {
+    samplesPerError = Number(samples);
+    if (!Number.isInteger(samplesPerError) || samplesPerError <= 0) {
+      throw new Error(`ERROR_REPORTS_SAMPLES must be a positive integer, got "${samples}"`);
+    }
+  }
+
+  return {
+    enabled: env.ERROR_REPORTS_ENABLED ? env.ERROR_REPORTS_ENABLED.toLowerCase() !== 'false' : true,
+    samplesPerError,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Feedback configuration, read from environment variables
+ *
+ * FEEDBACK_ENABLED          true | false (default: true)
+ * FEEDBACK_RETENTION_DAYS   feedback and interaction metrics older than this are
+ *                           deleted (default: 90)
+ */
+
+export interface FeedbackConfig {
+  enabled: boolean;
+  retentionDays: number;
+}
+
+export const DEFAULT_FEEDBACK_CONFIG: FeedbackConfig = {
+  enabled: true,
+  retentionDays: 90,
+};
+
+export function loadFeedbackConfig(env: NodeJS.ProcessEnv = process.env): FeedbackConfig {
+  const retention = env.FEEDBACK_RETENTION_DAYS;
+  let retentionDays = DEFAULT_FEEDBACK_CONFIG.retentionDays;
+  if (retention !== undefined && retention !== '') {
+    retentionDays = Number(retention);
+    if (!Number.isInteger(retentionDays) || retentionDays <= 0) {
+      throw new Error(`FEEDBACK_RETENTION_DAYS must be a positive integer, got "${retention}"`);
+    }
+  }
+
+  return {
+    enabled: env.FEEDBACK_ENABLED ? env.FEEDBACK_ENABLED.toLowerCase() !== 'false' : true,
+    retentionDays,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Idempotency configuration, read from environment variables
+ *
+ * IDEMPOTENCY_TTL_SECONDS   how long a completed response is replayed to requests
+ *                           with the same Idempotency-Key (default: 600)
+ * IDEMPOTENCY_MAX_ENTRIES   responses kept at once; the oldest are dropped first
+ *                           (default: 10000)
+ */
+
+export interface IdempotencyConfig {
+  ttlSeconds: number;
+  maxEntries: number;
+}
+
+export const DEFAULT_IDEMPOTENCY_CONFIG: IdempotencyConfig = {
+  ttlSeconds: 600,
+  maxEntries: 10000,
+};
+
+const readPositiveInteger = (value: string | undefined, fallback: number, name: string): number => {
+  if (value === undefined || value === '') return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+export function loadIdempotencyConfig(env: NodeJS.ProcessEnv = process.env): IdempotencyConfig {
+  return {
+    ttlSeconds: readPositiveInteger(
+      env.IDEMPOTENCY_TTL_SECONDS, DEFAULT_IDEMPOTENCY_CONFIG.ttlSeconds, 'IDEMPOTENCY_TTL_SECONDS'
+    ),
+    maxEntries: readPositiveInteger(
+      env.IDEMPOTENCY_MAX_ENTRIES, DEFAULT_IDEMPOTENCY_CONFIG.maxEntries, 'IDEMPOTENCY_MAX_ENTRIES'
+    ),
+  };
+}
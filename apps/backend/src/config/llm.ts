@@ -0,0 +1,55 @@
+/**
+ * LLM provider configuration, read from environment variables
+ *
+ * LLM_PROVIDER     openai | openai-compatible | mock (default: openai)
+ * LLM_MODEL        model name (default depends on the provider)
+ * LLM_BASE_URL     base URL of an OpenAI-compatible server
+ * LLM_API_KEY      API key for an OpenAI-compatible server (optional)
+ * LLM_MOCK_SCRIPT  path to a JSON script for the mock provider
+ * LLM_MOCK_DELAY_MS delay between streamed mock tokens
+ * LLM_CONTEXT_WINDOW context window of the model in tokens (default depends on the model)
+ */
+
+export type LLMProviderType = 'openai' | 'openai-compatible' | 'mock';
+
+export const LLM_PROVIDER_TYPES: readonly LLMProviderType[] = ['openai', 'openai-compatible', 'mock'];
+
+export interface LLMConfig {
+  provider: LLMProviderType;
+  model?: string;
+  baseURL?: string;
+  apiKey?: string;
+  mockScriptPath?: string;
+  mockTokenDelayMs: number;
+  contextWindow?: number;
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderType, string> = {
+  'openai': 'gpt-3.5-turbo',
+  // Ollama's tag naming; llama.cpp ignores the model field
+  'openai-compatible': 'llama3',
+  'mock': 'mock-scripted',
+};
+
+// llama.cpp server default; Ollama uses http://localhost:11434/v1
+export const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:8080/v1';
+
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || 'openai').toLowerCase();
+
+  if (!LLM_PROVIDER_TYPES.includes(provider as LLMProviderType)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${provider}". Expected one of: ${LLM_PROVIDER_TYPES.join(', ')}`
+    );
+  }
+
+  return {
+    provider: provider as LLMProviderType,
+    model: env.LLM_MODEL || undefined,
+    baseURL: env.LLM_BASE_URL || undefined,
+    apiKey: env.LLM_API_KEY || undefined,
+    mockScriptPath: env.LLM_MOCK_SCRIPT || undefined,
+    mockTokenDelayMs: Number(env.LLM_MOCK_DELAY_MS) || 0,
+    contextWindow: Number(env.LLM_CONTEXT_WINDOW) || undefined,
+  };
+}
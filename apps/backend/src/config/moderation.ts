@@ -0,0 +1,40 @@
+/**
+ * Moderation configuration, read from environment variables
+ *
+ * MODERATION_ENABLED     true | false (default: true, false when NODE_ENV is "test")
+ * MODERATION_CLASSIFIER  keyword (default; local keyword/regex matching)
+ * MODERATION_PATTERNS    path to a JSON file of extra patterns per prohibited topic,
+ *                        e.g. {"legal advice": ["\\bsmall claims court\\b"]}
+ *
+ * Topics come from the personality's boundaries.prohibitedTopics; the
+ * responseRules decide whether flagged messages are redirected or refused.
+ */
+
+export type ModerationClassifierType = 'keyword';
+
+export const MODERATION_CLASSIFIER_TYPES: readonly ModerationClassifierType[] = ['keyword'];
+
+export interface ModerationConfig {
+  enabled: boolean;
+  classifier: ModerationClassifierType;
+  patternsPath?: string;
+}
+
+export function loadModerationConfig(env: NodeJS.ProcessEnv = process.env): ModerationConfig {
+  const enabled = env.MODERATION_ENABLED
+    ? env.MODERATION_ENABLED.toLowerCase() !== 'false'
+    : env.NODE_ENV !== 'test';
+
+  const classifier = (env.MODERATION_CLASSIFIER || 'keyword').toLowerCase();
+  if (!MODERATION_CLASSIFIER_TYPES.includes(classifier as ModerationClassifierType)) {
+    throw new Error(
+      `Unknown MODERATION_CLASSIFIER "${classifier}". Expected one of: ${MODERATION_CLASSIFIER_TYPES.join(', ')}`
+    );
+  }
+
+  return {
+    enabled,
+    classifier: classifier as ModerationClassifierType,
+    patternsPath: env.MODERATION_PATTERNS || undefined,
+  };
+}
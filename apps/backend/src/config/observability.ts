@@ -0,0 +1,28 @@
+/**
+ * Logging and metrics configuration, read from environment variables
+ *
+ * LOG_LEVEL        debug | info | warn | error | silent (default: info)
+ * METRICS_ENABLED  true | false (default: true). Serves GET /metrics in the
+ *                  Prometheus text format; keep it off the public internet.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+export interface ObservabilityConfig {
+  logLevel: LogLevel;
+  metricsEnabled: boolean;
+}
+
+export function loadObservabilityConfig(env: NodeJS.ProcessEnv = process.env): ObservabilityConfig {
+  const logLevel = (env.LOG_LEVEL || 'info').toLowerCase();
+  if (!LOG_LEVELS.includes(logLevel as LogLevel)) {
+    throw new Error(`Unknown LOG_LEVEL "${logLevel}". Expected one of: ${LOG_LEVELS.join(', ')}`);
+  }
+
+  return {
+    logLevel: logLevel as LogLevel,
+    metricsEnabled: env.METRICS_ENABLED ? env.METRICS_ENABLED.toLowerCase() !== 'false' : true,
+  };
+}
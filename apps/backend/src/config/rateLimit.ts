@@ -0,0 +1,102 @@
+/**
+ * Rate limit configuration, read from environment variables
+ *
+ * RATE_LIMIT_ENABLED              true | false (default: true, false when NODE_ENV is "test")
+ * RATE_LIMIT_BURST                requests a client can make at once (default: 10)
+ * RATE_LIMIT_REFILL_PER_MINUTE    requests added back to the bucket per minute (default: 20)
+ * RATE_LIMIT_DAILY_TOKEN_QUOTA    LLM tokens a client may use per UTC day (default: 100000)
+ * RATE_LIMIT_API_KEYS             JSON object of API keys (sent as X-API-Key) to their own
+ *                                 limits, e.g. {"team-key": {"burst": 50, "dailyTokenQuota": 1000000}}
+ * TRUST_PROXY                     Express "trust proxy" setting; set it behind a reverse proxy
+ *                                 so clients are told apart by their real IP
+ *
+ * Clients are identified by API key when they send a known one, by IP otherwise.
+ */
+
+export interface ClientLimits {
+  burst: number;
+  refillPerMinute: number;
+  dailyTokenQuota: number;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  /** Limits for clients identified by IP */
+  defaults: ClientLimits;
+  /** Limits per API key; missing fields fall back to the defaults */
+  apiKeys: Record<string, ClientLimits>;
+  trustProxy?: boolean | number | string;
+}
+
+export const DEFAULT_CLIENT_LIMITS: ClientLimits = {
+  burst: 10,
+  refillPerMinute: 20,
+  dailyTokenQuota: 100000,
+};
+
+const readPositiveNumber = (value: string | undefined, fallback: number, name: string): number => {
+  if (value === undefined || value === '') return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+};
+
+// 'true' / 'false', a hop count, or an address list as Express accepts it
+const parseTrustProxy = (value: string | undefined): boolean | number | string | undefined => {
+  if (!value) return undefined;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+function parseApiKeyLimits(value: string | undefined, defaults: ClientLimits): Record<string, ClientLimits> {
+  if (!value) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('RATE_LIMIT_API_KEYS must be a JSON object');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('RATE_LIMIT_API_KEYS must be a JSON object');
+  }
+
+  const limits: Record<string, ClientLimits> = {};
+  for (const [key, overrides] of Object.entries(parsed as Record<string, Partial<Record<keyof ClientLimits, unknown>>>)) {
+    const field = (name: keyof ClientLimits) =>
+      readPositiveNumber(overrides?.[name]?.toString(), defaults[name], `RATE_LIMIT_API_KEYS["${key}"].${name}`);
+
+    limits[key] = {
+      burst: field('burst'),
+      refillPerMinute: field('refillPerMinute'),
+      dailyTokenQuota: field('dailyTokenQuota'),
+    };
+  }
+  return limits;
+}
+
+export function loadRateLimitConfig(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+  const enabled = env.RATE_LIMIT_ENABLED
+    ? env.RATE_LIMIT_ENABLED.toLowerCase() !== 'false'
+    : env.NODE_ENV !== 'test';
+
+  const defaults: ClientLimits = {
+    burst: readPositiveNumber(env.RATE_LIMIT_BURST, DEFAULT_CLIENT_LIMITS.burst, 'RATE_LIMIT_BURST'),
+    refillPerMinute: readPositiveNumber(
+      env.RATE_LIMIT_REFILL_PER_MINUTE, DEFAULT_CLIENT_LIMITS.refillPerMinute, 'RATE_LIMIT_REFILL_PER_MINUTE'
+    ),
+    dailyTokenQuota: readPositiveNumber(
+      env.RATE_LIMIT_DAILY_TOKEN_QUOTA, DEFAULT_CLIENT_LIMITS.dailyTokenQuota, 'RATE_LIMIT_DAILY_TOKEN_QUOTA'
+    ),
+  };
+
+  return {
+    enabled,
+    defaults,
+    apiKeys: parseApiKeyLimits(env.RATE_LIMIT_API_KEYS, defaults),
+    trustProxy: parseTrustProxy(env.TRUST_PROXY),
+  };
+}
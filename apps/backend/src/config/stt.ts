@@ -0,0 +1,66 @@
+/**
+ * Speech-to-text configuration, read from environment variables
+ *
+ * STT_ENGINE           none | whisper.cpp (default: none; clients without the
+ *                      browser's speech recognition can't talk then)
+ * STT_WHISPER_PATH     whisper.cpp CLI executable (default: whisper-cli)
+ * STT_WHISPER_MODEL    path to the ggml model file, required for whisper.cpp
+ * STT_WHISPER_THREADS  threads whisper.cpp may use (default: its own)
+ * STT_FFMPEG_PATH      ffmpeg executable, converts uploads to 16 kHz WAV (default: ffmpeg)
+ * STT_LANGUAGE         language when the request names none, or auto (default: en)
+ * STT_MAX_AUDIO_BYTES  largest upload accepted (default: 10485760, 10 MB)
+ * STT_TIMEOUT_MS       time conversion and recognition may each take (default: 30000)
+ */
+
+export type STTEngineType = 'none' | 'whisper.cpp';
+
+export const STT_ENGINE_TYPES: readonly STTEngineType[] = ['none', 'whisper.cpp'];
+
+export interface STTConfig {
+  engine: STTEngineType;
+  whisperPath: string;
+  whisperModel?: string;
+  whisperThreads?: number;
+  ffmpegPath: string;
+  language: string;
+  maxAudioBytes: number;
+  timeoutMs: number;
+}
+
+export const DEFAULT_STT_MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_STT_TIMEOUT_MS = 30000;
+
+function parsePositiveInteger(value: string | undefined, name: string, fallback: number): number {
+  if (!value) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function loadSTTConfig(env: NodeJS.ProcessEnv = process.env): STTConfig {
+  const engine = (env.STT_ENGINE || 'none').toLowerCase();
+
+  if (!STT_ENGINE_TYPES.includes(engine as STTEngineType)) {
+    throw new Error(`Unknown STT_ENGINE "${engine}". Expected one of: ${STT_ENGINE_TYPES.join(', ')}`);
+  }
+
+  if (engine === 'whisper.cpp' && !env.STT_WHISPER_MODEL) {
+    throw new Error('STT_WHISPER_MODEL is required when STT_ENGINE is "whisper.cpp"');
+  }
+
+  return {
+    engine: engine as STTEngineType,
+    whisperPath: env.STT_WHISPER_PATH || 'whisper-cli',
+    whisperModel: env.STT_WHISPER_MODEL || undefined,
+    whisperThreads: env.STT_WHISPER_THREADS
+      ? parsePositiveInteger(env.STT_WHISPER_THREADS, 'STT_WHISPER_THREADS', 0)
+      : undefined,
+    ffmpegPath: env.STT_FFMPEG_PATH || 'ffmpeg',
+    language: (env.STT_LANGUAGE || 'en').toLowerCase(),
+    maxAudioBytes: parsePositiveInteger(env.STT_MAX_AUDIO_BYTES, 'STT_MAX_AUDIO_BYTES', DEFAULT_STT_MAX_AUDIO_BYTES),
+    timeoutMs: parsePositiveInteger(env.STT_TIMEOUT_MS, 'STT_TIMEOUT_MS', DEFAULT_STT_TIMEOUT_MS),
+  };
+}
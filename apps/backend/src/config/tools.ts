@@ -0,0 +1,36 @@
+/**
+ * Tool calling configuration, read from environment variables
+ *
+ * TOOLS_ENABLED     true | false (default: true, false when NODE_ENV is "test").
+ *                   The model needs to support tool calls.
+ * TOOLS_MAX_ROUNDS  rounds of tool calls per response before the model has to
+ *                   answer in text (default: 3)
+ */
+
+export interface ToolsConfig {
+  enabled: boolean;
+  maxRounds: number;
+}
+
+export const DEFAULT_TOOLS_MAX_ROUNDS = 3;
+
+function parsePositiveInteger(value: string | undefined, name: string, fallback: number): number {
+  if (!value) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function loadToolsConfig(env: NodeJS.ProcessEnv = process.env): ToolsConfig {
+  const enabled = env.TOOLS_ENABLED
+    ? env.TOOLS_ENABLED.toLowerCase() !== 'false'
+    : env.NODE_ENV !== 'test';
+
+  return {
+    enabled,
+    maxRounds: parsePositiveInteger(env.TOOLS_MAX_ROUNDS, 'TOOLS_MAX_ROUNDS', DEFAULT_TOOLS_MAX_ROUNDS),
+  };
+}
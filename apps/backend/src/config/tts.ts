@@ -0,0 +1,62 @@
+/**
+ * Text-to-speech configuration, read from environment variables
+ *
+ * TTS_ENGINE           none | espeak-ng | piper (default: none; clients fall back
+ *                      to the browser's voice)
+ * TTS_ESPEAK_PATH      espeak-ng executable (default: espeak-ng). Also used by piper
+ *                      for the phoneme track; without it timings are estimated from letters.
+ * TTS_ESPEAK_VOICE     default espeak-ng voice (default: en-us)
+ * TTS_PIPER_PATH       piper executable (default: piper)
+ * TTS_PIPER_MODEL      path to the piper voice model (.onnx), required for piper
+ * TTS_MAX_TEXT_LENGTH  longest text synthesized per request (default: 1000)
+ * TTS_TIMEOUT_MS       time the engine may take per request (default: 15000)
+ */
+
+export type TTSEngineType = 'none' | 'espeak-ng' | 'piper';
+
+export const TTS_ENGINE_TYPES: readonly TTSEngineType[] = ['none', 'espeak-ng', 'piper'];
+
+export interface TTSConfig {
+  engine: TTSEngineType;
+  espeakPath: string;
+  espeakVoice: string;
+  piperPath: string;
+  piperModel?: string;
+  maxTextLength: number;
+  timeoutMs: number;
+}
+
+export const DEFAULT_TTS_MAX_TEXT_LENGTH = 1000;
+export const DEFAULT_TTS_TIMEOUT_MS = 15000;
+
+function parsePositiveInteger(value: string | undefined, name: string, fallback: number): number {
+  if (!value) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function loadTTSConfig(env: NodeJS.ProcessEnv = process.env): TTSConfig {
+  const engine = (env.TTS_ENGINE || 'none').toLowerCase();
+
+  if (!TTS_ENGINE_TYPES.includes(engine as TTSEngineType)) {
+    throw new Error(`Unknown TTS_ENGINE "${engine}". Expected one of: ${TTS_ENGINE_TYPES.join(', ')}`);
+  }
+
+  if (engine === 'piper' && !env.TTS_PIPER_MODEL) {
+    throw new Error('TTS_PIPER_MODEL is required when TTS_ENGINE is "piper"');
+  }
+
+  return {
+    engine: engine as TTSEngineType,
+    espeakPath: env.TTS_ESPEAK_PATH || 'espeak-ng',
+    espeakVoice: env.TTS_ESPEAK_VOICE || 'en-us',
+    piperPath: env.TTS_PIPER_PATH || 'piper',
+    piperModel: env.TTS_PIPER_MODEL || undefined,
+    maxTextLength: parsePositiveInteger(env.TTS_MAX_TEXT_LENGTH, 'TTS_MAX_TEXT_LENGTH', DEFAULT_TTS_MAX_TEXT_LENGTH),
+    timeoutMs: parsePositiveInteger(env.TTS_TIMEOUT_MS, 'TTS_TIMEOUT_MS', DEFAULT_TTS_TIMEOUT_MS),
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Usage accounting configuration, read from environment variables
+ *
+ * USAGE_TRACKING_ENABLED  true | false (default: true)
+ * USAGE_PRICES            JSON object of model names to USD prices per million tokens,
+ *                         e.g. {"gpt-4o": {"prompt": 2.5, "completion": 10}}, merged over
+ *                         the built-in table below
+ *
+ * Models are priced by exact name, then by the longest priced name they start
+ * with ("gpt-4o-2024-08-06" costs as "gpt-4o"). Unpriced models cost nothing.
+ */
+
+export interface ModelPrice {
+  /** USD per million prompt tokens */
+  prompt: number;
+  /** USD per million completion tokens */
+  completion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageConfig {
+  enabled: boolean;
+  prices: PriceTable;
+}
+
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'gpt-4': { prompt: 30, completion: 60 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+};
+
+const isPrice = (value: unknown): boolean => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { prompt, completion } = value as Record<string, unknown>;
+  return [prompt, completion].every(price => typeof price === 'number' && Number.isFinite(price) && price >= 0);
+};
+
+function parsePrices(value: string | undefined): PriceTable {
+  if (!value) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('USAGE_PRICES must be a JSON object');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('USAGE_PRICES must be a JSON object');
+  }
+
+  const prices: PriceTable = {};
+  for (const [model, price] of Object.entries(parsed)) {
+    if (!isPrice(price)) {
+      throw new Error(`USAGE_PRICES["${model}"] must have non-negative prompt and completion prices`);
+    }
+    prices[model] = { prompt: price.prompt, completion: price.completion };
+  }
+  return prices;
+}
+
+export function loadUsageConfig(env: NodeJS.ProcessEnv = process.env): UsageConfig {
+  return {
+    enabled: env.USAGE_TRACKING_ENABLED ? env.USAGE_TRACKING_ENABLED.toLowerCase() !== 'false' : true,
+    prices: { ...DEFAULT_PRICES, ...parsePrices(env.USAGE_PRICES) },
+  };
+}
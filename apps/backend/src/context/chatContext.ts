@@ -0,0 +1,38 @@
+/**
+ * Conversation history and context payload sent with chat requests
+ * Built on the client by ContextManager (apps/frontend/src/services/contextManager.ts).
+ */
+import {
+  ChatContextFieldsSchema,
+  ChatContextPayload,
+  ChatHistoryTurn,
+  describeIssues,
+  issueMessage,
+} from '../contracts';
+
+export type { ChatContextPayload, ChatHistoryTurn };
+export { MAX_HISTORY_TURNS, MAX_MEMORIES } from '../contracts';
+
+export type ChatContextValidation =
+  | { ok: true; history?: ChatHistoryTurn[]; context?: ChatContextPayload }
+  | { ok: false; error: string; details: string[] };
+
+const HISTORY_TURN_PATH = /^history\[\d+\]/;
+
+/**
+ * Validate the optional history and context fields of a chat request
+ */
+export function validateChatContext(history: unknown, context: unknown): ChatContextValidation {
+  const result = ChatContextFieldsSchema.safeParse({ history, context }, { error: issueMessage });
+  if (result.success) {
+    return { ok: true, history: result.data.history, context: result.data.context };
+  }
+
+  // One line per malformed turn, whichever of its fields are wrong
+  const details = describeIssues(result.error.issues).map(detail => {
+    const turn = HISTORY_TURN_PATH.exec(detail);
+    return turn ? `${turn[0]} needs a role of user or assistant and string content` : detail;
+  });
+
+  return { ok: false, error: 'Invalid chat context', details: [...new Set(details)] };
+}
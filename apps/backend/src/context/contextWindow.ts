@@ -0,0 +1,104 @@
+import { ChatCompletionMessage } from '../providers';
+import { ChatContextPayload, ChatHistoryTurn } from './chatContext';
+import { TokenCounter } from './tokenizer';
+
+export interface ContextWindowInput {
+  systemPrompt: string;
+  message: string;
+  history?: ChatHistoryTurn[];
+  context?: ChatContextPayload;
+  counter: TokenCounter;
+  /** Prompt tokens available: the context window minus the reply reserve */
+  budget: number;
+}
+
+export type ContextWindowResult =
+  | {
+      ok: true;
+      messages: ChatCompletionMessage[];
+      /** Upper bound on the prompt tokens of messages */
+      promptTokens: number;
+      dropped: { historyTurns: number; memories: number };
+    }
+  | { ok: false; error: string };
+
+const CONTEXT_HEADER = '## Conversation context';
+const MEMORIES_HEADER = 'Things you remember about the user:';
+
+/**
+ * Assemble the prompt messages within the token budget.
+ *
+ * The system prompt and the new user message always go in. The rest is
+ * added in priority order until the budget runs out: the context summary
+ * (topics, emotion), the most recent history turns, then memories.
+ */
+export function fitToContextWindow({
+  systemPrompt,
+  message,
+  history = [],
+  context = {},
+  counter,
+  budget,
+}: ContextWindowInput): ContextWindowResult {
+  const userMessage: ChatCompletionMessage = { role: 'user', content: message };
+  let used = counter.countMessages([{ role: 'system', content: systemPrompt }, userMessage]);
+
+  if (used > budget) {
+    return { ok: false, error: 'Message is too long for the model context window' };
+  }
+
+  const reserve = (tokens: number) => {
+    if (used + tokens > budget) return false;
+    used += tokens;
+    return true;
+  };
+
+  // Lines appended to the system prompt under CONTEXT_HEADER
+  const contextLines: string[] = [];
+  const addContextLines = (...lines: string[]) => {
+    const headerCost = contextLines.length === 0 ? counter.countText(`\n\n${CONTEXT_HEADER}`) : 0;
+    const cost = lines.reduce((total, line) => total + counter.countText(`\n${line}`), headerCost);
+    if (!reserve(cost)) return false;
+    contextLines.push(...lines);
+    return true;
+  };
+
+  if (context.activeTopics && context.activeTopics.length > 0) {
+    addContextLines(`Active topics: ${context.activeTopics.join(', ')}`);
+  }
+  if (context.userEmotion && context.userEmotion !== 'neutral') {
+    addContextLines(`The user currently seems ${context.userEmotion}.`);
+  }
+
+  // Most recent turns first; stop at the first that does not fit so the
+  // kept history stays contiguous
+  const turns: ChatCompletionMessage[] = [];
+  for (let index = history.length - 1; index >= 0; index--) {
+    const turn: ChatCompletionMessage = { role: history[index].role, content: history[index].content };
+    if (!reserve(counter.countMessage(turn))) break;
+    turns.unshift(turn);
+  }
+
+  const memories = context.memories ?? [];
+  let keptMemories = 0;
+  for (const memory of memories) {
+    const line = `- ${memory}`;
+    const added = keptMemories === 0 ? addContextLines(MEMORIES_HEADER, line) : addContextLines(line);
+    if (!added) break;
+    keptMemories++;
+  }
+
+  const systemContent = contextLines.length > 0
+    ? `${systemPrompt}\n\n${CONTEXT_HEADER}\n${contextLines.join('\n')}`
+    : systemPrompt;
+
+  return {
+    ok: true,
+    messages: [{ role: 'system', content: systemContent }, ...turns, userMessage],
+    promptTokens: used,
+    dropped: {
+      historyTurns: history.length - turns.length,
+      memories: memories.length - keptMemories,
+    },
+  };
+}
@@ -0,0 +1,15 @@
+export {
+  ChatHistoryTurn,
+  ChatContextPayload,
+  ChatContextValidation,
+  MAX_HISTORY_TURNS,
+  MAX_MEMORIES,
+  validateChatContext,
+} from './chatContext';
+export { ContextWindowInput, ContextWindowResult, fitToContextWindow } from './contextWindow';
+export {
+  TokenCounter,
+  DEFAULT_CONTEXT_WINDOW,
+  createTokenCounter,
+  getModelContextWindow,
+} from './tokenizer';
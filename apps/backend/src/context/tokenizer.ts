@@ -0,0 +1,85 @@
+import { getEncoding, getEncodingNameForModel, TiktokenEncoding, TiktokenModel } from 'js-tiktoken';
+import { ChatCompletionMessage } from '../providers';
+
+// Chat formatting cost per message and for priming the reply
+// (see OpenAI's "How to count tokens with tiktoken")
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const REPLY_PRIMING_TOKENS = 3;
+
+// Used for models we know nothing about, e.g. local llama.cpp models
+export const DEFAULT_CONTEXT_WINDOW = 4096;
+
+const MODEL_CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['gpt-4o', 128000],
+  ['gpt-4.1', 1047576],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['llama3', 8192],
+];
+
+const LONG_RUN_SLICE = /(\S{32})/;
+
+// Close enough for models tiktoken does not know, e.g. local llama.cpp models
+const FALLBACK_ENCODING: TiktokenEncoding = 'cl100k_base';
+
+export interface TokenCounter {
+  countText(text: string): number;
+  /** Tokens a chat request with these messages uses before the reply */
+  countMessages(messages: ChatCompletionMessage[]): number;
+  /** Tokens one message adds to a chat request */
+  countMessage(message: ChatCompletionMessage): number;
+}
+
+/**
+ * Context window of a model, by longest matching name prefix
+ */
+export function getModelContextWindow(model: string): number {
+  const match = MODEL_CONTEXT_WINDOWS
+    .filter(([prefix]) => model.startsWith(prefix))
+    .sort(([a], [b]) => b.length - a.length)[0];
+
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Create a token counter using the encoding of the given model
+ */
+export function createTokenCounter(model: string): TokenCounter {
+  let encodingName = FALLBACK_ENCODING;
+  try {
+    encodingName = getEncodingNameForModel(model as TiktokenModel);
+  } catch {
+    // Unknown model: keep the fallback encoding
+  }
+
+  const encoding = getEncoding(encodingName);
+
+  // BPE is quadratic in the length of a single word, so very long runs
+  // without whitespace are counted in slices (repeated slices only once).
+  // Special token markers in user text are counted as plain text.
+  const countText = (text: string) => {
+    const sliceCounts = new Map<string, number>();
+
+    return text.split(LONG_RUN_SLICE).reduce((total, part) => {
+      if (!part) return total;
+      let count = sliceCounts.get(part);
+      if (count === undefined) {
+        count = encoding.encode(part, [], []).length;
+        sliceCounts.set(part, count);
+      }
+      return total + count;
+    }, 0);
+  };
+
+  const countMessage = (message: ChatCompletionMessage) =>
+    MESSAGE_OVERHEAD_TOKENS + countText(message.content) +
+    (message.toolCalls ?? []).reduce((total, call) => total + countText(call.name) + countText(call.arguments), 0);
+
+  return {
+    countText,
+    countMessage,
+    countMessages: messages =>
+      messages.reduce((total, message) => total + countMessage(message), REPLY_PRIMING_TOKENS),
+  };
+}
@@ -0,0 +1,51 @@
+import { z } from 'zod/v4';
+import { contractSchemas } from './registry';
+
+const Rate = z.number().min(0).max(1);
+
+export const ChatActivityTotalsSchema = z.object({
+  requests: z.number().int(),
+  /** Distinct stored conversations chatted in */
+  conversations: z.number().int(),
+  users: z.number().int(),
+  /** Requests that failed on the server, including streams that failed midway */
+  failed: z.number().int(),
+  /** Requests the client cancelled or disconnected from */
+  cancelled: z.number().int(),
+  /** Requests refused as invalid, over a limit or over budget */
+  rejected: z.number().int(),
+  /** Failed requests out of all requests */
+  errorRate: Rate,
+  /** Of completed requests, until the last byte of the response; 0 without any */
+  averageLatencyMs: z.number(),
+  p95LatencyMs: z.number(),
+}).register(contractSchemas, { id: 'ChatActivityTotals' });
+
+export const ChatActivityDaySchema = ChatActivityTotalsSchema.extend({
+  /** UTC day, YYYY-MM-DD */
+  date: z.string(),
+}).register(contractSchemas, { id: 'ChatActivityDay' });
+
+export const ChatActivityReportSchema = z.object({
+  /** Milliseconds since epoch; the report covers requests from since until until */
+  since: z.number(),
+  until: z.number(),
+  totals: ChatActivityTotalsSchema,
+  /** One entry per UTC day with requests, oldest first */
+  daily: z.array(ChatActivityDaySchema),
+  /** Topics of the client's context payload, most frequent first */
+  topTopics: z.array(z.object({ topic: z.string(), count: z.number().int() })),
+  /** User emotion of the client's context payload, most frequent first */
+  emotions: z.array(z.object({ emotion: z.string(), count: z.number().int() })),
+}).register(contractSchemas, { id: 'ChatActivityReport' });
+
+export const ChatActivityQuerySchema = z.object({
+  /** Milliseconds since epoch; defaults to 30 days before until */
+  since: z.coerce.number().int().nonnegative().optional(),
+  /** Milliseconds since epoch; defaults to now */
+  until: z.coerce.number().int().nonnegative().optional(),
+});
+
+export type ChatActivityTotals = z.infer<typeof ChatActivityTotalsSchema>;
+export type ChatActivityDay = z.infer<typeof ChatActivityDaySchema>;
+export type ChatActivityReport = z.infer<typeof ChatActivityReportSchema>;
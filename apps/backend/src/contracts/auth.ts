@@ -0,0 +1,32 @@
+import { z } from 'zod/v4';
+import { contractSchemas } from './registry';
+
+export const MAX_USERNAME_LENGTH = 50;
+
+export const LoginRequestSchema = z.object({
+  /** Display name for guests, or the account to log in to */
+  username: z.string().max(MAX_USERNAME_LENGTH).optional(),
+  password: z.string().optional(),
+}).register(contractSchemas, { id: 'LoginRequest' });
+
+export const LoginResponseSchema = z.object({
+  token: z.string(),
+  /** Milliseconds since epoch */
+  expiresAt: z.number(),
+  sessionId: z.string(),
+  user: z.object({
+    id: z.string(),
+    name: z.string(),
+    guest: z.boolean(),
+  }),
+}).register(contractSchemas, { id: 'LoginResponse' });
+
+export const AuthIdentitySchema = z.object({
+  userId: z.string(),
+  sessionId: z.string(),
+  name: z.string().optional(),
+  method: z.enum(['token', 'api_key', 'anonymous']),
+}).register(contractSchemas, { id: 'AuthIdentity' });
+
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
+export type LoginResponse = z.infer<typeof LoginResponseSchema>;
@@ -0,0 +1,64 @@
+import { z } from 'zod/v4';
+import { contractSchemas } from './registry';
+import { ClientActionSchema } from './clientActions';
+
+// Upper bounds on what a client may send; the token budget trims further
+export const MAX_HISTORY_TURNS = 100;
+export const MAX_MEMORIES = 20;
+
+export const ChatHistoryTurnSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+}).register(contractSchemas, { id: 'ChatHistoryTurn', description: 'Earlier turn of the conversation' });
+
+export const ChatHistorySchema = z
+  .array(ChatHistoryTurnSchema, { error: 'must be a list of turns' })
+  .max(MAX_HISTORY_TURNS, `may contain at most ${MAX_HISTORY_TURNS} turns`);
+
+export const ChatContextPayloadSchema = z.object({
+  activeTopics: z.array(z.string(), { error: 'must be a list of strings' }).optional(),
+  userEmotion: z.string({ error: 'must be a string' }).optional(),
+  /** Relevant memories, most relevant first */
+  memories: z.array(z.string(), { error: 'must be a list of strings' })
+    .max(MAX_MEMORIES, `may contain at most ${MAX_MEMORIES} entries`)
+    .optional(),
+}, { error: 'must be an object' }).register(contractSchemas, { id: 'ChatContextPayload', description: 'Compact context built by the client' });
+
+/** The fields fitted into the context window next to the message */
+export const ChatContextFieldsSchema = z.object({
+  /** Oldest first; the stored conversation is used when omitted */
+  history: ChatHistorySchema.optional(),
+  context: ChatContextPayloadSchema.optional(),
+});
+
+export const ChatRequestSchema = z.object({
+  message: z.string().min(1),
+  /** Store the exchange in this conversation of the caller */
+  conversationId: z.string().optional(),
+  /** Personality preset; the default one when omitted */
+  personalityId: z.string().optional(),
+  /** Inline personality, merged over the preset */
+  personality: z.record(z.string(), z.unknown()).optional(),
+  guidelines: z.record(z.string(), z.unknown()).optional(),
+  ...ChatContextFieldsSchema.shape,
+}).register(contractSchemas, { id: 'ChatRequest' });
+
+export const ChatResponseSchema = z.object({
+  response: z.string(),
+  /** ISO 8601 */
+  timestamp: z.string(),
+  conversationId: z.string().optional(),
+  /** Omitted when the avatar took no actions */
+  actions: z.array(ClientActionSchema).optional(),
+}).register(contractSchemas, { id: 'ChatResponse', description: 'Also the data of the done event of a stream' });
+
+/** Data of the token events of POST /chat/stream */
+export const ChatTokenEventSchema = z.object({
+  content: z.string(),
+}).register(contractSchemas, { id: 'ChatTokenEvent' });
+
+export type ChatHistoryTurn = z.infer<typeof ChatHistoryTurnSchema>;
+export type ChatContextPayload = z.infer<typeof ChatContextPayloadSchema>;
+export type ChatRequest = z.infer<typeof ChatRequestSchema>;
+export type ChatResponse = z.infer<typeof ChatResponseSchema>;
+export type ChatTokenEvent = z.infer<typeof ChatTokenEventSchema>;
@@ -0,0 +1,38 @@
+import { z } from 'zod/v4';
+import { contractSchemas } from './registry';
+
+export const ROOM_PRESETS = ['Modern Office', 'Cozy Living Room', 'Minimalist Studio'] as const;
+export const MOVEMENT_INTENSITIES = ['subtle', 'animated', 'energetic'] as const;
+export const THEMES = ['light', 'dark', 'auto'] as const;
+export const FONT_SIZES = ['small', 'medium', 'large'] as const;
+
+export const UserSettingsSchema = z.object({
+  theme: z.enum(THEMES),
+  voiceEnabled: z.boolean(),
+  voiceSpeed: z.number().min(0.5).max(2),
+  voiceVolume: z.number().min(0).max(1),
+  animationSpeed: z.number().min(0.5).max(2),
+  reducedMotion: z.boolean(),
+  fontSize: z.enum(FONT_SIZES),
+  highContrast: z.boolean(),
+  autoScroll: z.boolean(),
+  soundEffects: z.boolean(),
+  notifications: z.boolean(),
+}).register(contractSchemas, { id: 'UserSettings' });
+
+/** Only the settings to change, at least one */
+export const UserSettingsPatchSchema = UserSettingsSchema.partial().strict()
+  .refine(patch => Object.keys(patch).length > 0, 'must change at least one setting')
+  .register(contractSchemas, { id: 'UserSettingsPatch' });
+
+export const ClientActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('room.load_preset'), preset: z.enum(ROOM_PRESETS) }),
+  z.object({ type: z.literal('avatar.set_movement_intensity'), intensity: z.enum(MOVEMENT_INTENSITIES) }),
+  z.object({ type: z.literal('settings.update'), settings: UserSettingsPatchSchema }),
+]).register(contractSchemas, { id: 'ClientAction', description: 'Action the avatar takes on the app, applied by the frontend' });
+
+export type RoomPreset = typeof ROOM_PRESETS[number];
+export type MovementIntensity = typeof MOVEMENT_INTENSITIES[number];
+export type UserSettings = z.infer<typeof UserSettingsSchema>;
+export type UserSettingsPatch = z.infer<typeof UserSettingsPatchSchema>;
+export type ClientAction = z.infer<typeof ClientActionSchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod/v4';
+import { contractSchemas } from './registry';
+
+export const ErrorResponseSchema = z.object({
+  error: z.string(),
+  /** Each problem with the request, or the cause of a server error */
+  details: z.union([z.array(z.string()), z.string()]).optional(),
+}).register(contractSchemas, { id: 'ErrorResponse', description: 'Every error response' });
+
+export const HealthResponseSchema = z.object({
+  status: z.literal('OK'),
+  message: z.string(),
+}).register(contractSchemas, { id: 'HealthResponse' });
+
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+export type HealthResponse = z.infer<typeof HealthResponseSchema>;
@@ -0,0 +1,56 @@
+import { z } from 'zod/v4';
+import { contractSchemas } from './registry';
+
+const SenderSchema = z.enum(['user', 'assistant']);
+
+export const StoredMessageSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  sender: SenderSchema,
+  /** Milliseconds since epoch */
+  timestamp: z.number(),
+}).register(contractSchemas, { id: 'StoredMessage' });
+
+export const NewMessageSchema = z.object({
+  content: z.string(),
+  sender: SenderSchema,
+  id: z.string().optional(),
+  timestamp: z.number().positive().optional(),
+}).register(contractSchemas, { id: 'NewMessage' });
+
+export const ConversationSummarySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  messageCount: z.number().int(),
+}).register(contractSchemas, { id: 'ConversationSummary' });
+
+export const ConversationSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  messages: z.array(StoredMessageSchema),
+}).register(contractSchemas, { id: 'Conversation' });
+
+export const CreateConversationRequestSchema = z.object({
+  /** Derived from the first user message when omitted */
+  title: z.string().optional(),
+  messages: z.array(NewMessageSchema).optional(),
+}).register(contractSchemas, { id: 'CreateConversationRequest' });
+
+export const AppendMessagesRequestSchema = z.object({
+  messages: z.array(NewMessageSchema).min(1),
+}).register(contractSchemas, { id: 'AppendMessagesRequest' });
+
+export const ChatHistoryQuerySchema = z.object({
+  conversationId: z.string().min(1),
+});
+
+export type StoredMessageBody = z.infer<typeof StoredMessageSchema>;
+export type NewMessageBody = z.infer<typeof NewMessageSchema>;
+export type ConversationSummaryBody = z.infer<typeof ConversationSummarySchema>;
+export type ConversationBody = z.infer<typeof ConversationSchema>;
+export type CreateConversationRequest = z.infer<typeof CreateConversationRequestSchema>;
+export type AppendMessagesRequest = z.infer<typeof AppendMessagesRequestSchema>;
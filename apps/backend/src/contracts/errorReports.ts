@@ -0,0 +1,90 @@
+import { z } from 'zod/v4';
+import { contractSchemas } from './registry';
+
+/** Reports accepted in one POST /api/errors */
+export const MAX_ERROR_REPORT_BATCH = 50;
+
+/** Longest text accepted in each field of a report */
+export const ERROR_REPORT_LIMITS = {
+  name: 200,
+  message: 2000,
+  stack: 20000,
+  url: 2000,
+  userAgent: 500,
+} as const;
+
+export const ReportedErrorSchema = z.object({
+  name: z.string().max(ERROR_REPORT_LIMITS.name),
+  message: z.string().max(ERROR_REPORT_LIMITS.message),
+  stack: z.string().max(ERROR_REPORT_LIMITS.stack).optional(),
+}).register(contractSchemas, { id: 'ReportedError' });
+
+export const ErrorReportSchema = z.object({
+  /** Chosen by the client; a report sent again with the same id is only counted once */
+  errorId: z.string().min(1).max(100),
+  /** Milliseconds since epoch */
+  timestamp: z.number().nonnegative(),
+  error: ReportedErrorSchema,
+  componentStack: z.string().max(ERROR_REPORT_LIMITS.stack).optional(),
+  url: z.string().max(ERROR_REPORT_LIMITS.url),
+  userAgent: z.string().max(ERROR_REPORT_LIMITS.userAgent),
+  retryCount: z.number().int().nonnegative(),
+  recoveryAttempted: z.boolean(),
+}).register(contractSchemas, { id: 'ErrorReport' });
+
+export const ErrorReportBatchSchema = z.object({
+  reports: z.array(ErrorReportSchema).min(1).max(MAX_ERROR_REPORT_BATCH),
+}).register(contractSchemas, { id: 'ErrorReportBatch' });
+
+export const ErrorReportBatchResultSchema = z.object({
+  accepted: z.number().int(),
+  /** Reports the server already had */
+  duplicates: z.number().int(),
+}).register(contractSchemas, { id: 'ErrorReportBatchResult' });
+
+export const ErrorGroupSchema = z.object({
+  /** Same for every report of the same error, whatever its message or line numbers */
+  fingerprint: z.string(),
+  name: z.string(),
+  /** Of the latest report */
+  message: z.string(),
+  stack: z.string().optional(),
+  count: z.number().int(),
+  /** Milliseconds since epoch */
+  firstSeen: z.number(),
+  lastSeen: z.number(),
+}).register(contractSchemas, { id: 'ErrorGroup' });
+
+export const ErrorOccurrenceSchema = z.object({
+  errorId: z.string(),
+  userId: z.string(),
+  sessionId: z.string(),
+  message: z.string(),
+  componentStack: z.string().optional(),
+  url: z.string(),
+  userAgent: z.string(),
+  retryCount: z.number().int(),
+  recoveryAttempted: z.boolean(),
+  /** Milliseconds since epoch, by the client's clock */
+  occurredAt: z.number(),
+  receivedAt: z.number(),
+}).register(contractSchemas, { id: 'ErrorOccurrence' });
+
+export const ErrorGroupDetailSchema = ErrorGroupSchema.extend({
+  /** The latest reports, newest first */
+  occurrences: z.array(ErrorOccurrenceSchema),
+}).register(contractSchemas, { id: 'ErrorGroupDetail' });
+
+export const ErrorGroupQuerySchema = z.object({
+  /** Milliseconds since epoch; errors last seen since then */
+  since: z.coerce.number().int().nonnegative().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type ReportedError = z.infer<typeof ReportedErrorSchema>;
+export type ErrorReport = z.infer<typeof ErrorReportSchema>;
+export type ErrorReportBatch = z.infer<typeof ErrorReportBatchSchema>;
+export type ErrorReportBatchResult = z.infer<typeof ErrorReportBatchResultSchema>;
+export type ErrorGroup = z.infer<typeof ErrorGroupSchema>;
+export type ErrorOccurrence = z.infer<typeof ErrorOccurrenceSchema>;
+export type ErrorGroupDetail = z.infer<typeof ErrorGroupDetailSchema>;
@@ -0,0 +1,276 @@
+import { z } from 'zod/v4';
+import { contractSchemas } from './registry';
+
+export const FEEDBACK_TYPES = ['explicit', 'implicit', 'behavioral', 'system'] as const;
+export const FEEDBACK_CATEGORIES = [
+  'response_quality',
+  'personality_fit',
+  'helpfulness',
+  'accuracy',
+  'emotional_support',
+  'conversation_flow',
+  'technical_performance',
+  'user_experience',
+  'feature_request',
+  'bug_report',
+] as const;
+export const FEEDBACK_SOURCES = ['user_action', 'system_inference', 'behavior_analysis'] as const;
+export const ISSUE_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export const CATEGORY_TRENDS = ['improving', 'declining', 'stable'] as const;
+export const IMPLEMENTATION_EFFORTS = ['low', 'medium', 'high'] as const;
+
+/** Feedback items and interaction snapshots accepted in one POST /api/feedback, each */
+export const MAX_FEEDBACK_BATCH = 100;
+
+/** Longest feedback text accepted */
+export const FEEDBACK_CONTENT_LIMIT = 2000;
+
+const Label = z.string().max(200);
+const Score = z.number().min(0).max(1);
+const Count = z.number().nonnegative();
+
+export const FeedbackContextSchema = z.object({
+  messageId: z.string().max(200).optional(),
+  conversationPhase: Label,
+  userEmotion: Label,
+  /** Milliseconds */
+  responseTime: Count,
+  contextSize: Count,
+  activeFeatures: z.array(Label).max(50),
+  userIntent: Label,
+}).register(contractSchemas, { id: 'FeedbackContext' });
+
+export const FeedbackMetadataSchema = z.object({
+  source: z.enum(FEEDBACK_SOURCES),
+  confidence: Score,
+  deviceType: Label,
+  /** Seconds */
+  sessionDuration: Count,
+  messageCount: Count,
+  userEngagement: Score,
+}).register(contractSchemas, { id: 'FeedbackMetadata' });
+
+export const FeedbackItemSchema = z.object({
+  /** Chosen by the client; an item sent again with the same id is only stored once */
+  id: z.string().min(1).max(100),
+  /** The client's session, as FeedbackCollector tracks it */
+  sessionId: z.string().min(1).max(200),
+  /** Milliseconds since epoch */
+  timestamp: z.number().nonnegative(),
+  type: z.enum(FEEDBACK_TYPES),
+  rating: z.number().int().min(1).max(5).optional(),
+  category: z.enum(FEEDBACK_CATEGORIES),
+  content: z.string().max(FEEDBACK_CONTENT_LIMIT),
+  context: FeedbackContextSchema,
+  metadata: FeedbackMetadataSchema,
+}).register(contractSchemas, { id: 'FeedbackItem' });
+
+export const TechnicalMetricsSchema = z.object({
+  averageResponseTime: Count,
+  errorCount: Count,
+  cacheHitRate: Score,
+  memoryUsage: Count,
+  processingTime: Count,
+  networkLatency: Count,
+}).register(contractSchemas, { id: 'TechnicalMetrics' });
+
+export const BehavioralMetricsSchema = z.object({
+  messageLength: Count,
+  questionCount: Count,
+  emotionalExpressions: Count,
+  topicChanges: Count,
+  interruptions: Count,
+  clarificationRequests: Count,
+}).register(contractSchemas, { id: 'BehavioralMetrics' });
+
+/** What ContextValidator found in the session's contexts so far */
+export const ValidationMetricsSchema = z.object({
+  validations: z.number().int().nonnegative(),
+  invalid: z.number().int().nonnegative(),
+  /** Milliseconds */
+  averageValidationTime: Count,
+  maxValidationTime: Count,
+  /** Errors found, by type */
+  issues: z.array(z.object({ type: Label, count: z.number().int().nonnegative() })).max(50),
+}).register(contractSchemas, { id: 'ValidationMetrics' });
+
+export const InteractionMetricsSchema = z.object({
+  /** A later snapshot of the same session replaces the earlier one */
+  sessionId: z.string().min(1).max(200),
+  /** Milliseconds since epoch */
+  timestamp: z.number().nonnegative(),
+  /** Seconds */
+  duration: Count,
+  messageCount: Count,
+  userInitiated: z.boolean(),
+  completionRate: Score,
+  engagementScore: Score,
+  satisfactionScore: Score,
+  technicalMetrics: TechnicalMetricsSchema,
+  behavioralMetrics: BehavioralMetricsSchema,
+  /** Only from clients that validate their contexts */
+  validationMetrics: ValidationMetricsSchema.optional(),
+}).register(contractSchemas, { id: 'InteractionMetrics' });
+
+/** Feedback, interaction snapshots or both; at least one item */
+export const FeedbackBatchSchema = z.object({
+  feedback: z.array(FeedbackItemSchema).max(MAX_FEEDBACK_BATCH).default([]),
+  interactions: z.array(InteractionMetricsSchema).max(MAX_FEEDBACK_BATCH).default([]),
+})
+  .refine(batch => batch.feedback.length + batch.interactions.length > 0, 'must contain feedback or interactions')
+  .register(contractSchemas, { id: 'FeedbackBatch' });
+
+export const FeedbackBatchResultSchema = z.object({
+  /** Feedback items and interaction snapshots stored */
+  accepted: z.number().int(),
+  /** Feedback items the server already had */
+  duplicates: z.number().int(),
+}).register(contractSchemas, { id: 'FeedbackBatchResult' });
+
+export const StoredFeedbackSchema = FeedbackItemSchema.extend({
+  userId: z.string(),
+  /** Milliseconds since epoch */
+  receivedAt: z.number(),
+}).register(contractSchemas, { id: 'StoredFeedback' });
+
+export const CriticalIssueSchema = z.object({
+  issue: z.string(),
+  severity: z.enum(ISSUE_SEVERITIES),
+  /** Feedback items or sessions behind the issue */
+  frequency: z.number().int(),
+  impact: z.string(),
+  suggestedActions: z.array(z.string()),
+}).register(contractSchemas, { id: 'CriticalIssue' });
+
+export const FeedbackAnalyticsSchema = z.object({
+  /** Milliseconds since epoch; the analytics cover feedback from since until until */
+  since: z.number(),
+  until: z.number(),
+  summary: z.object({
+    totalFeedback: z.number().int(),
+    /** Users who sent feedback or interaction metrics */
+    users: z.number().int(),
+    sessions: z.number().int(),
+    /** 0 without rated feedback */
+    averageRating: z.number(),
+    /** Share of rated feedback rated 4 or 5 */
+    satisfactionRate: Score,
+    topCategories: z.array(z.object({ category: z.enum(FEEDBACK_CATEGORIES), count: z.number().int() })),
+    responseDistribution: z.array(z.object({ rating: z.number().int(), count: z.number().int() })),
+  }),
+  trends: z.object({
+    /** One point per UTC day with data, oldest first; dates as YYYY-MM-DD */
+    ratingTrend: z.array(z.object({ date: z.string(), averageRating: z.number() })),
+    volumeTrend: z.array(z.object({ date: z.string(), feedbackCount: z.number().int() })),
+    engagementTrend: z.array(z.object({ date: z.string(), engagementScore: Score })),
+    /** Average rating of the last week against the week before it */
+    categoryTrends: z.array(z.object({
+      category: z.enum(FEEDBACK_CATEGORIES),
+      averageRating: z.number(),
+      previousAverageRating: z.number().nullable(),
+      trend: z.enum(CATEGORY_TRENDS),
+    })),
+  }),
+  insights: z.object({
+    strengths: z.array(z.string()),
+    weaknesses: z.array(z.string()),
+    criticalIssues: z.array(CriticalIssueSchema),
+  }),
+  performance: z.object({
+    responseQuality: Score,
+    userSatisfaction: Score,
+    engagementLevel: Score,
+    technicalPerformance: Score,
+    overallScore: Score,
+  }),
+}).register(contractSchemas, { id: 'FeedbackAnalytics' });
+
+export const FeedbackRecommendationsSchema = z.object({
+  /** Milliseconds since epoch; the recommendations cover feedback from since until until */
+  since: z.number(),
+  until: z.number(),
+  /** Most urgent first */
+  areas: z.array(z.object({
+    /** Missing for critical issues that span categories */
+    category: z.enum(FEEDBACK_CATEGORIES).optional(),
+    priority: z.enum(ISSUE_SEVERITIES),
+    recommendation: z.string(),
+    actionItems: z.array(z.string()),
+    expectedImpact: z.string(),
+    effort: z.enum(IMPLEMENTATION_EFFORTS),
+    timeline: z.string(),
+  })),
+  priorityActions: z.array(z.string()),
+  longTermGoals: z.array(z.string()),
+}).register(contractSchemas, { id: 'FeedbackRecommendations' });
+
+const Benchmarks = z.object({
+  industry: z.number(),
+  internal: z.number(),
+  historical: z.number(),
+  target: z.number(),
+});
+
+export const FeedbackBenchmarksSchema = z.object({
+  /** Milliseconds since epoch; the comparison covers feedback from since until until */
+  since: z.number(),
+  until: z.number(),
+  /** performance.overallScore of the analytics over the same range */
+  overallScore: Score,
+  /** The scores compared with */
+  benchmarks: Benchmarks,
+  /** overallScore divided by each benchmark; 1 meets it */
+  ratios: Benchmarks,
+  performanceGaps: z.array(z.string()),
+  optimizationSuggestions: z.array(z.string()),
+}).register(contractSchemas, { id: 'FeedbackBenchmarks' });
+
+export const ValidationStatsSchema = z.object({
+  /** Milliseconds since epoch; the stats cover sessions snapshotted from since until until */
+  since: z.number(),
+  until: z.number(),
+  /** Sessions that reported validation metrics */
+  sessions: z.number().int(),
+  totalValidations: z.number().int(),
+  validCount: z.number().int(),
+  invalidCount: z.number().int(),
+  /** Share of validations that found errors */
+  errorRate: Score,
+  /** Milliseconds, over every validation */
+  averageValidationTime: z.number(),
+  maxValidationTime: z.number(),
+  /** Error types by how often they were found, at most 10 */
+  commonIssues: z.array(z.object({ type: z.string(), count: z.number().int() })),
+}).register(contractSchemas, { id: 'ValidationStats' });
+
+export const FeedbackAnalyticsQuerySchema = z.object({
+  /** Milliseconds since epoch; defaults to 30 days before until */
+  since: z.coerce.number().int().nonnegative().optional(),
+  /** Milliseconds since epoch; defaults to now */
+  until: z.coerce.number().int().nonnegative().optional(),
+});
+
+export const FeedbackQuerySchema = z.object({
+  category: z.enum(FEEDBACK_CATEGORIES).optional(),
+  /** Milliseconds since epoch; feedback given since then */
+  since: z.coerce.number().int().nonnegative().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type FeedbackType = z.infer<typeof FeedbackItemSchema>['type'];
+export type FeedbackCategory = z.infer<typeof FeedbackItemSchema>['category'];
+export type FeedbackContext = z.infer<typeof FeedbackContextSchema>;
+export type FeedbackMetadata = z.infer<typeof FeedbackMetadataSchema>;
+export type FeedbackItem = z.infer<typeof FeedbackItemSchema>;
+export type TechnicalMetrics = z.infer<typeof TechnicalMetricsSchema>;
+export type BehavioralMetrics = z.infer<typeof BehavioralMetricsSchema>;
+export type InteractionMetrics = z.infer<typeof InteractionMetricsSchema>;
+export type FeedbackBatch = z.infer<typeof FeedbackBatchSchema>;
+export type FeedbackBatchResult = z.infer<typeof FeedbackBatchResultSchema>;
+export type StoredFeedback = z.infer<typeof StoredFeedbackSchema>;
+export type CriticalIssue = z.infer<typeof CriticalIssueSchema>;
+export type FeedbackAnalytics = z.infer<typeof FeedbackAnalyticsSchema>;
+export type ValidationMetrics = z.infer<typeof ValidationMetricsSchema>;
+export type FeedbackRecommendations = z.infer<typeof FeedbackRecommendationsSchema>;
+export type FeedbackBenchmarks = z.infer<typeof FeedbackBenchmarksSchema>;
+export type ValidationStats = z.infer<typeof ValidationStatsSchema>;
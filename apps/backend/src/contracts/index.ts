@@ -0,0 +1,20 @@
+/**
+ * The API contract: schemas of every route's request and response
+ *
+ * The backend validates requests with them and documents them as OpenAPI
+ * (GET /api/openapi.json); the frontend imports them as @contracts to type
+ * and validate the responses it gets. Keep this module free of Node and
+ * browser APIs.
+ */
+export * from './registry';
+export * from './issues';
+export * from './common';
+export * from './clientActions';
+export * from './chat';
+export * from './conversations';
+export * from './auth';
+export * from './speech';
+export * from './usage';
+export * from './errorReports';
+export * from './feedback';
+export * from './analytics';
@@ -0,0 +1,76 @@
+import { z } from 'zod/v4';
+
+/**
+ * Validation messages in the API's style: "<field> <problem>", e.g.
+ * "rate must be at most 2" or "history[3].role must be one of user, assistant"
+ */
+
+const TYPE_NAMES: Record<string, string> = {
+  array: 'a list',
+  object: 'an object',
+  string: 'a string',
+  number: 'a number',
+  int: 'an integer',
+  boolean: 'true or false',
+};
+
+const TOO_BIG_UNITS: Record<string, string> = {
+  string: ' characters',
+  array: ' entries',
+};
+
+/**
+ * Error map for safeParse: messages phrased to follow the field name
+ */
+export const issueMessage: z.core.$ZodErrorMap = issue => {
+  switch (issue.code) {
+    case 'invalid_type':
+      return issue.input === undefined
+        ? 'is required'
+        : `must be ${TYPE_NAMES[issue.expected] ?? issue.expected}`;
+    case 'too_big':
+      return `must be at most ${issue.maximum}${TOO_BIG_UNITS[issue.origin] ?? ''}`;
+    case 'too_small':
+      return issue.origin === 'string' && issue.minimum === 1
+        ? 'must not be empty'
+        : `must be at least ${issue.minimum}${TOO_BIG_UNITS[issue.origin] ?? ''}`;
+    case 'invalid_value':
+      if (issue.input === undefined) return 'is required';
+      return `must be one of ${issue.values.map(String).join(', ')}`;
+    case 'unrecognized_keys':
+      return `has unknown fields: ${issue.keys.join(', ')}`;
+    case 'invalid_format':
+      return 'is not in the expected format';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * "history[3].role" for the path ['history', 3, 'role']
+ */
+export const formatIssuePath = (path: readonly PropertyKey[]): string =>
+  path.reduce<string>((formatted, key) =>
+    typeof key === 'number'
+      ? `${formatted}[${key}]`
+      : formatted ? `${formatted}.${String(key)}` : String(key), '');
+
+/**
+ * One line per problem; a problem with the value itself is named "value"
+ */
+export const describeIssues = (issues: readonly z.core.$ZodIssue[]): string[] =>
+  issues.map(issue => `${formatIssuePath(issue.path) || 'value'} ${issue.message}`);
+
+export type ContractValidation<T> =
+  | { ok: true; data: T }
+  | { ok: false; details: string[] };
+
+/**
+ * Check a value against a contract schema
+ */
+export function validateContract<T>(schema: z.ZodType<T>, value: unknown): ContractValidation<T> {
+  const result = schema.safeParse(value, { error: issueMessage });
+  return result.success
+    ? { ok: true, data: result.data }
+    : { ok: false, details: describeIssues(result.error.issues) };
+}
@@ -0,0 +1,339 @@
+import { z } from 'zod/v4';
+// The schemas register themselves as they are defined
+import './index';
+import { contractSchemas } from './registry';
+import { FEEDBACK_CATEGORIES } from './feedback';
+
+/**
+ * OpenAPI 3.1 description of the API, generated from the contract schemas
+ */
+
+// Bump with breaking changes to the contract
+export const API_VERSION = '1.0.0';
+
+type Operation = Record<string, unknown>;
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+const json = (id: string, description = 'OK') => ({
+  description,
+  content: { 'application/json': { schema: ref(id) } },
+});
+
+const jsonList = (id: string) => ({
+  description: 'OK',
+  content: { 'application/json': { schema: { type: 'array', items: ref(id) } } },
+});
+
+const jsonBody = (id: string) => ({
+  required: true,
+  content: { 'application/json': { schema: ref(id) } },
+});
+
+const error = (description: string) => json('ErrorResponse', description);
+
+const INVALID = { 400: error('Invalid request; details lists each problem') };
+const NOT_FOUND = { 404: error('Conversation not found') };
+
+const FORBIDDEN = { 403: error('Admin access required') };
+
+const conversationId = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+const budgetUserId = {
+  name: 'userId',
+  in: 'path',
+  required: true,
+  description: '"*" for the default budget',
+  schema: { type: 'string' },
+};
+const fingerprint = { name: 'fingerprint', in: 'path', required: true, schema: { type: 'string' } };
+const since = {
+  name: 'since',
+  in: 'query',
+  required: false,
+  description: 'Milliseconds since epoch',
+  schema: { type: 'integer' },
+};
+
+const idempotencyKey = {
+  name: 'Idempotency-Key',
+  in: 'header',
+  required: false,
+  description: 'Repeats with the same key get the first response (Idempotent-Replayed: true) instead of a new one',
+  schema: { type: 'string', pattern: '^[\\w.:-]{1,255}$' },
+};
+const KEY_REUSED = { 422: error('Idempotency-Key was already used for a different request') };
+
+const BUDGET_EXCEEDED = { 429: error('Usage budget exceeded; Retry-After gives the seconds until it resets') };
+
+const PATHS: Record<string, Record<string, Operation>> = {
+  '/health': {
+    get: { summary: 'Health check', security: [], responses: { 200: json('HealthResponse') } },
+  },
+  '/api/auth/login': {
+    post: {
+      summary: 'Exchange credentials for a session token; anyone gets a guest account without AUTH_USERS',
+      security: [],
+      requestBody: jsonBody('LoginRequest'),
+      responses: { 200: json('LoginResponse'), ...INVALID, 401: error('Invalid username or password') },
+    },
+  },
+  '/api/auth/me': {
+    get: { summary: 'Identity of the caller', responses: { 200: json('AuthIdentity') } },
+  },
+  '/api/chat': {
+    post: {
+      summary: 'Complete response to a message',
+      parameters: [idempotencyKey],
+      requestBody: jsonBody('ChatRequest'),
+      responses: { 200: json('ChatResponse'), ...INVALID, ...NOT_FOUND, ...KEY_REUSED, ...BUDGET_EXCEEDED },
+    },
+  },
+  '/api/chat/stream': {
+    post: {
+      summary: 'Response tokens as Server-Sent Events: token (ChatTokenEvent), done (ChatResponse), error (ErrorResponse)',
+      parameters: [idempotencyKey],
+      requestBody: jsonBody('ChatRequest'),
+      responses: {
+        200: { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+        ...INVALID,
+        ...NOT_FOUND,
+        ...KEY_REUSED,
+        ...BUDGET_EXCEEDED,
+      },
+    },
+  },
+  '/api/chat/requests/{idempotencyKey}': {
+    delete: {
+      summary: 'Cancel a running chat request sent with this Idempotency-Key; disconnecting does not cancel it',
+      parameters: [{ name: 'idempotencyKey', in: 'path', required: true, schema: { type: 'string' } }],
+      responses: { 204: { description: 'Cancelled' }, 404: error('No running chat request with this key') },
+    },
+  },
+  '/api/chat/history': {
+    get: {
+      summary: 'Messages of a conversation',
+      parameters: [{ name: 'conversationId', in: 'query', required: true, schema: { type: 'string' } }],
+      responses: { 200: jsonList('StoredMessage'), ...INVALID, ...NOT_FOUND },
+    },
+  },
+  '/api/conversations': {
+    get: { summary: 'Conversations of the caller', responses: { 200: jsonList('ConversationSummary') } },
+    post: {
+      summary: 'Create a conversation, optionally with messages',
+      requestBody: jsonBody('CreateConversationRequest'),
+      responses: { 201: json('Conversation', 'Created'), ...INVALID },
+    },
+  },
+  '/api/conversations/{id}': {
+    get: {
+      summary: 'A conversation with its messages',
+      parameters: [conversationId],
+      responses: { 200: json('Conversation'), ...NOT_FOUND },
+    },
+    delete: {
+      summary: 'Delete a conversation',
+      parameters: [conversationId],
+      responses: { 204: { description: 'Deleted' }, ...NOT_FOUND },
+    },
+  },
+  '/api/conversations/{id}/messages': {
+    post: {
+      summary: 'Append messages to a conversation',
+      parameters: [conversationId],
+      requestBody: jsonBody('AppendMessagesRequest'),
+      responses: { 201: jsonList('StoredMessage'), ...INVALID, ...NOT_FOUND },
+    },
+  },
+  '/api/tts': {
+    post: {
+      summary: 'Synthesize speech with phoneme and viseme tracks for lip sync',
+      requestBody: jsonBody('SpeechRequest'),
+      responses: { 200: json('SynthesizedSpeech'), ...INVALID, 503: error('Text-to-speech is not configured') },
+    },
+  },
+  '/api/stt': {
+    post: {
+      summary: 'Transcribe a recording, as MediaRecorder produces it',
+      parameters: [{ name: 'lang', in: 'query', required: false, schema: { type: 'string' } }],
+      requestBody: {
+        required: true,
+        content: { 'audio/*': { schema: { type: 'string', format: 'binary' } } },
+      },
+      responses: {
+        200: json('SpeechTranscription'),
+        ...INVALID,
+        413: error('Audio is too large'),
+        503: error('Speech recognition is not configured'),
+      },
+    },
+  },
+  '/api/usage': {
+    get: { summary: 'Tokens and estimated cost of the caller, and their budget', responses: { 200: json('UsageReport') } },
+  },
+  '/api/usage/conversations/{id}': {
+    get: {
+      summary: 'Tokens and estimated cost of one of the caller\'s conversations',
+      parameters: [conversationId],
+      responses: { 200: json('UsageTotals') },
+    },
+  },
+  '/api/admin/usage': {
+    get: {
+      summary: 'Usage of every user, highest cost first',
+      parameters: [since],
+      responses: { 200: jsonList('UserUsage'), ...INVALID, ...FORBIDDEN },
+    },
+  },
+  '/api/admin/budgets': {
+    get: { summary: 'Every usage budget', responses: { 200: jsonList('UsageBudget'), ...FORBIDDEN } },
+  },
+  '/api/admin/budgets/{userId}': {
+    put: {
+      summary: 'Set the budget of a user; chat requests are refused once it is spent',
+      parameters: [budgetUserId],
+      requestBody: jsonBody('SetUsageBudgetRequest'),
+      responses: { 200: json('UsageBudget'), ...INVALID, ...FORBIDDEN },
+    },
+    delete: {
+      summary: 'Remove the budget of a user',
+      parameters: [budgetUserId],
+      responses: { 204: { description: 'Deleted' }, ...FORBIDDEN, 404: error('Budget not found') },
+    },
+  },
+  '/api/errors': {
+    post: {
+      summary: 'Report errors caught by the client; reports sent again are counted once',
+      requestBody: jsonBody('ErrorReportBatch'),
+      responses: { 200: json('ErrorReportBatchResult'), ...INVALID },
+    },
+  },
+  '/api/admin/errors': {
+    get: {
+      summary: 'Distinct client errors, most recently seen first',
+      parameters: [
+        { ...since, description: 'Milliseconds since epoch; errors last seen since then' },
+        { name: 'limit', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: 500 } },
+      ],
+      responses: { 200: jsonList('ErrorGroup'), ...INVALID, ...FORBIDDEN },
+    },
+  },
+  '/api/admin/errors/{fingerprint}': {
+    get: {
+      summary: 'A client error with its latest reports',
+      parameters: [fingerprint],
+      responses: { 200: json('ErrorGroupDetail'), ...FORBIDDEN, 404: error('Error not found') },
+    },
+    delete: {
+      summary: 'Forget a client error and its reports',
+      parameters: [fingerprint],
+      responses: { 204: { description: 'Deleted' }, ...FORBIDDEN, 404: error('Error not found') },
+    },
+  },
+  '/api/feedback': {
+    post: {
+      summary: 'Upload feedback and interaction metrics; feedback sent again is stored once',
+      requestBody: jsonBody('FeedbackBatch'),
+      responses: { 200: json('FeedbackBatchResult'), ...INVALID },
+    },
+  },
+  '/api/admin/feedback': {
+    get: {
+      summary: 'Feedback from every user, newest first',
+      parameters: [
+        {
+          name: 'category',
+          in: 'query',
+          required: false,
+          schema: { type: 'string', enum: [...FEEDBACK_CATEGORIES] },
+        },
+        { ...since, description: 'Milliseconds since epoch; feedback given since then' },
+        { name: 'limit', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: 500 } },
+      ],
+      responses: { 200: jsonList('StoredFeedback'), ...INVALID, ...FORBIDDEN },
+    },
+  },
+  '/api/admin/feedback/analytics': {
+    get: {
+      summary: 'Feedback summary, daily trends and critical issues across every user',
+      parameters: [
+        { ...since, description: 'Milliseconds since epoch; defaults to 30 days before until' },
+        { ...since, name: 'until', description: 'Milliseconds since epoch; defaults to now' },
+      ],
+      responses: { 200: json('FeedbackAnalytics'), ...INVALID, ...FORBIDDEN },
+    },
+  },
+  '/api/admin/feedback/recommendations': {
+    get: {
+      summary: 'Improvements the feedback analytics call for, most urgent first',
+      parameters: [
+        { ...since, description: 'Milliseconds since epoch; defaults to 30 days before until' },
+        { ...since, name: 'until', description: 'Milliseconds since epoch; defaults to now' },
+      ],
+      responses: { 200: json('FeedbackRecommendations'), ...INVALID, ...FORBIDDEN },
+    },
+  },
+  '/api/admin/feedback/benchmarks': {
+    get: {
+      summary: 'The overall feedback score against its benchmarks, with the gaps to close',
+      parameters: [
+        { ...since, description: 'Milliseconds since epoch; defaults to 30 days before until' },
+        { ...since, name: 'until', description: 'Milliseconds since epoch; defaults to now' },
+      ],
+      responses: { 200: json('FeedbackBenchmarks'), ...INVALID, ...FORBIDDEN },
+    },
+  },
+  '/api/admin/feedback/validation': {
+    get: {
+      summary: 'Context validation results clients reported with their interaction metrics',
+      parameters: [
+        { ...since, description: 'Milliseconds since epoch; defaults to 30 days before until' },
+        { ...since, name: 'until', description: 'Milliseconds since epoch; defaults to now' },
+      ],
+      responses: { 200: json('ValidationStats'), ...INVALID, ...FORBIDDEN },
+    },
+  },
+  '/api/admin/analytics/chat': {
+    get: {
+      summary: 'Chat volume, error rate, latency, top topics and emotions across every user, by day',
+      parameters: [
+        { ...since, description: 'Milliseconds since epoch; defaults to 30 days before until' },
+        { ...since, name: 'until', description: 'Milliseconds since epoch; defaults to now' },
+      ],
+      responses: { 200: json('ChatActivityReport'), ...INVALID, ...FORBIDDEN },
+    },
+  },
+};
+
+// JSON Schema bookkeeping that has no place in an OpenAPI component
+const stripSchemaKeys = (schema: object): object => {
+  const { $schema: _schema, $id: _id, id: _registryId, ...rest } = schema as Record<string, unknown>;
+  return rest;
+};
+
+/**
+ * The OpenAPI document of every route, served at GET /api/openapi.json
+ */
+export function createOpenAPIDocument() {
+  // As sent: unknown fields are dropped rather than refused, and clients should ignore new ones
+  const { schemas } = z.toJSONSchema(contractSchemas, {
+    io: 'input',
+    metadata: contractSchemas,
+    uri: id => `#/components/schemas/${id}`,
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: { title: '3DAvatar API', version: API_VERSION },
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(schemas).map(([id, schema]) => [id, stripSchemaKeys(schema)])
+      ),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+    paths: PATHS,
+  };
+}
@@ -0,0 +1,8 @@
+import { z } from 'zod/v4';
+
+/**
+ * The named schemas of the API, which become the components of its OpenAPI
+ * document. A registry of its own rather than zod's global one, which refuses
+ * the same id twice when a module is evaluated again (HMR, test runs).
+ */
+export const contractSchemas = z.registry<{ id: string; description?: string }>();
@@ -0,0 +1,56 @@
+import { z } from 'zod/v4';
+import { contractSchemas } from './registry';
+
+// BCP 47-ish: en, en-US, pt-BR, zh-yue (no flags, so it carries over to JSON Schema)
+const LANG_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/;
+
+export const LanguageTagSchema = z.string().regex(LANG_PATTERN, 'must be a language tag such as en-US');
+
+export const VISEMES = ['sil', 'PP', 'FF', 'TH', 'DD', 'kk', 'CH', 'SS', 'nn', 'RR', 'aa', 'E', 'I', 'O', 'U'] as const;
+
+const numberFrom = (min: number, max: number) => {
+  const range = `must be a number from ${min} to ${max}`;
+  return z.number({ error: range }).min(min, range).max(max, range);
+};
+
+export const SpeechRequestSchema = z.object({
+  /** Servers limit its length (TTS_MAX_TEXT_LENGTH) */
+  text: z.string().trim().min(1),
+  lang: LanguageTagSchema.optional(),
+  /** 1 is normal */
+  rate: numberFrom(0.5, 2).optional(),
+  /** 1 is normal; not every engine supports it */
+  pitch: numberFrom(0, 2).optional(),
+}).register(contractSchemas, { id: 'SpeechRequest' });
+
+const TimingSchema = {
+  /** Milliseconds from the start of the audio */
+  start: z.number(),
+  end: z.number(),
+};
+
+export const SynthesizedSpeechSchema = z.object({
+  /** Base64 */
+  audio: z.string(),
+  mimeType: z.string(),
+  durationMs: z.number(),
+  engine: z.string(),
+  phonemes: z.array(z.object({ phoneme: z.string(), ...TimingSchema })),
+  visemes: z.array(z.object({ viseme: z.enum(VISEMES), ...TimingSchema })),
+}).register(contractSchemas, { id: 'SynthesizedSpeech' });
+
+export const TranscriptionQuerySchema = z.object({
+  lang: LanguageTagSchema.optional(),
+});
+
+export const SpeechTranscriptionSchema = z.object({
+  /** Empty when nothing was said */
+  text: z.string(),
+  /** ISO 639-1, or auto when the engine detected it */
+  language: z.string(),
+  engine: z.string(),
+}).register(contractSchemas, { id: 'SpeechTranscription' });
+
+export type SpeechRequest = z.infer<typeof SpeechRequestSchema>;
+export type SynthesizedSpeechBody = z.infer<typeof SynthesizedSpeechSchema>;
+export type SpeechTranscriptionBody = z.infer<typeof SpeechTranscriptionSchema>;
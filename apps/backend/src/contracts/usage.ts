@@ -0,0 +1,63 @@
+import { z } from 'zod/v4';
+import { contractSchemas } from './registry';
+
+export const BUDGET_PERIODS = ['day', 'month'] as const;
+
+export const UsageTotalsSchema = z.object({
+  requests: z.number().int(),
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  totalTokens: z.number().int(),
+  /** Estimated from the server's price table */
+  costUsd: z.number(),
+}).register(contractSchemas, { id: 'UsageTotals' });
+
+export const BudgetStatusSchema = z.object({
+  limitUsd: z.number(),
+  /** UTC calendar day or month */
+  period: z.enum(BUDGET_PERIODS),
+  spentUsd: z.number(),
+  remainingUsd: z.number(),
+  /** Milliseconds since epoch when the period ends */
+  resetsAt: z.number(),
+}).register(contractSchemas, { id: 'BudgetStatus' });
+
+export const UsageReportSchema = z.object({
+  userId: z.string(),
+  /** Everything the caller has used */
+  user: UsageTotalsSchema,
+  /** Used by the calling session */
+  session: UsageTotalsSchema,
+  /** The caller's budget in its current period; null when there is none */
+  budget: BudgetStatusSchema.nullable(),
+}).register(contractSchemas, { id: 'UsageReport' });
+
+export const UserUsageSchema = UsageTotalsSchema.extend({
+  userId: z.string(),
+}).register(contractSchemas, { id: 'UserUsage' });
+
+export const UsageBudgetSchema = z.object({
+  /** "*" is the default budget of users without one of their own */
+  userId: z.string(),
+  limitUsd: z.number(),
+  period: z.enum(BUDGET_PERIODS),
+  /** Milliseconds since epoch */
+  updatedAt: z.number(),
+}).register(contractSchemas, { id: 'UsageBudget' });
+
+export const SetUsageBudgetRequestSchema = z.object({
+  limitUsd: z.number().nonnegative(),
+  period: z.enum(BUDGET_PERIODS).default('month'),
+}).register(contractSchemas, { id: 'SetUsageBudgetRequest' });
+
+export const UsageSinceQuerySchema = z.object({
+  /** Milliseconds since epoch; all time when omitted */
+  since: z.coerce.number().int().nonnegative().optional(),
+});
+
+export type UsageTotals = z.infer<typeof UsageTotalsSchema>;
+export type BudgetStatus = z.infer<typeof BudgetStatusSchema>;
+export type UsageReport = z.infer<typeof UsageReportSchema>;
+export type UserUsage = z.infer<typeof UserUsageSchema>;
+export type UsageBudget = z.infer<typeof UsageBudgetSchema>;
+export type SetUsageBudgetRequest = z.input<typeof SetUsageBudgetRequestSchema>;
@@ -0,0 +1,22 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { DatabaseConfig } from '../config/database';
+
+export type SqliteDatabase = Database.Database;
+
+/**
+ * Open the SQLite database, creating its directory if needed.
+ * Repositories create their own tables on construction.
+ */
+export function openDatabase(config: DatabaseConfig): SqliteDatabase {
+  if (config.path !== ':memory:') {
+    fs.mkdirSync(path.dirname(config.path), { recursive: true });
+  }
+
+  const db = new Database(config.path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  return db;
+}
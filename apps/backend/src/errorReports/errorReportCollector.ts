@@ -0,0 +1,70 @@
+import { AuthIdentity } from '../auth';
+import { ErrorReport, ErrorReportBatchResult } from '../contracts';
+import { ErrorReportRepository } from '../repositories/errorReportRepository';
+import { logger } from '../observability';
+import { fingerprintError } from './fingerprint';
+
+export interface ErrorReportCollectorOptions {
+  repository: ErrorReportRepository;
+  /** Reports kept per distinct error */
+  samplesPerError: number;
+  clock?: () => number;
+}
+
+/**
+ * Stores the error reports of clients, grouped by fingerprint
+ *
+ * Clients resend a batch whose response they did not get, so a report the
+ * caller already sent is counted once.
+ */
+export class ErrorReportCollector {
+  private readonly repository: ErrorReportRepository;
+  private readonly samplesPerError: number;
+  private readonly clock: () => number;
+
+  constructor({ repository, samplesPerError, clock = Date.now }: ErrorReportCollectorOptions) {
+    this.repository = repository;
+    this.samplesPerError = samplesPerError;
+    this.clock = clock;
+  }
+
+  async collect(identity: AuthIdentity, reports: ErrorReport[]): Promise<ErrorReportBatchResult> {
+    const receivedAt = this.clock();
+    const result: ErrorReportBatchResult = { accepted: 0, duplicates: 0 };
+
+    for (const report of reports) {
+      const fingerprint = fingerprintError(report.error);
+      const stored = await this.repository.record({
+        fingerprint,
+        name: report.error.name,
+        message: report.error.message,
+        stack: report.error.stack,
+        errorId: report.errorId,
+        userId: identity.userId,
+        sessionId: identity.sessionId,
+        componentStack: report.componentStack,
+        url: report.url,
+        userAgent: report.userAgent,
+        retryCount: report.retryCount,
+        recoveryAttempted: report.recoveryAttempted,
+        occurredAt: report.timestamp,
+        receivedAt,
+      }, this.samplesPerError);
+
+      if (stored) {
+        result.accepted += 1;
+        logger.warn('Client error reported', {
+          fingerprint,
+          errorId: report.errorId,
+          name: report.error.name,
+          message: report.error.message,
+          userId: identity.userId,
+        });
+      } else {
+        result.duplicates += 1;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,42 @@
+import { createHash } from 'crypto';
+import { ReportedError } from '../contracts';
+
+// Frames beyond these rarely tell two errors apart, and React's internals vary with the render path
+const FRAMES_PER_FINGERPRINT = 10;
+
+// "    at fn (url:1:2)" in V8, "fn@url:1:2" in Firefox and Safari
+const FRAME = /^\s*at\s|@.*:\d+:\d+$/;
+
+/**
+ * A stack frame without what changes from one deployment or page load to
+ * the next: origins, query strings (Vite's ?t= and ?v=), bundle hashes and
+ * line and column numbers
+ */
+export function normalizeFrame(frame: string): string {
+  return frame
+    .trim()
+    .replace(/[a-z][\w+.-]*:\/\/[^/\s)]+/gi, '')
+    .replace(/\?[^:\s)]*/g, '')
+    .replace(/-[\w]{8,}(?=\.m?js\b)/g, '')
+    .replace(/(:\d+)+(?=\)?$)/, '');
+}
+
+/**
+ * Reports of the same error share a fingerprint, whatever their message or
+ * where the bundle was served from: the error name and its top stack frames.
+ * Errors without a stack fall back to their message, numbers left out.
+ */
+export function fingerprintError(error: ReportedError): string {
+  const frames = (error.stack ?? '')
+    .split('\n')
+    .filter(line => FRAME.test(line))
+    .slice(0, FRAMES_PER_FINGERPRINT)
+    .map(normalizeFrame);
+
+  const signature = frames.length > 0 ? frames : [error.message.replace(/\d+/g, '#')];
+
+  return createHash('sha256')
+    .update([error.name, ...signature].join('\n'))
+    .digest('hex')
+    .slice(0, 16);
+}
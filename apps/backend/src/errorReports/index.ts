@@ -0,0 +1,2 @@
+export { ErrorReportCollector, ErrorReportCollectorOptions } from './errorReportCollector';
+export { fingerprintError, normalizeFrame } from './fingerprint';
@@ -0,0 +1,408 @@
+import {
+  CriticalIssue,
+  FeedbackAnalytics,
+  FeedbackBenchmarks,
+  FeedbackCategory,
+  FeedbackRecommendations,
+  ValidationStats,
+} from '../contracts';
+import { FeedbackRepository, StoredFeedback, StoredInteraction } from '../repositories/feedbackRepository';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Analytics cover the last 30 days unless asked otherwise
+const DEFAULT_WINDOW_MS = 30 * DAY_MS;
+
+// Category trends compare the last week with the week before it
+const TREND_WINDOW_MS = 7 * DAY_MS;
+
+// Smallest change in average rating that counts as a trend
+const TREND_THRESHOLD = 0.25;
+
+// Ratings a category needs before its average is called an issue
+const MIN_CATEGORY_RATINGS = 3;
+
+const SEVERITY_ORDER: Record<CriticalIssue['severity'], number> = { critical: 4, high: 3, medium: 2, low: 1 };
+
+const STRENGTHS: Partial<Record<FeedbackCategory, string>> = {
+  response_quality: 'High-quality responses',
+  helpfulness: 'Helpful assistance',
+  emotional_support: 'Strong emotional support',
+};
+
+const WEAKNESSES: Partial<Record<FeedbackCategory, string>> = {
+  accuracy: 'Accuracy issues',
+  technical_performance: 'Technical performance problems',
+  conversation_flow: 'Conversation flow issues',
+  response_quality: 'Response quality issues',
+  helpfulness: 'Helpfulness concerns',
+  personality_fit: 'Personality alignment issues',
+  emotional_support: 'Emotional support deficiencies',
+  user_experience: 'User experience problems',
+};
+
+// Scores the overall score is compared with; fixed until there is history to compare with
+const BENCHMARKS: FeedbackBenchmarks['benchmarks'] = { industry: 0.75, internal: 0.8, historical: 0.7, target: 0.85 };
+
+type Recommendation = FeedbackRecommendations['areas'][number];
+
+const TIMELINES: Record<Recommendation['effort'], string> = {
+  low: '1-2 weeks',
+  medium: '1-2 months',
+  high: '3-6 months',
+};
+
+const LONG_TERM_GOALS = [
+  'Achieve industry-leading technical performance.',
+  'Develop a robust and scalable user modeling system.',
+  'Implement advanced personalization algorithms.',
+];
+
+// Error types listed in validation stats
+const MAX_COMMON_ISSUES = 10;
+
+export interface FeedbackAggregatorOptions {
+  repository: FeedbackRepository;
+  clock?: () => number;
+}
+
+export interface AnalyticsRange {
+  /** Milliseconds since epoch; defaults to 30 days before until */
+  since?: number;
+  /** Milliseconds since epoch; defaults to now */
+  until?: number;
+}
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const ratingsOf = (feedback: StoredFeedback[]): number[] =>
+  feedback.flatMap(item => item.rating !== undefined ? [item.rating] : []);
+
+const utcDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+// Values grouped by the UTC day of their timestamp, oldest day first
+function byDay<T>(items: T[], timestamp: (item: T) => number): [string, T[]][] {
+  const days = new Map<string, T[]>();
+  for (const item of items) {
+    const date = utcDate(timestamp(item));
+    days.set(date, [...(days.get(date) ?? []), item]);
+  }
+  return [...days.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+function byCategory(feedback: StoredFeedback[]): Map<FeedbackCategory, StoredFeedback[]> {
+  const categories = new Map<FeedbackCategory, StoredFeedback[]>();
+  for (const item of feedback) {
+    const category = item.category as FeedbackCategory;
+    categories.set(category, [...(categories.get(category) ?? []), item]);
+  }
+  return categories;
+}
+
+const label = (category: string): string => category.replace(/_/g, ' ');
+
+/**
+ * Feedback analytics across every user: summary, daily trends, strengths,
+ * weaknesses and critical issues, and performance scores; the improvements
+ * and benchmark comparison they lead to; and what clients' context
+ * validation found
+ *
+ * The same measures FeedbackCollector and ContextValidator compute in the
+ * browser for one session, over everything clients have uploaded.
+ */
+export class FeedbackAggregator {
+  private readonly repository: FeedbackRepository;
+  private readonly clock: () => number;
+
+  constructor({ repository, clock = Date.now }: FeedbackAggregatorOptions) {
+    this.repository = repository;
+    this.clock = clock;
+  }
+
+  async analytics(range: AnalyticsRange = {}): Promise<FeedbackAnalytics> {
+    const until = range.until ?? this.clock();
+    const since = range.since ?? until - DEFAULT_WINDOW_MS;
+
+    const [feedback, interactions, recent] = await Promise.all([
+      this.repository.listFeedback({ since, until }),
+      this.repository.listInteractions({ since, until }),
+      this.repository.listFeedback({ since: until - 2 * TREND_WINDOW_MS, until }),
+    ]);
+
+    const ratings = ratingsOf(feedback);
+    const averageRating = average(ratings);
+    const satisfactionRate = ratings.filter(rating => rating >= 4).length / Math.max(ratings.length, 1);
+    const engagementLevel = average(interactions.map(interaction => interaction.engagementScore));
+    const categoryTrends = this.categoryTrends(recent, until);
+
+    return {
+      since,
+      until,
+      summary: {
+        totalFeedback: feedback.length,
+        users: new Set([...feedback, ...interactions].map(item => item.userId)).size,
+        sessions: new Set([...feedback, ...interactions].map(item => `${item.userId}\n${item.sessionId}`)).size,
+        averageRating,
+        satisfactionRate,
+        topCategories: [...byCategory(feedback)]
+          .map(([category, items]) => ({ category, count: items.length }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 5),
+        responseDistribution: [1, 2, 3, 4, 5].map(rating => ({
+          rating,
+          count: ratings.filter(value => value === rating).length,
+        })),
+      },
+      trends: {
+        ratingTrend: byDay(feedback.filter(item => item.rating !== undefined), item => item.timestamp)
+          .map(([date, items]) => ({ date, averageRating: average(ratingsOf(items)) })),
+        volumeTrend: byDay(feedback, item => item.timestamp)
+          .map(([date, items]) => ({ date, feedbackCount: items.length })),
+        engagementTrend: byDay(interactions, interaction => interaction.timestamp)
+          .map(([date, items]) => ({ date, engagementScore: average(items.map(item => item.engagementScore)) })),
+        categoryTrends,
+      },
+      insights: {
+        strengths: this.describe(feedback.filter(item => item.rating !== undefined && item.rating >= 4), STRENGTHS),
+        weaknesses: this.describe(feedback.filter(item => item.rating !== undefined && item.rating <= 2), WEAKNESSES),
+        criticalIssues: this.criticalIssues(feedback, interactions, categoryTrends),
+      },
+      performance: {
+        responseQuality: averageRating / 5,
+        userSatisfaction: satisfactionRate,
+        engagementLevel,
+        technicalPerformance: this.technicalPerformance(interactions),
+        overallScore: (averageRating / 5 + engagementLevel) / 2,
+      },
+    };
+  }
+
+  async recommendations(range: AnalyticsRange = {}): Promise<FeedbackRecommendations> {
+    const { since, until, summary, insights } = await this.analytics(range);
+
+    const recommend = (area: Omit<Recommendation, 'timeline'>): Recommendation =>
+      ({ ...area, timeline: TIMELINES[area.effort] });
+
+    const areas = [
+      ...insights.criticalIssues.map(issue => recommend({
+        priority: issue.severity,
+        recommendation: issue.suggestedActions.join(', '),
+        actionItems: issue.suggestedActions,
+        expectedImpact: issue.impact,
+        effort: 'high',
+      })),
+      ...insights.weaknesses.map(weakness => recommend({
+        category: (Object.keys(WEAKNESSES) as FeedbackCategory[]).find(category => WEAKNESSES[category] === weakness),
+        priority: 'high',
+        recommendation: `Focus on addressing ${weakness.toLowerCase()} based on user feedback`,
+        actionItems: [],
+        expectedImpact: 'Medium-term improvement in response quality',
+        effort: 'medium',
+      })),
+      ...(summary.totalFeedback > 0 ? [recommend({
+        category: 'user_experience',
+        priority: 'medium',
+        recommendation: 'Develop more sophisticated user modeling and personalization',
+        actionItems: [],
+        expectedImpact: 'Long-term enhancement of user satisfaction and engagement',
+        effort: 'high',
+      })] : []),
+    ];
+
+    return {
+      since,
+      until,
+      areas: areas.sort((a, b) => SEVERITY_ORDER[b.priority] - SEVERITY_ORDER[a.priority]),
+      priorityActions: [
+        ...insights.criticalIssues.map(issue => `Address ${issue.issue} (Priority: ${issue.severity})`),
+        ...insights.weaknesses.map(weakness => `Improve ${weakness} (Priority: high)`),
+      ],
+      longTermGoals: LONG_TERM_GOALS,
+    };
+  }
+
+  async benchmarks(range: AnalyticsRange = {}): Promise<FeedbackBenchmarks> {
+    const { since, until, performance: { overallScore } } = await this.analytics(range);
+    const below = (benchmark: number, name: string): string[] => overallScore < benchmark
+      ? [`Below ${name} by ${((benchmark - overallScore) * 100).toFixed(1)}%`]
+      : [];
+
+    return {
+      since,
+      until,
+      overallScore,
+      benchmarks: BENCHMARKS,
+      ratios: {
+        industry: overallScore / BENCHMARKS.industry,
+        internal: overallScore / BENCHMARKS.internal,
+        historical: overallScore / BENCHMARKS.historical,
+        target: overallScore / BENCHMARKS.target,
+      },
+      performanceGaps: [
+        ...below(BENCHMARKS.industry, 'industry average'),
+        ...below(BENCHMARKS.internal, 'internal benchmark'),
+        ...below(BENCHMARKS.target, 'target'),
+      ],
+      optimizationSuggestions: this.optimizationSuggestions(BENCHMARKS.target - overallScore),
+    };
+  }
+
+  async validation(range: AnalyticsRange = {}): Promise<ValidationStats> {
+    const until = range.until ?? this.clock();
+    const since = range.since ?? until - DEFAULT_WINDOW_MS;
+
+    const metrics = (await this.repository.listInteractions({ since, until }))
+      .flatMap(interaction => interaction.validationMetrics ? [interaction.validationMetrics] : []);
+
+    const totalValidations = metrics.reduce((sum, item) => sum + item.validations, 0);
+    const invalidCount = metrics.reduce((sum, item) => sum + item.invalid, 0);
+    const issues = new Map<string, number>();
+    for (const { type, count } of metrics.flatMap(item => item.issues)) {
+      issues.set(type, (issues.get(type) ?? 0) + count);
+    }
+
+    return {
+      since,
+      until,
+      sessions: metrics.length,
+      totalValidations,
+      validCount: totalValidations - invalidCount,
+      invalidCount,
+      errorRate: invalidCount / Math.max(totalValidations, 1),
+      averageValidationTime: metrics.reduce((sum, item) => sum + item.averageValidationTime * item.validations, 0)
+        / Math.max(totalValidations, 1),
+      maxValidationTime: Math.max(0, ...metrics.map(item => item.maxValidationTime)),
+      commonIssues: [...issues]
+        .map(([type, count]) => ({ type, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, MAX_COMMON_ISSUES),
+    };
+  }
+
+  private optimizationSuggestions(gap: number): string[] {
+    if (gap > 0.2) {
+      return [
+        'Implement comprehensive feedback collection strategy',
+        'Focus on user experience improvements',
+        'Enhance response quality metrics',
+      ];
+    }
+    if (gap > 0.1) return ['Fine-tune existing feedback mechanisms', 'Optimize response personalization'];
+    if (gap > 0) return ['Minor adjustments to maintain performance'];
+    return [];
+  }
+
+  private categoryTrends(recent: StoredFeedback[], until: number): FeedbackAnalytics['trends']['categoryTrends'] {
+    const weekStart = until - TREND_WINDOW_MS;
+
+    return [...byCategory(recent.filter(item => item.timestamp >= weekStart))]
+      .flatMap(([category, items]) => {
+        const ratings = ratingsOf(items);
+        if (ratings.length === 0) return [];
+
+        const averageRating = average(ratings);
+        const previous = ratingsOf(recent.filter(item => item.category === category && item.timestamp < weekStart));
+        const previousAverageRating = previous.length > 0 ? average(previous) : null;
+        const change = previousAverageRating === null ? 0 : averageRating - previousAverageRating;
+
+        return [{
+          category,
+          averageRating,
+          previousAverageRating,
+          trend: change >= TREND_THRESHOLD ? 'improving' as const
+            : change <= -TREND_THRESHOLD ? 'declining' as const
+            : 'stable' as const,
+        }];
+      });
+  }
+
+  private describe(feedback: StoredFeedback[], descriptions: Partial<Record<FeedbackCategory, string>>): string[] {
+    const found = new Set<string>();
+    for (const item of feedback) {
+      const description = descriptions[item.category as FeedbackCategory];
+      if (description) found.add(description);
+    }
+    return [...found];
+  }
+
+  private criticalIssues(
+    feedback: StoredFeedback[],
+    interactions: StoredInteraction[],
+    categoryTrends: FeedbackAnalytics['trends']['categoryTrends']
+  ): CriticalIssue[] {
+    const issues: CriticalIssue[] = [];
+    const ratings = ratingsOf(feedback);
+
+    const veryLow = ratings.filter(rating => rating === 1).length;
+    if (veryLow > 0) {
+      issues.push({
+        issue: 'Very low ratings detected',
+        severity: veryLow / ratings.length >= 0.25 ? 'critical' : 'high',
+        frequency: veryLow,
+        impact: 'User dissatisfaction and potential churn',
+        suggestedActions: ['Investigate root causes', 'Implement immediate fixes', 'Follow up with affected users'],
+      });
+    }
+
+    for (const [category, items] of byCategory(feedback)) {
+      const categoryRatings = ratingsOf(items);
+      if (categoryRatings.length >= MIN_CATEGORY_RATINGS && average(categoryRatings) <= 2) {
+        issues.push({
+          issue: `Low ratings for ${label(category)}`,
+          severity: 'high',
+          frequency: categoryRatings.length,
+          impact: `Users are consistently unhappy with ${label(category)}`,
+          suggestedActions: [`Review recent ${label(category)} feedback`, 'Prioritize fixes in this area'],
+        });
+      }
+    }
+
+    for (const trend of categoryTrends.filter(trend => trend.trend === 'declining')) {
+      issues.push({
+        issue: `Ratings for ${label(trend.category)} are declining`,
+        severity: 'medium',
+        frequency: feedback.filter(item => item.category === trend.category).length,
+        impact: `Average rating fell from ${trend.previousAverageRating?.toFixed(1)} to ${trend.averageRating.toFixed(1)} this week`,
+        suggestedActions: ['Compare with changes released this week', 'Check for regressions'],
+      });
+    }
+
+    const bugReports = feedback.filter(item => item.category === 'bug_report').length;
+    if (bugReports > 0) {
+      issues.push({
+        issue: 'Bugs reported by users',
+        severity: 'medium',
+        frequency: bugReports,
+        impact: 'Broken features erode trust in the avatar',
+        suggestedActions: ['Triage the reported bugs', 'Check the error reports of the same period'],
+      });
+    }
+
+    const failing = interactions.filter(interaction => (interaction.technicalMetrics.errorCount ?? 0) > 0).length;
+    if (interactions.length > 0 && failing / interactions.length >= 0.2) {
+      issues.push({
+        issue: 'Errors in many sessions',
+        severity: failing / interactions.length >= 0.5 ? 'critical' : 'high',
+        frequency: failing,
+        impact: 'Sessions with errors end early and rate lower',
+        suggestedActions: ['Check the error reports', 'Monitor response times and error rates'],
+      });
+    }
+
+    return issues.sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity]);
+  }
+
+  private technicalPerformance(interactions: StoredInteraction[]): number {
+    if (interactions.length === 0) return 0.5;
+
+    const responseTime = average(interactions.map(interaction => interaction.technicalMetrics.averageResponseTime ?? 0));
+    const errors = average(interactions.map(interaction => interaction.technicalMetrics.errorCount ?? 0));
+
+    // Scores fall to zero at 5 seconds per response and 10 errors per session
+    const responseScore = Math.max(0, 1 - responseTime / 5000);
+    const errorScore = Math.max(0, 1 - errors / 10);
+
+    return (responseScore + errorScore) / 2;
+  }
+}
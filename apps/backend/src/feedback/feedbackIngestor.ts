@@ -0,0 +1,68 @@
+import { AuthIdentity } from '../auth';
+import { FeedbackBatch, FeedbackBatchResult } from '../contracts';
+import { FeedbackRepository } from '../repositories/feedbackRepository';
+import { logger } from '../observability';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Old records are deleted at most this often, on the next batch after it
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface FeedbackIngestorOptions {
+  repository: FeedbackRepository;
+  /** Feedback and interaction metrics older than this are deleted */
+  retentionDays: number;
+  clock?: () => number;
+}
+
+/**
+ * Stores the feedback and interaction metrics clients upload
+ *
+ * Clients resend a batch whose response they did not get, so feedback the
+ * caller already sent is stored once; interaction snapshots replace the
+ * earlier snapshot of their session.
+ */
+export class FeedbackIngestor {
+  private readonly repository: FeedbackRepository;
+  private readonly retentionMs: number;
+  private readonly clock: () => number;
+  private lastPrunedAt = 0;
+
+  constructor({ repository, retentionDays, clock = Date.now }: FeedbackIngestorOptions) {
+    this.repository = repository;
+    this.retentionMs = retentionDays * DAY_MS;
+    this.clock = clock;
+  }
+
+  async ingest(identity: AuthIdentity, batch: FeedbackBatch): Promise<FeedbackBatchResult> {
+    const receivedAt = this.clock();
+    const result: FeedbackBatchResult = { accepted: 0, duplicates: 0 };
+
+    for (const item of batch.feedback) {
+      const stored = await this.repository.recordFeedback({ ...item, userId: identity.userId, receivedAt });
+      if (stored) {
+        result.accepted += 1;
+      } else {
+        result.duplicates += 1;
+      }
+    }
+
+    for (const interaction of batch.interactions) {
+      await this.repository.recordInteraction({ ...interaction, userId: identity.userId, receivedAt });
+      result.accepted += 1;
+    }
+
+    await this.prune(receivedAt);
+    return result;
+  }
+
+  private async prune(now: number): Promise<void> {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+
+    const deleted = await this.repository.deleteBefore(now - this.retentionMs);
+    if (deleted > 0) {
+      logger.info('Deleted expired feedback', { deleted, retentionDays: this.retentionMs / DAY_MS });
+    }
+  }
+}
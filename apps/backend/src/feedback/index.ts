@@ -0,0 +1,2 @@
+export { FeedbackIngestor, FeedbackIngestorOptions } from './feedbackIngestor';
+export { FeedbackAggregator, FeedbackAggregatorOptions, AnalyticsRange } from './feedbackAggregator';
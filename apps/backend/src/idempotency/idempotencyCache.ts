@@ -0,0 +1,204 @@
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { IdempotencyConfig } from '../config/idempotency';
+import { getUserId } from '../auth';
+import { logger } from '../observability';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+/** Set on responses replayed from the cache */
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+// Wide enough for UUIDs and most client schemes, narrow enough to log safely
+const VALID_KEY = /^[\w.:-]{1,255}$/;
+
+interface CachedResponse {
+  status: number;
+  contentType?: string;
+  body: Buffer;
+}
+
+type Entry =
+  /** done resolves to null when the response is not kept, e.g. the request failed */
+  | { state: 'pending'; fingerprint: string; done: Promise<CachedResponse | null> }
+  | { state: 'complete'; fingerprint: string; response: CachedResponse; expiresAt: number };
+
+const fingerprintOf = (req: Request): string =>
+  createHash('sha256').update(JSON.stringify(req.body ?? null)).digest('hex');
+
+const toBuffer = (chunk: unknown, encoding?: unknown): Buffer =>
+  Buffer.isBuffer(chunk)
+    ? chunk
+    : Buffer.from(String(chunk), typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8');
+
+/**
+ * Responses of requests sent with an Idempotency-Key, replayed to repeats
+ * of the request instead of running it again
+ *
+ * A repeat arriving while the first request is still running waits for its
+ * response, also when the first client has disconnected (e.g. timed out):
+ * the route keeps running keyed requests until they end. Only successful
+ * responses are kept, so a failed or cancelled request can be retried, and a
+ * repeat waiting for one runs in its place. A stream that fails after it
+ * started still ends with status 200, so the chat router reports such
+ * failures through markFailed. Keys are scoped to the caller
+ * and the route, and reusing one for a different body is refused. Entries
+ * live in memory, per process.
+ */
+export class IdempotencyCache {
+  private entries = new Map<string, Entry>();
+  private readonly failed = new WeakSet<Request>();
+
+  constructor(
+    private readonly config: IdempotencyConfig,
+    private readonly clock: () => number = Date.now
+  ) {}
+
+  /**
+   * Express middleware; requests without the header pass straight through.
+   * Mount it after the auth middleware.
+   */
+  middleware(): RequestHandler {
+    const handle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const key = req.get(IDEMPOTENCY_KEY_HEADER);
+      if (key === undefined) {
+        next();
+        return;
+      }
+
+      if (!VALID_KEY.test(key)) {
+        res.status(400).json({ error: `Invalid ${IDEMPOTENCY_KEY_HEADER} header` });
+        return;
+      }
+
+      const cacheKey = `${getUserId(req)}\n${req.method} ${req.path}\n${key}`;
+      const fingerprint = fingerprintOf(req);
+      const entry = this.lookup(cacheKey);
+
+      if (!entry) {
+        this.capture(cacheKey, fingerprint, req, res);
+        next();
+        return;
+      }
+
+      if (entry.fingerprint !== fingerprint) {
+        res.status(422).json({ error: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request` });
+        return;
+      }
+
+      const response = entry.state === 'complete' ? entry.response : await entry.done;
+      if (!response) {
+        await handle(req, res, next);
+        return;
+      }
+
+      logger.debug('Replayed idempotent request', { idempotencyKey: key });
+      this.replay(res, response);
+    };
+
+    return handle;
+  }
+
+  /** The request failed, whatever status its response went out with; it is not replayed */
+  markFailed(req: Request): void {
+    this.failed.add(req);
+  }
+
+  /** Requests running or replayable at the moment */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private lookup(cacheKey: string): Entry | undefined {
+    const entry = this.entries.get(cacheKey);
+    if (entry?.state === 'complete' && entry.expiresAt <= this.clock()) {
+      this.entries.delete(cacheKey);
+      return undefined;
+    }
+    return entry;
+  }
+
+  // Record the body as the route writes it; the client may be long gone by the end,
+  // so the route has to end every response, cancelled ones included
+  private capture(cacheKey: string, fingerprint: string, req: Request, res: Response): void {
+    let settled = false;
+    let resolve!: (response: CachedResponse | null) => void;
+    const done = new Promise<CachedResponse | null>(settle => {
+      resolve = settle;
+    });
+    const settle = (response: CachedResponse | null) => {
+      settled = true;
+      resolve(response);
+    };
+
+    this.makeRoom();
+    this.entries.set(cacheKey, { state: 'pending', fingerprint, done });
+
+    const chunks: Buffer[] = [];
+    const write = res.write.bind(res) as (...args: unknown[]) => boolean;
+    const end = res.end.bind(res) as (...args: unknown[]) => Response;
+
+    res.write = ((chunk: unknown, ...rest: unknown[]) => {
+      chunks.push(toBuffer(chunk, rest[0]));
+      return write(chunk, ...rest);
+    }) as Response['write'];
+
+    res.end = ((chunk?: unknown, ...rest: unknown[]) => {
+      if (settled) {
+        return end(chunk, ...rest);
+      }
+      if (chunk !== undefined && chunk !== null && typeof chunk !== 'function') {
+        chunks.push(toBuffer(chunk, rest[0]));
+      }
+
+      const contentType = res.getHeader('content-type');
+      const response: CachedResponse = {
+        status: res.statusCode,
+        contentType: contentType === undefined ? undefined : String(contentType),
+        body: Buffer.concat(chunks),
+      };
+
+      const kept = response.status >= 200 && response.status < 300 && !this.failed.has(req);
+      if (kept) {
+        this.entries.set(cacheKey, {
+          state: 'complete',
+          fingerprint,
+          response,
+          expiresAt: this.clock() + this.config.ttlSeconds * 1000,
+        });
+      } else {
+        this.entries.delete(cacheKey);
+      }
+      settle(kept ? response : null);
+
+      return end(chunk, ...rest);
+    }) as Response['end'];
+  }
+
+  private replay(res: Response, response: CachedResponse): void {
+    res.status(response.status);
+    if (response.contentType) {
+      res.set('Content-Type', response.contentType);
+    }
+    res.set(IDEMPOTENT_REPLAYED_HEADER, 'true');
+    res.end(response.body);
+  }
+
+  // Expired responses go first, then the oldest; running requests are never dropped
+  private makeRoom(): void {
+    if (this.entries.size < this.config.maxEntries) return;
+
+    const now = this.clock();
+    for (const [cacheKey, entry] of this.entries) {
+      if (entry.state === 'complete' && entry.expiresAt <= now) {
+        this.entries.delete(cacheKey);
+      }
+    }
+
+    for (const [cacheKey, entry] of this.entries) {
+      if (this.entries.size < this.config.maxEntries) break;
+      if (entry.state === 'complete') {
+        this.entries.delete(cacheKey);
+      }
+    }
+  }
+}
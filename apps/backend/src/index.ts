@@ -1,7 +1,54 @@
-import express, { Request, Response } from 'express';
+import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import OpenAI from 'openai';
+import { loadLLMConfig } from './config/llm';
+import { loadDatabaseConfig } from './config/database';
+import { loadRateLimitConfig } from './config/rateLimit';
+import { loadAuthConfig } from './config/auth';
+import { loadCorsConfig } from './config/cors';
+import { loadModerationConfig } from './config/moderation';
+import { loadTTSConfig } from './config/tts';
+import { loadSTTConfig } from './config/stt';
+import { loadToolsConfig } from './config/tools';
+import { loadObservabilityConfig } from './config/observability';
+import { loadUsageConfig } from './config/usage';
+import { loadIdempotencyConfig } from './config/idempotency';
+import { loadErrorReportsConfig } from './config/errorReports';
+import { loadFeedbackConfig } from './config/feedback';
+import { loadAnalyticsConfig } from './config/analytics';
+import { createProvider } from './providers';
+import { getModelContextWindow } from './context';
+import { openDatabase } from './db/database';
+import { RateLimiter } from './rateLimit';
+import { createAuthMiddleware, requireAdmin } from './auth';
+import { LoggerModerationEventLog, ModerationPipeline, createClassifier } from './moderation';
+import { InstrumentedProvider, ServerMetrics, logger, observeRequests, requestContext } from './observability';
+import { AVATAR_EVENTS_PATH, AvatarEventHub, attachAvatarEventServer } from './avatarEvents';
+import { createTTSEngine } from './tts';
+import { createSTTEngine } from './stt';
+import { createToolRegistry } from './tools';
+import { UsageTracker } from './usage';
+import { IDEMPOTENT_REPLAYED_HEADER, IdempotencyCache } from './idempotency';
+import { ErrorReportCollector } from './errorReports';
+import { FeedbackAggregator, FeedbackIngestor } from './feedback';
+import { ChatActivityTracker } from './analytics';
+import { SqliteConversationRepository } from './repositories/sqliteConversationRepository';
+import { SqliteNoteRepository } from './repositories/sqliteNoteRepository';
+import { SqliteUsageRepository } from './repositories/sqliteUsageRepository';
+import { SqliteErrorReportRepository } from './repositories/sqliteErrorReportRepository';
+import { SqliteFeedbackRepository } from './repositories/sqliteFeedbackRepository';
+import { SqliteChatEventRepository } from './repositories/sqliteChatEventRepository';
+import { createChatRouter } from './routes/chat';
+import { createConversationRouter } from './routes/conversations';
+import { createAuthRouter } from './routes/auth';
+import { createTTSRouter } from './routes/tts';
+import { createSTTRouter } from './routes/stt';
+import { createOpenAPIRouter } from './routes/openapi';
+import { createMetricsRouter } from './routes/metrics';
+import { createUsageRouter } from './routes/usage';
+import { createErrorReportRouter } from './routes/errorReports';
+import { createFeedbackRouter } from './routes/feedback';
+import { createAnalyticsRouter } from './routes/analytics';
 
 // Load environment variables
 dotenv.config();
@@ -9,17 +56,93 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Rate limits are per client, so the real client IP matters behind a proxy
+const rateLimitConfig = loadRateLimitConfig();
+if (rateLimitConfig.trustProxy !== undefined) {
+  app.set('trust proxy', rateLimitConfig.trustProxy);
+}
+
+const authConfig = loadAuthConfig();
+const corsConfig = loadCorsConfig();
+
+// Request ids, request logs and metrics; served on GET /metrics
+const observabilityConfig = loadObservabilityConfig();
+const metrics = observabilityConfig.metricsEnabled ? new ServerMetrics() : undefined;
+
 // Middleware
-app.use(cors());
+app.use(requestContext());
+app.use(observeRequests({ logger, metrics }));
+app.use(cors({
+  origin: corsConfig.origins ?? true,
+  exposedHeaders: ['Retry-After', 'X-Request-Id', IDEMPOTENT_REPLAYED_HEADER],
+}));
 app.use(express.json());
 
-// Initialize OpenAI
-let openai: OpenAI | null = null;
-if (process.env.OPENAI_API_KEY) {
-  openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-}
+// Initialize the LLM provider selected by configuration
+const llmConfig = loadLLMConfig();
+const configuredProvider = createProvider(llmConfig);
+const llmProvider = metrics ? new InstrumentedProvider(configuredProvider, metrics) : configuredProvider;
+const contextWindow = llmConfig.contextWindow ?? getModelContextWindow(llmProvider.model);
+
+// Screen chat messages and responses against the personality's boundaries
+const moderationConfig = loadModerationConfig();
+const moderationLog = new LoggerModerationEventLog();
+const moderation = moderationConfig.enabled
+  ? new ModerationPipeline(createClassifier(moderationConfig), {
+      record: event => {
+        moderationLog.record(event);
+        metrics?.recordModerationEvent(event);
+      },
+    })
+  : undefined;
+
+// Avatar events of chat responses, pushed to clients over WebSocket
+const avatarEvents = new AvatarEventHub();
+
+// Local speech synthesis with lip sync timings; clients use their own voice without it
+const ttsConfig = loadTTSConfig();
+const ttsEngine = createTTSEngine(ttsConfig);
+
+// Local speech recognition for browsers without their own
+const sttConfig = loadSTTConfig();
+const sttEngine = createSTTEngine(sttConfig);
+
+// Initialize storage
+const database = openDatabase(loadDatabaseConfig());
+const conversationRepository = new SqliteConversationRepository(database);
+
+// Tools the model can call: time, calculator, notes, and actions on the app
+const toolsConfig = loadToolsConfig();
+const toolRegistry = toolsConfig.enabled
+  ? createToolRegistry({ notes: new SqliteNoteRepository(database) })
+  : undefined;
+
+// Tokens and estimated cost of every chat request, and the budgets that cap them
+const usageConfig = loadUsageConfig();
+const usageRepository = new SqliteUsageRepository(database);
+const usageTracker = usageConfig.enabled
+  ? new UsageTracker({ repository: usageRepository, prices: usageConfig.prices, provider: llmProvider })
+  : undefined;
+
+// Errors caught by the frontend's error boundaries, grouped by stack fingerprint
+const errorReportsConfig = loadErrorReportsConfig();
+const errorReportRepository = new SqliteErrorReportRepository(database);
+const errorReportCollector = errorReportsConfig.enabled
+  ? new ErrorReportCollector({ repository: errorReportRepository, samplesPerError: errorReportsConfig.samplesPerError })
+  : undefined;
+
+// Feedback and interaction metrics uploaded by the frontend's FeedbackCollector, aggregated across users
+const feedbackConfig = loadFeedbackConfig();
+const feedbackRepository = new SqliteFeedbackRepository(database);
+const feedbackIngestor = feedbackConfig.enabled
+  ? new FeedbackIngestor({ repository: feedbackRepository, retentionDays: feedbackConfig.retentionDays })
+  : undefined;
+
+// Volume, errors, latency, topics and emotions of chat requests, for the admin dashboard
+const analyticsConfig = loadAnalyticsConfig();
+const chatActivity = analyticsConfig.enabled
+  ? new ChatActivityTracker({ repository: new SqliteChatEventRepository(database), retentionDays: analyticsConfig.retentionDays })
+  : undefined;
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -29,64 +152,99 @@ app.get('/health', (req, res) => {
   });
 });
 
-// Chat endpoint
-app.post('/api/chat', async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { message } = req.body;
+if (metrics) {
+  app.use(createMetricsRouter(metrics));
+}
 
-    if (!message) {
-      res.status(400).json({ error: 'Message is required' });
-      return;
-    }
+// Limit requests per client; completed chat requests are charged to its daily token quota
+const rateLimiter = rateLimitConfig.enabled ? new RateLimiter(rateLimitConfig) : null;
+if (rateLimiter) {
+  app.post(['/api/auth/login', '/api/tts', '/api/stt'], rateLimiter.middleware());
+}
 
-    if (!process.env.OPENAI_API_KEY) {
-      res.status(500).json({ error: 'OpenAI API key not configured' });
-      return;
-    }
+// Login and the API description are public; every other API route needs to know who is calling
+app.use('/api', createOpenAPIRouter());
+app.use('/api', createAuthRouter(authConfig));
+app.use('/api', createAuthMiddleware(authConfig));
+app.use('/api/admin', requireAdmin(authConfig));
 
-    if (!openai) {
-      res.status(500).json({ error: 'OpenAI client not initialized' });
-      return;
-    }
+// Retried chat requests (same Idempotency-Key) get the first response instead of a new generation.
+// Replays are answered here, so they are neither limited, recorded nor charged again.
+const idempotencyCache = new IdempotencyCache(loadIdempotencyConfig());
+app.post(['/api/chat', '/api/chat/stream'], idempotencyCache.middleware());
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful AI assistant in a 3D virtual room. Keep responses concise and friendly.'
-        },
-        {
-          role: 'user',
-          content: message
-        }
-      ],
-      max_tokens: 150,
-      temperature: 0.7,
-    });
+if (rateLimiter) {
+  app.post(['/api/chat', '/api/chat/stream'], rateLimiter.middleware());
+}
 
-    const response = completion.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
+// Every chat request is recorded, refused ones included
+if (chatActivity) {
+  app.post(['/api/chat', '/api/chat/stream'], chatActivity.middleware());
+}
 
-    res.json({
-      response: response,
-      timestamp: new Date().toISOString()
-    });
+// Chat requests stop once the caller's usage budget is spent
+if (usageTracker) {
+  app.post(['/api/chat', '/api/chat/stream'], usageTracker.middleware());
+}
 
-  } catch (error) {
-    console.error('Chat API error:', error);
-    res.status(500).json({
-      error: 'Failed to process chat request',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+// API routes
+app.use('/api', createChatRouter({
+  provider: llmProvider,
+  conversations: conversationRepository,
+  contextWindow,
+  onUsage: (req, usage, conversationId) => {
+    rateLimiter?.recordUsage(req, usage);
+    metrics?.recordTokenUsage(llmProvider, usage);
+    usageTracker?.record(req, usage, conversationId);
+  },
+  onError: req => {
+    chatActivity?.markFailed(req);
+    idempotencyCache.markFailed(req);
+  },
+  onCancel: req => idempotencyCache.markFailed(req),
+  moderation,
+  avatarEvents,
+  tools: toolRegistry,
+  maxToolRounds: toolsConfig.maxRounds,
+}));
+app.use('/api', createConversationRouter(conversationRepository));
+app.use('/api', createTTSRouter({ engine: ttsEngine, maxTextLength: ttsConfig.maxTextLength }));
+app.use('/api', createSTTRouter({ engine: sttEngine, maxAudioBytes: sttConfig.maxAudioBytes }));
+if (usageTracker) {
+  app.use('/api', createUsageRouter({ usage: usageTracker, repository: usageRepository }));
+}
+if (errorReportCollector) {
+  app.use('/api', createErrorReportRouter({ collector: errorReportCollector, repository: errorReportRepository }));
+}
+if (feedbackIngestor) {
+  app.use('/api', createFeedbackRouter({
+    ingestor: feedbackIngestor,
+    aggregator: new FeedbackAggregator({ repository: feedbackRepository }),
+    repository: feedbackRepository,
+  }));
+}
+
+if (chatActivity) {
+  app.use('/api', createAnalyticsRouter({ tracker: chatActivity }));
+}
 
 // Start server only if not in test environment
 if (process.env.NODE_ENV !== 'test') {
-  app.listen(PORT, () => {
-    console.log(`🚀 3DAvatar Backend server running on port ${PORT}`);
-    console.log(`📡 Health check: http://localhost:${PORT}/health`);
+  const server = app.listen(PORT, () => {
+    logger.info('Server started', {
+      port: Number(PORT),
+      health: `http://localhost:${PORT}/health`,
+      avatarEvents: `ws://localhost:${PORT}${AVATAR_EVENTS_PATH}`,
+      llmProvider: `${llmProvider.name} (${llmProvider.model})`,
+      ttsEngine: ttsEngine?.name ?? 'none (browser voice)',
+      sttEngine: sttEngine?.name ?? 'none (browser speech recognition only)',
+      metrics: metrics ? `http://localhost:${PORT}/metrics` : 'disabled',
+    });
+    if (authConfig.required && authConfig.ephemeralSecret) {
+      logger.warn('AUTH_JWT_SECRET is not set: sessions end when the server restarts');
+    }
   });
+  attachAvatarEventServer(server, { hub: avatarEvents, auth: authConfig, origins: corsConfig.origins });
 }
 
-export default app; 
\ No newline at end of file
+export default app;
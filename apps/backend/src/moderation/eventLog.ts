@@ -0,0 +1,13 @@
+import { Logger, logger } from '../observability/logger';
+import { ModerationEvent, ModerationEventLog } from './types';
+
+/**
+ * Writes moderation events to the server log, one line each
+ */
+export class LoggerModerationEventLog implements ModerationEventLog {
+  constructor(private readonly log: Logger = logger) {}
+
+  record(event: ModerationEvent): void {
+    this.log.warn('Moderation event', { moderation: event });
+  }
+}
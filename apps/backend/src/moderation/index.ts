@@ -0,0 +1,20 @@
+import { ModerationConfig } from '../config/moderation';
+import { ModerationClassifier } from './types';
+import { KeywordClassifier, loadTopicPatterns } from './keywordClassifier';
+
+export * from './types';
+export { ModerationPipeline } from './moderationPipeline';
+export { LoggerModerationEventLog } from './eventLog';
+export { KeywordClassifier, DEFAULT_TOPIC_PATTERNS, loadTopicPatterns } from './keywordClassifier';
+
+/**
+ * Create the classifier selected by configuration
+ */
+export function createClassifier(config: ModerationConfig): ModerationClassifier {
+  switch (config.classifier) {
+    case 'keyword':
+      return new KeywordClassifier({
+        patterns: config.patternsPath ? loadTopicPatterns(config.patternsPath) : undefined,
+      });
+  }
+}
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import { ModerationClassification, ModerationClassifier } from './types';
+
+/**
+ * Patterns for the prohibited topics of the default personality, covering
+ * both user questions and model answers. Topics without patterns are
+ * matched by their own wording.
+ */
+export const DEFAULT_TOPIC_PATTERNS: Record<string, RegExp[]> = {
+  'personal medical diagnosis': [
+    /\bdiagnos(e|is)\b.*\b(me|my)\b/i,
+    /\bdo i have\b.*\b(cancer|diabetes|disease|infection|disorder|syndrome)\b/i,
+    /\bwhat (illness|disease|condition) do i have\b/i,
+  ],
+  'legal advice': [
+    /\bshould (i |you )?sue\b/i,
+    /\b(lawsuit|legal advice)\b/i,
+    /\bis it (il)?legal (for me )?to\b/i,
+  ],
+  'financial investment advice': [
+    /\bshould (i |you )?(buy|sell|invest in)\b.*\b(stocks?|shares|crypto|bitcoin|bonds?|funds?)\b/i,
+    /\b(which|what) (stocks?|crypto|coins?) should i\b/i,
+    /\binvestment advice\b/i,
+  ],
+  'harmful or dangerous activities': [
+    /\bhow (do i|to|can i) (make|build)\b.*\b(bomb|explosives?|weapons?|poison)\b/i,
+  ],
+  'inappropriate personal information': [
+    /\b(social security|credit card|bank account) number\b/i,
+    /\bhome address of\b/i,
+  ],
+  'political extremism': [
+    /\b(join|recruit(ing)? for)\b.*\b(extremist|militia|terrorist)\b/i,
+  ],
+  'hate speech': [
+    /\b(all|those) \w+ (people )?should (die|be killed)\b/i,
+  ],
+  'violence or self-harm': [
+    /\b(kill|hurt|harm) (myself|himself|herself|someone|somebody)\b/i,
+    /\bsuicid(e|al)\b/i,
+    /\bself[- ]harm\b/i,
+  ],
+};
+
+export interface KeywordClassifierOptions {
+  /** Extra patterns per topic, added to the defaults */
+  patterns?: Record<string, RegExp[]>;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 'legal advice' -> /\blegal\s+advice\b/i
+const wordingPattern = (topic: string) =>
+  new RegExp(`\\b${topic.trim().split(/\s+/).map(escapeRegExp).join('\\s+')}\\b`, 'i');
+
+/**
+ * Local classifier matching keywords and regular expressions per topic
+ */
+export class KeywordClassifier implements ModerationClassifier {
+  public readonly name = 'keyword';
+  private readonly patterns: Record<string, RegExp[]>;
+
+  constructor(options: KeywordClassifierOptions = {}) {
+    this.patterns = { ...DEFAULT_TOPIC_PATTERNS };
+    for (const [topic, extra] of Object.entries(options.patterns ?? {})) {
+      this.patterns[topic] = [...(this.patterns[topic] ?? []), ...extra];
+    }
+  }
+
+  async classify(text: string, prohibitedTopics: string[]): Promise<ModerationClassification> {
+    const topics = prohibitedTopics.filter(topic =>
+      [wordingPattern(topic), ...(this.patterns[topic] ?? [])].some(pattern => pattern.test(text))
+    );
+
+    return { flagged: topics.length > 0, topics };
+  }
+}
+
+/**
+ * Load extra keyword patterns from a JSON file of topic -> regex strings
+ */
+export function loadTopicPatterns(filePath: string): Record<string, RegExp[]> {
+  const parsed: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Invalid moderation patterns in ${filePath}: expected an object of topic -> patterns`);
+  }
+
+  const patterns: Record<string, RegExp[]> = {};
+  for (const [topic, sources] of Object.entries(parsed)) {
+    if (!Array.isArray(sources) || !sources.every(source => typeof source === 'string')) {
+      throw new Error(`Invalid moderation patterns in ${filePath}: "${topic}" must be an array of strings`);
+    }
+    patterns[topic] = sources.map(source => new RegExp(source, 'i'));
+  }
+  return patterns;
+}
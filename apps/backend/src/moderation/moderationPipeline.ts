@@ -0,0 +1,199 @@
+import { humanize } from '../personality';
+import {
+  InputVerdict,
+  ModerationClassifier,
+  ModerationContext,
+  ModerationEvent,
+  ModerationEventLog,
+  ModerationReason,
+  OutputVerdict,
+} from './types';
+
+const PROHIBITED_TOPIC_CONDITION = 'user_asks_prohibited_topic';
+const PERSISTENT_TOPIC_TRIGGER = 'user_persistently_asks_prohibited_topics';
+// Rule actions that mean "don't answer at all"; anything else redirects
+const REFUSE_ACTION = /refuse|decline|block/;
+
+// Flagged messages within the window that count as persistently asking
+const PERSISTENCE_THRESHOLD = 3;
+const PERSISTENCE_WINDOW_MS = 10 * 60 * 1000;
+const MAX_TRACKED_USERS = 10000;
+
+// A streamed token that ends a sentence, where the response so far is screened
+const SENTENCE_END = /[.!?]["')\]]*\s*$|\n/;
+
+const REPLACED_RESPONSE = "I'd rather not go into that. Is there something else I can help you with?";
+
+const refusalResponse = (topic: string) =>
+  `I'm sorry, but ${topic} is something I can't help with. Is there anything else you'd like to talk about?`;
+
+const firmRefusalResponse = (topic: string) =>
+  `I know this matters to you, but I really can't help with ${topic}. Let's talk about something else.`;
+
+const redirectInstruction = (topics: string[], action: string) => [
+  '## Moderation',
+  `The user's latest message touches on ${topics.join(', ')}, which you do not discuss.`,
+  `Rule: ${humanize(action)}. Do not answer it; say briefly why and offer to help with something related.`,
+].join('\n');
+
+// Cut at the last sentence end that fits, or mid-sentence when there is none early enough
+function truncateResponse(text: string, maxLength: number): string {
+  const head = text.slice(0, maxLength);
+  const sentenceEnds = [...head.matchAll(/[.!?](?=\s|$)/g)];
+  const lastEnd = sentenceEnds.length > 0 ? sentenceEnds[sentenceEnds.length - 1].index! + 1 : 0;
+
+  return lastEnd >= maxLength / 2
+    ? head.slice(0, lastEnd)
+    : `${head.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+/**
+ * Screens chat messages before they reach the model and responses before
+ * they reach the user, enforcing the personality's boundaries
+ *
+ * Messages on prohibited topics are redirected or refused according to the
+ * guidelines' responseRules, and refused outright once a user keeps asking
+ * when an escalation rule says so. Every intervention is logged.
+ */
+export class ModerationPipeline {
+  // Times of recent flagged messages per user
+  private flaggedMessages = new Map<string, number[]>();
+
+  constructor(
+    private readonly classifier: ModerationClassifier,
+    private readonly events: ModerationEventLog,
+    private readonly clock: () => number = Date.now
+  ) {}
+
+  async screenInput(message: string, context: ModerationContext): Promise<InputVerdict> {
+    const { maxMessageLength, prohibitedTopics } = context.boundaries;
+
+    if (message.length > maxMessageLength) {
+      this.record('input', 'reject', 'message_too_long', [], message, context);
+      return {
+        action: 'reject',
+        error: 'Message is too long',
+        details: [`Messages are limited to ${maxMessageLength} characters`],
+      };
+    }
+
+    const { flagged, topics } = await this.classifier.classify(message, prohibitedTopics);
+    if (!flagged) {
+      return { action: 'allow' };
+    }
+
+    if (this.isPersistent(context)) {
+      this.record('input', 'refuse', 'persistent_prohibited_topic', topics, message, context);
+      return { action: 'refuse', topics, response: firmRefusalResponse(topics[0]) };
+    }
+
+    const rule = [...context.guidelines.responseRules]
+      .sort((a, b) => a.priority - b.priority)
+      .find(candidate => candidate.condition === PROHIBITED_TOPIC_CONDITION);
+
+    if (!rule || REFUSE_ACTION.test(rule.action)) {
+      this.record('input', 'refuse', 'prohibited_topic', topics, message, context);
+      return { action: 'refuse', topics, response: refusalResponse(topics[0]) };
+    }
+
+    this.record('input', 'redirect', 'prohibited_topic', topics, message, context);
+    return { action: 'redirect', topics, instruction: redirectInstruction(topics, rule.action) };
+  }
+
+  async screenOutput(response: string, context: ModerationContext): Promise<OutputVerdict> {
+    const { maxMessageLength, prohibitedTopics } = context.boundaries;
+
+    const { flagged, topics } = await this.classifier.classify(response, prohibitedTopics);
+    if (flagged) {
+      this.record('output', 'replace', 'prohibited_topic', topics, response, context);
+      return { action: 'replace', topics, response: REPLACED_RESPONSE };
+    }
+
+    if (response.length > maxMessageLength) {
+      this.record('output', 'truncate', 'message_too_long', [], response, context);
+      return { action: 'truncate', response: truncateResponse(response, maxMessageLength) };
+    }
+
+    return { action: 'allow', response };
+  }
+
+  /**
+   * Pass a streamed response through a sentence at a time, each screened
+   * before it is released. When the response has to change, the stream stops
+   * early and returns the response to send instead.
+   */
+  async *screenStream(
+    tokens: AsyncIterable<string>,
+    context: ModerationContext
+  ): AsyncGenerator<string, string | undefined> {
+    let text = '';
+    let released = 0;
+
+    for await (const token of tokens) {
+      text += token;
+      if (!SENTENCE_END.test(token)) continue;
+
+      const verdict = await this.screenOutput(text, context);
+      if (verdict.action !== 'allow') {
+        return verdict.response;
+      }
+
+      yield text.slice(released);
+      released = text.length;
+    }
+
+    const verdict = await this.screenOutput(text, context);
+    if (verdict.action !== 'allow') {
+      return verdict.response;
+    }
+
+    if (released < text.length) {
+      yield text.slice(released);
+    }
+    return undefined;
+  }
+
+  // Remember this flagged message and tell whether the user keeps asking
+  private isPersistent({ userId, guidelines }: ModerationContext): boolean {
+    const now = this.clock();
+    const recent = (this.flaggedMessages.get(userId) ?? []).filter(time => now - time < PERSISTENCE_WINDOW_MS);
+    recent.push(now);
+
+    if (!this.flaggedMessages.has(userId) && this.flaggedMessages.size >= MAX_TRACKED_USERS) {
+      this.prune(now);
+    }
+    this.flaggedMessages.set(userId, recent);
+
+    return recent.length >= PERSISTENCE_THRESHOLD &&
+      guidelines.escalationRules.some(rule => rule.trigger === PERSISTENT_TOPIC_TRIGGER);
+  }
+
+  private prune(now: number): void {
+    for (const [userId, times] of this.flaggedMessages) {
+      if (times.every(time => now - time >= PERSISTENCE_WINDOW_MS)) {
+        this.flaggedMessages.delete(userId);
+      }
+    }
+  }
+
+  private record(
+    direction: ModerationEvent['direction'],
+    action: ModerationEvent['action'],
+    reason: ModerationReason,
+    topics: string[],
+    text: string,
+    context: ModerationContext
+  ): void {
+    this.events.record({
+      timestamp: new Date(this.clock()).toISOString(),
+      direction,
+      action,
+      reason,
+      topics,
+      classifier: this.classifier.name,
+      userId: context.userId,
+      ...(context.conversationId ? { conversationId: context.conversationId } : {}),
+      textLength: text.length,
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { ConversationGuidelines, PersonalityBoundaries } from '../personality';
+
+/**
+ * Moderation types
+ */
+
+export interface ModerationClassification {
+  flagged: boolean;
+  /** Prohibited topics the text touches on */
+  topics: string[];
+}
+
+/**
+ * Decides which of the given prohibited topics a text touches on.
+ * Implementations may be local (keywords) or call out to a service.
+ */
+export interface ModerationClassifier {
+  readonly name: string;
+  classify(text: string, prohibitedTopics: string[]): Promise<ModerationClassification>;
+}
+
+/** What the chat request is moderated against, and on whose behalf */
+export interface ModerationContext {
+  boundaries: PersonalityBoundaries;
+  guidelines: ConversationGuidelines;
+  userId: string;
+  conversationId?: string;
+}
+
+export type InputVerdict =
+  | { action: 'allow' }
+  /** Invalid request, answered with a 400 */
+  | { action: 'reject'; error: string; details: string[] }
+  /** Answered by the model, told to steer away from the topics */
+  | { action: 'redirect'; topics: string[]; instruction: string }
+  /** Answered with a fixed reply, without calling the model */
+  | { action: 'refuse'; topics: string[]; response: string };
+
+export type OutputVerdict =
+  | { action: 'allow'; response: string }
+  | { action: 'truncate'; response: string }
+  | { action: 'replace'; topics: string[]; response: string };
+
+export type ModerationReason = 'prohibited_topic' | 'persistent_prohibited_topic' | 'message_too_long';
+
+export interface ModerationEvent {
+  timestamp: string;
+  direction: 'input' | 'output';
+  action: Exclude<InputVerdict['action'] | OutputVerdict['action'], 'allow'>;
+  reason: ModerationReason;
+  topics: string[];
+  classifier: string;
+  userId: string;
+  conversationId?: string;
+  /** Length of the moderated text; the text itself is not logged */
+  textLength: number;
+}
+
+/**
+ * Where moderation events are written
+ */
+export interface ModerationEventLog {
+  record(event: ModerationEvent): void;
+}
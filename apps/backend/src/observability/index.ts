@@ -0,0 +1,14 @@
+export { Logger, LogFields, JsonLogger, JsonLoggerOptions, logger } from './logger';
+export { REQUEST_ID_HEADER, RequestContext, getRequestId, requestContext } from './requestContext';
+export { RequestObserverOptions, observeRequests, routeLabel } from './requestLogging';
+export {
+  Counter,
+  Histogram,
+  HistogramOptions,
+  Labels,
+  MetricsRegistry,
+  DEFAULT_DURATION_BUCKETS,
+  PROMETHEUS_CONTENT_TYPE,
+} from './metrics';
+export { ServerMetrics } from './serverMetrics';
+export { InstrumentedProvider } from './instrumentedProvider';
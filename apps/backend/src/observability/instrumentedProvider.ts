@@ -0,0 +1,75 @@
+import {
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  CompletionStream,
+  LLMProvider,
+} from '../providers';
+import { ServerMetrics } from './serverMetrics';
+
+// Calls the caller cancelled are not the provider's failures
+const failureOutcome = (request: ChatCompletionRequest) => (request.signal?.aborted ? 'cancelled' : 'error');
+
+/**
+ * Provider that records how long each call to the one it wraps takes, and
+ * whether it failed. Streams are timed until their last token.
+ */
+export class InstrumentedProvider implements LLMProvider {
+  constructor(private readonly provider: LLMProvider, private readonly metrics: ServerMetrics) {}
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  getConfigurationError(): string | null {
+    return this.provider.getConfigurationError();
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const done = this.startTimer('complete');
+    try {
+      const result = await this.provider.complete(request);
+      done('success');
+      return result;
+    } catch (error) {
+      done(failureOutcome(request));
+      throw error;
+    }
+  }
+
+  stream(request: ChatCompletionRequest): CompletionStream {
+    const stream = this.provider.stream(request);
+    const timeTokens = (): AsyncGenerator<string> => this.timeStream(stream, request);
+    return {
+      // Filled in by the wrapped stream as it ends
+      get toolCalls() {
+        return stream.toolCalls;
+      },
+      [Symbol.asyncIterator]: timeTokens,
+    };
+  }
+
+  private async *timeStream(stream: CompletionStream, request: ChatCompletionRequest): AsyncGenerator<string> {
+    const done = this.startTimer('stream');
+    let outcome = 'cancelled';
+    try {
+      yield* stream;
+      outcome = 'success';
+    } catch (error) {
+      outcome = failureOutcome(request);
+      throw error;
+    } finally {
+      done(outcome);
+    }
+  }
+
+  private startTimer(operation: 'complete' | 'stream'): (outcome: string) => void {
+    const stop = this.metrics.providerDuration.startTimer();
+    return outcome => {
+      stop({ provider: this.provider.name, model: this.provider.model, operation, outcome });
+    };
+  }
+}
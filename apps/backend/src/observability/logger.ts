@@ -0,0 +1,101 @@
+import { LogLevel, loadObservabilityConfig } from '../config/observability';
+import { getRequestId } from './requestContext';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger that adds these fields to every line */
+  child(fields: LogFields): Logger;
+}
+
+export interface JsonLoggerOptions {
+  level: LogLevel;
+  /** Receives each line; console.log, or console.error for warnings and errors, by default */
+  write?: (line: string, level: LogLevel) => void;
+  clock?: () => Date;
+  fields?: LogFields;
+}
+
+const SEVERITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+const writeToConsole = (line: string, level: LogLevel) => {
+  if (level === 'warn' || level === 'error') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+};
+
+// Errors have no enumerable fields of their own
+const serializeErrors = (key: string, value: unknown) =>
+  value instanceof Error
+    ? { name: value.name, message: value.message, stack: value.stack }
+    : value;
+
+/**
+ * One JSON object per line: time, level, msg, the request id when there is
+ * one, then the logger's and the call's fields
+ */
+export class JsonLogger implements Logger {
+  private readonly threshold: number;
+  private readonly write: NonNullable<JsonLoggerOptions['write']>;
+  private readonly clock: () => Date;
+  private readonly fields: LogFields;
+
+  constructor(private readonly options: JsonLoggerOptions) {
+    this.threshold = SEVERITY[options.level];
+    this.write = options.write ?? writeToConsole;
+    this.clock = options.clock ?? (() => new Date());
+    this.fields = options.fields ?? {};
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  child(fields: LogFields): Logger {
+    return new JsonLogger({ ...this.options, fields: { ...this.fields, ...fields } });
+  }
+
+  private log(level: Exclude<LogLevel, 'silent'>, message: string, fields?: LogFields): void {
+    if (SEVERITY[level] < this.threshold) return;
+
+    const requestId = getRequestId();
+    const entry = {
+      time: this.clock().toISOString(),
+      level,
+      msg: message,
+      ...(requestId ? { requestId } : {}),
+      ...this.fields,
+      ...fields,
+    };
+    this.write(JSON.stringify(entry, serializeErrors), level);
+  }
+}
+
+/**
+ * The server's logger, at LOG_LEVEL
+ */
+export const logger: Logger = new JsonLogger({ level: loadObservabilityConfig().logLevel });
@@ -0,0 +1,189 @@
+import { performance } from 'perf_hooks';
+
+/**
+ * Counters and histograms, exposed in the Prometheus text format
+ * (https://prometheus.io/docs/instrumenting/exposition_formats/)
+ */
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Seconds; from a fast route to a slow completion */
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export type Labels<L extends string> = Record<L, string>;
+
+interface MetricOptions<L extends string> {
+  name: string;
+  help: string;
+  labelNames: readonly L[];
+}
+
+export interface HistogramOptions<L extends string> extends MetricOptions<L> {
+  /** Upper bounds, ascending; +Inf is added */
+  buckets?: readonly number[];
+}
+
+interface Metric {
+  render(): string[];
+}
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (entries: [string, string][]) =>
+  entries.length ? `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}` : '';
+
+const formatNumber = (value: number) =>
+  value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+
+/**
+ * One series per combination of label values
+ */
+abstract class LabeledMetric<L extends string, S> implements Metric {
+  protected readonly series = new Map<string, { labels: [string, string][]; state: S }>();
+
+  constructor(protected readonly options: MetricOptions<L>, private readonly type: string) {}
+
+  render(): string[] {
+    const { name, help } = this.options;
+    const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${this.type}`];
+    for (const { labels, state } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, state));
+    }
+    return lines;
+  }
+
+  protected abstract createState(): S;
+
+  protected abstract renderSeries(labels: [string, string][], state: S): string[];
+
+  protected stateFor(labels: Labels<L>): S {
+    const values = this.options.labelNames.map(name => labels[name] ?? '');
+    const key = values.join('\u0000');
+
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = {
+        labels: this.options.labelNames.map((name, index) => [name, values[index]]),
+        state: this.createState(),
+      };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+}
+
+export class Counter<L extends string = never> extends LabeledMetric<L, { value: number }> {
+  constructor(options: MetricOptions<L>) {
+    super(options, 'counter');
+  }
+
+  inc(labels: Labels<L>, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.options.name} can only go up`);
+    }
+    this.stateFor(labels).value += value;
+  }
+
+  /** Current value of one series */
+  get(labels: Labels<L>): number {
+    return this.stateFor(labels).value;
+  }
+
+  protected createState() {
+    return { value: 0 };
+  }
+
+  protected renderSeries(labels: [string, string][], state: { value: number }): string[] {
+    return [`${this.options.name}${formatLabels(labels)} ${formatNumber(state.value)}`];
+  }
+}
+
+interface HistogramState {
+  /** Observations per bucket, not cumulative */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram<L extends string = never> extends LabeledMetric<L, HistogramState> {
+  private readonly buckets: readonly number[];
+
+  constructor(options: HistogramOptions<L>) {
+    super(options, 'histogram');
+    this.buckets = [...(options.buckets ?? DEFAULT_DURATION_BUCKETS), Infinity];
+  }
+
+  observe(labels: Labels<L>, value: number): void {
+    const state = this.stateFor(labels);
+    state.counts[this.buckets.findIndex(bound => value <= bound)] += 1;
+    state.sum += value;
+    state.count += 1;
+  }
+
+  /** Observations and their total in one series */
+  get(labels: Labels<L>): { count: number; sum: number } {
+    const { count, sum } = this.stateFor(labels);
+    return { count, sum };
+  }
+
+  /**
+   * Start a timer; calling the result observes the seconds elapsed, with
+   * labels known by then (the outcome, the status)
+   */
+  startTimer(clock: () => number = () => performance.now()): (labels: Labels<L>) => number {
+    const start = clock();
+    return labels => {
+      const seconds = (clock() - start) / 1000;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  protected createState(): HistogramState {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: [string, string][], state: HistogramState): string[] {
+    const { name } = this.options;
+    let cumulative = 0;
+    const bucketLines = this.buckets.map((bound, index) => {
+      cumulative += state.counts[index];
+      return `${name}_bucket${formatLabels([...labels, ['le', formatNumber(bound)]])} ${cumulative}`;
+    });
+
+    return [
+      ...bucketLines,
+      `${name}_sum${formatLabels(labels)} ${formatNumber(state.sum)}`,
+      `${name}_count${formatLabels(labels)} ${state.count}`,
+    ];
+  }
+}
+
+/**
+ * The metrics a server exposes
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter<L extends string = never>(options: MetricOptions<L>): Counter<L> {
+    return this.register(options.name, new Counter(options));
+  }
+
+  histogram<L extends string = never>(options: HistogramOptions<L>): Histogram<L> {
+    return this.register(options.name, new Histogram(options));
+  }
+
+  /** Every metric in the Prometheus text format */
+  render(): string {
+    return [...this.metrics.values()].flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+
+  private register<M extends Metric>(name: string, metric: M): M {
+    if (this.metrics.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
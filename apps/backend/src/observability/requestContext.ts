@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Accepted from clients and proxies as is; anything else gets a fresh id
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Id of the request being handled, in code running on its behalf
+ */
+export const getRequestId = (): string | undefined => storage.getStore()?.requestId;
+
+/**
+ * Give each request an id: the caller's X-Request-Id when it is usable, a
+ * UUID otherwise. It is echoed in the response header, set as req.requestId
+ * and added to every log line written while the request is handled.
+ */
+export function requestContext(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+
+    req.requestId = requestId;
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    storage.run({ requestId }, next);
+  };
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { performance } from 'perf_hooks';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Logger } from './logger';
+import { ServerMetrics } from './serverMetrics';
+
+export interface RequestObserverOptions {
+  logger: Logger;
+  /** Request durations and errors are recorded here; logged only when omitted */
+  metrics?: ServerMetrics;
+}
+
+/**
+ * Route pattern of the request, e.g. /api/conversations/:id, so that
+ * metrics have one series per route rather than per URL
+ */
+export const routeLabel = (req: Request): string =>
+  req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+
+/**
+ * Log every request once it is over, and record its duration and status.
+ * Responses closed before they finished (a client that went away
+ * mid-stream) are logged with aborted: true.
+ */
+export function observeRequests({ logger, metrics }: RequestObserverOptions): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const start = performance.now();
+
+    res.once('close', () => {
+      const seconds = (performance.now() - start) / 1000;
+      const route = routeLabel(req);
+      metrics?.recordRequest(req.method, route, res.statusCode, seconds);
+
+      const fields = {
+        method: req.method,
+        route,
+        status: res.statusCode,
+        durationMs: Math.round(seconds * 1000),
+        ...(req.auth ? { userId: req.auth.userId } : {}),
+        ...(res.writableFinished ? {} : { aborted: true }),
+      };
+      if (res.statusCode >= 500) {
+        logger.error('Request failed', fields);
+      } else {
+        logger.info('Request completed', fields);
+      }
+    });
+
+    next();
+  };
+}
@@ -0,0 +1,70 @@
+import { TokenUsage } from '../providers';
+import { ModerationEvent } from '../moderation';
+import { MetricsRegistry, Counter, Histogram } from './metrics';
+
+type HttpLabel = 'method' | 'route' | 'status';
+
+/**
+ * What the server measures, all in one registry
+ *
+ * http_request_duration_seconds  per route and status; _count is the request count
+ * http_request_errors_total      responses with a 4xx or 5xx status, per route
+ * llm_request_duration_seconds   provider calls, per operation and outcome
+ * llm_tokens_total               tokens per provider, model and type (prompt, completion)
+ * moderation_events_total        messages and responses moderation acted on
+ */
+export class ServerMetrics {
+  readonly registry = new MetricsRegistry();
+
+  readonly httpRequestDuration: Histogram<HttpLabel> = this.registry.histogram({
+    name: 'http_request_duration_seconds',
+    help: 'Time to respond to HTTP requests',
+    labelNames: ['method', 'route', 'status'],
+  });
+
+  readonly httpErrors: Counter<HttpLabel> = this.registry.counter({
+    name: 'http_request_errors_total',
+    help: 'HTTP responses with a 4xx or 5xx status',
+    labelNames: ['method', 'route', 'status'],
+  });
+
+  readonly providerDuration: Histogram<'provider' | 'model' | 'operation' | 'outcome'> = this.registry.histogram({
+    name: 'llm_request_duration_seconds',
+    help: 'Time LLM provider calls took, until the last token for streams',
+    labelNames: ['provider', 'model', 'operation', 'outcome'],
+  });
+
+  readonly tokens: Counter<'provider' | 'model' | 'type'> = this.registry.counter({
+    name: 'llm_tokens_total',
+    help: 'LLM tokens used by completed chat responses',
+    labelNames: ['provider', 'model', 'type'],
+  });
+
+  readonly moderationEvents: Counter<'direction' | 'action' | 'reason'> = this.registry.counter({
+    name: 'moderation_events_total',
+    help: 'Messages and responses redirected, refused, rejected or replaced by moderation',
+    labelNames: ['direction', 'action', 'reason'],
+  });
+
+  recordRequest(method: string, route: string, status: number, seconds: number): void {
+    const labels = { method, route, status: String(status) };
+    this.httpRequestDuration.observe(labels, seconds);
+    if (status >= 400) {
+      this.httpErrors.inc(labels);
+    }
+  }
+
+  recordTokenUsage(provider: { name: string; model: string }, usage: TokenUsage): void {
+    const labels = { provider: provider.name, model: provider.model };
+    this.tokens.inc({ ...labels, type: 'prompt' }, usage.promptTokens);
+    this.tokens.inc({ ...labels, type: 'completion' }, usage.completionTokens);
+  }
+
+  recordModerationEvent(event: ModerationEvent): void {
+    this.moderationEvents.inc({ direction: event.direction, action: event.action, reason: event.reason });
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+}
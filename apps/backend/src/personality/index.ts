@@ -0,0 +1,9 @@
+export * from './types';
+export {
+  DEFAULT_AVATAR_PERSONALITY,
+  DEFAULT_CONVERSATION_GUIDELINES,
+  DEFAULT_PERSONALITY_ID,
+  PERSONALITY_PRESETS,
+} from './presets';
+export { composeSystemPrompt, humanize, PromptCompositionOptions } from './promptComposer';
+export { resolvePersonality, PersonalitySelection, PersonalityResolution } from './resolver';
@@ -0,0 +1,148 @@
+import {
+  AvatarPersonality,
+  CommunicationPatterns,
+  ConversationGuidelines,
+  PersonalityTraits,
+  ResponseStyles,
+} from './types';
+
+export interface PromptCompositionOptions {
+  /** Example phrases quoted per communication pattern and response style */
+  examplesPerPattern?: number;
+}
+
+const DEFAULT_OPTIONS: Required<PromptCompositionOptions> = {
+  examplesPerPattern: 1,
+};
+
+const ROLE_DESCRIPTION =
+  'You are a friendly AI avatar living in a 3D virtual room, chatting with the user by text and voice. ' +
+  'Keep responses concise and conversational: they are read aloud.';
+
+// 'user_asks_complex_question' -> 'user asks complex question'
+export const humanize = (identifier: string) => identifier.replace(/_/g, ' ').trim();
+
+// Map a 0-1 trait strength to an adverb
+const describeLevel = (value: number): string => {
+  if (value >= 0.85) return 'deeply';
+  if (value >= 0.65) return 'very';
+  if (value >= 0.45) return 'fairly';
+  if (value >= 0.25) return 'somewhat';
+  return 'only slightly';
+};
+
+const HUMOR_GUIDANCE: Record<PersonalityTraits['humor'], string> = {
+  none: 'Do not use humor.',
+  gentle: 'Use gentle, kind humor when it fits, never at the user\'s expense.',
+  witty: 'Use quick, clever wit when it fits.',
+  playful: 'Be playful and light-hearted when the mood allows.',
+};
+
+const describeFormality = (formality: number): string => {
+  if (formality < 0.35) return 'Use a casual but respectful tone.';
+  if (formality <= 0.65) return 'Use a balanced tone, friendly yet professional.';
+  return 'Use a formal, polished tone.';
+};
+
+const quoteExamples = (examples: string[], count: number): string => {
+  const selected = examples.slice(0, count);
+  return selected.length > 0
+    ? ` For example: ${selected.map(example => `"${example}"`).join(' ')}`
+    : '';
+};
+
+function composeTraits(traits: PersonalityTraits): string {
+  const qualities = [
+    `${describeLevel(traits.empathy)} empathetic`,
+    `${describeLevel(traits.curiosity)} curious`,
+    `${describeLevel(traits.patience)} patient`,
+    `${describeLevel(traits.supportiveness)} supportive`,
+    `${describeLevel(traits.enthusiasm)} enthusiastic`,
+  ];
+
+  return [
+    '## Personality',
+    `You are ${qualities.join(', ')}.`,
+    describeFormality(traits.formality),
+    HUMOR_GUIDANCE[traits.humor],
+  ].join('\n');
+}
+
+function composeCommunicationPatterns(patterns: CommunicationPatterns, examples: number): string {
+  const situations: Record<keyof CommunicationPatterns, string> = {
+    greeting: 'Greeting the user',
+    questioning: 'Asking questions',
+    explaining: 'Explaining things',
+    encouraging: 'Encouraging the user',
+    farewells: 'Saying goodbye',
+  };
+
+  const lines = (Object.keys(situations) as Array<keyof CommunicationPatterns>).map(key => {
+    const pattern = patterns[key];
+    return `- ${situations[key]}: be ${pattern.tone}; ${pattern.approach}.${quoteExamples(pattern.examples, examples)}`;
+  });
+
+  return ['## Communication', ...lines].join('\n');
+}
+
+function composeResponseStyles(styles: ResponseStyles, examples: number): string {
+  const lines = (Object.keys(styles) as Array<keyof ResponseStyles>).map(key => {
+    const style = styles[key];
+    return `- ${key}: ${style.structure}, using ${style.vocabulary}.${quoteExamples(style.examples, examples)}`;
+  });
+
+  return [
+    '## Response styles',
+    'Pick the style that best fits the user\'s message:',
+    ...lines,
+  ].join('\n');
+}
+
+function composeBoundaries(personality: AvatarPersonality): string {
+  const { prohibitedTopics, maxMessageLength, responseGuidelines } = personality.boundaries;
+
+  return [
+    '## Boundaries',
+    ...(prohibitedTopics.length > 0
+      ? [`Do not engage with these topics: ${prohibitedTopics.join(', ')}.`]
+      : []),
+    `Keep every reply under ${maxMessageLength} characters.`,
+    ...responseGuidelines.map(guideline => `- ${guideline}`),
+  ].join('\n');
+}
+
+function composeGuidelines(guidelines: ConversationGuidelines): string {
+  const rules = [...guidelines.responseRules]
+    .sort((a, b) => a.priority - b.priority)
+    .map(rule => `- If ${humanize(rule.condition)}: ${humanize(rule.action)}.`);
+
+  const escalations = guidelines.escalationRules.map(
+    rule => `- If ${humanize(rule.trigger)} (${rule.severity} severity): ${humanize(rule.response)}.`
+  );
+
+  return [
+    '## Conversation rules (highest priority first)',
+    ...rules,
+    ...(escalations.length > 0 ? ['## Escalation', ...escalations] : []),
+  ].join('\n');
+}
+
+/**
+ * Turn a personality and its conversation guidelines into the system prompt
+ */
+export function composeSystemPrompt(
+  personality: AvatarPersonality,
+  guidelines: ConversationGuidelines,
+  options: PromptCompositionOptions = {}
+): string {
+  const { examplesPerPattern } = { ...DEFAULT_OPTIONS, ...options };
+
+  return [
+    ROLE_DESCRIPTION,
+    composeTraits(personality.traits),
+    composeCommunicationPatterns(personality.communicationPatterns, examplesPerPattern),
+    composeResponseStyles(personality.responseStyles, examplesPerPattern),
+    composeBoundaries(personality),
+    composeGuidelines(guidelines),
+  ].join('\n\n');
+}
@@ -0,0 +1,133 @@
+import { AvatarPersonality, ConversationGuidelines, PersonalityPreset } from './types';
+import { DEFAULT_PERSONALITY_ID, PERSONALITY_PRESETS } from './presets';
+
+export interface PersonalitySelection {
+  personalityId?: unknown;
+  personality?: unknown;
+  guidelines?: unknown;
+}
+
+export type PersonalityResolution =
+  | { ok: true; personality: AvatarPersonality; guidelines: ConversationGuidelines }
+  | { ok: false; error: string; details?: string[] };
+
+const TRAIT_KEYS = ['empathy', 'curiosity', 'patience', 'supportiveness', 'formality', 'enthusiasm'] as const;
+const HUMOR_STYLES = ['none', 'gentle', 'witty', 'playful'];
+const SEVERITIES = ['low', 'medium', 'high'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Overlay a partial object onto a base; arrays and primitives replace,
+ * nested objects merge. Lets clients send only the fields they change.
+ */
+function deepMerge<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = deepMerge((base as Record<string, unknown>)[key], value);
+  }
+  return merged as T;
+}
+
+function validatePersonality(personality: AvatarPersonality): string[] {
+  const problems: string[] = [];
+  const { traits, communicationPatterns, boundaries, responseStyles } = personality;
+
+  for (const key of TRAIT_KEYS) {
+    const value = traits?.[key];
+    if (typeof value !== 'number' || value < 0 || value > 1) {
+      problems.push(`traits.${key} must be a number between 0 and 1`);
+    }
+  }
+  if (!HUMOR_STYLES.includes(traits?.humor)) {
+    problems.push(`traits.humor must be one of ${HUMOR_STYLES.join(', ')}`);
+  }
+
+  for (const [name, style] of Object.entries(communicationPatterns ?? {})) {
+    if (typeof style?.tone !== 'string' || typeof style?.approach !== 'string' || !isStringArray(style?.examples)) {
+      problems.push(`communicationPatterns.${name} needs a tone, an approach and string examples`);
+    }
+  }
+
+  for (const [name, style] of Object.entries(responseStyles ?? {})) {
+    if (typeof style?.structure !== 'string' || typeof style?.vocabulary !== 'string' || !isStringArray(style?.examples)) {
+      problems.push(`responseStyles.${name} needs a structure, a vocabulary and string examples`);
+    }
+  }
+
+  if (!isStringArray(boundaries?.prohibitedTopics)) {
+    problems.push('boundaries.prohibitedTopics must be a list of strings');
+  }
+  if (!isStringArray(boundaries?.responseGuidelines)) {
+    problems.push('boundaries.responseGuidelines must be a list of strings');
+  }
+  if (!Number.isInteger(boundaries?.maxMessageLength) || boundaries.maxMessageLength <= 0) {
+    problems.push('boundaries.maxMessageLength must be a positive integer');
+  }
+
+  return problems;
+}
+
+function validateGuidelines(guidelines: ConversationGuidelines): string[] {
+  const problems: string[] = [];
+
+  if (!Array.isArray(guidelines.responseRules) || !guidelines.responseRules.every(rule =>
+    typeof rule?.condition === 'string' && typeof rule?.action === 'string' && typeof rule?.priority === 'number'
+  )) {
+    problems.push('guidelines.responseRules must have a condition, an action and a numeric priority');
+  }
+
+  if (!Array.isArray(guidelines.escalationRules) || !guidelines.escalationRules.every(rule =>
+    typeof rule?.trigger === 'string' && typeof rule?.response === 'string' && SEVERITIES.includes(rule?.severity)
+  )) {
+    problems.push(`guidelines.escalationRules must have a trigger, a response and a severity of ${SEVERITIES.join(', ')}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Work out which personality a chat request asks for.
+ *
+ * personalityId picks a preset (the default when omitted); an inline
+ * personality or guidelines object is merged over that preset and validated.
+ */
+export function resolvePersonality(
+  { personalityId, personality, guidelines }: PersonalitySelection,
+  presets: Record<string, PersonalityPreset> = PERSONALITY_PRESETS
+): PersonalityResolution {
+  const id = personalityId ?? DEFAULT_PERSONALITY_ID;
+  const preset = typeof id === 'string' && Object.prototype.hasOwnProperty.call(presets, id) ? presets[id] : undefined;
+
+  if (!preset) {
+    return { ok: false, error: `Unknown personality: ${String(id)}` };
+  }
+
+  if ((personality !== undefined && !isPlainObject(personality)) ||
+      (guidelines !== undefined && !isPlainObject(guidelines))) {
+    return { ok: false, error: 'Invalid personality', details: ['personality and guidelines must be objects'] };
+  }
+
+  const resolved = {
+    personality: deepMerge(preset.personality, personality),
+    guidelines: deepMerge(preset.guidelines, guidelines),
+  };
+
+  const details = [
+    ...validatePersonality(resolved.personality),
+    ...validateGuidelines(resolved.guidelines),
+  ];
+  if (details.length > 0) {
+    return { ok: false, error: 'Invalid personality', details };
+  }
+
+  return { ok: true, ...resolved };
+}
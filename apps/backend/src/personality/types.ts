@@ -0,0 +1,91 @@
+/**
+ * Avatar personality types
+ * Mirrors AvatarPersonality and ConversationGuidelines in
+ * apps/frontend/src/types/context.ts so the frontend can send its config inline.
+ */
+
+export type HumorStyle = 'none' | 'gentle' | 'witty' | 'playful';
+
+export interface PersonalityTraits {
+  empathy: number; // 0-1
+  curiosity: number; // 0-1
+  patience: number; // 0-1
+  humor: HumorStyle;
+  supportiveness: number; // 0-1
+  formality: number; // 0-1
+  enthusiasm: number; // 0-1
+}
+
+export interface CommunicationStyle {
+  tone: string;
+  approach: string;
+  examples: string[];
+}
+
+export interface CommunicationPatterns {
+  greeting: CommunicationStyle;
+  questioning: CommunicationStyle;
+  explaining: CommunicationStyle;
+  encouraging: CommunicationStyle;
+  farewells: CommunicationStyle;
+}
+
+export interface PersonalityBoundaries {
+  prohibitedTopics: string[];
+  maxMessageLength: number;
+  responseGuidelines: string[];
+}
+
+export interface ResponsePattern {
+  structure: string;
+  vocabulary: string;
+  examples: string[];
+}
+
+export interface ResponseStyles {
+  casual: ResponsePattern;
+  professional: ResponsePattern;
+  supportive: ResponsePattern;
+  educational: ResponsePattern;
+}
+
+export interface AvatarPersonality {
+  traits: PersonalityTraits;
+  communicationPatterns: CommunicationPatterns;
+  boundaries: PersonalityBoundaries;
+  responseStyles: ResponseStyles;
+}
+
+export interface ResponseRule {
+  condition: string;
+  action: string;
+  priority: number;
+}
+
+export interface EscalationRule {
+  trigger: string;
+  response: string;
+  severity: 'low' | 'medium' | 'high';
+}
+
+export interface ConversationGuidelines {
+  maxContextWindow: number;
+  contextPriority: {
+    immediate: number;
+    recent: number;
+    session: number;
+    historical: number;
+  };
+  responseRules: ResponseRule[];
+  escalationRules: EscalationRule[];
+}
+
+/**
+ * A named personality the server can look up by id
+ */
+export interface PersonalityPreset {
+  id: string;
+  name: string;
+  personality: AvatarPersonality;
+  guidelines: ConversationGuidelines;
+}
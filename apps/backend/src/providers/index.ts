@@ -0,0 +1,42 @@
+import { LLMConfig, DEFAULT_MODELS, DEFAULT_COMPATIBLE_BASE_URL } from '../config/llm';
+import { LLMProvider } from './types';
+import { OpenAIProvider } from './openaiProvider';
+import { MockProvider, loadMockScript } from './mockProvider';
+
+export * from './types';
+export { OpenAIProvider } from './openaiProvider';
+export { MockProvider, DEFAULT_MOCK_SCRIPT, loadMockScript } from './mockProvider';
+
+/**
+ * Create the provider selected by configuration
+ */
+export function createProvider(config: LLMConfig): LLMProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIProvider({
+        name: 'openai',
+        model,
+        resolveApiKey: () => process.env.OPENAI_API_KEY,
+        missingKeyMessage: 'OpenAI API key not configured',
+      });
+
+    case 'openai-compatible':
+      return new OpenAIProvider({
+        name: 'openai-compatible',
+        model,
+        baseURL: config.baseURL || DEFAULT_COMPATIBLE_BASE_URL,
+        // Local servers usually accept any key, but the SDK requires one
+        resolveApiKey: () => config.apiKey || 'not-needed',
+        missingKeyMessage: 'LLM API key not configured',
+      });
+
+    case 'mock':
+      return new MockProvider({
+        model,
+        script: config.mockScriptPath ? loadMockScript(config.mockScriptPath) : undefined,
+        tokenDelayMs: config.mockTokenDelayMs,
+      });
+  }
+}
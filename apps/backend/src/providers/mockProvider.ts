@@ -0,0 +1,160 @@
+import fs from 'fs';
+import { DEFAULT_MODELS } from '../config/llm';
+import {
+  LLMProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  CompletionStream,
+  ToolCall,
+} from './types';
+
+/**
+ * A scripted reply: the first rule whose pattern matches the latest
+ * user message wins. `{{message}}` in a response is replaced with that message.
+ *
+ * A rule with a toolCall calls that tool first, when the request offers it;
+ * `{{toolResult}}` in its response is then replaced with the tool's result.
+ */
+export interface MockScriptRule {
+  match: string;
+  response: string;
+  toolCall?: {
+    name: string;
+    arguments?: Record<string, unknown>;
+  };
+}
+
+export interface MockScript {
+  rules: MockScriptRule[];
+  fallback: string;
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  rules: [
+    {
+      match: '^(hi|hello|hey)\\b',
+      response: 'Hi there! I am your 3D avatar. How can I help you today?',
+    },
+    {
+      match: 'how are you',
+      response: 'I am doing great, thanks for asking! How are you feeling?',
+    },
+    {
+      match: 'your name',
+      response: 'I am the 3D Avatar assistant living in this little room.',
+    },
+  ],
+  fallback: 'You said: "{{message}}". This is a scripted reply from the mock provider.',
+};
+
+export interface MockProviderOptions {
+  /** Reported in usage records; 'mock-scripted' unless LLM_MODEL is set */
+  model?: string;
+  script?: MockScript;
+  /** Delay between streamed tokens, to make streaming visible in the UI */
+  tokenDelayMs?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rough token estimate (~4 characters per token) for usage reporting
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Deterministic offline provider.
+ * Returns scripted replies so the whole stack can run without network
+ * access or an API key (local development, e2e tests, demos).
+ */
+export class MockProvider implements LLMProvider {
+  public readonly name = 'mock';
+  public readonly model: string;
+  private readonly script: MockScript;
+  private readonly tokenDelayMs: number;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.model = options.model ?? DEFAULT_MODELS.mock;
+    this.script = options.script ?? DEFAULT_MOCK_SCRIPT;
+    this.tokenDelayMs = options.tokenDelayMs ?? 0;
+  }
+
+  getConfigurationError(): string | null {
+    return null;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    request.signal?.throwIfAborted();
+    const { content, toolCalls } = this.reply(request);
+    const promptTokens = request.messages.reduce(
+      (sum, message) => sum + estimateTokens(message.content),
+      0
+    );
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      ...(toolCalls.length ? { toolCalls } : {}),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  stream(request: ChatCompletionRequest): CompletionStream {
+    const { content, toolCalls } = this.reply(request);
+    const tokens = this.streamTokens(content, request.signal);
+    return { toolCalls, [Symbol.asyncIterator]: () => tokens };
+  }
+
+  private async *streamTokens(content: string, signal?: AbortSignal): AsyncGenerator<string> {
+    for (const token of content.match(/\S+\s*/g) ?? []) {
+      if (this.tokenDelayMs > 0) {
+        await sleep(this.tokenDelayMs);
+      }
+      signal?.throwIfAborted();
+      yield token;
+    }
+  }
+
+  private reply(request: ChatCompletionRequest): { content: string; toolCalls: ToolCall[] } {
+    const lastUserIndex = request.messages.map(message => message.role).lastIndexOf('user');
+    const lastUserMessage = request.messages[lastUserIndex]?.content ?? '';
+    // Results of the tools called since that message
+    const toolResults = request.messages
+      .slice(lastUserIndex + 1)
+      .filter(message => message.role === 'tool')
+      .map(message => message.content);
+
+    const rule = this.script.rules.find(candidate =>
+      new RegExp(candidate.match, 'i').test(lastUserMessage.trim())
+    );
+
+    const toolCall = rule?.toolCall;
+    if (toolCall && toolResults.length === 0 && request.tools?.some(tool => tool.name === toolCall.name)) {
+      return {
+        content: '',
+        toolCalls: [{ id: 'call_mock_1', name: toolCall.name, arguments: JSON.stringify(toolCall.arguments ?? {}) }],
+      };
+    }
+
+    // Function replacers keep `$&` and friends in the message literal
+    const content = (rule?.response ?? this.script.fallback)
+      .replace(/\{\{message\}\}/g, () => lastUserMessage)
+      .replace(/\{\{toolResult\}\}/g, () => toolResults.join(' '));
+    return { content, toolCalls: [] };
+  }
+}
+
+/**
+ * Load a mock script from a JSON file
+ */
+export function loadMockScript(filePath: string): MockScript {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<MockScript>;
+
+  if (!Array.isArray(parsed.rules) || typeof parsed.fallback !== 'string') {
+    throw new Error(`Invalid mock script at ${filePath}: expected "rules" and "fallback"`);
+  }
+
+  return { rules: parsed.rules, fallback: parsed.fallback };
+}
@@ -0,0 +1,171 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import {
+  LLMProvider,
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  CompletionStream,
+  TokenUsage,
+  ToolCall,
+} from './types';
+
+export interface OpenAIProviderOptions {
+  name: string;
+  model: string;
+  /** Resolved on every request so a revoked key takes effect immediately */
+  resolveApiKey: () => string | undefined;
+  /** Override for OpenAI-compatible servers (llama.cpp, Ollama, vLLM...) */
+  baseURL?: string;
+  /** Message returned when no API key is available */
+  missingKeyMessage: string;
+}
+
+function toOpenAIMessage(message: ChatCompletionMessage): ChatCompletionMessageParam {
+  if (message.role === 'tool') {
+    return { role: 'tool', content: message.content, tool_call_id: message.toolCallId ?? '' };
+  }
+
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+
+  return { role: message.role, content: message.content } as ChatCompletionMessageParam;
+}
+
+// Request fields shared by complete() and stream(); tools only when there are some
+function toOpenAIRequest(model: string, request: ChatCompletionRequest) {
+  const tools: ChatCompletionTool[] | undefined = request.tools?.length
+    ? request.tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }))
+    : undefined;
+
+  return {
+    model,
+    messages: request.messages.map(toOpenAIMessage),
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    ...(tools ? { tools } : {}),
+  };
+}
+
+/**
+ * Provider backed by the OpenAI SDK.
+ * Also serves any server that speaks the OpenAI chat completions API.
+ */
+export class OpenAIProvider implements LLMProvider {
+  public readonly name: string;
+  public readonly model: string;
+  private readonly options: OpenAIProviderOptions;
+  private readonly client: OpenAI | null;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.options = options;
+
+    const apiKey = options.resolveApiKey();
+    this.client = apiKey
+      ? new OpenAI({ apiKey, ...(options.baseURL ? { baseURL: options.baseURL } : {}) })
+      : null;
+  }
+
+  getConfigurationError(): string | null {
+    if (!this.options.resolveApiKey()) {
+      return this.options.missingKeyMessage;
+    }
+
+    if (!this.client) {
+      return 'OpenAI client not initialized';
+    }
+
+    return null;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const completion = await this.getClient().chat.completions.create(
+      toOpenAIRequest(this.model, request),
+      { signal: request.signal }
+    );
+    const message = completion.choices[0]?.message;
+    const toolCalls = message?.tool_calls
+      ?.filter(call => call.type === 'function')
+      .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }));
+
+    return {
+      content: message?.content ?? null,
+      ...(toolCalls?.length ? { toolCalls } : {}),
+      usage: completion.usage
+        ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+            totalTokens: completion.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  stream(request: ChatCompletionRequest): CompletionStream {
+    const toolCalls: ToolCall[] = [];
+    let usage: TokenUsage | undefined;
+    const tokens = this.streamTokens(request, toolCalls, counted => { usage = counted; });
+    return { toolCalls, get usage() { return usage; }, [Symbol.asyncIterator]: () => tokens };
+  }
+
+  // Tool calls arrive in fragments, by index; they are complete once the stream ends.
+  // Usage comes in a last chunk without choices.
+  private async *streamTokens(
+    request: ChatCompletionRequest,
+    toolCalls: ToolCall[],
+    onUsage: (usage: TokenUsage) => void
+  ): AsyncGenerator<string> {
+    const stream = await this.getClient().chat.completions.create({
+      ...toOpenAIRequest(this.model, request),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: request.signal });
+
+    const partialCalls: ToolCall[] = [];
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        onUsage({
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        });
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      const token = delta?.content;
+      if (token) {
+        yield token;
+      }
+
+      for (const fragment of delta?.tool_calls ?? []) {
+        const call = (partialCalls[fragment.index] ??= { id: '', name: '', arguments: '' });
+        call.id ||= fragment.id ?? '';
+        call.name += fragment.function?.name ?? '';
+        call.arguments += fragment.function?.arguments ?? '';
+      }
+    }
+
+    toolCalls.push(...partialCalls.filter(Boolean));
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      throw new Error('OpenAI client not initialized');
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * LLM provider abstraction
+ * Every model backend (OpenAI, local OpenAI-compatible servers, the offline
+ * mock) implements the same interface so routes never depend on a vendor SDK.
+ */
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * A function the model may call, described by a JSON schema of its arguments
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON, as the model wrote it; not necessarily valid */
+  arguments: string;
+}
+
+export interface ChatCompletionMessage {
+  role: ChatRole;
+  content: string;
+  /** Tools an assistant message called */
+  toolCalls?: ToolCall[];
+  /** Call a tool message answers */
+  toolCallId?: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatCompletionMessage[];
+  maxTokens: number;
+  temperature: number;
+  /** Tools the model may call instead of answering; none when omitted */
+  tools?: ToolDefinition[];
+  /** Cancels the call, e.g. once the client that asked for it has gone */
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string | null;
+  usage?: TokenUsage;
+  /** Tools the model called; their results are expected in the next request */
+  toolCalls?: ToolCall[];
+}
+
+/**
+ * Response tokens as they arrive
+ */
+export interface CompletionStream extends AsyncIterable<string> {
+  /** Tools the model called; complete once the tokens are exhausted */
+  readonly toolCalls: ToolCall[];
+  /** Usage the provider reported; known once the tokens are exhausted */
+  readonly usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  /** Provider identifier, e.g. 'openai' or 'mock' */
+  readonly name: string;
+  /** Model the provider sends requests to */
+  readonly model: string;
+
+  /**
+   * Describe why the provider cannot serve requests right now,
+   * or return null when it is ready
+   */
+  getConfigurationError(): string | null;
+
+  /** Generate a complete response */
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+
+  /** Generate a response token by token */
+  stream(request: ChatCompletionRequest): CompletionStream;
+}
@@ -0,0 +1,47 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// UTC calendar day, e.g. '2025-01-31'
+const dayOf = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+interface DailyUsage {
+  day: string;
+  tokens: number;
+}
+
+/**
+ * LLM tokens used per client per UTC day
+ */
+export class DailyTokenQuota {
+  private usage = new Map<string, DailyUsage>();
+
+  used(clientId: string, now: number = Date.now()): number {
+    const entry = this.usage.get(clientId);
+    return entry && entry.day === dayOf(now) ? entry.tokens : 0;
+  }
+
+  record(clientId: string, tokens: number, now: number = Date.now()): void {
+    const day = dayOf(now);
+    const entry = this.usage.get(clientId);
+
+    if (entry && entry.day === day) {
+      entry.tokens += tokens;
+    } else {
+      this.usage.set(clientId, { day, tokens });
+    }
+  }
+
+  /** Milliseconds until every quota resets at the next UTC midnight */
+  msUntilReset(now: number = Date.now()): number {
+    return DAY_MS - (now % DAY_MS);
+  }
+
+  /** Drop entries from previous days */
+  prune(now: number = Date.now()): void {
+    const day = dayOf(now);
+    for (const [clientId, entry] of this.usage) {
+      if (entry.day !== day) {
+        this.usage.delete(clientId);
+      }
+    }
+  }
+}
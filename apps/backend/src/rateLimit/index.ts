@@ -0,0 +1,3 @@
+export { RateLimiter, RateLimitDecision, RateLimitReason } from './rateLimiter';
+export { TokenBucket } from './tokenBucket';
+export { DailyTokenQuota } from './dailyTokenQuota';
@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ClientLimits, RateLimitConfig } from '../config/rateLimit';
+import { TokenUsage } from '../providers';
+import { TokenBucket } from './tokenBucket';
+import { DailyTokenQuota } from './dailyTokenQuota';
+
+export type RateLimitReason = 'rate_limit' | 'quota';
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; reason: RateLimitReason; retryAfterSeconds: number };
+
+interface Client {
+  id: string;
+  limits: ClientLimits;
+}
+
+// Past this many tracked clients, idle (full) buckets are dropped
+const MAX_TRACKED_CLIENTS = 10000;
+
+const RATE_LIMIT_MESSAGES: Record<RateLimitReason, string> = {
+  rate_limit: 'Too many requests, please slow down',
+  quota: 'Daily token quota exceeded',
+};
+
+/**
+ * Per-client request rate (token bucket) and daily LLM token quota
+ *
+ * The quota is checked before a request and charged after it, so a client's
+ * last request of the day may take it slightly over.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+  private quota = new DailyTokenQuota();
+
+  constructor(
+    private readonly config: RateLimitConfig,
+    private readonly clock: () => number = Date.now
+  ) {}
+
+  /**
+   * Known API keys get their own limits; everyone else is limited by IP
+   */
+  identify(req: Request): Client {
+    const apiKey = req.get('x-api-key');
+    if (apiKey && Object.prototype.hasOwnProperty.call(this.config.apiKeys, apiKey)) {
+      return { id: `key:${apiKey}`, limits: this.config.apiKeys[apiKey] };
+    }
+
+    return {
+      id: `ip:${req.ip ?? req.socket.remoteAddress ?? 'unknown'}`,
+      limits: this.config.defaults,
+    };
+  }
+
+  check(req: Request): RateLimitDecision {
+    const now = this.clock();
+    const { id, limits } = this.identify(req);
+
+    if (this.quota.used(id, now) >= limits.dailyTokenQuota) {
+      return {
+        allowed: false,
+        reason: 'quota',
+        retryAfterSeconds: Math.ceil(this.quota.msUntilReset(now) / 1000),
+      };
+    }
+
+    const waitMs = this.getBucket(id, limits, now).take(now);
+    if (waitMs > 0) {
+      return { allowed: false, reason: 'rate_limit', retryAfterSeconds: Math.ceil(waitMs / 1000) };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Charge the tokens a completed request used to its client's quota
+   */
+  recordUsage = (req: Request, usage: TokenUsage): void => {
+    this.quota.record(this.identify(req).id, usage.totalTokens, this.clock());
+  };
+
+  /**
+   * Express middleware answering 429 with Retry-After when over a limit
+   */
+  middleware(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const decision = this.check(req);
+      if (decision.allowed) {
+        next();
+        return;
+      }
+
+      res.set('Retry-After', String(decision.retryAfterSeconds));
+      res.status(429).json({
+        error: RATE_LIMIT_MESSAGES[decision.reason],
+        reason: decision.reason,
+        retryAfter: decision.retryAfterSeconds,
+      });
+    };
+  }
+
+  private getBucket(id: string, limits: ClientLimits, now: number): TokenBucket {
+    let bucket = this.buckets.get(id);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_TRACKED_CLIENTS) {
+        this.prune(now);
+      }
+      bucket = new TokenBucket(limits.burst, limits.refillPerMinute, now);
+      this.buckets.set(id, bucket);
+    }
+    return bucket;
+  }
+
+  private prune(now: number): void {
+    for (const [id, bucket] of this.buckets) {
+      if (bucket.isFull(now)) {
+        this.buckets.delete(id);
+      }
+    }
+    this.quota.prune(now);
+  }
+}
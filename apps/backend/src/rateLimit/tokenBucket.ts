@@ -0,0 +1,46 @@
+/**
+ * Token bucket: holds up to `capacity` requests and refills continuously,
+ * so clients can burst briefly but are held to the refill rate over time.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private readonly refillPerMs: number;
+
+  constructor(
+    private readonly capacity: number,
+    refillPerMinute: number,
+    now: number = Date.now()
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+    this.refillPerMs = refillPerMinute / 60000;
+  }
+
+  /**
+   * Take one request from the bucket.
+   * Returns 0 when allowed, otherwise the milliseconds until one is available.
+   */
+  take(now: number = Date.now()): number {
+    this.refill(now);
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+
+    return Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  /** A full bucket carries no state worth keeping */
+  isFull(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
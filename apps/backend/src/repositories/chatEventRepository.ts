@@ -0,0 +1,36 @@
+/**
+ * Chat event storage contract: one record per chat request, with how it
+ * ended, how long it took and what the client said the conversation was about
+ */
+
+export type ChatOutcome = 'completed' | 'failed' | 'cancelled' | 'rejected';
+
+export interface ChatEvent {
+  userId: string;
+  conversationId?: string;
+  stream: boolean;
+  outcome: ChatOutcome;
+  status: number;
+  durationMs: number;
+  /** User emotion of the context payload */
+  emotion?: string;
+  /** Active topics of the context payload */
+  topics: string[];
+  /** Milliseconds since epoch */
+  createdAt: number;
+}
+
+export interface ChatEventFilter {
+  /** Milliseconds since epoch, inclusive */
+  since?: number;
+  /** Milliseconds since epoch, exclusive */
+  until?: number;
+}
+
+export interface ChatEventRepository {
+  record(event: ChatEvent): Promise<void>;
+  /** Oldest first */
+  list(filter: ChatEventFilter): Promise<ChatEvent[]>;
+  /** Delete events from before then; returns how many */
+  deleteBefore(time: number): Promise<number>;
+}
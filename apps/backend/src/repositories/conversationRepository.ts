@@ -0,0 +1,71 @@
+/**
+ * Conversation storage contract
+ * Routes depend on this interface only; SQLite is the default implementation.
+ */
+
+export type MessageSender = 'user' | 'assistant';
+
+export interface StoredMessage {
+  id: string;
+  content: string;
+  sender: MessageSender;
+  /** Milliseconds since epoch, matching the frontend ChatMessage */
+  timestamp: number;
+}
+
+export interface NewMessage {
+  content: string;
+  sender: MessageSender;
+  id?: string;
+  timestamp?: number;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+export interface Conversation extends Omit<ConversationSummary, 'messageCount'> {
+  messages: StoredMessage[];
+}
+
+export interface CreateConversationInput {
+  title?: string;
+  messages?: NewMessage[];
+}
+
+/**
+ * Every conversation belongs to one user. Conversations of other users are
+ * treated as if they did not exist.
+ */
+export interface ConversationRepository {
+  /** Most recently updated first */
+  list(ownerId: string): Promise<ConversationSummary[]>;
+  get(ownerId: string, id: string): Promise<Conversation | null>;
+  create(ownerId: string, input: CreateConversationInput): Promise<Conversation>;
+  /** Returns false when the conversation does not exist */
+  delete(ownerId: string, id: string): Promise<boolean>;
+  /** Returns null when the conversation does not exist */
+  appendMessages(ownerId: string, id: string, messages: NewMessage[]): Promise<StoredMessage[] | null>;
+}
+
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Derive a conversation title from its first user message
+ */
+export function deriveConversationTitle(messages: NewMessage[] = []): string {
+  const firstUserMessage = messages.find(message => message.sender === 'user');
+  const text = firstUserMessage?.content.trim().replace(/\s+/g, ' ');
+
+  if (!text) {
+    return 'New conversation';
+  }
+
+  return text.length > TITLE_MAX_LENGTH
+    ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…`
+    : text;
+}
@@ -0,0 +1,63 @@
+/**
+ * Error report storage contract: reports of client errors, grouped by the
+ * fingerprint of their stack
+ */
+
+export interface ErrorGroup {
+  fingerprint: string;
+  name: string;
+  /** Message and stack of the latest report */
+  message: string;
+  stack?: string;
+  count: number;
+  /** Milliseconds since epoch */
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface ErrorOccurrence {
+  /** Chosen by the client */
+  errorId: string;
+  userId: string;
+  sessionId: string;
+  message: string;
+  componentStack?: string;
+  url: string;
+  userAgent: string;
+  retryCount: number;
+  recoveryAttempted: boolean;
+  /** Milliseconds since epoch, by the client's clock */
+  occurredAt: number;
+  receivedAt: number;
+}
+
+export interface StoredErrorReport extends ErrorOccurrence {
+  fingerprint: string;
+  name: string;
+  stack?: string;
+}
+
+export interface ErrorGroupDetail extends ErrorGroup {
+  /** Newest first */
+  occurrences: ErrorOccurrence[];
+}
+
+export interface ErrorGroupFilter {
+  /** Milliseconds since epoch; groups last seen since then */
+  since?: number;
+  limit: number;
+}
+
+export interface ErrorReportRepository {
+  /**
+   * Count a report towards its group and keep it, dropping all but the
+   * latest keepSamples reports of the group. False when the user had already
+   * sent a report with this errorId; nothing changes then.
+   */
+  record(report: StoredErrorReport, keepSamples: number): Promise<boolean>;
+  /** Most recently seen first */
+  listGroups(filter: ErrorGroupFilter): Promise<ErrorGroup[]>;
+  getGroup(fingerprint: string): Promise<ErrorGroupDetail | null>;
+  /** False when there was no such group */
+  deleteGroup(fingerprint: string): Promise<boolean>;
+}
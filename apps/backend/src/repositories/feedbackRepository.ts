@@ -0,0 +1,89 @@
+/**
+ * Feedback storage contract: what users said about the avatar's responses,
+ * and snapshots of each client session's interaction metrics
+ */
+
+export interface FeedbackContext {
+  messageId?: string;
+  conversationPhase: string;
+  userEmotion: string;
+  responseTime: number;
+  contextSize: number;
+  activeFeatures: string[];
+  userIntent: string;
+}
+
+export interface FeedbackMetadata {
+  source: string;
+  confidence: number;
+  deviceType: string;
+  sessionDuration: number;
+  messageCount: number;
+  userEngagement: number;
+}
+
+export interface StoredFeedback {
+  /** Chosen by the client */
+  id: string;
+  userId: string;
+  /** The client's session */
+  sessionId: string;
+  type: string;
+  rating?: number;
+  category: string;
+  content: string;
+  context: FeedbackContext;
+  metadata: FeedbackMetadata;
+  /** Milliseconds since epoch, by the client's clock */
+  timestamp: number;
+  receivedAt: number;
+}
+
+export interface ValidationMetrics {
+  validations: number;
+  invalid: number;
+  averageValidationTime: number;
+  maxValidationTime: number;
+  issues: { type: string; count: number }[];
+}
+
+export interface StoredInteraction {
+  userId: string;
+  /** The client's session */
+  sessionId: string;
+  /** Milliseconds since epoch, by the client's clock */
+  timestamp: number;
+  duration: number;
+  messageCount: number;
+  userInitiated: boolean;
+  completionRate: number;
+  engagementScore: number;
+  satisfactionScore: number;
+  technicalMetrics: Record<string, number>;
+  behavioralMetrics: Record<string, number>;
+  validationMetrics?: ValidationMetrics;
+  receivedAt: number;
+}
+
+/** Records matching every given field */
+export interface FeedbackFilter {
+  category?: string;
+  /** Milliseconds since epoch, inclusive */
+  since?: number;
+  /** Milliseconds since epoch, exclusive */
+  until?: number;
+  limit?: number;
+}
+
+export interface FeedbackRepository {
+  /** False when the user had already sent feedback with this id; nothing changes then */
+  recordFeedback(feedback: StoredFeedback): Promise<boolean>;
+  /** Replaces the earlier snapshot of the same user and session, unless that one is newer */
+  recordInteraction(interaction: StoredInteraction): Promise<void>;
+  /** Newest first, by the client's timestamp */
+  listFeedback(filter: FeedbackFilter): Promise<StoredFeedback[]>;
+  /** Newest first; category is ignored */
+  listInteractions(filter: FeedbackFilter): Promise<StoredInteraction[]>;
+  /** Delete feedback and interactions from before then; returns how many */
+  deleteBefore(time: number): Promise<number>;
+}
@@ -0,0 +1,17 @@
+/**
+ * Note storage contract for the note taking tools
+ * Notes belong to one user, like conversations.
+ */
+
+export interface Note {
+  id: string;
+  content: string;
+  /** Milliseconds since epoch */
+  createdAt: number;
+}
+
+export interface NoteRepository {
+  add(ownerId: string, content: string): Promise<Note>;
+  /** Most recent first */
+  list(ownerId: string, limit: number): Promise<Note[]>;
+}
@@ -0,0 +1,91 @@
+import { SqliteDatabase } from '../db/database';
+import { ChatEvent, ChatEventFilter, ChatEventRepository, ChatOutcome } from './chatEventRepository';
+
+interface ChatEventRow {
+  user_id: string;
+  conversation_id: string | null;
+  stream: number;
+  outcome: string;
+  status: number;
+  duration_ms: number;
+  emotion: string | null;
+  topics: string;
+  created_at: number;
+}
+
+const COLUMNS = 'user_id, conversation_id, stream, outcome, status, duration_ms, emotion, topics, created_at';
+
+const toChatEvent = (row: ChatEventRow): ChatEvent => ({
+  userId: row.user_id,
+  ...(row.conversation_id !== null ? { conversationId: row.conversation_id } : {}),
+  stream: row.stream === 1,
+  outcome: row.outcome as ChatOutcome,
+  status: row.status,
+  durationMs: row.duration_ms,
+  ...(row.emotion !== null ? { emotion: row.emotion } : {}),
+  topics: JSON.parse(row.topics),
+  createdAt: row.created_at,
+});
+
+/**
+ * SQLite-backed chat events
+ */
+export class SqliteChatEventRepository implements ChatEventRepository {
+  constructor(private readonly db: SqliteDatabase) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS chat_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        conversation_id TEXT,
+        stream INTEGER NOT NULL,
+        outcome TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        duration_ms REAL NOT NULL,
+        emotion TEXT,
+        topics TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_chat_events_created_at ON chat_events (created_at);
+    `);
+  }
+
+  async record(event: ChatEvent): Promise<void> {
+    this.db.prepare(`INSERT INTO chat_events (${COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`).run(
+      event.userId,
+      event.conversationId ?? null,
+      event.stream ? 1 : 0,
+      event.outcome,
+      event.status,
+      event.durationMs,
+      event.emotion ?? null,
+      JSON.stringify(event.topics),
+      event.createdAt
+    );
+  }
+
+  async list({ since, until }: ChatEventFilter): Promise<ChatEvent[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (since !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(since);
+    }
+    if (until !== undefined) {
+      conditions.push('created_at < ?');
+      params.push(until);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`
+      SELECT ${COLUMNS} FROM chat_events ${where}
+      ORDER BY created_at, id
+    `).all(...params) as ChatEventRow[];
+
+    return rows.map(toChatEvent);
+  }
+
+  async deleteBefore(time: number): Promise<number> {
+    return this.db.prepare('DELETE FROM chat_events WHERE created_at < ?').run(time).changes;
+  }
+}
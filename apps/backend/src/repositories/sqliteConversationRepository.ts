@@ -0,0 +1,167 @@
+import { randomUUID } from 'crypto';
+import { SqliteDatabase } from '../db/database';
+import { ANONYMOUS_USER_ID } from '../auth';
+import {
+  Conversation,
+  ConversationRepository,
+  ConversationSummary,
+  CreateConversationInput,
+  NewMessage,
+  StoredMessage,
+  deriveConversationTitle,
+} from './conversationRepository';
+
+interface ConversationRow {
+  id: string;
+  title: string;
+  created_at: number;
+  updated_at: number;
+}
+
+interface SummaryRow extends ConversationRow {
+  message_count: number;
+}
+
+interface MessageRow {
+  id: string;
+  content: string;
+  sender: StoredMessage['sender'];
+  timestamp: number;
+}
+
+/**
+ * SQLite-backed conversation storage
+ */
+export class SqliteConversationRepository implements ConversationRepository {
+  constructor(private readonly db: SqliteDatabase) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS messages (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        sender TEXT NOT NULL CHECK (sender IN ('user', 'assistant')),
+        timestamp INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_messages_conversation
+        ON messages (conversation_id, seq);
+    `);
+
+    this.addOwnerColumn();
+  }
+
+  // Conversations stored before users existed belong to the anonymous user
+  private addOwnerColumn(): void {
+    const columns = this.db.prepare('PRAGMA table_info(conversations)').all() as { name: string }[];
+
+    if (!columns.some(column => column.name === 'user_id')) {
+      this.db
+        .prepare(`ALTER TABLE conversations ADD COLUMN user_id TEXT NOT NULL DEFAULT '${ANONYMOUS_USER_ID}'`)
+        .run();
+    }
+
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations (user_id, updated_at)');
+  }
+
+  async list(ownerId: string): Promise<ConversationSummary[]> {
+    const rows = this.db.prepare(`
+      SELECT c.id, c.title, c.created_at, c.updated_at, COUNT(m.seq) AS message_count
+      FROM conversations c
+      LEFT JOIN messages m ON m.conversation_id = c.id
+      WHERE c.user_id = ?
+      GROUP BY c.id
+      ORDER BY c.updated_at DESC
+    `).all(ownerId) as SummaryRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      messageCount: row.message_count,
+    }));
+  }
+
+  async get(ownerId: string, id: string): Promise<Conversation | null> {
+    const row = this.db
+      .prepare('SELECT id, title, created_at, updated_at FROM conversations WHERE id = ? AND user_id = ?')
+      .get(id, ownerId) as ConversationRow | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    const messages = this.db
+      .prepare('SELECT id, content, sender, timestamp FROM messages WHERE conversation_id = ? ORDER BY seq')
+      .all(id) as MessageRow[];
+
+    return {
+      id: row.id,
+      title: row.title,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      messages,
+    };
+  }
+
+  async create(ownerId: string, input: CreateConversationInput): Promise<Conversation> {
+    const now = Date.now();
+    const id = randomUUID();
+    const title = input.title?.trim() || deriveConversationTitle(input.messages);
+
+    this.db.transaction(() => {
+      this.db
+        .prepare('INSERT INTO conversations (id, title, created_at, updated_at, user_id) VALUES (?, ?, ?, ?, ?)')
+        .run(id, title, now, now, ownerId);
+      this.insertMessages(id, input.messages ?? [], now);
+    })();
+
+    return (await this.get(ownerId, id))!;
+  }
+
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM conversations WHERE id = ? AND user_id = ?').run(id, ownerId);
+    return result.changes > 0;
+  }
+
+  async appendMessages(ownerId: string, id: string, messages: NewMessage[]): Promise<StoredMessage[] | null> {
+    const now = Date.now();
+
+    return this.db.transaction(() => {
+      const updated = this.db
+        .prepare('UPDATE conversations SET updated_at = ? WHERE id = ? AND user_id = ?')
+        .run(now, id, ownerId);
+
+      if (updated.changes === 0) {
+        return null;
+      }
+
+      return this.insertMessages(id, messages, now);
+    })();
+  }
+
+  private insertMessages(conversationId: string, messages: NewMessage[], now: number): StoredMessage[] {
+    const insert = this.db.prepare(
+      'INSERT INTO messages (id, conversation_id, content, sender, timestamp) VALUES (?, ?, ?, ?, ?)'
+    );
+
+    return messages.map(message => {
+      const stored: StoredMessage = {
+        id: message.id ?? randomUUID(),
+        content: message.content,
+        sender: message.sender,
+        timestamp: message.timestamp ?? now,
+      };
+      insert.run(stored.id, conversationId, stored.content, stored.sender, stored.timestamp);
+      return stored;
+    });
+  }
+}
@@ -0,0 +1,201 @@
+import { SqliteDatabase } from '../db/database';
+import {
+  ErrorGroup,
+  ErrorGroupDetail,
+  ErrorGroupFilter,
+  ErrorOccurrence,
+  ErrorReportRepository,
+  StoredErrorReport,
+} from './errorReportRepository';
+
+interface GroupRow {
+  fingerprint: string;
+  name: string;
+  message: string;
+  stack: string | null;
+  count: number;
+  first_seen: number;
+  last_seen: number;
+}
+
+interface OccurrenceRow {
+  error_id: string;
+  user_id: string;
+  session_id: string;
+  message: string;
+  component_stack: string | null;
+  url: string;
+  user_agent: string;
+  retry_count: number;
+  recovery_attempted: number;
+  occurred_at: number;
+  received_at: number;
+}
+
+const GROUP_COLUMNS = 'fingerprint, name, message, stack, count, first_seen, last_seen';
+
+const toGroup = (row: GroupRow): ErrorGroup => ({
+  fingerprint: row.fingerprint,
+  name: row.name,
+  message: row.message,
+  ...(row.stack !== null ? { stack: row.stack } : {}),
+  count: row.count,
+  firstSeen: row.first_seen,
+  lastSeen: row.last_seen,
+});
+
+const toOccurrence = (row: OccurrenceRow): ErrorOccurrence => ({
+  errorId: row.error_id,
+  userId: row.user_id,
+  sessionId: row.session_id,
+  message: row.message,
+  ...(row.component_stack !== null ? { componentStack: row.component_stack } : {}),
+  url: row.url,
+  userAgent: row.user_agent,
+  retryCount: row.retry_count,
+  recoveryAttempted: row.recovery_attempted === 1,
+  occurredAt: row.occurred_at,
+  receivedAt: row.received_at,
+});
+
+/**
+ * SQLite-backed error groups and their latest reports
+ */
+export class SqliteErrorReportRepository implements ErrorReportRepository {
+  constructor(private readonly db: SqliteDatabase) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS error_groups (
+        fingerprint TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        message TEXT NOT NULL,
+        stack TEXT,
+        count INTEGER NOT NULL,
+        first_seen INTEGER NOT NULL,
+        last_seen INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_error_groups_last_seen ON error_groups (last_seen);
+
+      CREATE TABLE IF NOT EXISTS error_occurrences (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        fingerprint TEXT NOT NULL REFERENCES error_groups (fingerprint) ON DELETE CASCADE,
+        error_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        message TEXT NOT NULL,
+        component_stack TEXT,
+        url TEXT NOT NULL,
+        user_agent TEXT NOT NULL,
+        retry_count INTEGER NOT NULL,
+        recovery_attempted INTEGER NOT NULL,
+        occurred_at INTEGER NOT NULL,
+        received_at INTEGER NOT NULL,
+        UNIQUE (user_id, error_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_error_occurrences_fingerprint ON error_occurrences (fingerprint, seq);
+
+      -- Every report ever counted, so resends are recognised after their sample is trimmed
+      CREATE TABLE IF NOT EXISTS error_report_ids (
+        user_id TEXT NOT NULL,
+        error_id TEXT NOT NULL,
+        fingerprint TEXT NOT NULL REFERENCES error_groups (fingerprint) ON DELETE CASCADE,
+        PRIMARY KEY (user_id, error_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_error_report_ids_fingerprint ON error_report_ids (fingerprint);
+
+      INSERT OR IGNORE INTO error_report_ids (user_id, error_id, fingerprint)
+        SELECT user_id, error_id, fingerprint FROM error_occurrences;
+    `);
+  }
+
+  async record(report: StoredErrorReport, keepSamples: number): Promise<boolean> {
+    return this.db.transaction(() => {
+      const seen = this.db
+        .prepare('SELECT 1 FROM error_report_ids WHERE user_id = ? AND error_id = ?')
+        .get(report.userId, report.errorId);
+      if (seen) return false;
+
+      this.db.prepare(`
+        INSERT INTO error_groups (${GROUP_COLUMNS}) VALUES (?, ?, ?, ?, 1, ?, ?)
+        ON CONFLICT (fingerprint) DO UPDATE SET
+          message = excluded.message,
+          stack = excluded.stack,
+          count = count + 1,
+          first_seen = MIN(first_seen, excluded.first_seen),
+          last_seen = MAX(last_seen, excluded.last_seen)
+      `).run(
+        report.fingerprint,
+        report.name,
+        report.message,
+        report.stack ?? null,
+        report.occurredAt,
+        report.occurredAt
+      );
+
+      this.db
+        .prepare('INSERT INTO error_report_ids (user_id, error_id, fingerprint) VALUES (?, ?, ?)')
+        .run(report.userId, report.errorId, report.fingerprint);
+
+      this.db.prepare(`
+        INSERT INTO error_occurrences (
+          fingerprint, error_id, user_id, session_id, message, component_stack, url, user_agent,
+          retry_count, recovery_attempted, occurred_at, received_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        report.fingerprint,
+        report.errorId,
+        report.userId,
+        report.sessionId,
+        report.message,
+        report.componentStack ?? null,
+        report.url,
+        report.userAgent,
+        report.retryCount,
+        report.recoveryAttempted ? 1 : 0,
+        report.occurredAt,
+        report.receivedAt
+      );
+
+      this.db.prepare(`
+        DELETE FROM error_occurrences
+        WHERE fingerprint = ? AND seq NOT IN (
+          SELECT seq FROM error_occurrences WHERE fingerprint = ? ORDER BY seq DESC LIMIT ?
+        )
+      `).run(report.fingerprint, report.fingerprint, keepSamples);
+
+      return true;
+    })();
+  }
+
+  async listGroups({ since = 0, limit }: ErrorGroupFilter): Promise<ErrorGroup[]> {
+    const rows = this.db.prepare(`
+      SELECT ${GROUP_COLUMNS} FROM error_groups
+      WHERE last_seen >= ?
+      ORDER BY last_seen DESC
+      LIMIT ?
+    `).all(since, limit) as GroupRow[];
+
+    return rows.map(toGroup);
+  }
+
+  async getGroup(fingerprint: string): Promise<ErrorGroupDetail | null> {
+    const row = this.db
+      .prepare(`SELECT ${GROUP_COLUMNS} FROM error_groups WHERE fingerprint = ?`)
+      .get(fingerprint) as GroupRow | undefined;
+    if (!row) return null;
+
+    const occurrences = this.db.prepare(`
+      SELECT error_id, user_id, session_id, message, component_stack, url, user_agent,
+        retry_count, recovery_attempted, occurred_at, received_at
+      FROM error_occurrences WHERE fingerprint = ? ORDER BY seq DESC
+    `).all(fingerprint) as OccurrenceRow[];
+
+    return { ...toGroup(row), occurrences: occurrences.map(toOccurrence) };
+  }
+
+  async deleteGroup(fingerprint: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM error_groups WHERE fingerprint = ?').run(fingerprint).changes > 0;
+  }
+}
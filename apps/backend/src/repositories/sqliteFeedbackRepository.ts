@@ -0,0 +1,230 @@
+import { SqliteDatabase } from '../db/database';
+import { FeedbackFilter, FeedbackRepository, StoredFeedback, StoredInteraction } from './feedbackRepository';
+
+interface FeedbackRow {
+  id: string;
+  user_id: string;
+  session_id: string;
+  type: string;
+  rating: number | null;
+  category: string;
+  content: string;
+  context: string;
+  metadata: string;
+  timestamp: number;
+  received_at: number;
+}
+
+interface InteractionRow {
+  user_id: string;
+  session_id: string;
+  timestamp: number;
+  duration: number;
+  message_count: number;
+  user_initiated: number;
+  completion_rate: number;
+  engagement_score: number;
+  satisfaction_score: number;
+  technical_metrics: string;
+  behavioral_metrics: string;
+  validation_metrics: string | null;
+  received_at: number;
+}
+
+const FEEDBACK_COLUMNS =
+  'id, user_id, session_id, type, rating, category, content, context, metadata, timestamp, received_at';
+
+const INTERACTION_COLUMNS = `
+  user_id, session_id, timestamp, duration, message_count, user_initiated, completion_rate,
+  engagement_score, satisfaction_score, technical_metrics, behavioral_metrics, validation_metrics, received_at
+`;
+
+const toFeedback = (row: FeedbackRow): StoredFeedback => ({
+  id: row.id,
+  userId: row.user_id,
+  sessionId: row.session_id,
+  type: row.type,
+  ...(row.rating !== null ? { rating: row.rating } : {}),
+  category: row.category,
+  content: row.content,
+  context: JSON.parse(row.context),
+  metadata: JSON.parse(row.metadata),
+  timestamp: row.timestamp,
+  receivedAt: row.received_at,
+});
+
+const toInteraction = (row: InteractionRow): StoredInteraction => ({
+  userId: row.user_id,
+  sessionId: row.session_id,
+  timestamp: row.timestamp,
+  duration: row.duration,
+  messageCount: row.message_count,
+  userInitiated: row.user_initiated === 1,
+  completionRate: row.completion_rate,
+  engagementScore: row.engagement_score,
+  satisfactionScore: row.satisfaction_score,
+  technicalMetrics: JSON.parse(row.technical_metrics),
+  behavioralMetrics: JSON.parse(row.behavioral_metrics),
+  ...(row.validation_metrics !== null ? { validationMetrics: JSON.parse(row.validation_metrics) } : {}),
+  receivedAt: row.received_at,
+});
+
+// The WHERE clause and its parameters for a filter over a table with a timestamp column
+function whereClause({ category, since, until }: FeedbackFilter, withCategory: boolean): [string, (string | number)[]] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (withCategory && category !== undefined) {
+    conditions.push('category = ?');
+    params.push(category);
+  }
+  if (since !== undefined) {
+    conditions.push('timestamp >= ?');
+    params.push(since);
+  }
+  if (until !== undefined) {
+    conditions.push('timestamp < ?');
+    params.push(until);
+  }
+
+  return [conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params];
+}
+
+/**
+ * SQLite-backed feedback and interaction metrics
+ */
+export class SqliteFeedbackRepository implements FeedbackRepository {
+  constructor(private readonly db: SqliteDatabase) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS feedback (
+        id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        rating INTEGER,
+        category TEXT NOT NULL,
+        content TEXT NOT NULL,
+        context TEXT NOT NULL,
+        metadata TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        received_at INTEGER NOT NULL,
+        PRIMARY KEY (user_id, id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_feedback_timestamp ON feedback (timestamp);
+
+      CREATE TABLE IF NOT EXISTS feedback_interactions (
+        user_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        duration REAL NOT NULL,
+        message_count INTEGER NOT NULL,
+        user_initiated INTEGER NOT NULL,
+        completion_rate REAL NOT NULL,
+        engagement_score REAL NOT NULL,
+        satisfaction_score REAL NOT NULL,
+        technical_metrics TEXT NOT NULL,
+        behavioral_metrics TEXT NOT NULL,
+        validation_metrics TEXT,
+        received_at INTEGER NOT NULL,
+        PRIMARY KEY (user_id, session_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_feedback_interactions_timestamp ON feedback_interactions (timestamp);
+    `);
+
+    this.addValidationColumn();
+  }
+
+  // Snapshots stored before clients reported validation metrics have none
+  private addValidationColumn(): void {
+    const columns = this.db.prepare('PRAGMA table_info(feedback_interactions)').all() as { name: string }[];
+
+    if (!columns.some(column => column.name === 'validation_metrics')) {
+      this.db.prepare('ALTER TABLE feedback_interactions ADD COLUMN validation_metrics TEXT').run();
+    }
+  }
+
+  async recordFeedback(feedback: StoredFeedback): Promise<boolean> {
+    const result = this.db.prepare(`
+      INSERT INTO feedback (${FEEDBACK_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (user_id, id) DO NOTHING
+    `).run(
+      feedback.id,
+      feedback.userId,
+      feedback.sessionId,
+      feedback.type,
+      feedback.rating ?? null,
+      feedback.category,
+      feedback.content,
+      JSON.stringify(feedback.context),
+      JSON.stringify(feedback.metadata),
+      feedback.timestamp,
+      feedback.receivedAt
+    );
+
+    return result.changes > 0;
+  }
+
+  async recordInteraction(interaction: StoredInteraction): Promise<void> {
+    // Snapshots may arrive out of order when a failed batch is resent
+    this.db.prepare(`
+      INSERT INTO feedback_interactions (${INTERACTION_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (user_id, session_id) DO UPDATE SET
+        timestamp = excluded.timestamp,
+        duration = excluded.duration,
+        message_count = excluded.message_count,
+        user_initiated = excluded.user_initiated,
+        completion_rate = excluded.completion_rate,
+        engagement_score = excluded.engagement_score,
+        satisfaction_score = excluded.satisfaction_score,
+        technical_metrics = excluded.technical_metrics,
+        behavioral_metrics = excluded.behavioral_metrics,
+        validation_metrics = excluded.validation_metrics,
+        received_at = excluded.received_at
+      WHERE excluded.timestamp >= feedback_interactions.timestamp
+    `).run(
+      interaction.userId,
+      interaction.sessionId,
+      interaction.timestamp,
+      interaction.duration,
+      interaction.messageCount,
+      interaction.userInitiated ? 1 : 0,
+      interaction.completionRate,
+      interaction.engagementScore,
+      interaction.satisfactionScore,
+      JSON.stringify(interaction.technicalMetrics),
+      JSON.stringify(interaction.behavioralMetrics),
+      interaction.validationMetrics ? JSON.stringify(interaction.validationMetrics) : null,
+      interaction.receivedAt
+    );
+  }
+
+  async listFeedback(filter: FeedbackFilter): Promise<StoredFeedback[]> {
+    const [where, params] = whereClause(filter, true);
+    const rows = this.db.prepare(`
+      SELECT ${FEEDBACK_COLUMNS} FROM feedback ${where}
+      ORDER BY timestamp DESC
+      LIMIT ?
+    `).all(...params, filter.limit ?? -1) as FeedbackRow[];
+
+    return rows.map(toFeedback);
+  }
+
+  async listInteractions(filter: FeedbackFilter): Promise<StoredInteraction[]> {
+    const [where, params] = whereClause(filter, false);
+    const rows = this.db.prepare(`
+      SELECT ${INTERACTION_COLUMNS} FROM feedback_interactions ${where}
+      ORDER BY timestamp DESC
+      LIMIT ?
+    `).all(...params, filter.limit ?? -1) as InteractionRow[];
+
+    return rows.map(toInteraction);
+  }
+
+  async deleteBefore(time: number): Promise<number> {
+    return this.db.transaction(() =>
+      this.db.prepare('DELETE FROM feedback WHERE timestamp < ?').run(time).changes +
+      this.db.prepare('DELETE FROM feedback_interactions WHERE timestamp < ?').run(time).changes
+    )();
+  }
+}
@@ -0,0 +1,46 @@
+import { randomUUID } from 'crypto';
+import { SqliteDatabase } from '../db/database';
+import { Note, NoteRepository } from './noteRepository';
+
+interface NoteRow {
+  id: string;
+  content: string;
+  created_at: number;
+}
+
+/**
+ * SQLite-backed note storage
+ */
+export class SqliteNoteRepository implements NoteRepository {
+  constructor(private readonly db: SqliteDatabase) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notes (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        user_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_notes_user ON notes (user_id, seq);
+    `);
+  }
+
+  async add(ownerId: string, content: string): Promise<Note> {
+    const note: Note = { id: randomUUID(), content, createdAt: Date.now() };
+
+    this.db
+      .prepare('INSERT INTO notes (id, user_id, content, created_at) VALUES (?, ?, ?, ?)')
+      .run(note.id, ownerId, note.content, note.createdAt);
+
+    return note;
+  }
+
+  async list(ownerId: string, limit: number): Promise<Note[]> {
+    const rows = this.db
+      .prepare('SELECT id, content, created_at FROM notes WHERE user_id = ? ORDER BY seq DESC LIMIT ?')
+      .all(ownerId, limit) as NoteRow[];
+
+    return rows.map(row => ({ id: row.id, content: row.content, createdAt: row.created_at }));
+  }
+}
@@ -0,0 +1,181 @@
+import { SqliteDatabase } from '../db/database';
+import {
+  BudgetPeriod,
+  UsageBudget,
+  UsageFilter,
+  UsageRecord,
+  UsageRepository,
+  UsageTotals,
+  UserUsage,
+} from './usageRepository';
+
+interface TotalsRow {
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+interface UserTotalsRow extends TotalsRow {
+  user_id: string;
+}
+
+interface BudgetRow {
+  user_id: string;
+  limit_usd: number;
+  period: BudgetPeriod;
+  updated_at: number;
+}
+
+// SUM() is NULL over no rows
+const TOTALS_COLUMNS = `
+  COUNT(*) AS requests,
+  COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+  COALESCE(SUM(completion_tokens), 0) AS completion_tokens,
+  COALESCE(SUM(total_tokens), 0) AS total_tokens,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd
+`;
+
+const FILTER_COLUMNS: Record<Exclude<keyof UsageFilter, 'since'>, string> = {
+  userId: 'user_id',
+  sessionId: 'session_id',
+  conversationId: 'conversation_id',
+};
+
+const toTotals = (row: TotalsRow): UsageTotals => ({
+  requests: row.requests,
+  promptTokens: row.prompt_tokens,
+  completionTokens: row.completion_tokens,
+  totalTokens: row.total_tokens,
+  costUsd: row.cost_usd,
+});
+
+const toBudget = (row: BudgetRow): UsageBudget => ({
+  userId: row.user_id,
+  limitUsd: row.limit_usd,
+  period: row.period,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * SQLite-backed usage records and budgets
+ */
+export class SqliteUsageRepository implements UsageRepository {
+  constructor(private readonly db: SqliteDatabase) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS usage_records (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        conversation_id TEXT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        total_tokens INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_usage_user ON usage_records (user_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_usage_session ON usage_records (session_id);
+      CREATE INDEX IF NOT EXISTS idx_usage_conversation ON usage_records (conversation_id);
+
+      CREATE TABLE IF NOT EXISTS usage_budgets (
+        user_id TEXT PRIMARY KEY,
+        limit_usd REAL NOT NULL,
+        period TEXT NOT NULL CHECK (period IN ('day', 'month')),
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  async record(record: UsageRecord): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO usage_records (
+        user_id, session_id, conversation_id, provider, model,
+        prompt_tokens, completion_tokens, total_tokens, cost_usd, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.userId,
+      record.sessionId,
+      record.conversationId ?? null,
+      record.provider,
+      record.model,
+      record.promptTokens,
+      record.completionTokens,
+      record.totalTokens,
+      record.costUsd,
+      record.createdAt
+    );
+  }
+
+  async totals(filter: UsageFilter): Promise<UsageTotals> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    for (const [field, column] of Object.entries(FILTER_COLUMNS) as [keyof typeof FILTER_COLUMNS, string][]) {
+      const value = filter[field];
+      if (value !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+    if (filter.since !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(filter.since);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const row = this.db
+      .prepare(`SELECT ${TOTALS_COLUMNS} FROM usage_records ${where}`)
+      .get(...params) as TotalsRow;
+
+    return toTotals(row);
+  }
+
+  async totalsByUser(since = 0): Promise<UserUsage[]> {
+    const rows = this.db.prepare(`
+      SELECT user_id, ${TOTALS_COLUMNS}
+      FROM usage_records
+      WHERE created_at >= ?
+      GROUP BY user_id
+      ORDER BY cost_usd DESC, total_tokens DESC
+    `).all(since) as UserTotalsRow[];
+
+    return rows.map(row => ({ userId: row.user_id, ...toTotals(row) }));
+  }
+
+  async getBudget(userId: string): Promise<UsageBudget | null> {
+    const row = this.db
+      .prepare('SELECT user_id, limit_usd, period, updated_at FROM usage_budgets WHERE user_id = ?')
+      .get(userId) as BudgetRow | undefined;
+
+    return row ? toBudget(row) : null;
+  }
+
+  async listBudgets(): Promise<UsageBudget[]> {
+    const rows = this.db
+      .prepare('SELECT user_id, limit_usd, period, updated_at FROM usage_budgets ORDER BY user_id')
+      .all() as BudgetRow[];
+
+    return rows.map(toBudget);
+  }
+
+  async setBudget(budget: UsageBudget): Promise<UsageBudget> {
+    this.db.prepare(`
+      INSERT INTO usage_budgets (user_id, limit_usd, period, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (user_id) DO UPDATE SET
+        limit_usd = excluded.limit_usd,
+        period = excluded.period,
+        updated_at = excluded.updated_at
+    `).run(budget.userId, budget.limitUsd, budget.period, budget.updatedAt);
+
+    return budget;
+  }
+
+  async deleteBudget(userId: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM usage_budgets WHERE user_id = ?').run(userId).changes > 0;
+  }
+}
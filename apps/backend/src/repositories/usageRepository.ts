@@ -0,0 +1,63 @@
+/**
+ * Usage storage contract: one record per completed chat request, and the
+ * spending budgets admins set
+ */
+
+export type BudgetPeriod = 'day' | 'month';
+
+export interface UsageRecord {
+  userId: string;
+  sessionId: string;
+  conversationId?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Milliseconds since epoch */
+  createdAt: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UserUsage extends UsageTotals {
+  userId: string;
+}
+
+/** Records matching every given field */
+export interface UsageFilter {
+  userId?: string;
+  sessionId?: string;
+  conversationId?: string;
+  /** Milliseconds since epoch, inclusive */
+  since?: number;
+}
+
+export interface UsageBudget {
+  /** The user the budget applies to, or DEFAULT_BUDGET_USER_ID for everyone without one */
+  userId: string;
+  limitUsd: number;
+  period: BudgetPeriod;
+  updatedAt: number;
+}
+
+export const DEFAULT_BUDGET_USER_ID = '*';
+
+export interface UsageRepository {
+  record(record: UsageRecord): Promise<void>;
+  totals(filter: UsageFilter): Promise<UsageTotals>;
+  /** Totals of every user with usage since then, highest cost first */
+  totalsByUser(since?: number): Promise<UserUsage[]>;
+  getBudget(userId: string): Promise<UsageBudget | null>;
+  listBudgets(): Promise<UsageBudget[]>;
+  setBudget(budget: UsageBudget): Promise<UsageBudget>;
+  /** False when there was no budget to delete */
+  deleteBudget(userId: string): Promise<boolean>;
+}
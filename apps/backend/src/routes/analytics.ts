@@ -0,0 +1,34 @@
+import { Router, Request, Response } from 'express';
+import { ChatActivityQuerySchema } from '../contracts';
+import { ChatActivityTracker } from '../analytics';
+import { parseRequest } from '../utils/validation';
+import { logger } from '../observability';
+
+export interface AnalyticsRouterDependencies {
+  tracker: ChatActivityTracker;
+}
+
+/**
+ * Analytics routes
+ *
+ * GET /admin/analytics/chat?since&until   chat volume, errors, latency, topics and emotions by day
+ *
+ * The /admin routes are only guarded when the app mounts requireAdmin on them.
+ */
+export function createAnalyticsRouter({ tracker }: AnalyticsRouterDependencies): Router {
+  const router = Router();
+
+  router.get('/admin/analytics/chat', async (req: Request, res: Response): Promise<void> => {
+    const query = parseRequest(res, ChatActivityQuerySchema, req.query, 'Invalid analytics request');
+    if (!query) return;
+
+    try {
+      res.json(await tracker.report(query));
+    } catch (error) {
+      logger.error('Chat analytics error', { error });
+      res.status(500).json({ error: 'Failed to compute chat analytics' });
+    }
+  });
+
+  return router;
+}
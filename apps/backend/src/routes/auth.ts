@@ -0,0 +1,63 @@
+import { randomUUID, createHash, timingSafeEqual } from 'crypto';
+import { Router, Request, Response } from 'express';
+import { AuthConfig } from '../config/auth';
+import { createAuthMiddleware, issueToken } from '../auth';
+import { LoginRequestSchema } from '../contracts';
+import { parseRequest } from '../utils/validation';
+
+// Hash both sides so the comparison takes the same time whatever the lengths
+const passwordsMatch = (given: string, expected: string) =>
+  timingSafeEqual(
+    createHash('sha256').update(given).digest(),
+    createHash('sha256').update(expected).digest()
+  );
+
+/**
+ * Authentication routes
+ *
+ * POST /auth/login  exchange credentials for a session token. Without AUTH_USERS
+ *                   configured, anyone can log in and gets a fresh guest account.
+ * GET  /auth/me     the identity of the caller
+ */
+export function createAuthRouter(config: AuthConfig): Router {
+  const router = Router();
+  const hasUsers = Object.keys(config.users).length > 0;
+
+  router.post('/auth/login', (req: Request, res: Response): void => {
+    const credentials = parseRequest(res, LoginRequestSchema, req.body ?? {}, 'Invalid login request');
+    if (!credentials) return;
+    const { username, password } = credentials;
+
+    let userId: string;
+    let name: string;
+    const guest = !hasUsers;
+
+    if (hasUsers) {
+      const expected = username !== undefined && Object.prototype.hasOwnProperty.call(config.users, username)
+        ? config.users[username]
+        : undefined;
+
+      if (!expected || username === undefined || password === undefined || !passwordsMatch(password, expected)) {
+        res.status(401).json({ error: 'Invalid username or password' });
+        return;
+      }
+
+      userId = username;
+      name = username;
+    } else {
+      userId = `guest-${randomUUID()}`;
+      name = username?.trim() || 'Guest';
+    }
+
+    const sessionId = randomUUID();
+    const { token, expiresAt } = issueToken({ userId, sessionId, name }, config);
+
+    res.json({ token, expiresAt, sessionId, user: { id: userId, name, guest } });
+  });
+
+  router.get('/auth/me', createAuthMiddleware(config), (req: Request, res: Response): void => {
+    res.json(req.auth);
+  });
+
+  return router;
+}
@@ -0,0 +1,566 @@
+import { Router, Request, Response } from 'express';
+import { openEventStream, sendEvent } from '../utils/sse';
+import { parseRequest } from '../utils/validation';
+import { ChatRequestSchema } from '../contracts';
+import { LLMProvider, ChatCompletionMessage, ChatCompletionRequest, TokenUsage, ToolCall } from '../providers';
+import { ConversationRepository } from '../repositories/conversationRepository';
+import { getUserId } from '../auth';
+import { InputVerdict, ModerationContext, ModerationPipeline } from '../moderation';
+import { AvatarEventHub, AvatarResponsePublisher } from '../avatarEvents';
+import { composeSystemPrompt, resolvePersonality } from '../personality';
+import { ClientAction, ToolContext, ToolRegistry } from '../tools';
+import {
+  ChatHistoryTurn,
+  createTokenCounter,
+  fitToContextWindow,
+  validateChatContext,
+} from '../context';
+import { logger } from '../observability';
+import { IDEMPOTENCY_KEY_HEADER } from '../idempotency';
+
+export interface ChatRouterDependencies {
+  provider: LLMProvider;
+  conversations: ConversationRepository;
+  /** Context window of the provider's model, in tokens */
+  contextWindow: number;
+  /** Called with the tokens each completed request used, and the conversation it was in */
+  onUsage?: (req: Request, usage: TokenUsage, conversationId?: string) => void;
+  /** Called when a request fails, including streams that fail after their first token */
+  onError?: (req: Request, error: unknown) => void;
+  /** Called when a request is cancelled; whatever response it ended with is incomplete */
+  onCancel?: (req: Request) => void;
+  /** Screens messages and responses; no moderation when omitted */
+  moderation?: ModerationPipeline;
+  /** Receives the avatar events of each response; none are published when omitted */
+  avatarEvents?: AvatarEventHub;
+  /** Tools offered to the model; plain completions when omitted */
+  tools?: ToolRegistry;
+  /** Rounds of tool calls per response before the model has to answer in text */
+  maxToolRounds?: number;
+}
+
+interface PreparedChat {
+  messages: ChatCompletionMessage[];
+  promptTokens: number;
+  moderationContext: ModerationContext;
+  /** Reply sent instead of asking the model, when moderation refused the message */
+  refusal?: string;
+}
+
+/**
+ * A response in the making: the messages of the next model round, grown by
+ * each round of tool calls, and what those calls produced
+ */
+interface ResponseRounds {
+  messages: ChatCompletionMessage[];
+  /** Prompt tokens of all rounds so far */
+  promptTokens: number;
+  /** Usage the provider reported for each round finished */
+  usages: (TokenUsage | undefined)[];
+  actions: ClientAction[];
+  toolContext: ToolContext;
+  /** Aborted when the response is cancelled before it is complete */
+  signal: AbortSignal;
+}
+
+const ChatRequestFieldsSchema = ChatRequestSchema.omit({ history: true, context: true });
+
+const FALLBACK_RESPONSE = 'Sorry, I could not generate a response.';
+
+const COMPLETION_SETTINGS = {
+  maxTokens: 150,
+  temperature: 0.7,
+} as const;
+
+const DEFAULT_MAX_TOOL_ROUNDS = 3;
+
+const CANCELLED_ERROR = 'Chat request cancelled';
+
+// Without an Idempotency-Key nobody can come back for the answer, so the model call stops with the client
+const abortOnDisconnect = (res: Response): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+};
+
+// Undefined unless the provider counted at least one round and every round there was
+const sumUsage = (usages: (TokenUsage | undefined)[]): TokenUsage | undefined =>
+  usages.length === 0 ? undefined : usages.reduce<TokenUsage | undefined>((total, usage) => total && usage && {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  }, { promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+
+// What the model wrote in the tool call rounds finished so far
+const toolRoundContent = (rounds: ResponseRounds): string =>
+  rounds.messages
+    .filter(message => message.role === 'assistant' && message.toolCalls)
+    .map(message => message.content)
+    .join('');
+
+/**
+ * Chat routes
+ *
+ * POST /chat         complete response as JSON
+ * POST /chat/stream  response tokens as Server-Sent Events
+ *
+ * Both accept an optional conversationId of one of the caller's conversations;
+ * the exchange is then stored in it once the response is complete. The system prompt
+ * is composed from the personality preset named by personalityId, with an
+ * optional inline personality / guidelines merged over it.
+ *
+ * Earlier turns come from the request's history, or from the stored
+ * conversation when history is omitted. They are fitted into the model's
+ * context window together with the optional context payload.
+ *
+ * With moderation, messages on the personality's prohibited topics are
+ * redirected or answered with a refusal, and responses are screened before
+ * they are sent (streamed responses a sentence at a time).
+ *
+ * Requests naming an avatar channel (X-Avatar-Channel) have the response
+ * published to it as avatar events as well: started, tokens, emotion and
+ * gesture cues, finished.
+ *
+ * With tools, the model may call them before answering: server tools run
+ * here and their results go back to the model; client tools become actions
+ * returned with the response (actions, omitted when there are none) for the
+ * frontend to apply.
+ *
+ * DELETE /chat/requests/:idempotencyKey  cancel the caller's request sent with that key
+ *
+ * A request sent with an Idempotency-Key keeps running when its client
+ * disconnects, so a retry with the key gets its response; only the cancel
+ * route stops it. A request without one is cancelled when its client
+ * disconnects. Nothing of a cancelled request is stored, streams are charged
+ * for the tokens generated until then and completions for the rounds they
+ * finished.
+ */
+export function createChatRouter({
+  provider,
+  conversations,
+  contextWindow,
+  onUsage,
+  onError,
+  onCancel,
+  moderation,
+  avatarEvents,
+  tools,
+  maxToolRounds = DEFAULT_MAX_TOOL_ROUNDS,
+}: ChatRouterDependencies): Router {
+  const router = Router();
+  const toolDefinitions = tools?.size ? tools.definitions() : [];
+  const tokenCounter = createTokenCounter(provider.model);
+  // Leave room in the context window for the reply
+  const promptBudget = contextWindow - COMPLETION_SETTINGS.maxTokens;
+  // Requests sent with an Idempotency-Key, by caller and key, until they end
+  const keyedRequests = new Map<string, AbortController>();
+
+  /**
+   * Validate the request and build the prompt messages, answering with
+   * an error if invalid. Returns null when a response has already been sent.
+   */
+  const prepareChatRequest = async (req: Request, res: Response): Promise<PreparedChat | null> => {
+    if (!req.body.message) {
+      res.status(400).json({ error: 'Message is required' });
+      return null;
+    }
+
+    // History and context are checked with their own, older messages below
+    const body = parseRequest(res, ChatRequestFieldsSchema, req.body, 'Invalid chat request');
+    if (!body) return null;
+
+    const { message, conversationId, personalityId, personality, guidelines } = body;
+    const { history, context } = req.body;
+
+    const resolved = resolvePersonality({ personalityId, personality, guidelines });
+    if (!resolved.ok) {
+      res.status(400).json({
+        error: resolved.error,
+        ...(resolved.details ? { details: resolved.details } : {})
+      });
+      return null;
+    }
+
+    const chatContext = validateChatContext(history, context);
+    if (!chatContext.ok) {
+      res.status(400).json({ error: chatContext.error, details: chatContext.details });
+      return null;
+    }
+
+    let storedHistory: ChatHistoryTurn[] | undefined;
+    if (conversationId !== undefined) {
+      const conversation = await conversations.get(getUserId(req), conversationId);
+      if (!conversation) {
+        res.status(404).json({ error: 'Conversation not found' });
+        return null;
+      }
+      storedHistory = conversation.messages.map(stored => ({ role: stored.sender, content: stored.content }));
+    }
+
+    const configurationError = provider.getConfigurationError();
+    if (configurationError) {
+      res.status(500).json({ error: configurationError });
+      return null;
+    }
+
+    const moderationContext: ModerationContext = {
+      boundaries: resolved.personality.boundaries,
+      guidelines: resolved.guidelines,
+      userId: getUserId(req),
+      conversationId,
+    };
+
+    let systemPrompt = composeSystemPrompt(resolved.personality, resolved.guidelines);
+    const verdict: InputVerdict = moderation
+      ? await moderation.screenInput(message, moderationContext)
+      : { action: 'allow' };
+    switch (verdict.action) {
+      case 'reject':
+        res.status(400).json({ error: verdict.error, details: verdict.details });
+        return null;
+      case 'refuse':
+        return { messages: [], promptTokens: 0, moderationContext, refusal: verdict.response };
+      case 'redirect':
+        systemPrompt = `${systemPrompt}\n\n${verdict.instruction}`;
+        break;
+    }
+
+    const prompt = fitToContextWindow({
+      systemPrompt,
+      message,
+      history: chatContext.history ?? storedHistory,
+      context: chatContext.context,
+      counter: tokenCounter,
+      budget: promptBudget,
+    });
+    if (!prompt.ok) {
+      res.status(400).json({ error: prompt.error });
+      return null;
+    }
+
+    return { messages: prompt.messages, promptTokens: prompt.promptTokens, moderationContext };
+  };
+
+  // Prefer the provider's count; counted locally when it gave none, e.g. for a cancelled stream
+  const reportUsage = (req: Request, promptTokens: number, response: string, usage?: TokenUsage) => {
+    if (!onUsage) return;
+
+    const completionTokens = tokenCounter.countText(response);
+    onUsage(req, usage ?? {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    }, req.body.conversationId);
+  };
+
+  const keyedRequestId = (req: Request, idempotencyKey: string) => `${getUserId(req)}\n${idempotencyKey}`;
+
+  const cancellationSignal = (req: Request, res: Response): AbortSignal => {
+    const idempotencyKey = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (idempotencyKey === undefined) {
+      return abortOnDisconnect(res);
+    }
+
+    const controller = new AbortController();
+    keyedRequests.set(keyedRequestId(req, idempotencyKey), controller);
+    return controller.signal;
+  };
+
+  const startRounds = (req: Request, res: Response, prepared: PreparedChat): ResponseRounds => ({
+    messages: [...prepared.messages],
+    promptTokens: prepared.promptTokens,
+    usages: [],
+    actions: [],
+    toolContext: { userId: getUserId(req), conversationId: req.body.conversationId },
+    signal: cancellationSignal(req, res),
+  });
+
+  // The request can no longer be cancelled once it has ended
+  const endRounds = (req: Request, rounds: ResponseRounds | undefined) => {
+    const idempotencyKey = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (!rounds || idempotencyKey === undefined) return;
+
+    const id = keyedRequestId(req, idempotencyKey);
+    if (keyedRequests.get(id)?.signal === rounds.signal) {
+      keyedRequests.delete(id);
+    }
+  };
+
+  // End a cancelled response for anyone still reading it; it is never replayed
+  const endCancelled = (req: Request, res: Response) => {
+    onCancel?.(req);
+    if (res.writableEnded) return;
+
+    if (!res.headersSent) {
+      res.status(409).json({ error: CANCELLED_ERROR });
+      return;
+    }
+    sendEvent(res, 'error', { error: CANCELLED_ERROR });
+    res.end();
+  };
+
+  // Tools are offered until the last round, which has to be answered in text
+  const roundRequest = (rounds: ResponseRounds, round: number): ChatCompletionRequest => ({
+    messages: rounds.messages,
+    ...COMPLETION_SETTINGS,
+    ...(toolDefinitions.length && round < maxToolRounds ? { tools: toolDefinitions } : {}),
+    signal: rounds.signal,
+  });
+
+  // Run the calls of one round and add them and their results for the next
+  const runToolCalls = async (rounds: ResponseRounds, content: string, toolCalls: ToolCall[]) => {
+    rounds.messages.push({ role: 'assistant', content, toolCalls });
+
+    for (const call of toolCalls) {
+      const result = await tools!.call(call, rounds.toolContext);
+      if (result.action) rounds.actions.push(result.action);
+      rounds.messages.push({ role: 'tool', content: result.content, toolCallId: call.id });
+    }
+
+    rounds.promptTokens += tokenCounter.countMessages(rounds.messages);
+  };
+
+  // Usage is the provider's only when it counted every round
+  const completeRounds = async (rounds: ResponseRounds): Promise<{ content: string | null; usage?: TokenUsage }> => {
+    for (let round = 0; ; round++) {
+      const request = roundRequest(rounds, round);
+      const completion = await provider.complete(request);
+      rounds.usages.push(completion.usage);
+
+      if (!request.tools || !completion.toolCalls?.length) {
+        return { content: completion.content, usage: sumUsage(rounds.usages) };
+      }
+      await runToolCalls(rounds, completion.content ?? '', completion.toolCalls);
+    }
+  };
+
+  // Tokens of every round; tool call rounds rarely have any
+  async function* streamRounds(rounds: ResponseRounds): AsyncGenerator<string> {
+    for (let round = 0; ; round++) {
+      const request = roundRequest(rounds, round);
+      const stream = provider.stream(request);
+
+      let content = '';
+      for await (const token of stream) {
+        content += token;
+        yield token;
+      }
+      rounds.usages.push(stream.usage);
+
+      if (!request.tools || stream.toolCalls.length === 0) {
+        return;
+      }
+      await runToolCalls(rounds, content, stream.toolCalls);
+    }
+  }
+
+  const withActions = (actions: ClientAction[]) => (actions.length ? { actions } : {});
+
+  const createAvatarPublisher = (req: Request): AvatarResponsePublisher | null => {
+    const channel = avatarEvents?.channelFor(req);
+    return channel ? new AvatarResponsePublisher(channel) : null;
+  };
+
+  // Storage failures are logged but never fail a response the user already has
+  const saveExchange = async (
+    ownerId: string,
+    conversationId: string | undefined,
+    message: string,
+    response: string
+  ) => {
+    if (!conversationId) return;
+
+    try {
+      await conversations.appendMessages(ownerId, conversationId, [
+        { sender: 'user', content: message },
+        { sender: 'assistant', content: response },
+      ]);
+    } catch (error) {
+      logger.error('Failed to save chat exchange', { error });
+    }
+  };
+
+  // Chat endpoint
+  router.post('/chat', async (req: Request, res: Response): Promise<void> => {
+    let avatar: AvatarResponsePublisher | null = null;
+    let rounds: ResponseRounds | undefined;
+    let charged = false;
+    try {
+      const prepared = await prepareChatRequest(req, res);
+      if (!prepared) {
+        return;
+      }
+
+      const { message, conversationId } = req.body;
+      avatar = createAvatarPublisher(req);
+      avatar?.started(conversationId);
+
+      let response: string;
+      let actions: ClientAction[] = [];
+      if (prepared.refusal) {
+        response = prepared.refusal;
+      } else {
+        rounds = startRounds(req, res, prepared);
+        const completion = await completeRounds(rounds);
+        actions = rounds.actions;
+
+        response = completion.content || FALLBACK_RESPONSE;
+        reportUsage(req, rounds.promptTokens, response, completion.usage);
+        charged = true;
+
+        if (moderation) {
+          response = (await moderation.screenOutput(response, prepared.moderationContext)).response;
+        }
+        rounds.signal.throwIfAborted();
+      }
+
+      await saveExchange(getUserId(req), conversationId, message, response);
+
+      avatar?.token(response);
+      avatar?.finished(response, conversationId);
+
+      res.json({
+        response: response,
+        timestamp: new Date().toISOString(),
+        ...(conversationId ? { conversationId } : {}),
+        ...withActions(actions)
+      });
+
+    } catch (error) {
+      avatar?.failed();
+      if (rounds?.signal.aborted) {
+        // The rounds finished before the cancel were still used
+        if (!charged && rounds.usages.length > 0) {
+          reportUsage(req, rounds.promptTokens, toolRoundContent(rounds), sumUsage(rounds.usages));
+        }
+        logger.info('Chat request cancelled');
+        endCancelled(req, res);
+        return;
+      }
+
+      logger.error('Chat API error', { error });
+      onError?.(req, error);
+      res.status(500).json({
+        error: 'Failed to process chat request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      endRounds(req, rounds);
+    }
+  });
+
+  // Streaming chat endpoint (Server-Sent Events)
+  router.post('/chat/stream', async (req: Request, res: Response): Promise<void> => {
+    let avatar: AvatarResponsePublisher | null = null;
+    let rounds: ResponseRounds | undefined;
+    let fullResponse = '';
+    try {
+      const prepared = await prepareChatRequest(req, res);
+      if (!prepared) {
+        return;
+      }
+
+      const { message, conversationId } = req.body;
+      avatar = createAvatarPublisher(req);
+      avatar?.started(conversationId);
+
+      if (prepared.refusal) {
+        openEventStream(res);
+        await saveExchange(getUserId(req), conversationId, message, prepared.refusal);
+        avatar?.token(prepared.refusal);
+        avatar?.finished(prepared.refusal, conversationId);
+        sendEvent(res, 'done', {
+          response: prepared.refusal,
+          timestamp: new Date().toISOString(),
+          ...(conversationId ? { conversationId } : {})
+        });
+        res.end();
+        return;
+      }
+
+      rounds = startRounds(req, res, prepared);
+      const stream = streamRounds(rounds);
+      // Moderated streams end early with the response to send instead
+      const tokens: AsyncIterator<string, string | undefined> = (
+        moderation ? moderation.screenStream(stream, prepared.moderationContext) : stream
+      )[Symbol.asyncIterator]();
+
+      // Wait for the first token so upstream failures still get a JSON error
+      let next = await tokens.next();
+
+      openEventStream(res);
+
+      while (!next.done) {
+        fullResponse += next.value;
+        sendEvent(res, 'token', { content: next.value });
+        avatar?.token(next.value);
+        next = await tokens.next();
+      }
+      rounds.signal.throwIfAborted();
+
+      const response = next.value ?? (fullResponse || FALLBACK_RESPONSE);
+      reportUsage(req, rounds.promptTokens, fullResponse, sumUsage(rounds.usages));
+      await saveExchange(getUserId(req), conversationId, message, response);
+      avatar?.finished(response, conversationId);
+
+      sendEvent(res, 'done', {
+        response,
+        timestamp: new Date().toISOString(),
+        ...(conversationId ? { conversationId } : {}),
+        ...withActions(rounds.actions)
+      });
+      res.end();
+
+    } catch (error) {
+      avatar?.failed();
+      // Cancelled; the tokens generated so far were still used
+      if (rounds?.signal.aborted) {
+        reportUsage(req, rounds.promptTokens, fullResponse);
+        logger.info('Chat stream cancelled');
+        endCancelled(req, res);
+        return;
+      }
+
+      logger.error('Chat stream error', { error });
+      onError?.(req, error);
+      const details = error instanceof Error ? error.message : 'Unknown error';
+
+      // Before the stream opens we can still answer with a regular JSON error
+      if (!res.headersSent) {
+        res.status(500).json({
+          error: 'Failed to process chat request',
+          details
+        });
+        return;
+      }
+
+      sendEvent(res, 'error', {
+        error: 'Failed to process chat request',
+        details
+      });
+      res.end();
+    } finally {
+      endRounds(req, rounds);
+    }
+  });
+
+  // Cancel a request sent with an Idempotency-Key; its client may long have disconnected
+  router.delete('/chat/requests/:idempotencyKey', (req: Request, res: Response): void => {
+    const id = keyedRequestId(req, String(req.params.idempotencyKey));
+    const controller = keyedRequests.get(id);
+    if (!controller) {
+      res.status(404).json({ error: 'No running chat request with this key' });
+      return;
+    }
+
+    keyedRequests.delete(id);
+    controller.abort();
+    res.status(204).end();
+  });
+
+  return router;
+}
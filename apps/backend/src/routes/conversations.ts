@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { ConversationRepository } from '../repositories/conversationRepository';
+import { getUserId } from '../auth';
+import {
+  AppendMessagesRequestSchema,
+  ChatHistoryQuerySchema,
+  CreateConversationRequestSchema,
+} from '../contracts';
+import { parseRequest } from '../utils/validation';
+import { logger } from '../observability';
+
+/**
+ * Conversation history routes
+ *
+ * GET    /conversations               list conversation summaries
+ * POST   /conversations               create a conversation (optionally with messages)
+ * GET    /conversations/:id           get a conversation with its messages
+ * DELETE /conversations/:id           delete a conversation
+ * POST   /conversations/:id/messages  append messages
+ * GET    /chat/history?conversationId get the messages of a conversation
+ *
+ * Only the caller's own conversations are visible.
+ */
+export function createConversationRouter(repository: ConversationRepository): Router {
+  const router = Router();
+
+  router.get('/conversations', async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json(await repository.list(getUserId(req)));
+    } catch (error) {
+      logger.error('List conversations error', { error });
+      res.status(500).json({ error: 'Failed to list conversations' });
+    }
+  });
+
+  router.post('/conversations', async (req: Request, res: Response): Promise<void> => {
+    const body = parseRequest(res, CreateConversationRequestSchema, req.body ?? {}, 'Invalid conversation');
+    if (!body) return;
+
+    try {
+      const conversation = await repository.create(getUserId(req), { title: body.title, messages: body.messages ?? [] });
+      res.status(201).json(conversation);
+    } catch (error) {
+      logger.error('Create conversation error', { error });
+      res.status(500).json({ error: 'Failed to create conversation' });
+    }
+  });
+
+  router.get('/conversations/:id', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const conversation = await repository.get(getUserId(req), req.params.id);
+
+      if (!conversation) {
+        res.status(404).json({ error: 'Conversation not found' });
+        return;
+      }
+
+      res.json(conversation);
+    } catch (error) {
+      logger.error('Get conversation error', { error });
+      res.status(500).json({ error: 'Failed to load conversation' });
+    }
+  });
+
+  router.delete('/conversations/:id', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await repository.delete(getUserId(req), req.params.id);
+
+      if (!deleted) {
+        res.status(404).json({ error: 'Conversation not found' });
+        return;
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      logger.error('Delete conversation error', { error });
+      res.status(500).json({ error: 'Failed to delete conversation' });
+    }
+  });
+
+  router.post('/conversations/:id/messages', async (req: Request, res: Response): Promise<void> => {
+    const body = parseRequest(res, AppendMessagesRequestSchema, req.body ?? {}, 'Invalid messages');
+    if (!body) return;
+
+    try {
+      const stored = await repository.appendMessages(getUserId(req), req.params.id, body.messages);
+
+      if (!stored) {
+        res.status(404).json({ error: 'Conversation not found' });
+        return;
+      }
+
+      res.status(201).json(stored);
+    } catch (error) {
+      logger.error('Append messages error', { error });
+      res.status(500).json({ error: 'Failed to save messages' });
+    }
+  });
+
+  router.get('/chat/history', async (req: Request, res: Response): Promise<void> => {
+    const query = parseRequest(res, ChatHistoryQuerySchema, req.query, 'Invalid chat history request');
+    if (!query) return;
+    const { conversationId } = query;
+
+    try {
+      const conversation = await repository.get(getUserId(req), conversationId);
+
+      if (!conversation) {
+        res.status(404).json({ error: 'Conversation not found' });
+        return;
+      }
+
+      res.json(conversation.messages);
+    } catch (error) {
+      logger.error('Chat history error', { error });
+      res.status(500).json({ error: 'Failed to load chat history' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,81 @@
+import { Router, Request, Response } from 'express';
+import { ANONYMOUS_IDENTITY } from '../auth';
+import { ErrorGroupQuerySchema, ErrorReportBatchSchema } from '../contracts';
+import { ErrorReportRepository } from '../repositories/errorReportRepository';
+import { ErrorReportCollector } from '../errorReports';
+import { parseRequest } from '../utils/validation';
+import { logger } from '../observability';
+
+export interface ErrorReportRouterDependencies {
+  collector: ErrorReportCollector;
+  repository: ErrorReportRepository;
+}
+
+/**
+ * Error report routes
+ *
+ * POST   /errors                      store a batch of client error reports
+ * GET    /admin/errors?since&limit    distinct errors, most recently seen first
+ * GET    /admin/errors/:fingerprint   one error with its latest reports
+ * DELETE /admin/errors/:fingerprint   forget an error, e.g. once it is fixed
+ *
+ * The /admin routes are only guarded when the app mounts requireAdmin on them.
+ */
+export function createErrorReportRouter({ collector, repository }: ErrorReportRouterDependencies): Router {
+  const router = Router();
+
+  router.post('/errors', async (req: Request, res: Response): Promise<void> => {
+    const body = parseRequest(res, ErrorReportBatchSchema, req.body ?? {}, 'Invalid error reports');
+    if (!body) return;
+
+    try {
+      res.json(await collector.collect(req.auth ?? ANONYMOUS_IDENTITY, body.reports));
+    } catch (error) {
+      logger.error('Error report ingestion error', { error });
+      res.status(500).json({ error: 'Failed to store error reports' });
+    }
+  });
+
+  router.get('/admin/errors', async (req: Request, res: Response): Promise<void> => {
+    const query = parseRequest(res, ErrorGroupQuerySchema, req.query, 'Invalid error request');
+    if (!query) return;
+
+    try {
+      res.json(await repository.listGroups(query));
+    } catch (error) {
+      logger.error('List error groups error', { error });
+      res.status(500).json({ error: 'Failed to list errors' });
+    }
+  });
+
+  router.get('/admin/errors/:fingerprint', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const group = await repository.getGroup(req.params.fingerprint);
+      if (!group) {
+        res.status(404).json({ error: 'Error not found' });
+        return;
+      }
+
+      res.json(group);
+    } catch (error) {
+      logger.error('Get error group error', { error });
+      res.status(500).json({ error: 'Failed to get error' });
+    }
+  });
+
+  router.delete('/admin/errors/:fingerprint', async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!(await repository.deleteGroup(req.params.fingerprint))) {
+        res.status(404).json({ error: 'Error not found' });
+        return;
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      logger.error('Delete error group error', { error });
+      res.status(500).json({ error: 'Failed to delete error' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,103 @@
+import { Router, Request, Response } from 'express';
+import { ANONYMOUS_IDENTITY } from '../auth';
+import { FeedbackAnalyticsQuerySchema, FeedbackBatchSchema, FeedbackQuerySchema } from '../contracts';
+import { FeedbackRepository } from '../repositories/feedbackRepository';
+import { FeedbackAggregator, FeedbackIngestor } from '../feedback';
+import { parseRequest } from '../utils/validation';
+import { logger } from '../observability';
+
+export interface FeedbackRouterDependencies {
+  ingestor: FeedbackIngestor;
+  aggregator: FeedbackAggregator;
+  repository: FeedbackRepository;
+}
+
+/**
+ * Feedback routes
+ *
+ * POST /feedback                                     store a batch of feedback and interaction metrics
+ * GET  /admin/feedback?category&since&limit          feedback from every user, newest first
+ * GET  /admin/feedback/analytics?since&until         summary, trends and critical issues across users
+ * GET  /admin/feedback/recommendations?since&until   improvements the analytics call for, most urgent first
+ * GET  /admin/feedback/benchmarks?since&until        the overall score against its benchmarks
+ * GET  /admin/feedback/validation?since&until        what clients' context validation found
+ *
+ * The /admin routes are only guarded when the app mounts requireAdmin on them.
+ */
+export function createFeedbackRouter({ ingestor, aggregator, repository }: FeedbackRouterDependencies): Router {
+  const router = Router();
+
+  router.post('/feedback', async (req: Request, res: Response): Promise<void> => {
+    const body = parseRequest(res, FeedbackBatchSchema, req.body ?? {}, 'Invalid feedback');
+    if (!body) return;
+
+    try {
+      res.json(await ingestor.ingest(req.auth ?? ANONYMOUS_IDENTITY, body));
+    } catch (error) {
+      logger.error('Feedback ingestion error', { error });
+      res.status(500).json({ error: 'Failed to store feedback' });
+    }
+  });
+
+  router.get('/admin/feedback', async (req: Request, res: Response): Promise<void> => {
+    const query = parseRequest(res, FeedbackQuerySchema, req.query, 'Invalid feedback request');
+    if (!query) return;
+
+    try {
+      res.json(await repository.listFeedback(query));
+    } catch (error) {
+      logger.error('List feedback error', { error });
+      res.status(500).json({ error: 'Failed to list feedback' });
+    }
+  });
+
+  router.get('/admin/feedback/analytics', async (req: Request, res: Response): Promise<void> => {
+    const query = parseRequest(res, FeedbackAnalyticsQuerySchema, req.query, 'Invalid analytics request');
+    if (!query) return;
+
+    try {
+      res.json(await aggregator.analytics(query));
+    } catch (error) {
+      logger.error('Feedback analytics error', { error });
+      res.status(500).json({ error: 'Failed to compute feedback analytics' });
+    }
+  });
+
+  router.get('/admin/feedback/recommendations', async (req: Request, res: Response): Promise<void> => {
+    const query = parseRequest(res, FeedbackAnalyticsQuerySchema, req.query, 'Invalid recommendations request');
+    if (!query) return;
+
+    try {
+      res.json(await aggregator.recommendations(query));
+    } catch (error) {
+      logger.error('Feedback recommendations error', { error });
+      res.status(500).json({ error: 'Failed to compute recommendations' });
+    }
+  });
+
+  router.get('/admin/feedback/benchmarks', async (req: Request, res: Response): Promise<void> => {
+    const query = parseRequest(res, FeedbackAnalyticsQuerySchema, req.query, 'Invalid benchmarks request');
+    if (!query) return;
+
+    try {
+      res.json(await aggregator.benchmarks(query));
+    } catch (error) {
+      logger.error('Feedback benchmarks error', { error });
+      res.status(500).json({ error: 'Failed to compare with benchmarks' });
+    }
+  });
+
+  router.get('/admin/feedback/validation', async (req: Request, res: Response): Promise<void> => {
+    const query = parseRequest(res, FeedbackAnalyticsQuerySchema, req.query, 'Invalid validation request');
+    if (!query) return;
+
+    try {
+      res.json(await aggregator.validation(query));
+    } catch (error) {
+      logger.error('Validation stats error', { error });
+      res.status(500).json({ error: 'Failed to compute validation stats' });
+    }
+  });
+
+  return router;
+}
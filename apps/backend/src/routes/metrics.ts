@@ -0,0 +1,20 @@
+import { Router, Request, Response } from 'express';
+import { PROMETHEUS_CONTENT_TYPE, ServerMetrics } from '../observability';
+
+/**
+ * Metrics route
+ *
+ * GET /metrics  the server's metrics in the Prometheus text format: request
+ *               latency and errors per route, provider latency, token usage
+ *               and moderation events (see ServerMetrics). Public, like
+ *               /health; restrict it at the proxy.
+ */
+export function createMetricsRouter(metrics: ServerMetrics): Router {
+  const router = Router();
+
+  router.get('/metrics', (req: Request, res: Response): void => {
+    res.set('Content-Type', PROMETHEUS_CONTENT_TYPE).send(metrics.render());
+  });
+
+  return router;
+}
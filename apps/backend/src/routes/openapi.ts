@@ -0,0 +1,19 @@
+import { Router, Request, Response } from 'express';
+import { createOpenAPIDocument } from '../contracts/openapi';
+
+/**
+ * API description route
+ *
+ * GET /openapi.json  OpenAPI 3.1 document of every route, generated from the
+ *                    contract schemas the routes validate with. Public.
+ */
+export function createOpenAPIRouter(): Router {
+  const router = Router();
+  const document = createOpenAPIDocument();
+
+  router.get('/openapi.json', (req: Request, res: Response): void => {
+    res.json(document);
+  });
+
+  return router;
+}
@@ -0,0 +1,78 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { STTEngine } from '../stt';
+import { TranscriptionQuerySchema } from '../contracts';
+import { parseRequest } from '../utils/validation';
+import { logger } from '../observability';
+
+export interface STTRouterDependencies {
+  /** Null when STT is not configured */
+  engine: STTEngine | null;
+  maxAudioBytes: number;
+}
+
+const AUDIO_TYPES = ['audio/*', 'video/webm', 'application/octet-stream'];
+
+/**
+ * Speech-to-text routes
+ *
+ * POST /stt?lang=en-US  transcribe the recording in the body (audio/webm,
+ *                       audio/ogg, audio/wav, ...; as MediaRecorder produces it)
+ *                       with the local engine. Answers with { text, language, engine };
+ *                       text is empty when nothing was said. 503 when no engine is
+ *                       configured.
+ */
+export function createSTTRouter({ engine, maxAudioBytes }: STTRouterDependencies): Router {
+  const router = Router();
+
+  router.post(
+    '/stt',
+    (req: Request, res: Response, next: NextFunction): void => {
+      if (!engine) {
+        res.status(503).json({ error: 'Speech recognition is not configured' });
+        return;
+      }
+      next();
+    },
+    express.raw({ type: AUDIO_TYPES, limit: maxAudioBytes }),
+    async (req: Request, res: Response): Promise<void> => {
+      const audio = req.body;
+      if (!Buffer.isBuffer(audio) || audio.length === 0) {
+        res.status(400).json({ error: 'Audio is required' });
+        return;
+      }
+
+      const query = parseRequest(res, TranscriptionQuerySchema, req.query, 'Invalid transcription request');
+      if (!query) return;
+
+      try {
+        const result = await engine!.transcribe({
+          audio,
+          mimeType: req.get('Content-Type') ?? 'application/octet-stream',
+          lang: query.lang,
+        });
+
+        res.json({ text: result.text, language: result.language, engine: engine!.name });
+      } catch (error) {
+        logger.error('STT error', { error });
+        res.status(500).json({
+          error: 'Failed to transcribe speech',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  // Uploads over the size limit
+  router.use('/stt', (error: Error & { type?: string }, req: Request, res: Response, next: NextFunction): void => {
+    if (error.type !== 'entity.too.large') {
+      next(error);
+      return;
+    }
+    res.status(413).json({
+      error: 'Audio is too large',
+      details: `Recordings are limited to ${maxAudioBytes} bytes`
+    });
+  });
+
+  return router;
+}
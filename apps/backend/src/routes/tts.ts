@@ -0,0 +1,67 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod/v4';
+import { TTSEngine, toVisemeCues } from '../tts';
+import { SpeechRequestSchema } from '../contracts';
+import { parseRequest } from '../utils/validation';
+import { logger } from '../observability';
+
+export interface TTSRouterDependencies {
+  /** Null when TTS is not configured */
+  engine: TTSEngine | null;
+  maxTextLength: number;
+}
+
+// The contract's request with this server's text limit
+const createRequestSchema = (maxTextLength: number) => SpeechRequestSchema.extend({
+  text: z.string().trim().min(1).max(maxTextLength, `is limited to ${maxTextLength} characters`),
+});
+
+/**
+ * Text-to-speech routes
+ *
+ * POST /tts  synthesize { text, lang?, rate?, pitch? } with the local engine.
+ *            Answers with the audio (base64), its duration, and the phoneme and
+ *            viseme tracks in milliseconds, for lip sync. 503 when no engine is
+ *            configured, so clients can fall back to a voice of their own.
+ */
+export function createTTSRouter({ engine, maxTextLength }: TTSRouterDependencies): Router {
+  const router = Router();
+  const requestSchema = createRequestSchema(maxTextLength);
+
+  router.post('/tts', async (req: Request, res: Response): Promise<void> => {
+    if (!engine) {
+      res.status(503).json({ error: 'Text-to-speech is not configured' });
+      return;
+    }
+
+    const text = req.body?.text;
+    if (typeof text !== 'string' || !text.trim()) {
+      res.status(400).json({ error: 'Text is required' });
+      return;
+    }
+
+    const speechRequest = parseRequest(res, requestSchema, req.body, 'Invalid speech request');
+    if (!speechRequest) return;
+
+    try {
+      const result = await engine.synthesize(speechRequest);
+
+      res.json({
+        audio: result.audio.toString('base64'),
+        mimeType: result.mimeType,
+        durationMs: result.durationMs,
+        engine: engine.name,
+        phonemes: result.phonemes,
+        visemes: toVisemeCues(result.phonemes),
+      });
+    } catch (error) {
+      logger.error('TTS error', { error });
+      res.status(500).json({
+        error: 'Failed to synthesize speech',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
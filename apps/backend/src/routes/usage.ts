@@ -0,0 +1,96 @@
+import { Router, Request, Response } from 'express';
+import { ANONYMOUS_IDENTITY, getUserId } from '../auth';
+import { SetUsageBudgetRequestSchema, UsageSinceQuerySchema } from '../contracts';
+import { UsageRepository } from '../repositories/usageRepository';
+import { UsageTracker } from '../usage';
+import { parseRequest } from '../utils/validation';
+import { logger } from '../observability';
+
+export interface UsageRouterDependencies {
+  usage: UsageTracker;
+  repository: UsageRepository;
+}
+
+/**
+ * Usage routes
+ *
+ * GET    /usage                       tokens and estimated cost of the caller, overall and
+ *                                     this session, with their budget
+ * GET    /usage/conversations/:id     tokens and estimated cost of one of the caller's conversations
+ * GET    /admin/usage?since           usage of every user, highest cost first
+ * GET    /admin/budgets               every budget
+ * PUT    /admin/budgets/:userId       set a user's budget ("*" sets the default budget)
+ * DELETE /admin/budgets/:userId       remove a user's budget
+ *
+ * The /admin routes are only guarded when the app mounts requireAdmin on them.
+ */
+export function createUsageRouter({ usage, repository }: UsageRouterDependencies): Router {
+  const router = Router();
+
+  router.get('/usage', async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json(await usage.report(req.auth ?? ANONYMOUS_IDENTITY));
+    } catch (error) {
+      logger.error('Usage report error', { error });
+      res.status(500).json({ error: 'Failed to get usage' });
+    }
+  });
+
+  router.get('/usage/conversations/:id', async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json(await repository.totals({ userId: getUserId(req), conversationId: req.params.id }));
+    } catch (error) {
+      logger.error('Conversation usage error', { error });
+      res.status(500).json({ error: 'Failed to get usage' });
+    }
+  });
+
+  router.get('/admin/usage', async (req: Request, res: Response): Promise<void> => {
+    const query = parseRequest(res, UsageSinceQuerySchema, req.query, 'Invalid usage request');
+    if (!query) return;
+
+    try {
+      res.json(await repository.totalsByUser(query.since));
+    } catch (error) {
+      logger.error('User usage error', { error });
+      res.status(500).json({ error: 'Failed to get usage' });
+    }
+  });
+
+  router.get('/admin/budgets', async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json(await repository.listBudgets());
+    } catch (error) {
+      logger.error('List budgets error', { error });
+      res.status(500).json({ error: 'Failed to list budgets' });
+    }
+  });
+
+  router.put('/admin/budgets/:userId', async (req: Request, res: Response): Promise<void> => {
+    const body = parseRequest(res, SetUsageBudgetRequestSchema, req.body ?? {}, 'Invalid budget');
+    if (!body) return;
+
+    try {
+      res.json(await repository.setBudget({ userId: req.params.userId, ...body, updatedAt: Date.now() }));
+    } catch (error) {
+      logger.error('Set budget error', { error });
+      res.status(500).json({ error: 'Failed to set budget' });
+    }
+  });
+
+  router.delete('/admin/budgets/:userId', async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!(await repository.deleteBudget(req.params.userId))) {
+        res.status(404).json({ error: 'Budget not found' });
+        return;
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      logger.error('Delete budget error', { error });
+      res.status(500).json({ error: 'Failed to delete budget' });
+    }
+  });
+
+  return router;
+}
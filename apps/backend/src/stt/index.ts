@@ -0,0 +1,25 @@
+import { STTConfig } from '../config/stt';
+import { STTEngine } from './types';
+import { WhisperEngine } from './whisperEngine';
+
+export * from './types';
+export { WhisperEngine, WhisperEngineOptions, parseWhisperOutput, whisperLanguage } from './whisperEngine';
+
+/**
+ * Create the engine selected by configuration, or null when STT is off
+ */
+export function createSTTEngine(config: STTConfig): STTEngine | null {
+  switch (config.engine) {
+    case 'none':
+      return null;
+    case 'whisper.cpp':
+      return new WhisperEngine({
+        path: config.whisperPath,
+        model: config.whisperModel!,
+        threads: config.whisperThreads,
+        ffmpegPath: config.ffmpegPath,
+        language: config.language,
+        timeoutMs: config.timeoutMs,
+      });
+  }
+}
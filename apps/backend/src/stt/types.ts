@@ -0,0 +1,25 @@
+/**
+ * Speech-to-text types
+ */
+
+export interface TranscriptionRequest {
+  /** Recorded audio as uploaded, e.g. WebM/Opus from MediaRecorder */
+  audio: Buffer;
+  mimeType: string;
+  /** Language, e.g. en-US; engines detect it themselves without one where they can */
+  lang?: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  /** Language recognized in (ISO 639-1), or auto when the engine detected it */
+  language: string;
+}
+
+/**
+ * A local speech recognizer
+ */
+export interface STTEngine {
+  readonly name: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
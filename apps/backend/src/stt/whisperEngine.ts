@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CommandRunner, runCommand } from '../utils/runCommand';
+import { STTEngine, TranscriptionRequest, TranscriptionResult } from './types';
+
+export interface WhisperEngineOptions {
+  /** whisper.cpp CLI executable */
+  path: string;
+  /** ggml model file */
+  model: string;
+  threads?: number;
+  /** ffmpeg, which converts uploads to the 16 kHz mono WAV whisper.cpp reads */
+  ffmpegPath: string;
+  /** Language when the request names none, or auto */
+  language: string;
+  timeoutMs: number;
+  run?: CommandRunner;
+}
+
+// Annotations whisper adds for non-speech: [BLANK_AUDIO], [ Silence ], (music)
+const ANNOTATION = /\[[^\]]*\]|^\s*\([^)]*\)\s*$/gm;
+
+/**
+ * Text of whisper.cpp's output without timestamps, as one line
+ */
+export function parseWhisperOutput(output: string): string {
+  return output
+    .replace(ANNOTATION, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * whisper.cpp language code for a request: its language (en-US -> en) or the default
+ */
+export const whisperLanguage = (lang: string | undefined, fallback: string) =>
+  lang ? lang.split('-')[0].toLowerCase() : fallback;
+
+/**
+ * whisper.cpp: OpenAI's Whisper models, run locally on the CPU
+ */
+export class WhisperEngine implements STTEngine {
+  public readonly name = 'whisper.cpp';
+  private readonly run: CommandRunner;
+
+  constructor(private readonly options: WhisperEngineOptions) {
+    this.run = options.run ?? runCommand;
+  }
+
+  async transcribe({ audio, lang }: TranscriptionRequest): Promise<TranscriptionResult> {
+    const { path: whisperPath, model, threads, ffmpegPath, timeoutMs } = this.options;
+    const language = whisperLanguage(lang, this.options.language);
+
+    // whisper.cpp reads a file, not stdin
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'avatar-stt-'));
+    const wavPath = path.join(directory, 'speech.wav');
+
+    try {
+      await this.run(
+        ffmpegPath,
+        ['-hide_banner', '-loglevel', 'error', '-i', 'pipe:0', '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', '-y', wavPath],
+        { input: audio, timeoutMs }
+      );
+
+      const output = await this.run(
+        whisperPath,
+        [
+          '-m', model,
+          '-f', wavPath,
+          '-l', language,
+          ...(threads ? ['-t', String(threads)] : []),
+          '--no-timestamps',
+          '--no-prints',
+        ],
+        { input: '', timeoutMs }
+      );
+
+      return { text: parseWhisperOutput(output.toString('utf8')), language };
+    } finally {
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  }
+}
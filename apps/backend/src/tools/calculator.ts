@@ -0,0 +1,112 @@
+/**
+ * Arithmetic for the calculator tool, parsed here rather than evaluated as
+ * JavaScript: numbers, + - * / % ^, parentheses, and the constants pi and e.
+ */
+
+const MAX_EXPRESSION_LENGTH = 200;
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const TOKEN_PATTERN = /\s*(\d+(?:\.\d+)?|\.\d+|[a-z]+|[-+*/%^()])/gy;
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  let position = 0;
+  while (position < expression.length) {
+    if (!expression.slice(position).trim()) break;
+
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      throw new Error(`Unexpected character "${expression.slice(position).trim()[0]}"`);
+    }
+    tokens.push(match[1]);
+    position = TOKEN_PATTERN.lastIndex;
+  }
+
+  return tokens;
+}
+
+/**
+ * Evaluate an arithmetic expression; throws on invalid input or a non-finite result
+ */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const tokens = tokenize(expression.toLowerCase());
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const take = () => tokens[index++];
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = take() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := factor (('*' | '/' | '%') factor)*
+  const parseTerm = (): number => {
+    let value = parseFactor();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = take();
+      const right = parseFactor();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // factor := unary ('^' factor)?   (right associative)
+  const parseFactor = (): number => {
+    const base = parseUnary();
+    return peek() === '^' ? (take(), Math.pow(base, parseFactor())) : base;
+  };
+
+  // unary := ('-' | '+') unary | primary
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      take();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      take();
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+
+    if (token === '(') {
+      const value = parseExpression();
+      if (take() !== ')') throw new Error('Missing closing parenthesis');
+      return value;
+    }
+    if (Object.prototype.hasOwnProperty.call(CONSTANTS, token)) return CONSTANTS[token];
+
+    const value = Number(token);
+    if (Number.isNaN(value)) throw new Error(`Unexpected "${token}"`);
+    return value;
+  };
+
+  const result = parseExpression();
+  if (index < tokens.length) {
+    throw new Error(`Unexpected "${tokens[index]}"`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('Result is not a finite number');
+  }
+
+  return result;
+}
@@ -0,0 +1,80 @@
+import {
+  ClientTool,
+  FONT_SIZES,
+  MOVEMENT_INTENSITIES,
+  MovementIntensity,
+  ROOM_PRESETS,
+  RoomPreset,
+  THEMES,
+  UserSettingsPatch,
+} from './types';
+
+/**
+ * switch_room: load one of the room presets (useRoomModel.loadPreset on the frontend)
+ */
+export const switchRoomTool: ClientTool = {
+  kind: 'client',
+  name: 'switch_room',
+  description: 'Switch the 3D room the avatar is in.',
+  parameters: {
+    type: 'object',
+    properties: {
+      preset: { type: 'string', enum: ROOM_PRESETS },
+    },
+    required: ['preset'],
+    additionalProperties: false,
+  },
+  toAction: args => ({ type: 'room.load_preset', preset: args.preset as RoomPreset }),
+};
+
+/**
+ * set_movement_intensity: how lively the avatar moves (useAvatar on the frontend)
+ */
+export const setMovementIntensityTool: ClientTool = {
+  kind: 'client',
+  name: 'set_movement_intensity',
+  description: 'Change how much the avatar moves, e.g. calmer when the user asks you to settle down.',
+  parameters: {
+    type: 'object',
+    properties: {
+      intensity: { type: 'string', enum: MOVEMENT_INTENSITIES },
+    },
+    required: ['intensity'],
+    additionalProperties: false,
+  },
+  toAction: args => ({ type: 'avatar.set_movement_intensity', intensity: args.intensity as MovementIntensity }),
+};
+
+/**
+ * update_settings: change the user's settings; only the given ones change
+ */
+export const updateSettingsTool: ClientTool = {
+  kind: 'client',
+  name: 'update_settings',
+  description: 'Change the user\'s app settings when they ask for it. Pass only the settings to change.',
+  parameters: {
+    type: 'object',
+    properties: {
+      theme: { type: 'string', enum: THEMES },
+      voiceEnabled: { type: 'boolean', description: 'Read responses aloud' },
+      voiceSpeed: { type: 'number', minimum: 0.5, maximum: 2 },
+      voiceVolume: { type: 'number', minimum: 0, maximum: 1 },
+      animationSpeed: { type: 'number', minimum: 0.5, maximum: 2 },
+      reducedMotion: { type: 'boolean' },
+      fontSize: { type: 'string', enum: FONT_SIZES },
+      highContrast: { type: 'boolean' },
+      autoScroll: { type: 'boolean' },
+      soundEffects: { type: 'boolean' },
+      notifications: { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+  toAction: args => {
+    if (Object.keys(args).length === 0) {
+      throw new Error('No settings to change');
+    }
+    return { type: 'settings.update', settings: args as UserSettingsPatch };
+  },
+};
+
+export const CLIENT_TOOLS: readonly ClientTool[] = [switchRoomTool, setMovementIntensityTool, updateSettingsTool];
@@ -0,0 +1,27 @@
+import { NoteRepository } from '../repositories/noteRepository';
+import { ToolRegistry } from './registry';
+import { CLIENT_TOOLS } from './clientTools';
+import { createCalculatorTool, createNoteTools, createTimeTool } from './serverTools';
+
+export * from './types';
+export { ToolRegistry } from './registry';
+export { validateArguments } from './schema';
+export { evaluateExpression } from './calculator';
+export { createTimeTool, createCalculatorTool, createNoteTools } from './serverTools';
+export { CLIENT_TOOLS, switchRoomTool, setMovementIntensityTool, updateSettingsTool } from './clientTools';
+
+export interface ToolRegistryDependencies {
+  notes: NoteRepository;
+}
+
+/**
+ * Registry of the built-in tools: time, calculator, notes, and the client actions
+ */
+export function createToolRegistry({ notes }: ToolRegistryDependencies): ToolRegistry {
+  return new ToolRegistry([
+    createTimeTool(),
+    createCalculatorTool(),
+    ...createNoteTools(notes),
+    ...CLIENT_TOOLS,
+  ]);
+}
@@ -0,0 +1,66 @@
+import { ToolCall, ToolDefinition } from '../providers';
+import { validateArguments } from './schema';
+import { Tool, ToolCallResult, ToolContext } from './types';
+import { logger } from '../observability';
+
+/**
+ * The tools offered to the model, by name
+ *
+ * Failed calls (unknown tool, invalid arguments, a tool that throws) are
+ * reported back to the model as the tool's result so it can recover;
+ * they never fail the chat request.
+ */
+export class ToolRegistry {
+  private readonly tools = new Map<string, Tool>();
+
+  constructor(tools: Tool[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  register(tool: Tool): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  /** Schemas sent to the model */
+  definitions(): ToolDefinition[] {
+    return [...this.tools.values()].map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters: { ...parameters },
+    }));
+  }
+
+  async call(call: ToolCall, context: ToolContext): Promise<ToolCallResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return failure(`Unknown tool "${call.name}"`);
+    }
+
+    const validation = validateArguments(tool.parameters, call.arguments);
+    if (!validation.ok) {
+      return failure(validation.error);
+    }
+
+    try {
+      if (tool.kind === 'client') {
+        const action = tool.toAction(validation.args);
+        return { content: JSON.stringify({ ok: true, applied: 'on the user\'s screen' }), action };
+      }
+
+      return { content: await tool.execute(validation.args, context) };
+    } catch (error) {
+      logger.error('Tool call failed', { tool: call.name, error });
+      return failure(error instanceof Error ? error.message : 'Tool failed');
+    }
+  }
+}
+
+const failure = (error: string): ToolCallResult => ({ content: JSON.stringify({ error }) });
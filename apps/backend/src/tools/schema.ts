@@ -0,0 +1,79 @@
+import { JSONSchema, ToolArguments } from './types';
+
+export type ArgumentsValidation =
+  | { ok: true; args: ToolArguments }
+  | { ok: false; error: string };
+
+/**
+ * Parse a tool call's JSON arguments and check them against the tool's schema.
+ * Only the JSON Schema keywords in JSONSchema are understood.
+ */
+export function validateArguments(schema: JSONSchema, json: string): ArgumentsValidation {
+  let args: unknown;
+  try {
+    args = json.trim() ? JSON.parse(json) : {};
+  } catch {
+    return { ok: false, error: 'Arguments are not valid JSON' };
+  }
+
+  const error = checkValue(schema, args, 'arguments');
+  return error ? { ok: false, error } : { ok: true, args: args as ToolArguments };
+}
+
+function checkValue(schema: JSONSchema, value: unknown, path: string): string | null {
+  switch (schema.type) {
+    case 'object':
+      return checkObject(schema, value, path);
+
+    case 'string':
+      if (typeof value !== 'string') return `${path} must be a string`;
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return `${path} must be at most ${schema.maxLength} characters`;
+      }
+      break;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} must be a number`;
+      if (schema.type === 'integer' && !Number.isInteger(value)) return `${path} must be an integer`;
+      if (schema.minimum !== undefined && value < schema.minimum) return `${path} must be at least ${schema.minimum}`;
+      if (schema.maximum !== undefined && value > schema.maximum) return `${path} must be at most ${schema.maximum}`;
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') return `${path} must be a boolean`;
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return `${path} must be one of: ${schema.enum.join(', ')}`;
+  }
+
+  return null;
+}
+
+function checkObject(schema: JSONSchema, value: unknown, path: string): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return `${path} must be an object`;
+  }
+
+  const record = value as Record<string, unknown>;
+  const properties = schema.properties ?? {};
+
+  for (const key of schema.required ?? []) {
+    if (record[key] === undefined) return `${path}.${key} is required`;
+  }
+
+  for (const [key, propertyValue] of Object.entries(record)) {
+    const propertySchema = Object.prototype.hasOwnProperty.call(properties, key) ? properties[key] : undefined;
+    if (!propertySchema) {
+      if (schema.additionalProperties === false) return `${path}.${key} is not allowed`;
+      continue;
+    }
+
+    const error = checkValue(propertySchema, propertyValue, `${path}.${key}`);
+    if (error) return error;
+  }
+
+  return null;
+}
@@ -0,0 +1,110 @@
+import { NoteRepository } from '../repositories/noteRepository';
+import { evaluateExpression } from './calculator';
+import { ServerTool } from './types';
+
+const NOTE_MAX_LENGTH = 500;
+const NOTES_LISTED = 20;
+
+/**
+ * get_current_time: the date and time, optionally in an IANA time zone
+ */
+export function createTimeTool(now: () => Date = () => new Date()): ServerTool {
+  return {
+    kind: 'server',
+    name: 'get_current_time',
+    description: 'Get the current date and time. Use it whenever the user asks about the time or date.',
+    parameters: {
+      type: 'object',
+      properties: {
+        timezone: {
+          type: 'string',
+          description: 'IANA time zone such as Europe/Berlin; defaults to UTC',
+          maxLength: 64,
+        },
+      },
+      additionalProperties: false,
+    },
+    async execute(args) {
+      const timezone = typeof args.timezone === 'string' ? args.timezone : 'UTC';
+      const date = now();
+
+      let local: string;
+      try {
+        local = new Intl.DateTimeFormat('en-US', {
+          timeZone: timezone,
+          dateStyle: 'full',
+          timeStyle: 'long',
+        }).format(date);
+      } catch {
+        throw new Error(`Unknown time zone "${timezone}"`);
+      }
+
+      return JSON.stringify({ iso: date.toISOString(), timezone, local });
+    },
+  };
+}
+
+/**
+ * calculate: exact arithmetic, which models are bad at
+ */
+export function createCalculatorTool(): ServerTool {
+  return {
+    kind: 'server',
+    name: 'calculate',
+    description: 'Evaluate an arithmetic expression with + - * / % ^, parentheses, pi and e.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'For example (12.5 * 4) ^ 2', maxLength: 200 },
+      },
+      required: ['expression'],
+      additionalProperties: false,
+    },
+    async execute(args) {
+      const expression = args.expression as string;
+      return JSON.stringify({ expression, result: evaluateExpression(expression) });
+    },
+  };
+}
+
+/**
+ * take_note and list_notes: notes the user asked the avatar to remember, per user
+ */
+export function createNoteTools(notes: NoteRepository): ServerTool[] {
+  return [
+    {
+      kind: 'server',
+      name: 'take_note',
+      description: 'Save a note the user asks you to remember for later.',
+      parameters: {
+        type: 'object',
+        properties: {
+          content: { type: 'string', description: 'The note', maxLength: NOTE_MAX_LENGTH },
+        },
+        required: ['content'],
+        additionalProperties: false,
+      },
+      async execute(args, context) {
+        const content = (args.content as string).trim();
+        if (!content) {
+          throw new Error('Note is empty');
+        }
+
+        const note = await notes.add(context.userId, content);
+        return JSON.stringify({ saved: true, id: note.id });
+      },
+    },
+    {
+      kind: 'server',
+      name: 'list_notes',
+      description: 'List the notes the user asked you to remember, most recent first.',
+      parameters: { type: 'object', properties: {}, additionalProperties: false },
+      async execute(_args, context) {
+        const listed = await notes.list(context.userId, NOTES_LISTED);
+        return JSON.stringify({
+          notes: listed.map(note => ({ content: note.content, createdAt: new Date(note.createdAt).toISOString() })),
+        });
+      },
+    },
+  ];
+}
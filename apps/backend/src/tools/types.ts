@@ -0,0 +1,64 @@
+/**
+ * Tools the model can call
+ *
+ * Server tools run here and their result goes back to the model. Client tools
+ * turn their arguments into an action the frontend applies (switching the
+ * room, changing settings); the model is only told the action was sent.
+ */
+import type { ClientAction } from '../contracts';
+
+export {
+  ROOM_PRESETS,
+  MOVEMENT_INTENSITIES,
+  THEMES,
+  FONT_SIZES,
+} from '../contracts';
+export type { ClientAction, MovementIntensity, RoomPreset, UserSettingsPatch } from '../contracts';
+
+/** JSON Schema of a tool's arguments (the subset checked by validateArguments) */
+export interface JSONSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  maxLength?: number;
+  properties?: Record<string, JSONSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+}
+
+/** Who the tool is called for */
+export interface ToolContext {
+  userId: string;
+  conversationId?: string;
+}
+
+export type ToolArguments = Record<string, unknown>;
+
+interface BaseTool {
+  name: string;
+  description: string;
+  parameters: JSONSchema & { type: 'object' };
+}
+
+export interface ServerTool extends BaseTool {
+  kind: 'server';
+  /** Result for the model; arguments have been validated against parameters */
+  execute(args: ToolArguments, context: ToolContext): Promise<string>;
+}
+
+export interface ClientTool extends BaseTool {
+  kind: 'client';
+  /** Action for the frontend; arguments have been validated against parameters */
+  toAction(args: ToolArguments): ClientAction;
+}
+
+export type Tool = ServerTool | ClientTool;
+
+/** Outcome of one tool call */
+export interface ToolCallResult {
+  /** Sent back to the model as the tool message */
+  content: string;
+  action?: ClientAction;
+}
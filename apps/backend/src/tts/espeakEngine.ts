@@ -0,0 +1,69 @@
+import { CommandRunner, runCommand } from '../utils/runCommand';
+import { estimateTimings, parseEspeakPhonemes, wavDurationMs } from './timing';
+import { SynthesisRequest, SynthesisResult, TTSEngine } from './types';
+
+export interface EspeakEngineOptions {
+  /** espeak-ng executable */
+  path: string;
+  /** Voice used when the request names no language */
+  voice: string;
+  timeoutMs: number;
+  run?: CommandRunner;
+}
+
+// espeak-ng's own defaults: 175 words per minute, pitch 50 of 0-99
+const DEFAULT_WORDS_PER_MINUTE = 175;
+const DEFAULT_PITCH = 50;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * espeak-ng voice for a request: its language (en-US -> en-us) or the default
+ */
+export const espeakVoice = (lang: string | undefined, fallback: string) => lang?.toLowerCase() || fallback;
+
+/**
+ * Phonemes of a text as espeak-ng pronounces it
+ */
+export async function transcribeWithEspeak(
+  text: string,
+  { path, voice, timeoutMs, run = runCommand }: EspeakEngineOptions
+): Promise<string[]> {
+  const output = await run(path, ['-q', '-x', '--sep=_', '-v', voice, '--stdin'], { input: text, timeoutMs });
+  return parseEspeakPhonemes(output.toString('utf8'));
+}
+
+/**
+ * espeak-ng: small and fast, robotic but clear
+ */
+export class EspeakEngine implements TTSEngine {
+  public readonly name = 'espeak-ng';
+  private readonly run: CommandRunner;
+
+  constructor(private readonly options: EspeakEngineOptions) {
+    this.run = options.run ?? runCommand;
+  }
+
+  async synthesize({ text, lang, rate = 1, pitch = 1 }: SynthesisRequest): Promise<SynthesisResult> {
+    const { path, timeoutMs } = this.options;
+    const voice = espeakVoice(lang, this.options.voice);
+    const args = [
+      '-v', voice,
+      '-s', String(Math.round(DEFAULT_WORDS_PER_MINUTE * clamp(rate, 0.5, 2))),
+      '-p', String(Math.round(clamp(DEFAULT_PITCH * pitch, 0, 99))),
+    ];
+
+    const [audio, phonemes] = await Promise.all([
+      this.run(path, [...args, '--stdout', '--stdin'], { input: text, timeoutMs }),
+      transcribeWithEspeak(text, { ...this.options, voice, run: this.run }),
+    ]);
+
+    const durationMs = wavDurationMs(audio);
+    return {
+      audio,
+      mimeType: 'audio/wav',
+      durationMs,
+      phonemes: estimateTimings(phonemes, durationMs),
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { TTSConfig } from '../config/tts';
+import { TTSEngine } from './types';
+import { EspeakEngine } from './espeakEngine';
+import { PiperEngine } from './piperEngine';
+
+export * from './types';
+export { EspeakEngine, EspeakEngineOptions, transcribeWithEspeak } from './espeakEngine';
+export { PiperEngine, PiperEngineOptions } from './piperEngine';
+export { phonemeToViseme, toVisemeCues } from './visemes';
+export { estimateTimings, lettersToPhonemes, parseEspeakPhonemes, pcmToWav, wavDurationMs } from './timing';
+
+/**
+ * Create the engine selected by configuration, or null when TTS is off
+ */
+export function createTTSEngine(config: TTSConfig): TTSEngine | null {
+  switch (config.engine) {
+    case 'none':
+      return null;
+    case 'espeak-ng':
+      return new EspeakEngine({
+        path: config.espeakPath,
+        voice: config.espeakVoice,
+        timeoutMs: config.timeoutMs,
+      });
+    case 'piper':
+      return new PiperEngine({
+        path: config.piperPath,
+        model: config.piperModel!,
+        espeakPath: config.espeakPath,
+        espeakVoice: config.espeakVoice,
+        timeoutMs: config.timeoutMs,
+      });
+  }
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import { CommandRunner, runCommand } from '../utils/runCommand';
+import { espeakVoice, transcribeWithEspeak } from './espeakEngine';
+import { estimateTimings, lettersToPhonemes, pcmToWav, wavDurationMs } from './timing';
+import { SynthesisRequest, SynthesisResult, TTSEngine } from './types';
+import { logger } from '../observability';
+
+export interface PiperEngineOptions {
+  /** piper executable */
+  path: string;
+  /** Voice model (.onnx); its sample rate is read from the .onnx.json next to it */
+  model: string;
+  /** espeak-ng, for the phoneme track; timings come from the spelling without it */
+  espeakPath?: string;
+  espeakVoice: string;
+  timeoutMs: number;
+  run?: CommandRunner;
+}
+
+// Most piper voices ("medium" quality)
+const DEFAULT_SAMPLE_RATE = 22050;
+
+function readSampleRate(model: string): number {
+  try {
+    const config = JSON.parse(fs.readFileSync(`${model}.json`, 'utf8'));
+    return Number(config?.audio?.sample_rate) || DEFAULT_SAMPLE_RATE;
+  } catch {
+    return DEFAULT_SAMPLE_RATE;
+  }
+}
+
+/**
+ * piper: neural voices that run locally in real time
+ */
+export class PiperEngine implements TTSEngine {
+  public readonly name = 'piper';
+  private readonly run: CommandRunner;
+  private readonly sampleRate: number;
+
+  constructor(private readonly options: PiperEngineOptions) {
+    this.run = options.run ?? runCommand;
+    this.sampleRate = readSampleRate(options.model);
+  }
+
+  async synthesize({ text, lang, rate = 1 }: SynthesisRequest): Promise<SynthesisResult> {
+    const { path, model, timeoutMs } = this.options;
+    // piper stretches time rather than speed: a longer length means slower speech
+    const lengthScale = (1 / Math.min(2, Math.max(0.5, rate))).toFixed(2);
+
+    const [pcm, phonemes] = await Promise.all([
+      this.run(path, ['--model', model, '--output-raw', '--length_scale', lengthScale], { input: text, timeoutMs }),
+      this.transcribe(text, lang),
+    ]);
+
+    const audio = pcmToWav(pcm, this.sampleRate);
+    const durationMs = wavDurationMs(audio);
+    return {
+      audio,
+      mimeType: 'audio/wav',
+      durationMs,
+      phonemes: estimateTimings(phonemes, durationMs),
+    };
+  }
+
+  private async transcribe(text: string, lang?: string): Promise<string[]> {
+    const { espeakPath, timeoutMs } = this.options;
+    if (!espeakPath) return lettersToPhonemes(text);
+
+    try {
+      return await transcribeWithEspeak(text, {
+        path: espeakPath,
+        voice: espeakVoice(lang, this.options.espeakVoice),
+        timeoutMs,
+        run: this.run,
+      });
+    } catch (error) {
+      logger.warn('Phoneme transcription failed, estimating from spelling', { error });
+      return lettersToPhonemes(text);
+    }
+  }
+}
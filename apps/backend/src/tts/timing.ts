@@ -0,0 +1,123 @@
+import { PhonemeTiming } from './types';
+import { VOWEL_VISEMES, phonemeToViseme } from './visemes';
+
+/**
+ * Phoneme timing estimates and WAV helpers
+ *
+ * Neither engine reports when each phoneme is spoken, so timings are spread
+ * over the audio's duration, weighted by how long each kind of sound lasts.
+ */
+
+const PAUSE = '_';
+
+// Relative durations: vowels are held longer than consonants, pauses longest
+const VOWEL_WEIGHT = 2;
+const CONSONANT_WEIGHT = 1;
+const PAUSE_WEIGHT = 3;
+
+/**
+ * Phonemes of `espeak-ng -q -x --sep=_` output: phonemes joined by "_",
+ * words by spaces, one clause per line. Clause breaks become pauses.
+ */
+export function parseEspeakPhonemes(output: string): string[] {
+  const phonemes: string[] = [];
+
+  for (const clause of output.split('\n').map(line => line.trim()).filter(Boolean)) {
+    if (phonemes.length > 0) phonemes.push(PAUSE);
+    for (const word of clause.split(/\s+/)) {
+      phonemes.push(...word.split('_').filter(phoneme => phoneme.replace(/['",%=]/g, '')));
+    }
+  }
+  return phonemes;
+}
+
+/**
+ * Rough phonemes from spelling, when no phonemizer is available:
+ * one per letter, a pause at punctuation
+ */
+export function lettersToPhonemes(text: string): string[] {
+  const phonemes: string[] = [];
+
+  for (const character of text.toLowerCase()) {
+    if (/[a-z]/.test(character)) {
+      phonemes.push(character);
+    } else if (/[.,!?;:]/.test(character) && phonemes.length > 0 && phonemes[phonemes.length - 1] !== PAUSE) {
+      phonemes.push(PAUSE);
+    }
+  }
+  if (phonemes[phonemes.length - 1] === PAUSE) phonemes.pop();
+  return phonemes;
+}
+
+const weightOf = (phoneme: string) => {
+  const viseme = phonemeToViseme(phoneme);
+  if (viseme === 'sil') return PAUSE_WEIGHT;
+  return VOWEL_VISEMES.has(viseme) ? VOWEL_WEIGHT : CONSONANT_WEIGHT;
+};
+
+/**
+ * Spread phonemes over the duration of the audio, in milliseconds
+ */
+export function estimateTimings(phonemes: string[], durationMs: number): PhonemeTiming[] {
+  const totalWeight = phonemes.reduce((sum, phoneme) => sum + weightOf(phoneme), 0);
+  if (totalWeight === 0 || durationMs <= 0) return [];
+
+  let elapsed = 0;
+  return phonemes.map(phoneme => {
+    const start = Math.round((elapsed / totalWeight) * durationMs);
+    elapsed += weightOf(phoneme);
+    return { phoneme, start, end: Math.round((elapsed / totalWeight) * durationMs) };
+  });
+}
+
+/**
+ * Duration of a PCM WAV file in milliseconds
+ *
+ * Streamed WAVs (espeak-ng --stdout) can't know their length up front and
+ * declare an oversized data chunk, so the bytes actually present count.
+ */
+export function wavDurationMs(wav: Buffer): number {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Engine output is not a WAV file');
+  }
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      byteRate = wav.readUInt32LE(body + 8);
+    } else if (chunkId === 'data') {
+      if (!byteRate) break;
+      const dataBytes = Math.min(chunkSize, wav.length - body);
+      return Math.round((dataBytes / byteRate) * 1000);
+    }
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('Engine output has no audio data');
+}
+
+/**
+ * Wrap raw 16-bit mono PCM in a WAV header
+ */
+export function pcmToWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
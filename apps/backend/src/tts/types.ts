@@ -0,0 +1,62 @@
+/**
+ * Text-to-speech types
+ */
+
+export interface SynthesisRequest {
+  text: string;
+  /** Language, e.g. en-US; engines pick a matching voice where they can */
+  lang?: string;
+  /** Speaking rate, 1 is normal (0.5-2) */
+  rate?: number;
+  /** Pitch, 1 is normal (0-2); not every engine supports it */
+  pitch?: number;
+}
+
+/** A phoneme and when it is spoken, in milliseconds from the start of the audio */
+export interface PhonemeTiming {
+  phoneme: string;
+  start: number;
+  end: number;
+}
+
+export interface SynthesisResult {
+  audio: Buffer;
+  mimeType: string;
+  durationMs: number;
+  phonemes: PhonemeTiming[];
+}
+
+/**
+ * A local speech synthesizer producing audio and its phoneme timings
+ */
+export interface TTSEngine {
+  readonly name: string;
+  synthesize(request: SynthesisRequest): Promise<SynthesisResult>;
+}
+
+/**
+ * Mouth shapes, following the Oculus/ARKit viseme set used by avatar models
+ * (morph targets named viseme_sil, viseme_PP, ...)
+ */
+export type Viseme =
+  | 'sil'
+  | 'PP'
+  | 'FF'
+  | 'TH'
+  | 'DD'
+  | 'kk'
+  | 'CH'
+  | 'SS'
+  | 'nn'
+  | 'RR'
+  | 'aa'
+  | 'E'
+  | 'I'
+  | 'O'
+  | 'U';
+
+export interface VisemeCue {
+  viseme: Viseme;
+  start: number;
+  end: number;
+}
@@ -0,0 +1,64 @@
+import { PhonemeTiming, Viseme, VisemeCue } from './types';
+
+/**
+ * Phoneme to viseme mapping
+ *
+ * Phonemes are espeak-ng's ASCII mnemonics (`espeak-ng -x`), e.g. tS, aI, 3:.
+ * Plain letters map sensibly too, for timings estimated from the text.
+ * Two-character prefixes are checked before single characters.
+ */
+const PREFIX_VISEMES: Record<string, Viseme> = {
+  tS: 'CH',
+  dZ: 'CH',
+};
+
+const CHARACTER_VISEMES: Record<string, Viseme> = {
+  _: 'sil',
+  p: 'PP', b: 'PP', m: 'PP',
+  f: 'FF', v: 'FF',
+  T: 'TH', D: 'TH',
+  t: 'DD', d: 'DD',
+  k: 'kk', g: 'kk', N: 'kk', h: 'kk', c: 'kk', q: 'kk', x: 'kk',
+  S: 'CH', Z: 'CH',
+  s: 'SS', z: 'SS',
+  n: 'nn', l: 'nn', L: 'nn',
+  r: 'RR', R: 'RR',
+  a: 'aa', A: 'aa', V: 'aa',
+  E: 'E', e: 'E', '@': 'E', '3': 'E',
+  i: 'I', I: 'I', j: 'I', y: 'I',
+  O: 'O', '0': 'O', o: 'O',
+  u: 'U', U: 'U', w: 'U',
+};
+
+// Stress and length marks carry no mouth shape of their own
+const MODIFIERS = /['",%=:#]/g;
+
+export const VOWEL_VISEMES: ReadonlySet<Viseme> = new Set<Viseme>(['aa', 'E', 'I', 'O', 'U']);
+
+/**
+ * The mouth shape of a phoneme; unknown phonemes keep the mouth neutral
+ */
+export function phonemeToViseme(phoneme: string): Viseme {
+  const bare = phoneme.replace(MODIFIERS, '');
+  if (!bare) return 'sil';
+
+  return PREFIX_VISEMES[bare.slice(0, 2)] ?? CHARACTER_VISEMES[bare[0]] ?? 'sil';
+}
+
+/**
+ * Viseme track of timed phonemes, with consecutive identical visemes merged
+ */
+export function toVisemeCues(phonemes: PhonemeTiming[]): VisemeCue[] {
+  const cues: VisemeCue[] = [];
+
+  for (const { phoneme, start, end } of phonemes) {
+    const viseme = phonemeToViseme(phoneme);
+    const previous = cues[cues.length - 1];
+    if (previous && previous.viseme === viseme && previous.end === start) {
+      previous.end = end;
+    } else {
+      cues.push({ viseme, start, end });
+    }
+  }
+  return cues;
+}
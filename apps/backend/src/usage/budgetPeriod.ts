@@ -0,0 +1,18 @@
+import { BudgetPeriod } from '../repositories/usageRepository';
+
+/**
+ * Start and end of the UTC calendar day or month containing `now`,
+ * in milliseconds since epoch
+ */
+export function budgetPeriodBounds(period: BudgetPeriod, now: number): { start: number; end: number } {
+  const date = new Date(now);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (period === 'month') {
+    return { start: Date.UTC(year, month, 1), end: Date.UTC(year, month + 1, 1) };
+  }
+
+  const day = date.getUTCDate();
+  return { start: Date.UTC(year, month, day), end: Date.UTC(year, month, day + 1) };
+}
@@ -0,0 +1,3 @@
+export { UsageTracker, UsageTrackerOptions } from './usageTracker';
+export { estimateCost, findModelPrice } from './pricing';
+export { budgetPeriodBounds } from './budgetPeriod';
@@ -0,0 +1,29 @@
+import { ModelPrice, PriceTable } from '../config/usage';
+import { TokenUsage } from '../providers';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Price of a model: by exact name, then by the longest priced name it starts with
+ */
+export function findModelPrice(prices: PriceTable, model: string): ModelPrice | null {
+  if (Object.prototype.hasOwnProperty.call(prices, model)) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix] : null;
+}
+
+/**
+ * Estimated USD cost of a request; unpriced models cost nothing
+ */
+export function estimateCost(prices: PriceTable, model: string, usage: TokenUsage): number {
+  const price = findModelPrice(prices, model);
+  if (!price) return 0;
+
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / TOKENS_PER_PRICE_UNIT;
+}
@@ -0,0 +1,116 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { PriceTable } from '../config/usage';
+import { LLMProvider, TokenUsage } from '../providers';
+import { ANONYMOUS_IDENTITY, AuthIdentity, getUserId } from '../auth';
+import { BudgetStatus, UsageReport } from '../contracts';
+import { DEFAULT_BUDGET_USER_ID, UsageBudget, UsageRepository } from '../repositories/usageRepository';
+import { logger } from '../observability';
+import { estimateCost } from './pricing';
+import { budgetPeriodBounds } from './budgetPeriod';
+
+export interface UsageTrackerOptions {
+  repository: UsageRepository;
+  prices: PriceTable;
+  /** The provider whose requests are recorded */
+  provider: Pick<LLMProvider, 'name' | 'model'>;
+  clock?: () => number;
+}
+
+/**
+ * Records the tokens and estimated cost of every chat request, and refuses
+ * requests from users who have spent their budget
+ *
+ * Like the token quota, budgets are checked before a request and charged
+ * after it, so the last request of a period may go slightly over.
+ */
+export class UsageTracker {
+  private readonly repository: UsageRepository;
+  private readonly prices: PriceTable;
+  private readonly provider: Pick<LLMProvider, 'name' | 'model'>;
+  private readonly clock: () => number;
+
+  constructor({ repository, prices, provider, clock = Date.now }: UsageTrackerOptions) {
+    this.repository = repository;
+    this.prices = prices;
+    this.provider = provider;
+    this.clock = clock;
+  }
+
+  /**
+   * Record a completed request; storage failures are logged, never thrown
+   */
+  record = (req: Request, usage: TokenUsage, conversationId?: string): Promise<void> => {
+    const { userId, sessionId } = req.auth ?? ANONYMOUS_IDENTITY;
+
+    return this.repository.record({
+      userId,
+      sessionId,
+      conversationId,
+      provider: this.provider.name,
+      model: this.provider.model,
+      ...usage,
+      costUsd: estimateCost(this.prices, this.provider.model, usage),
+      createdAt: this.clock(),
+    }).catch(error => logger.error('Failed to record usage', { error }));
+  };
+
+  async report(identity: AuthIdentity): Promise<UsageReport> {
+    const [user, session, budget] = await Promise.all([
+      this.repository.totals({ userId: identity.userId }),
+      this.repository.totals({ userId: identity.userId, sessionId: identity.sessionId }),
+      this.budgetStatus(identity.userId),
+    ]);
+
+    return { userId: identity.userId, user, session, budget };
+  }
+
+  /**
+   * The user's own budget, or the default one, in its current period
+   */
+  async budgetStatus(userId: string): Promise<BudgetStatus | null> {
+    const budget = await this.findBudget(userId);
+    if (!budget) return null;
+
+    const { start, end } = budgetPeriodBounds(budget.period, this.clock());
+    const { costUsd } = await this.repository.totals({ userId, since: start });
+
+    return {
+      limitUsd: budget.limitUsd,
+      period: budget.period,
+      spentUsd: costUsd,
+      remainingUsd: Math.max(0, budget.limitUsd - costUsd),
+      resetsAt: end,
+    };
+  }
+
+  /**
+   * Express middleware answering 429 with Retry-After once the caller's
+   * budget is spent; mount it after the auth middleware
+   */
+  middleware(): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      let status: BudgetStatus | null;
+      try {
+        status = await this.budgetStatus(getUserId(req));
+      } catch (error) {
+        // An unreadable budget doesn't stop anyone chatting
+        logger.error('Failed to check usage budget', { error });
+        next();
+        return;
+      }
+
+      if (!status || status.spentUsd < status.limitUsd) {
+        next();
+        return;
+      }
+
+      const retryAfter = Math.max(1, Math.ceil((status.resetsAt - this.clock()) / 1000));
+      res.set('Retry-After', String(retryAfter));
+      res.status(429).json({ error: 'Usage budget exceeded', reason: 'budget', retryAfter });
+    };
+  }
+
+  private async findBudget(userId: string): Promise<UsageBudget | null> {
+    return (await this.repository.getBudget(userId)) ?? this.repository.getBudget(DEFAULT_BUDGET_USER_ID);
+  }
+}
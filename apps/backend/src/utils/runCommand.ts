@@ -0,0 +1,52 @@
+import { spawn } from 'child_process';
+
+export interface RunCommandOptions {
+  /** Written to stdin; text and audio are never passed as arguments */
+  input: string | Buffer;
+  timeoutMs: number;
+}
+
+/**
+ * Run an executable and collect its stdout
+ */
+export type CommandRunner = (command: string, args: string[], options: RunCommandOptions) => Promise<Buffer>;
+
+const MAX_STDERR_LENGTH = 500;
+
+export const runCommand: CommandRunner = (command, args, { input, timeoutMs }) =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    let stderr = '';
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH);
+    });
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to run ${command}: ${error.message}`));
+    });
+
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`${command} timed out after ${timeoutMs}ms`));
+      } else if (code !== 0) {
+        reject(new Error(`${command} exited with code ${code}${stderr ? `: ${stderr.trim()}` : ''}`));
+      } else {
+        resolve(Buffer.concat(stdout));
+      }
+    });
+
+    // A process that exits early closes stdin; that error surfaces through 'close'
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
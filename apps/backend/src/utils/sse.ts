@@ -0,0 +1,25 @@
+import { Response } from 'express';
+
+/**
+ * Server-Sent Events helpers for streaming responses
+ */
+
+/**
+ * Switch the response into an event stream and flush the headers
+ */
+export function openEventStream(res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering (nginx) so tokens reach the client immediately
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+}
+
+/**
+ * Write a single named event with a JSON payload
+ */
+export function sendEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
@@ -0,0 +1,19 @@
+import { Response } from 'express';
+import { z } from 'zod/v4';
+import { validateContract } from '../contracts';
+
+/**
+ * Request validation against the API contract (src/contracts)
+ */
+
+/**
+ * The parsed value, or null once a 400 of { error, details } has been sent
+ */
+export function parseRequest<T>(res: Response, schema: z.ZodType<T>, value: unknown, error: string): T | null {
+  const validation = validateContract(schema, value);
+  if (!validation.ok) {
+    res.status(400).json({ error, details: validation.details });
+    return null;
+  }
+  return validation.data;
+}
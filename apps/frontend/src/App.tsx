@@ -1,84 +1,52 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { ChatInterface } from './components/ChatInterface';
 import { ThreeDRoom } from './components/ThreeDRoom';
 import { Settings } from './components/Settings';
+import MemoryInspector from './components/MemoryInspector';
 import { ErrorBoundary } from './components/ErrorBoundary';
-import { useChat } from './hooks/useChat';
+import { useAvatarEventChannel, useAvatarEventState } from './hooks/useAvatarEvents';
+import { useAvatar } from './hooks/useAvatar';
+import { useRoomModel } from './hooks/useRoomModel';
+import { avatarEventStore } from './services/avatarEventStore';
+import { clientActionDispatcher } from './services/clientActions';
+import { feedbackUploader } from './services/feedbackUploader';
+import { loadUserSettings, saveUserSettings } from './config/userSettings';
+import { AVATAR_CONFIG } from './config/roomConstants';
 import type { UserSettings } from './types/common';
 import './App.css';
 
+const DEFAULT_ROOM_MODEL_URL = '/models/room/bedroom-complete.glb';
+
 const App: React.FC = () => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isMemoryOpen, setIsMemoryOpen] = useState(false);
   const [userSettings, setUserSettings] = useState<UserSettings | null>(null);
-  const [userIsTyping, setUserIsTyping] = useState(false);
-  const [lastMessageLength, setLastMessageLength] = useState(0);
-  const [lastMessageTime, setLastMessageTime] = useState(0);
-  const [timeSinceLastMessage, setTimeSinceLastMessage] = useState(0);
-  
-  // Use ref to track the interval for time calculation
-  const timeIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Get chat state including TTS speaking state
-  const { isSpeaking: isAvatarSpeaking } = useChat();
+  // The avatar is driven by the avatar store: server events, the chat's voice
+  // (see useChat) and the local state below
+  useAvatarEventChannel(avatarEventStore);
+  const isAvatarSpeaking = useAvatarEventState(avatarEventStore)?.isSpeaking ?? false;
 
-  // Update time since last message every 100ms for smooth avatar transitions
-  useEffect(() => {
-    if (lastMessageTime > 0) {
-      const updateTime = () => {
-        const now = Date.now();
-        const timeDiff = now - lastMessageTime;
-        setTimeSinceLastMessage(timeDiff);
-        
-        // Add debug logging
-        console.log('Avatar state update:', {
-          userIsTyping,
-          isAvatarSpeaking,
-          lastMessageLength,
-          timeSinceLastMessage: timeDiff,
-          lastMessageTime: new Date(lastMessageTime).toLocaleTimeString()
-        });
-      };
-      
-      // Update immediately
-      updateTime();
-      
-      // Set up interval for continuous updates
-      timeIntervalRef.current = setInterval(updateTime, 100);
-      
-      // Clear interval after 10 seconds to avoid unnecessary updates
-      setTimeout(() => {
-        if (timeIntervalRef.current) {
-          clearInterval(timeIntervalRef.current);
-          timeIntervalRef.current = null;
-        }
-      }, 10000);
-    }
-    
-    return () => {
-      if (timeIntervalRef.current) {
-        clearInterval(timeIntervalRef.current);
-        timeIntervalRef.current = null;
-      }
-    };
-  }, [lastMessageTime, userIsTyping, isAvatarSpeaking, lastMessageLength]);
+  // Room and movement the avatar can change through actions (see below)
+  const { roomModelUrl, loadPreset } = useRoomModel({
+    useRoomModels: true,
+    roomModelUrl: DEFAULT_ROOM_MODEL_URL,
+    roomType: 'model',
+  });
+  const { movementIntensity, setMovementIntensity } = useAvatar({
+    movementIntensity: AVATAR_CONFIG.MOVEMENT_INTENSITY,
+  });
 
   const handleMessageSent = useCallback((message: string) => {
     console.log('Message sent:', message);
-    const now = Date.now();
-    
-    // Update message tracking
-    setLastMessageLength(message.length);
-    setLastMessageTime(now);
-    setTimeSinceLastMessage(0);
-    setUserIsTyping(false);
+    avatarEventStore.messageSent(message.length);
     
-    // Note: isAvatarSpeaking is now controlled by the TTS service in useChat
-    // No need to manually set speaking state here
+    // Note: speaking state and lip sync are published by the TTS service in useChat
   }, []);
 
   const handleUserTyping = useCallback((isTyping: boolean) => {
     console.log('User typing state changed:', isTyping);
-    setUserIsTyping(isTyping);
+    avatarEventStore.setUserTyping(isTyping);
   }, []);
 
   const handleVoiceToggle = useCallback((isListening: boolean) => {
@@ -116,6 +84,27 @@ const App: React.FC = () => {
     console.log('Settings updated:', settings);
   }, []);
 
+  // Upload collected feedback once the page goes away or the browser is back online
+  useEffect(() => feedbackUploader.listen(), []);
+
+  // Apply the actions the avatar takes in its responses
+  useEffect(() => clientActionDispatcher.subscribe(action => {
+    switch (action.type) {
+      case 'room.load_preset':
+        void loadPreset(action.preset);
+        break;
+      case 'avatar.set_movement_intensity':
+        setMovementIntensity(action.intensity);
+        break;
+      case 'settings.update': {
+        const settings = { ...loadUserSettings(), ...action.settings };
+        saveUserSettings(settings);
+        handleSettingsChange(settings);
+        break;
+      }
+    }
+  }), [loadPreset, setMovementIntensity, handleSettingsChange]);
+
   const handleError = useCallback((error: Error) => {
     // Log errors for monitoring
     console.error('App Error:', {
@@ -163,12 +152,10 @@ const App: React.FC = () => {
               }
             >
               <ThreeDRoom 
-                isAvatarSpeaking={isAvatarSpeaking}
-                userIsTyping={userIsTyping}
-                lastMessageLength={lastMessageLength}
-                timeSinceLastMessage={timeSinceLastMessage}
+                avatarStore={avatarEventStore}
                 useRoomModels={true}
-                roomModelUrl="/models/room/bedroom-complete.glb"
+                roomModelUrl={roomModelUrl}
+                movementIntensity={movementIntensity}
               />
             </ErrorBoundary>
           </div>
@@ -202,6 +189,13 @@ const App: React.FC = () => {
           isOpen={isSettingsOpen}
           onClose={() => setIsSettingsOpen(false)}
           onSettingsChange={handleSettingsChange}
+          onOpenMemory={() => setIsMemoryOpen(true)}
+        />
+
+        {/* Opens over Settings, which it returns to */}
+        <MemoryInspector
+          isOpen={isMemoryOpen}
+          onClose={() => setIsMemoryOpen(false)}
         />
       </div>
     </ErrorBoundary>
@@ -0,0 +1,28 @@
+import { Suspense, lazy, useEffect, useState } from 'react'
+import App from './App.tsx'
+
+// The admin analytics are their own view, loaded only when opened
+const AdminDashboard = lazy(() => import('./components/AdminDashboard.tsx'))
+
+export const ADMIN_HASH = '#/admin'
+
+/**
+ * The avatar app, or the admin dashboard at #/admin
+ */
+export default function Root() {
+  const [hash, setHash] = useState(window.location.hash)
+
+  useEffect(() => {
+    const onHashChange = () => setHash(window.location.hash)
+    window.addEventListener('hashchange', onHashChange)
+    return () => window.removeEventListener('hashchange', onHashChange)
+  }, [])
+
+  return hash === ADMIN_HASH ? (
+    <Suspense fallback={null}>
+      <AdminDashboard />
+    </Suspense>
+  ) : (
+    <App />
+  )
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type { ChatActivityReport } from '@contracts';
+import AdminDashboard from './AdminDashboard';
+import { ApiError, apiService } from '../config/api';
+
+vi.mock('../config/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('../config/api')>()),
+  apiService: {
+    getChatActivity: vi.fn(),
+    getFeedbackAnalytics: vi.fn(),
+    getFeedbackRecommendations: vi.fn(),
+    getFeedbackBenchmarks: vi.fn(),
+    getValidationStats: vi.fn(),
+    listErrorGroups: vi.fn(),
+    login: vi.fn(),
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const totals = {
+  requests: 40,
+  conversations: 12,
+  users: 5,
+  failed: 2,
+  cancelled: 1,
+  rejected: 0,
+  errorRate: 0.05,
+  averageLatencyMs: 850,
+  p95LatencyMs: 2400,
+};
+
+const activity: ChatActivityReport = {
+  since: 0,
+  until: 30 * DAY,
+  totals,
+  daily: [
+    { ...totals, date: '2025-01-14', requests: 15 },
+    { ...totals, date: '2025-01-15', requests: 25 },
+  ],
+  topTopics: [{ topic: 'music', count: 9 }, { topic: 'travel', count: 3 }],
+  emotions: [{ emotion: 'happy', count: 7 }],
+};
+
+describe('AdminDashboard', () => {
+  beforeEach(() => {
+    vi.mocked(apiService.getChatActivity).mockReset().mockResolvedValue(activity);
+    vi.mocked(apiService.getFeedbackAnalytics).mockReset().mockRejectedValue(new ApiError('Not found', 404));
+    vi.mocked(apiService.getFeedbackRecommendations).mockReset().mockRejectedValue(new ApiError('Not found', 404));
+    vi.mocked(apiService.getFeedbackBenchmarks).mockReset().mockRejectedValue(new ApiError('Not found', 404));
+    vi.mocked(apiService.getValidationStats).mockReset().mockRejectedValue(new ApiError('Not found', 404));
+    vi.mocked(apiService.listErrorGroups).mockReset().mockResolvedValue([
+      { fingerprint: 'f1', name: 'TypeError', message: 'x is undefined', count: 4, firstSeen: 1, lastSeen: 2 },
+    ]);
+    vi.mocked(apiService.login).mockReset();
+  });
+
+  it('should chart the chat activity of the last 30 days', async () => {
+    render(<AdminDashboard />);
+
+    expect(await screen.findByText('5.0%')).toBeInTheDocument();
+    expect(screen.getByText('2.4 s')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Requests and conversations per day' })).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Response latency per day' })).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'Requests per topic' })).toHaveTextContent('music9');
+    expect(screen.getByText('Feedback is not collected')).toBeInTheDocument();
+    expect(screen.getByText(/x is undefined/)).toBeInTheDocument();
+
+    const { since = 0, until = 0 } = vi.mocked(apiService.getChatActivity).mock.calls[0][0] ?? {};
+    expect(until - since).toBe(30 * DAY);
+  });
+
+  it('should show the recommended improvements, benchmarks and validation results', async () => {
+    vi.mocked(apiService.getFeedbackRecommendations).mockResolvedValue({
+      since: 0,
+      until: 30 * DAY,
+      areas: [{
+        category: 'accuracy',
+        priority: 'high',
+        recommendation: 'Focus on addressing accuracy issues based on user feedback',
+        actionItems: [],
+        expectedImpact: 'Medium-term improvement in response quality',
+        effort: 'medium',
+        timeline: '1-2 months',
+      }],
+      priorityActions: ['Improve Accuracy issues (Priority: high)'],
+      longTermGoals: [],
+    });
+    vi.mocked(apiService.getFeedbackBenchmarks).mockResolvedValue({
+      since: 0,
+      until: 30 * DAY,
+      overallScore: 0.6,
+      benchmarks: { industry: 0.75, internal: 0.8, historical: 0.7, target: 0.85 },
+      ratios: { industry: 0.8, internal: 0.75, historical: 0.6 / 0.7, target: 0.6 / 0.85 },
+      performanceGaps: ['Below target by 25.0%'],
+      optimizationSuggestions: ['Focus on user experience improvements'],
+    });
+    vi.mocked(apiService.getValidationStats).mockResolvedValue({
+      since: 0,
+      until: 30 * DAY,
+      sessions: 3,
+      totalValidations: 120,
+      validCount: 108,
+      invalidCount: 12,
+      errorRate: 0.1,
+      averageValidationTime: 4,
+      maxValidationTime: 30,
+      commonIssues: [{ type: 'missing_required', count: 12 }],
+    });
+
+    render(<AdminDashboard />);
+
+    expect(await screen.findByText('Focus on addressing accuracy issues based on user feedback')).toBeInTheDocument();
+    expect(screen.getByText('Below target by 25.0%')).toBeInTheDocument();
+    expect(screen.getByText('Of industry (75.0%)').nextSibling).toHaveTextContent('80.0%');
+    expect(screen.getByText('120')).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'Validation errors per type' })).toHaveTextContent('missing required12');
+  });
+
+  it('should load again for another range', async () => {
+    render(<AdminDashboard />);
+    await screen.findByText('5.0%');
+
+    fireEvent.click(screen.getByRole('button', { name: '7 days' }));
+
+    await waitFor(() => expect(apiService.getChatActivity).toHaveBeenCalledTimes(2));
+    const { since = 0, until = 0 } = vi.mocked(apiService.getChatActivity).mock.calls[1][0] ?? {};
+    expect(until - since).toBe(7 * DAY);
+    expect(screen.getByRole('button', { name: '7 days' })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('should ask non-admins to sign in as an admin', async () => {
+    vi.mocked(apiService.getChatActivity).mockRejectedValueOnce(new ApiError('Forbidden', 403));
+    vi.mocked(apiService.login).mockResolvedValue({} as Awaited<ReturnType<typeof apiService.login>>);
+
+    render(<AdminDashboard />);
+
+    expect(await screen.findByText('Admin access required')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Username'), { target: { value: 'admin' } });
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'secret' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByText('5.0%')).toBeInTheDocument();
+    expect(apiService.login).toHaveBeenCalledWith({ username: 'admin', password: 'secret' });
+  });
+});
@@ -0,0 +1,436 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type {
+  ChatActivityReport,
+  ErrorGroup,
+  FeedbackAnalytics,
+  FeedbackBenchmarks,
+  FeedbackRecommendations,
+  ValidationStats,
+} from '@contracts';
+import { ApiError, apiService } from '../config/api';
+import './AdminDashboard.css';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGES = [7, 30, 90] as const;
+type RangeDays = typeof RANGES[number];
+
+interface DashboardData {
+  activity: ChatActivityReport;
+  /** Null when the server doesn't collect feedback */
+  feedback: FeedbackAnalytics | null;
+  recommendations: FeedbackRecommendations | null;
+  benchmarks: FeedbackBenchmarks | null;
+  /** Validation results come with the feedback's interaction metrics */
+  validation: ValidationStats | null;
+  /** Null when the server doesn't collect error reports */
+  errors: ErrorGroup[] | null;
+}
+
+type DashboardState =
+  | { status: 'loading' }
+  | { status: 'forbidden' }
+  | { status: 'failed'; message: string }
+  | { status: 'loaded'; data: DashboardData };
+
+interface Series {
+  name: string;
+  points: { date: string; value: number }[];
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 8;
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+const milliseconds = (value: number): string =>
+  value < 1000 ? `${Math.round(value)} ms` : `${(value / 1000).toFixed(1)} s`;
+
+const label = (identifier: string): string => identifier.replace(/_/g, ' ');
+
+const BENCHMARK_NAMES = ['industry', 'internal', 'historical', 'target'] as const;
+
+// Dates are YYYY-MM-DD; the year only gets in the way
+const shortDate = (date: string): string => date.slice(5);
+
+const optional = <T,>(result: PromiseSettledResult<T>): T | null =>
+  result.status === 'fulfilled' ? result.value : null;
+
+/**
+ * Daily values as lines, one per series, scaled to the largest value
+ * (or to max when given)
+ */
+const LineChart: React.FC<{
+  title: string;
+  series: Series[];
+  format: (value: number) => string;
+  max?: number;
+}> = ({ title, series, format, max }) => {
+  const dates = [...new Set(series.flatMap(line => line.points.map(point => point.date)))].sort();
+  if (dates.length === 0) {
+    return <p className="admin-empty">No data for this period</p>;
+  }
+
+  const top = max ?? Math.max(...series.flatMap(line => line.points.map(point => point.value)), 0);
+  const x = (date: string) => dates.length === 1
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + (dates.indexOf(date) / (dates.length - 1)) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (value: number) =>
+    CHART_HEIGHT - CHART_PADDING - (top > 0 ? value / top : 0) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+  return (
+    <figure className="admin-chart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label={title}>
+        {series.map((line, index) => (
+          <g key={line.name} className={`admin-series admin-series-${index}`}>
+            <polyline
+              fill="none"
+              points={line.points.map(point => `${x(point.date)},${y(point.value)}`).join(' ')}
+            />
+            {line.points.map(point => (
+              <circle key={point.date} cx={x(point.date)} cy={y(point.value)} r={2.5}>
+                <title>{`${line.name} ${point.date}: ${format(point.value)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <figcaption className="admin-chart-axis">
+        <span>{shortDate(dates[0])}</span>
+        <span>max {format(top)}</span>
+        <span>{shortDate(dates[dates.length - 1])}</span>
+      </figcaption>
+      {series.length > 1 && (
+        <ul className="admin-legend">
+          {series.map((line, index) => (
+            <li key={line.name} className={`admin-series-${index}`}>{line.name}</li>
+          ))}
+        </ul>
+      )}
+    </figure>
+  );
+};
+
+/**
+ * Counts as horizontal bars, scaled to the largest
+ */
+const BarChart: React.FC<{ title: string; bars: { label: string; count: number }[] }> = ({ title, bars }) => {
+  if (bars.length === 0) {
+    return <p className="admin-empty">No data for this period</p>;
+  }
+
+  const top = Math.max(...bars.map(bar => bar.count));
+  return (
+    <ul className="admin-bars" aria-label={title}>
+      {bars.map(bar => (
+        <li key={bar.label}>
+          <span className="admin-bar-label">{bar.label}</span>
+          <span className="admin-bar">
+            <span className="admin-bar-fill" style={{ width: `${(bar.count / top) * 100}%` }} />
+          </span>
+          <span className="admin-bar-count">{bar.count}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const Panel: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="admin-panel">
+    <h2>{title}</h2>
+    {children}
+  </section>
+);
+
+const BenchmarksPanel: React.FC<{ benchmarks: FeedbackBenchmarks }> = ({ benchmarks }) => (
+  <Panel title="Benchmarks">
+    <dl className="admin-totals">
+      <div><dt>Overall score</dt><dd>{percent(benchmarks.overallScore)}</dd></div>
+      {BENCHMARK_NAMES.map(name => (
+        <div key={name}>
+          <dt>{`Of ${name} (${percent(benchmarks.benchmarks[name])})`}</dt>
+          <dd>{percent(benchmarks.ratios[name])}</dd>
+        </div>
+      ))}
+    </dl>
+    <ul className="admin-issues">
+      {[...benchmarks.performanceGaps, ...benchmarks.optimizationSuggestions].map(line => <li key={line}>{line}</li>)}
+    </ul>
+  </Panel>
+);
+
+const ValidationPanel: React.FC<{ validation: ValidationStats }> = ({ validation }) => (
+  <Panel title="Context validation">
+    {validation.totalValidations > 0 ? (
+      <>
+        <dl className="admin-totals">
+          <div><dt>Validations</dt><dd>{validation.totalValidations}</dd></div>
+          <div><dt>Invalid</dt><dd>{percent(validation.errorRate)}</dd></div>
+          <div><dt>Average time</dt><dd>{milliseconds(validation.averageValidationTime)}</dd></div>
+          <div><dt>Slowest</dt><dd>{milliseconds(validation.maxValidationTime)}</dd></div>
+        </dl>
+        <BarChart
+          title="Validation errors per type"
+          bars={validation.commonIssues.map(({ type, count }) => ({ label: label(type), count }))}
+        />
+      </>
+    ) : (
+      <p className="admin-empty">No sessions reported validation results</p>
+    )}
+  </Panel>
+);
+
+const DashboardPanels: React.FC<{ data: DashboardData }> = ({ data }) => {
+  const { activity, feedback, recommendations, benchmarks, validation, errors } = data;
+  const { totals, daily } = activity;
+  const dailySeries = (name: string, value: (day: ChatActivityReport['daily'][number]) => number): Series => ({
+    name,
+    points: daily.map(day => ({ date: day.date, value: value(day) })),
+  });
+
+  return (
+    <>
+      <dl className="admin-totals">
+        <div><dt>Requests</dt><dd>{totals.requests}</dd></div>
+        <div><dt>Conversations</dt><dd>{totals.conversations}</dd></div>
+        <div><dt>Users</dt><dd>{totals.users}</dd></div>
+        <div><dt>Error rate</dt><dd>{percent(totals.errorRate)}</dd></div>
+        <div><dt>p95 latency</dt><dd>{milliseconds(totals.p95LatencyMs)}</dd></div>
+        {feedback && (
+          <div><dt>Satisfaction</dt><dd>{percent(feedback.summary.satisfactionRate)}</dd></div>
+        )}
+      </dl>
+
+      <div className="admin-grid">
+        <Panel title="Conversation volume">
+          <LineChart
+            title="Requests and conversations per day"
+            series={[
+              dailySeries('Requests', day => day.requests),
+              dailySeries('Conversations', day => day.conversations),
+            ]}
+            format={String}
+          />
+        </Panel>
+
+        <Panel title="Satisfaction">
+          {feedback ? (
+            <LineChart
+              title="Average rating per day"
+              series={[{
+                name: 'Average rating',
+                points: feedback.trends.ratingTrend.map(point => ({ date: point.date, value: point.averageRating })),
+              }]}
+              format={value => value.toFixed(1)}
+              max={5}
+            />
+          ) : (
+            <p className="admin-empty">Feedback is not collected</p>
+          )}
+        </Panel>
+
+        <Panel title="Top topics">
+          <BarChart
+            title="Requests per topic"
+            bars={activity.topTopics.map(({ topic, count }) => ({ label: topic, count }))}
+          />
+        </Panel>
+
+        <Panel title="Emotions">
+          <BarChart
+            title="Requests per user emotion"
+            bars={activity.emotions.map(({ emotion, count }) => ({ label: emotion, count }))}
+          />
+        </Panel>
+
+        <Panel title="Error rate">
+          <LineChart
+            title="Failed requests per day"
+            series={[dailySeries('Error rate', day => day.errorRate)]}
+            format={percent}
+          />
+        </Panel>
+
+        <Panel title="Latency">
+          <LineChart
+            title="Response latency per day"
+            series={[
+              dailySeries('Average', day => day.averageLatencyMs),
+              dailySeries('p95', day => day.p95LatencyMs),
+            ]}
+            format={milliseconds}
+          />
+        </Panel>
+      </div>
+
+      {feedback && feedback.insights.criticalIssues.length > 0 && (
+        <Panel title="Critical issues">
+          <ul className="admin-issues">
+            {feedback.insights.criticalIssues.map(issue => (
+              <li key={issue.issue} className={`severity-${issue.severity}`}>
+                <strong>{issue.issue}</strong> · {issue.severity} · {issue.impact}
+              </li>
+            ))}
+          </ul>
+        </Panel>
+      )}
+
+      {recommendations && (
+        <Panel title="Recommended improvements">
+          {recommendations.areas.length > 0 ? (
+            <ul className="admin-issues">
+              {recommendations.areas.map((area, index) => (
+                <li key={index} className={`severity-${area.priority}`}>
+                  <strong>{area.recommendation}</strong> · {area.priority} · {area.effort} effort, {area.timeline}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="admin-empty">No improvements recommended</p>
+          )}
+        </Panel>
+      )}
+
+      {(benchmarks || validation) && (
+        <div className="admin-grid">
+          {benchmarks && <BenchmarksPanel benchmarks={benchmarks} />}
+          {validation && <ValidationPanel validation={validation} />}
+        </div>
+      )}
+
+      {errors && (
+        <Panel title="Client errors">
+          {errors.length > 0 ? (
+            <ul className="admin-issues">
+              {errors.map(group => (
+                <li key={group.fingerprint}>
+                  <strong>{group.name}</strong>: {group.message} · {group.count}×
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="admin-empty">No errors reported</p>
+          )}
+        </Panel>
+      )}
+    </>
+  );
+};
+
+/**
+ * Analytics across every user, for admins: conversation volume,
+ * satisfaction, top topics, emotions, error rates and latency by day, with
+ * the critical issues of the feedback, the improvements it calls for, the
+ * overall score against its benchmarks, what context validation found and
+ * the errors clients reported.
+ * Served as its own view at #/admin.
+ */
+const AdminDashboard: React.FC = () => {
+  const [rangeDays, setRangeDays] = useState<RangeDays>(30);
+  const [state, setState] = useState<DashboardState>({ status: 'loading' });
+  const [reloadKey, setReloadKey] = useState(0);
+  const [credentials, setCredentials] = useState({ username: '', password: '' });
+
+  useEffect(() => {
+    let cancelled = false;
+    const until = Date.now();
+    const range = { since: until - rangeDays * DAY_MS, until };
+
+    const load = async () => {
+      setState({ status: 'loading' });
+      // Feedback and error reports can each be turned off on the server
+      const [activity, feedback, recommendations, benchmarks, validation, errors] = await Promise.allSettled([
+        apiService.getChatActivity(range),
+        apiService.getFeedbackAnalytics(range),
+        apiService.getFeedbackRecommendations(range),
+        apiService.getFeedbackBenchmarks(range),
+        apiService.getValidationStats(range),
+        apiService.listErrorGroups({ since: range.since, limit: 10 }),
+      ]);
+      if (cancelled) return;
+
+      if (activity.status === 'rejected') {
+        const error = activity.reason;
+        setState(error instanceof ApiError && (error.status === 401 || error.status === 403)
+          ? { status: 'forbidden' }
+          : { status: 'failed', message: error instanceof Error ? error.message : String(error) });
+        return;
+      }
+      setState({
+        status: 'loaded',
+        data: {
+          activity: activity.value,
+          feedback: optional(feedback),
+          recommendations: optional(recommendations),
+          benchmarks: optional(benchmarks),
+          validation: optional(validation),
+          errors: optional(errors),
+        },
+      });
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeDays, reloadKey]);
+
+  const signIn = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await apiService.login(credentials);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      setState({ status: 'failed', message: error instanceof Error ? error.message : String(error) });
+    }
+  }, [credentials]);
+
+  return (
+    <div className="admin-dashboard">
+      <header className="admin-header">
+        <h1>Analytics</h1>
+        <div className="admin-ranges" role="group" aria-label="Time range">
+          {RANGES.map(days => (
+            <button
+              key={days}
+              type="button"
+              aria-pressed={days === rangeDays}
+              onClick={() => setRangeDays(days)}
+            >
+              {days} days
+            </button>
+          ))}
+        </div>
+        <a href="#/" className="admin-back">Back to the avatar</a>
+      </header>
+
+      {state.status === 'loading' && <p className="admin-status">Loading…</p>}
+
+      {state.status === 'failed' && (
+        <p className="admin-status admin-error" role="alert">Failed to load analytics: {state.message}</p>
+      )}
+
+      {state.status === 'forbidden' && (
+        <form className="admin-sign-in" onSubmit={signIn}>
+          <p role="alert">Admin access required</p>
+          <input
+            aria-label="Username"
+            value={credentials.username}
+            onChange={event => setCredentials({ ...credentials, username: event.target.value })}
+          />
+          <input
+            aria-label="Password"
+            type="password"
+            value={credentials.password}
+            onChange={event => setCredentials({ ...credentials, password: event.target.value })}
+          />
+          <button type="submit">Sign in</button>
+        </form>
+      )}
+
+      {state.status === 'loaded' && <DashboardPanels data={state.data} />}
+    </div>
+  );
+};
+
+export default AdminDashboard;
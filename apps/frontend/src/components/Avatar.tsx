@@ -2,6 +2,9 @@ import React, { useState, Suspense } from 'react';
 import GLTFPuppyAvatar from './GLTFPuppyAvatar';
 import AnimatedPuppyAvatar from './AnimatedPuppyAvatar';
 import { ErrorBoundary } from 'react-error-boundary';
+import type { AvatarGestureCue } from '../types/avatarEvents';
+import type { EmotionState } from '../types/context';
+import type { LipSyncTrack } from '../types/speech';
 
 interface AvatarProps {
   position?: [number, number, number];
@@ -9,6 +12,10 @@ interface AvatarProps {
   userIsTyping?: boolean;
   lastMessageLength?: number;
   timeSinceLastMessage?: number;
+  emotion?: EmotionState;
+  gesture?: AvatarGestureCue | null;
+  /** Viseme track of the voice, for mouth movement */
+  lipSync?: LipSyncTrack | null;
   movementIntensity?: 'subtle' | 'animated' | 'energetic';
 }
 
@@ -22,6 +29,8 @@ const Avatar: React.FC<AvatarProps> = (props) => {
     userIsTyping: props.userIsTyping,
     lastMessageLength: props.lastMessageLength,
     timeSinceLastMessage: props.timeSinceLastMessage,
+    emotion: props.emotion,
+    gesture: props.gesture,
     movementIntensity: props.movementIntensity
   });
 
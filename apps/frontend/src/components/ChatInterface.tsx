@@ -1,9 +1,22 @@
 import React, { useState, useRef, useCallback, useMemo, useEffect } from 'react';
 import { useVoiceService } from '../services/voiceService';
 import { useChat } from '../hooks/useChat';
+import UsageMeter from './UsageMeter';
 import type { ContextAnalysis } from '../types/context';
 import './ChatInterface.css';
 
+// Remaining rate limit cooldown, e.g. "45s", "12 min" or "3 h 20 min"
+const formatCooldown = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
 // Types for better type safety
 interface Message {
   id: string;
@@ -112,10 +125,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     isTyping,
     error,
     sendMessage,
+    stopGenerating,
     clearHistory,
     exportHistory,
     clearError,
     contextAnalysis,
+    cooldownSeconds,
   } = useChat();
 
   const {
@@ -123,6 +138,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     isSupported,
     toggleListening,
     transcript,
+    interimTranscript,
+    isTranscribing,
     clearTranscript,
     error: voiceError,
   } = useVoiceService();
@@ -158,8 +175,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   // Memoized input validation
   const canSendMessage = useMemo(() => {
-    return inputText.trim().length > 0 && !isTyping;
-  }, [inputText, isTyping]);
+    return inputText.trim().length > 0 && !isTyping && cooldownSeconds === 0;
+  }, [inputText, isTyping, cooldownSeconds]);
 
   // Memoized error message
   const displayError = useMemo(() => {
@@ -249,6 +266,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       <div className="chat-header">
         <h2>Chat with 3D Avatar</h2>
         <div className="chat-controls">
+          {/* Refreshed once each response is complete */}
+          <UsageMeter refreshKey={isTyping ? null : messages.length} />
           <button 
             onClick={clearHistory}
             className="control-button clear-button"
@@ -323,6 +342,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </button>
           )}
           
+          {isTyping && (
+            <button
+              onClick={stopGenerating}
+              className="stop-button"
+              title="Stop the response"
+              aria-label="Stop generating response"
+            >
+              ■
+            </button>
+          )}
+
           <button
             onClick={handleSendMessage}
             disabled={!canSendMessage}
@@ -334,9 +364,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </button>
         </div>
         
+        {cooldownSeconds > 0 && (
+          <div className="cooldown-status" aria-live="polite">
+            ⏳ You can send again in {formatCooldown(cooldownSeconds)}
+          </div>
+        )}
+
         {isListening && (
           <div className="voice-status" aria-live="polite">
-            🎤 Listening... {transcript && `"${transcript}"`}
+            🎤 Listening... {(interimTranscript || transcript) && `"${interimTranscript || transcript}"`}
+          </div>
+        )}
+
+        {isTranscribing && (
+          <div className="voice-status" aria-live="polite">
+            🎤 Transcribing...
           </div>
         )}
       </div>
@@ -1,6 +1,8 @@
 import React, { Component } from 'react';
 import type { ReactNode, ErrorInfo } from 'react';
+import type { ErrorReport } from '@contracts';
 import type { ErrorBoundaryComponentContract } from '../contracts/ComponentContracts';
+import { errorReportQueue } from '../services/errorReportQueue';
 import './ErrorBoundary.css';
 
 interface Props extends Partial<ErrorBoundaryComponentContract> {
@@ -40,30 +42,15 @@ interface RecoveryStrategy {
   timeout?: number;
 }
 
-interface ErrorReport {
-  errorId: string;
-  timestamp: Date;
-  error: {
-    message: string;
-    stack?: string;
-    name: string;
-  };
-  componentStack: string;
-  userAgent: string;
-  url: string;
-  userId?: string;
-  sessionId?: string;
-  retryCount: number;
-  recoveryAttempted: boolean;
-}
-
 /**
  * Enhanced Error Boundary with comprehensive error handling and recovery strategies
  */
 export class EnhancedErrorBoundary extends Component<Props, State> {
   private retryTimeoutId?: NodeJS.Timeout;
   private recoveryTimeoutId?: NodeJS.Timeout;
-  private errorReportQueue: ErrorReport[] = [];
+  // Shared by every boundary, and sent in batches
+  private errorReportQueue = errorReportQueue;
+  private stopFlushingOnUnload?: () => void;
   
   static defaultProps: Partial<Props> = {
     retryable: true,
@@ -138,7 +125,12 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
     }
   }
 
+  componentDidMount() {
+    this.stopFlushingOnUnload = this.errorReportQueue.listen();
+  }
+
   componentWillUnmount() {
+    this.stopFlushingOnUnload?.();
     if (this.retryTimeoutId) {
       clearTimeout(this.retryTimeoutId);
     }
@@ -148,61 +140,30 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
   }
 
   private reportError = (error: Error, errorInfo: ErrorInfo) => {
+    // Send report using custom reporter or default
+    if (this.props.errorReporter) {
+      this.props.errorReporter(error, errorInfo);
+      return;
+    }
+
+    // The server knows the user and session from the request
     const report: ErrorReport = {
       errorId: this.state.errorId,
-      timestamp: this.state.timestamp,
+      timestamp: this.state.timestamp.getTime(),
       error: {
         message: error.message,
         stack: error.stack,
         name: error.name
       },
-      componentStack: errorInfo.componentStack,
+      componentStack: errorInfo.componentStack ?? undefined,
       userAgent: navigator.userAgent,
       url: window.location.href,
-      userId: this.getUserId(),
-      sessionId: this.getSessionId(),
       retryCount: this.state.retryCount,
       recoveryAttempted: this.state.recoveryAttempted
     };
 
     // Queue report for batch sending
-    this.errorReportQueue.push(report);
-
-    // Send report using custom reporter or default
-    if (this.props.errorReporter) {
-      this.props.errorReporter(error, errorInfo);
-    } else {
-      this.sendErrorReport(report);
-    }
-  };
-
-  private sendErrorReport = async (report: ErrorReport) => {
-    try {
-      // In a real application, you would send this to your error reporting service
-      // For now, we'll just log it
-      console.warn('Error Report:', report);
-      
-      // Example: Send to external service
-      // await fetch('/api/errors', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify(report)
-      // });
-    } catch (reportingError) {
-      console.error('Failed to report error:', reportingError);
-    }
-  };
-
-  private getUserId = (): string | undefined => {
-    // Get user ID from your authentication system
-    const userId = localStorage.getItem('userId');
-    return userId ?? undefined;
-  };
-
-  private getSessionId = (): string | undefined => {
-    // Get session ID from your session management
-    const sessionId = sessionStorage.getItem('sessionId');
-    return sessionId ?? undefined;
+    this.errorReportQueue.enqueue(report);
   };
 
   private attemptRecovery = async (error: Error, errorInfo: ErrorInfo) => {
@@ -8,17 +8,51 @@ import {
   AVATAR_ANIMATION,
   ANIMATION_TIMING,
   MATH_CONSTANTS,
-  BREATHING_INTENSITY
+  BREATHING_INTENSITY,
+  GESTURE_ANIMATION,
+  EMOTION_MOVEMENT_FACTOR,
+  LIP_SYNC
 } from '../config/breathingAnimationConstants';
+import { applyViseme, findMouthMorphs, hasMouthMorphs, visemeAt, VISEME_MOUTH_OPENNESS } from '../services/lipSync';
+import type { MouthMorphs } from '../services/lipSync';
+import type { AvatarGesture, AvatarGestureCue } from '../types/avatarEvents';
+import type { EmotionState } from '../types/context';
+import type { LipSyncTrack } from '../types/speech';
 
 interface GLTFPuppyAvatarProps {
   position?: [number, number, number];
   isSpeaking?: boolean;
   userIsTyping?: boolean;
   lastMessageLength?: number;
+  emotion?: EmotionState;
+  gesture?: AvatarGestureCue | null;
+  lipSync?: LipSyncTrack | null;
   movementIntensity?: 'subtle' | 'animated' | 'energetic';
 }
 
+// Offset a gesture adds to the model's pose, `progress` running from 0 to 1
+const applyGesture = (model: THREE.Group, gesture: AvatarGesture, progress: number) => {
+  const envelope = Math.sin(progress * Math.PI); // ease in and out
+  switch (gesture) {
+    case 'nod':
+      model.rotation.x += Math.sin(progress * Math.PI * 2 * GESTURE_ANIMATION.NOD.CYCLES) * GESTURE_ANIMATION.NOD.ROTATION_X * envelope;
+      break;
+    case 'head_tilt':
+      // rotation.z eases back by itself, so the tilt must not accumulate
+      model.rotation.z = Math.max(model.rotation.z, GESTURE_ANIMATION.HEAD_TILT.ROTATION_Z * envelope);
+      break;
+    case 'wave':
+      model.rotation.y += Math.sin(progress * Math.PI * 2 * GESTURE_ANIMATION.WAVE.CYCLES) * GESTURE_ANIMATION.WAVE.ROTATION_Y * envelope;
+      break;
+    case 'tail_wag':
+      model.rotation.y += Math.sin(progress * Math.PI * 2 * GESTURE_ANIMATION.TAIL_WAG.CYCLES) * GESTURE_ANIMATION.TAIL_WAG.ROTATION_Y * envelope;
+      break;
+    case 'bounce':
+      model.position.y += Math.abs(Math.sin(progress * Math.PI * GESTURE_ANIMATION.BOUNCE.CYCLES)) * GESTURE_ANIMATION.BOUNCE.HEIGHT;
+      break;
+  }
+};
+
 // Model URL - will fall back to geometric avatar if not found
 const PUPPY_MODEL_URL = '/models/cartoon-puppy.glb';
 
@@ -27,6 +61,9 @@ const GLTFPuppyModel: React.FC<GLTFPuppyAvatarProps> = ({
   isSpeaking = false,
   userIsTyping = false,
   lastMessageLength = 0,
+  emotion = 'neutral',
+  gesture = null,
+  lipSync = null,
   movementIntensity = 'subtle'
 }) => {
   const group = useRef<THREE.Group>(null);
@@ -64,6 +101,10 @@ const GLTFPuppyModel: React.FC<GLTFPuppyAvatarProps> = ({
   // Animation state management
   const [currentAnimation, setCurrentAnimation] = useState<string | null>(null);
   const animationIntensity = useRef(0);
+  // When the current gesture cue started playing, in clock time
+  const gestureStart = useRef<{ sequence: number; time: number } | null>(null);
+  // Mouth morph targets lip sync drives, found on the first frame; models without them nod along instead
+  const mouthMorphs = useRef<MouthMorphs | null>(null);
 
   // Initialize breathing controller
   useEffect(() => {
@@ -162,10 +203,11 @@ const GLTFPuppyModel: React.FC<GLTFPuppyAvatarProps> = ({
       movementIntensity === 'animated' ? 
         AVATAR_ANIMATION.MOVEMENT_INTENSITY.ANIMATED : 
         AVATAR_ANIMATION.MOVEMENT_INTENSITY.SUBTLE;
+    const emotionalIntensity = targetIntensity * EMOTION_MOVEMENT_FACTOR[emotion];
     
     animationIntensity.current = THREE.MathUtils.lerp(
       animationIntensity.current, 
-      targetIntensity, 
+      emotionalIntensity, 
       BREATHING_INTENSITY.LERP_FACTOR
     );
 
@@ -211,6 +253,28 @@ const GLTFPuppyModel: React.FC<GLTFPuppyAvatarProps> = ({
       const breathingHeadMovement = breathingState.intensity * AVATAR_ANIMATION.BREATHING_SCALE.HEAD_BREATHING_FACTOR;
       group.current.rotation.x += breathingHeadMovement;
     }
+
+    // Lip sync to the server voice
+    if (!mouthMorphs.current && gltf) {
+      mouthMorphs.current = findMouthMorphs(gltf.scene);
+    }
+    const viseme = lipSync ? visemeAt(lipSync.visemes, lipSync.currentTimeMs()) : 'sil';
+    if (mouthMorphs.current && hasMouthMorphs(mouthMorphs.current)) {
+      applyViseme(mouthMorphs.current, viseme, LIP_SYNC.BLEND);
+    } else if (lipSync) {
+      group.current.rotation.x += VISEME_MOUTH_OPENNESS[viseme] * LIP_SYNC.HEAD_NOD;
+    }
+
+    // Gesture cues play once, on top of the pose above
+    if (gesture) {
+      if (gestureStart.current?.sequence !== gesture.sequence) {
+        gestureStart.current = { sequence: gesture.sequence, time };
+      }
+      const progress = (time - gestureStart.current.time) / GESTURE_ANIMATION.DURATION;
+      if (progress < 1) {
+        applyGesture(group.current, gesture.gesture, progress);
+      }
+    }
   });
 
   // If model failed to load or there's an error, throw to trigger fallback
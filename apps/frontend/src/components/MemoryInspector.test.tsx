@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import MemoryInspector from './MemoryInspector';
+import { ContextManager } from '../services/contextManager';
+import { InMemoryMemoryStorage } from '../services/memoryStorage';
+
+describe('MemoryInspector', () => {
+  let manager: ContextManager;
+
+  const longTermMemory = () => manager['memory'].longTermMemory;
+
+  beforeEach(() => {
+    manager = new ContextManager(undefined, null);
+    longTermMemory().storeSignificantInteraction({
+      id: 'trip',
+      timestamp: new Date('2026-01-01T12:00:00Z'),
+      summary: 'Planning a trip to Kyoto',
+      impact: 0.7,
+      emotionalResonance: 0.6,
+      topics: ['kyoto'],
+    });
+    longTermMemory().updatePreference({
+      category: 'communication_style',
+      preference: 'prefers_brief_responses',
+      confidence: 0.3,
+      evidence: [],
+      lastUpdated: new Date(),
+    });
+    longTermMemory().updateRelationshipProgress({ trustLevel: 0.8 });
+    manager.updateUserProfile({
+      topicInterests: [{ topic: 'astronomy', interest: 0.9, expertise: 0.4, lastDiscussed: new Date() }],
+    });
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('should list what the avatar remembers', async () => {
+    render(<MemoryInspector isOpen onClose={() => {}} memory={manager} />);
+
+    expect(await screen.findByText('Planning a trip to Kyoto')).toBeInTheDocument();
+    expect(screen.getByText('prefers brief responses')).toBeInTheDocument();
+    expect(screen.getByText('80%')).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'Interests' })).toHaveTextContent('astronomy · 90% interested');
+    expect(screen.getByText('Explanations').nextSibling).toHaveTextContent('simple');
+  });
+
+  it('should edit, pin and delete memories in the memory system', async () => {
+    render(<MemoryInspector isOpen onClose={() => {}} memory={manager} />);
+    await screen.findByText('Planning a trip to Kyoto');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit prefers brief responses' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Edit prefers brief responses' }), {
+      target: { value: 'prefers detailed answers' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    expect(await screen.findByText('prefers detailed answers')).toBeInTheDocument();
+    expect(longTermMemory().learnedPreferences.map(pref => pref.preference)).toEqual(['prefers detailed answers']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pin prefers detailed answers' }));
+    await waitFor(() => expect(longTermMemory().learnedPreferences[0].pinned).toBe(true));
+    expect((await manager.getChatContextPayload('anything')).memories).toContain(
+      'communication_style: prefers detailed answers'
+    );
+
+    const conversations = screen.getByRole('list', { name: 'Remembered conversations' });
+    fireEvent.click(within(conversations).getByRole('button', { name: 'Delete Planning a trip to Kyoto' }));
+    expect(await screen.findByText('Nothing remembered yet')).toBeInTheDocument();
+    expect((await manager.getChatContextPayload('kyoto')).memories).not.toContain('Planning a trip to Kyoto');
+  });
+
+  it('should forget everything once confirmed', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<MemoryInspector isOpen onClose={() => {}} memory={manager} />);
+    await screen.findByText('Planning a trip to Kyoto');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Forget everything' }));
+
+    expect(await screen.findByText('No preferences learned yet')).toBeInTheDocument();
+    expect(longTermMemory().significantInteractions).toEqual([]);
+  });
+
+  it('should show changes that could not be stored', async () => {
+    const storage = new InMemoryMemoryStorage();
+    manager.destroy();
+    manager = new ContextManager(undefined, storage);
+    longTermMemory().updatePreference({
+      category: 'hobbies',
+      preference: 'enjoys astronomy',
+      confidence: 0.6,
+      evidence: [],
+      lastUpdated: new Date(),
+    });
+    vi.spyOn(storage, 'save').mockRejectedValue(new Error('Quota exceeded'));
+    vi.spyOn(storage, 'clear').mockRejectedValue(new Error('Storage is locked'));
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<MemoryInspector isOpen onClose={() => {}} memory={manager} />);
+    await screen.findByText('enjoys astronomy');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pin enjoys astronomy' }));
+    expect(await screen.findByRole('alert')).toHaveTextContent('Quota exceeded');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Forget everything' }));
+    await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent('Storage is locked'));
+    expect(screen.getByText('No preferences learned yet')).toBeInTheDocument();
+  });
+});
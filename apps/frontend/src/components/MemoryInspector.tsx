@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { getContextManager } from '../services/contextManagerClient';
+import type { ContextManager } from '../services/contextManager';
+import type { MemorySnapshot } from '../services/memorySystem';
+import './Settings.css';
+import './MemoryInspector.css';
+
+/**
+ * What the inspector reads and changes memory through
+ */
+export type MemoryInspectorSource = Pick<
+  ContextManager,
+  'getMemorySnapshot' | 'editInteraction' | 'deleteInteraction' | 'editPreference' | 'deletePreference' | 'wipeMemories'
+>;
+
+interface MemoryInspectorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Defaults to the context manager the chat uses */
+  memory?: MemoryInspectorSource;
+}
+
+// Categories and preferences are learned as snake_case
+const readable = (text: string): string => text.replace(/_/g, ' ');
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+// Names a memory for screen readers
+const shortened = (text: string): string => text.length > 40 ? `${text.slice(0, 40)}…` : text;
+const pinnedFirst = <T extends { pinned?: boolean }>(items: T[]): T[] =>
+  [...items].sort((a, b) => Number(b.pinned ?? false) - Number(a.pinned ?? false));
+
+/**
+ * One remembered thing, with its text editable in place
+ */
+const MemoryItem: React.FC<{
+  label: string;
+  text: string;
+  detail?: string;
+  pinned: boolean;
+  onSave: (text: string) => void;
+  onTogglePin: () => void;
+  onDelete: () => void;
+}> = ({ label, text, detail, pinned, onSave, onTogglePin, onDelete }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft !== null) {
+    return (
+      <li className="memory-item memory-item--editing">
+        <textarea aria-label={`Edit ${label}`} value={draft} onChange={event => setDraft(event.target.value)} />
+        <div className="memory-item-actions">
+          <button
+            type="button"
+            onClick={() => {
+              onSave(draft.trim());
+              setDraft(null);
+            }}
+            disabled={draft.trim() === ''}
+          >
+            Save
+          </button>
+          <button type="button" onClick={() => setDraft(null)}>Cancel</button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li className={`memory-item${pinned ? ' memory-item--pinned' : ''}`}>
+      <div className="memory-item-text">
+        <span>{text}</span>
+        {detail && <span className="memory-item-detail">{detail}</span>}
+      </div>
+      <div className="memory-item-actions">
+        <button type="button" aria-pressed={pinned} aria-label={`${pinned ? 'Unpin' : 'Pin'} ${label}`} onClick={onTogglePin}>
+          {pinned ? 'Unpin' : 'Pin'}
+        </button>
+        <button type="button" aria-label={`Edit ${label}`} onClick={() => setDraft(text)}>Edit</button>
+        <button type="button" aria-label={`Delete ${label}`} onClick={onDelete}>Delete</button>
+      </div>
+    </li>
+  );
+};
+
+/**
+ * "What the avatar remembers": the significant interactions, learned
+ * preferences and relationship progress kept about the user, and the
+ * profile of how they like to talk. Interactions and preferences can be
+ * edited, pinned or deleted, or everything wiped; every change goes
+ * straight to the memory system, so the avatar stops using a deleted
+ * memory right away. Opened from Settings.
+ */
+const MemoryInspector: React.FC<MemoryInspectorProps> = ({ isOpen, onClose, memory = getContextManager() }) => {
+  const [snapshot, setSnapshot] = useState<MemorySnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setSnapshot(await memory.getMemorySnapshot());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    }
+  }, [memory]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      void reload();
+    }
+  }, [isOpen, reload]);
+
+  // Shows memory as it is after the change, whether or not it went through
+  const apply = useCallback(async (change: () => Promise<unknown>) => {
+    try {
+      setError(null);
+      await change();
+    } catch (changeError) {
+      setError(changeError instanceof Error ? changeError.message : String(changeError));
+    }
+    await reload();
+  }, [reload]);
+
+  const handleWipe = useCallback(() => {
+    if (window.confirm('Forget everything the avatar remembers about you? This cannot be undone.')) {
+      void apply(() => memory.wipeMemories());
+    }
+  }, [apply, memory]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  }, [onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div
+        className="settings-modal memory-inspector"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="memory-inspector-title"
+        tabIndex={-1}
+      >
+        <div className="settings-header">
+          <h2 id="memory-inspector-title">What the avatar remembers</h2>
+          <button onClick={onClose} className="settings-close" aria-label="Close memories">
+            ×
+          </button>
+        </div>
+
+        <div className="settings-content">
+          {error && <p className="memory-error" role="alert">{error}</p>}
+          {!snapshot && !error && <p className="memory-empty">Loading…</p>}
+
+          {snapshot && (
+            <>
+              <section className="settings-section">
+                <h3>Relationship</h3>
+                <dl className="memory-relationship">
+                  <div><dt>Trust</dt><dd>{percent(snapshot.relationship.trustLevel)}</dd></div>
+                  <div><dt>Closeness</dt><dd>{percent(snapshot.relationship.intimacyLevel)}</dd></div>
+                </dl>
+                {snapshot.relationship.sharedExperiences.length > 0 && (
+                  <ul className="memory-shared">
+                    {snapshot.relationship.sharedExperiences.map(experience => <li key={experience}>{experience}</li>)}
+                  </ul>
+                )}
+              </section>
+
+              <section className="settings-section">
+                <h3>About you</h3>
+                <dl className="memory-profile">
+                  <div><dt>Answers</dt><dd>{snapshot.userProfile.preferences.preferredResponseLength}</dd></div>
+                  <div><dt>Depth</dt><dd>{snapshot.userProfile.preferences.topicDepth}</dd></div>
+                  <div><dt>Explanations</dt><dd>{snapshot.userProfile.preferences.explanationStyle}</dd></div>
+                  <div><dt>Formality</dt><dd>{percent(snapshot.userProfile.preferences.formalityLevel)}</dd></div>
+                  <div><dt>Directness</dt><dd>{percent(snapshot.userProfile.communicationStyle.directness)}</dd></div>
+                  <div><dt>Questions</dt><dd>{snapshot.userProfile.communicationStyle.questioningStyle}</dd></div>
+                </dl>
+                {snapshot.userProfile.topicInterests.length > 0 && (
+                  <ul className="memory-shared" aria-label="Interests">
+                    {snapshot.userProfile.topicInterests.map(interest => (
+                      <li key={interest.topic}>{readable(interest.topic)} · {percent(interest.interest)} interested</li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              <section className="settings-section">
+                <h3>Conversations</h3>
+                {snapshot.interactions.length === 0 ? (
+                  <p className="memory-empty">Nothing remembered yet</p>
+                ) : (
+                  <ul className="memory-list" aria-label="Remembered conversations">
+                    {pinnedFirst(snapshot.interactions).map(interaction => (
+                      <MemoryItem
+                        key={interaction.id}
+                        label={shortened(interaction.summary)}
+                        text={interaction.summary}
+                        detail={[new Date(interaction.timestamp).toLocaleDateString(), ...interaction.topics].join(' · ')}
+                        pinned={interaction.pinned ?? false}
+                        onSave={summary => void apply(() => memory.editInteraction(interaction.id, { summary }))}
+                        onTogglePin={() => void apply(() =>
+                          memory.editInteraction(interaction.id, { pinned: !interaction.pinned }))}
+                        onDelete={() => void apply(() => memory.deleteInteraction(interaction.id))}
+                      />
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              <section className="settings-section">
+                <h3>Preferences</h3>
+                {snapshot.preferences.length === 0 ? (
+                  <p className="memory-empty">No preferences learned yet</p>
+                ) : (
+                  <ul className="memory-list" aria-label="Learned preferences">
+                    {pinnedFirst(snapshot.preferences).map(preference => {
+                      const ref = { category: preference.category, preference: preference.preference };
+                      return (
+                        <MemoryItem
+                          key={`${preference.category}:${preference.preference}`}
+                          label={shortened(readable(preference.preference))}
+                          text={readable(preference.preference)}
+                          detail={`${readable(preference.category)} · ${percent(preference.confidence)} sure`}
+                          pinned={preference.pinned ?? false}
+                          onSave={text => void apply(() => memory.editPreference(ref, { preference: text }))}
+                          onTogglePin={() => void apply(() =>
+                            memory.editPreference(ref, { pinned: !preference.pinned }))}
+                          onDelete={() => void apply(() => memory.deletePreference(ref))}
+                        />
+                      );
+                    })}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+
+        <div className="settings-footer">
+          <button onClick={handleWipe} className="settings-button settings-button--secondary memory-wipe">
+            Forget everything
+          </button>
+          <div className="settings-actions">
+            <button onClick={onClose} className="settings-button settings-button--primary">
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryInspector;
@@ -1,48 +1,32 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import type { UserSettings } from '../types/common';
+import { DEFAULT_USER_SETTINGS, loadUserSettings, saveUserSettings } from '../config/userSettings';
 import './Settings.css';
 
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
   onSettingsChange: (settings: UserSettings) => void;
+  /** Shows what the avatar remembers; without it the Memory section is left out */
+  onOpenMemory?: () => void;
 }
 
-const defaultSettings: UserSettings = {
-  theme: 'auto',
-  voiceEnabled: true,
-  voiceSpeed: 1,
-  voiceVolume: 0.8,
-  animationSpeed: 1,
-  reducedMotion: false,
-  fontSize: 'medium',
-  highContrast: false,
-  autoScroll: true,
-  soundEffects: true,
-  notifications: true,
-};
-
-const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onSettingsChange }) => {
-  const [settings, setSettings] = useState<UserSettings>(defaultSettings);
+const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onSettingsChange, onOpenMemory }) => {
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
   const [hasChanges, setHasChanges] = useState(false);
 
-  // Load settings from localStorage on mount
+  // Load settings from localStorage whenever the panel opens; the avatar may have changed them
   useEffect(() => {
-    const savedSettings = localStorage.getItem('3davatar-settings');
-    if (savedSettings) {
-      try {
-        const parsed = JSON.parse(savedSettings);
-        setSettings({ ...defaultSettings, ...parsed });
-      } catch (error) {
-        console.error('Error loading settings:', error);
-      }
+    if (isOpen) {
+      setSettings(loadUserSettings());
+      setHasChanges(false);
     }
-  }, []);
+  }, [isOpen]);
 
   // Save settings to localStorage and notify parent
   const saveSettings = useCallback((newSettings: UserSettings) => {
     setSettings(newSettings);
-    localStorage.setItem('3davatar-settings', JSON.stringify(newSettings));
+    saveUserSettings(newSettings);
     onSettingsChange(newSettings);
     setHasChanges(false);
   }, [onSettingsChange]);
@@ -61,7 +45,7 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onSettingsChange }
 
   // Handle reset to defaults
   const handleReset = useCallback(() => {
-    setSettings(defaultSettings);
+    setSettings(DEFAULT_USER_SETTINGS);
     setHasChanges(true);
   }, []);
 
@@ -255,6 +239,22 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onSettingsChange }
               </label>
             </div>
           </section>
+
+          {/* Memory Settings */}
+          {onOpenMemory && (
+            <section className="settings-section">
+              <h3>Memory</h3>
+              <div className="setting-item">
+                <span>What the avatar remembers about you</span>
+                <button 
+                  onClick={onOpenMemory}
+                  className="settings-button settings-button--secondary"
+                >
+                  View Memories
+                </button>
+              </div>
+            </section>
+          )}
         </div>
 
         <div className="settings-footer">
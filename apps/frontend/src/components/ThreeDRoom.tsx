@@ -25,12 +25,25 @@ import {
   ERROR_MESSAGES,
   CONSOLE_MESSAGES,
 } from '../config/roomConstants';
+import { useAvatarEventState } from '../hooks/useAvatarEvents';
+import type { AvatarEventStore } from '../services/avatarEventStore';
+import type { AvatarGestureCue } from '../types/avatarEvents';
+import type { EmotionState } from '../types/context';
+import type { LipSyncTrack } from '../types/speech';
+import type { MovementIntensity } from '../hooks/useAvatar';
 
 export interface ThreeDRoomProps {
   isAvatarSpeaking?: boolean;
   userIsTyping?: boolean;
   lastMessageLength?: number;
   timeSinceLastMessage?: number;
+  emotion?: EmotionState;
+  gesture?: AvatarGestureCue | null;
+  lipSync?: LipSyncTrack | null;
+  /** How lively the avatar moves (see useAvatar) */
+  movementIntensity?: MovementIntensity;
+  /** Drives the avatar from server events; overrides the avatar props above */
+  avatarStore?: AvatarEventStore;
   useRoomModels?: boolean; // New prop to enable/disable 3D models
   roomModelUrl?: string;   // URL to a complete room model
   furnitureModels?: Array<{
@@ -47,12 +60,20 @@ const GeometricRoom = ({
   isAvatarSpeaking = false, 
   userIsTyping = false, 
   lastMessageLength = 0, 
-  timeSinceLastMessage = 0 
+  timeSinceLastMessage = 0,
+  emotion = 'neutral',
+  gesture = null,
+  lipSync = null,
+  movementIntensity = AVATAR_CONFIG.MOVEMENT_INTENSITY
 }: { 
   isAvatarSpeaking?: boolean; 
   userIsTyping?: boolean; 
   lastMessageLength?: number; 
   timeSinceLastMessage?: number; 
+  emotion?: EmotionState;
+  gesture?: AvatarGestureCue | null;
+  lipSync?: LipSyncTrack | null;
+  movementIntensity?: MovementIntensity;
 }) => (
   <>
     {/* Floor - Purple carpet */}
@@ -218,7 +239,10 @@ const GeometricRoom = ({
       userIsTyping={userIsTyping}
       lastMessageLength={lastMessageLength}
       timeSinceLastMessage={timeSinceLastMessage}
-      movementIntensity={AVATAR_CONFIG.MOVEMENT_INTENSITY}
+      emotion={emotion}
+      gesture={gesture}
+      lipSync={lipSync}
+      movementIntensity={movementIntensity}
     />
   </>
 );
@@ -229,6 +253,10 @@ const ModelRoom = ({
   userIsTyping = false, 
   lastMessageLength = 0, 
   timeSinceLastMessage = 0,
+  emotion = 'neutral',
+  gesture = null,
+  lipSync = null,
+  movementIntensity = AVATAR_CONFIG.MOVEMENT_INTENSITY,
   roomModelUrl,
   furnitureModels = []
 }: { 
@@ -236,6 +264,10 @@ const ModelRoom = ({
   userIsTyping?: boolean; 
   lastMessageLength?: number; 
   timeSinceLastMessage?: number; 
+  emotion?: EmotionState;
+  gesture?: AvatarGestureCue | null;
+  lipSync?: LipSyncTrack | null;
+  movementIntensity?: MovementIntensity;
   roomModelUrl?: string;
   furnitureModels?: Array<{
     url: string;
@@ -275,6 +307,9 @@ const ModelRoom = ({
         userIsTyping={userIsTyping}
         lastMessageLength={lastMessageLength}
         timeSinceLastMessage={timeSinceLastMessage}
+        emotion={emotion}
+        gesture={gesture}
+        lipSync={lipSync}
       />
     );
   }
@@ -337,21 +372,38 @@ const ModelRoom = ({
         userIsTyping={userIsTyping}
         lastMessageLength={lastMessageLength}
         timeSinceLastMessage={timeSinceLastMessage}
-        movementIntensity={AVATAR_CONFIG.MOVEMENT_INTENSITY}
+        emotion={emotion}
+        gesture={gesture}
+        lipSync={lipSync}
+        movementIntensity={movementIntensity}
       />
     </>
   );
 };
 
 const ThreeDRoom: React.FC<ThreeDRoomProps> = ({ 
-  isAvatarSpeaking = false,
-  userIsTyping = false,
-  lastMessageLength = 0,
+  isAvatarSpeaking: isAvatarSpeakingProp = false,
+  userIsTyping: userIsTypingProp = false,
+  lastMessageLength: lastMessageLengthProp = 0,
   timeSinceLastMessage = 0,
+  emotion: emotionProp = 'neutral',
+  gesture: gestureProp = null,
+  lipSync: lipSyncProp = null,
+  movementIntensity = AVATAR_CONFIG.MOVEMENT_INTENSITY,
+  avatarStore,
   useRoomModels = false,
   roomModelUrl,
   furnitureModels = []
 }) => {
+  // The avatar speaks while a response streams in as well as while it is read aloud
+  const avatarState = useAvatarEventState(avatarStore);
+  const isAvatarSpeaking = avatarState ? avatarState.isResponding || avatarState.isSpeaking : isAvatarSpeakingProp;
+  const userIsTyping = avatarState ? avatarState.userIsTyping : userIsTypingProp;
+  const lastMessageLength = avatarState ? avatarState.lastMessageLength : lastMessageLengthProp;
+  const emotion = avatarState ? avatarState.emotion : emotionProp;
+  const gesture = avatarState ? avatarState.gesture : gestureProp;
+  const lipSync = avatarState ? avatarState.lipSync : lipSyncProp;
+
   return (
     <div style={{ width: '100vw', height: '100vh', background: UI_CONFIG.BACKGROUND_COLOR }}>
       <Canvas shadows camera={{ 
@@ -364,6 +416,10 @@ const ThreeDRoom: React.FC<ThreeDRoomProps> = ({
             userIsTyping={userIsTyping}
             lastMessageLength={lastMessageLength}
             timeSinceLastMessage={timeSinceLastMessage}
+            emotion={emotion}
+            gesture={gesture}
+            lipSync={lipSync}
+            movementIntensity={movementIntensity}
             roomModelUrl={roomModelUrl}
             furnitureModels={furnitureModels}
           />
@@ -373,6 +429,10 @@ const ThreeDRoom: React.FC<ThreeDRoomProps> = ({
             userIsTyping={userIsTyping}
             lastMessageLength={lastMessageLength}
             timeSinceLastMessage={timeSinceLastMessage}
+            emotion={emotion}
+            gesture={gesture}
+            lipSync={lipSync}
+            movementIntensity={movementIntensity}
           />
         )}
         <OrbitControls 
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import UsageMeter from './UsageMeter';
+import { apiService } from '../config/api';
+
+vi.mock('../config/api', () => ({
+  apiService: { getUsage: vi.fn() },
+}));
+
+const totals = (totalTokens: number, costUsd: number) => ({
+  requests: 1,
+  promptTokens: totalTokens,
+  completionTokens: 0,
+  totalTokens,
+  costUsd,
+});
+
+describe('UsageMeter', () => {
+  beforeEach(() => {
+    vi.mocked(apiService.getUsage).mockReset();
+  });
+
+  it('should show the session usage and the budget spent', async () => {
+    vi.mocked(apiService.getUsage).mockResolvedValue({
+      userId: 'sam',
+      user: totals(20000, 1.5),
+      session: totals(12400, 0.004),
+      budget: { limitUsd: 2, period: 'month', spentUsd: 1.5, remainingUsd: 0.5, resetsAt: 1 },
+    });
+
+    render(<UsageMeter />);
+
+    expect(await screen.findByText('12.4k tokens · <$0.01')).toBeInTheDocument();
+    expect(screen.getByRole('meter')).toHaveAttribute('aria-valuetext', '$1.50 of $2.00 this month');
+  });
+
+  it('should fetch again when the refresh key changes', async () => {
+    vi.mocked(apiService.getUsage).mockResolvedValue({
+      userId: 'sam',
+      user: totals(500, 0),
+      session: totals(500, 0),
+      budget: null,
+    });
+
+    const { rerender } = render(<UsageMeter refreshKey={1} />);
+    expect(await screen.findByText('500 tokens · $0.00')).toBeInTheDocument();
+    expect(screen.queryByRole('meter')).not.toBeInTheDocument();
+
+    rerender(<UsageMeter refreshKey={2} />);
+    await waitFor(() => expect(apiService.getUsage).toHaveBeenCalledTimes(2));
+  });
+
+  it('should show nothing when the server has no usage to report', async () => {
+    vi.mocked(apiService.getUsage).mockRejectedValue(new Error('Not found'));
+
+    const { container } = render(<UsageMeter />);
+
+    await waitFor(() => expect(apiService.getUsage).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import type { UsageReport } from '@contracts';
+import { apiService } from '../config/api';
+import './UsageMeter.css';
+
+interface UsageMeterProps {
+  /** Usage is fetched again whenever this changes, e.g. the number of messages */
+  refreshKey?: unknown;
+}
+
+// e.g. "850", "12.4k" or "1.2M"
+const formatTokens = (tokens: number): string => {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+};
+
+// Fractions of a cent still show as spent
+const formatCost = (usd: number): string => (usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`);
+
+/**
+ * Tokens and estimated cost of this session, and how much of the user's
+ * budget is spent. Shows nothing when the server doesn't report usage.
+ */
+const UsageMeter: React.FC<UsageMeterProps> = ({ refreshKey }) => {
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const report = await apiService.getUsage();
+        if (!cancelled) setUsage(report);
+      } catch {
+        // Usage accounting is optional on the server
+        if (!cancelled) setUsage(null);
+      }
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (!usage) return null;
+
+  const { session, budget } = usage;
+  const spentRatio = budget && budget.limitUsd > 0 ? Math.min(1, budget.spentUsd / budget.limitUsd) : 1;
+
+  return (
+    <div className="usage-meter" title={`${session.requests} requests this session`}>
+      <span className="usage-tokens">
+        {formatTokens(session.totalTokens)} tokens · {formatCost(session.costUsd)}
+      </span>
+      {budget && (
+        <div
+          className={`usage-budget ${spentRatio >= 0.9 ? 'nearly-spent' : ''}`.trim()}
+          role="meter"
+          aria-label={`Usage budget this ${budget.period}`}
+          aria-valuemin={0}
+          aria-valuemax={budget.limitUsd}
+          aria-valuenow={Math.min(budget.spentUsd, budget.limitUsd)}
+          aria-valuetext={`${formatCost(budget.spentUsd)} of ${formatCost(budget.limitUsd)} this ${budget.period}`}
+        >
+          <div className="usage-budget-fill" style={{ width: `${spentRatio * 100}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsageMeter;
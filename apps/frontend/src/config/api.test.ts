@@ -0,0 +1,333 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ApiService, ApiError, RateLimitError } from './api';
+import { createConversationId } from '../types/common';
+import { DEFAULT_AVATAR_PERSONALITY } from './avatarPersonality';
+
+// Build a streaming Response from raw SSE chunks
+const createStreamResponse = (chunks: string[], status = 200) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+};
+
+describe('ApiService', () => {
+  const fetchMock = vi.fn();
+  let service: ApiService;
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockReset();
+    localStorage.clear();
+    service = new ApiService('http://test.local');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('streamChatMessage', () => {
+    it('should report tokens as they arrive and resolve with the final response', async () => {
+      fetchMock.mockResolvedValue(createStreamResponse([
+        'event: token\ndata: {"content":"Hello"}\n\n',
+        // An event split across network chunks
+        'event: token\ndata: {"content":" wor',
+        'ld"}\n\nevent: done\ndata: {"response":"Hello world","timestamp":"2025-01-01T00:00:00.000Z"}\n\n',
+      ]));
+
+      const onToken = vi.fn();
+      const response = await service.streamChatMessage('Hi', { onToken });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://test.local/api/chat/stream',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ message: 'Hi' }) })
+      );
+      expect(onToken).toHaveBeenNthCalledWith(1, 'Hello', 'Hello');
+      expect(onToken).toHaveBeenNthCalledWith(2, ' world', 'Hello world');
+      expect(response).toEqual({ response: 'Hello world', timestamp: '2025-01-01T00:00:00.000Z' });
+    });
+
+    it('should throw an ApiError when the server reports a stream error', async () => {
+      fetchMock.mockResolvedValue(createStreamResponse([
+        'event: token\ndata: {"content":"Par"}\n\n',
+        'event: error\ndata: {"error":"Failed to process chat request","details":"boom"}\n\n',
+      ]));
+
+      await expect(service.streamChatMessage('Hi')).rejects.toBeInstanceOf(ApiError);
+    });
+
+    it('should reject when the stream closes without a done event', async () => {
+      fetchMock.mockResolvedValue(createStreamResponse([
+        'event: token\ndata: {"content":"Par"}\n\n',
+      ]));
+
+      await expect(service.streamChatMessage('Hi')).rejects.toThrow('Connection closed');
+    });
+
+    it('should stop reading the stream once the caller aborts it', async () => {
+      fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+        const encoder = new TextEncoder();
+        // Never finishes by itself, like a long response; fetch fails the body on abort
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(encoder.encode('event: token\ndata: {"content":"Once"}\n\n'));
+            init.signal?.addEventListener('abort', () => controller.error(new TypeError('network error')));
+          },
+        });
+        return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+      });
+
+      const controller = new AbortController();
+      const response = service.streamChatMessage('Hi', { onToken: () => controller.abort() }, {
+        signal: controller.signal,
+      });
+
+      await expect(response).rejects.toThrow('Request was cancelled');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject empty messages without calling the server', async () => {
+      await expect(service.streamChatMessage('   ')).rejects.toThrow('Message cannot be empty');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  describe('conversations', () => {
+    it('should send the conversation id with chat messages', async () => {
+      fetchMock.mockResolvedValue(createStreamResponse([
+        'event: done\ndata: {"response":"ok","timestamp":"2025-01-01T00:00:00.000Z"}\n\n',
+      ]));
+
+      await service.streamChatMessage('Hi', {}, { conversationId: createConversationId('conv-1') });
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(JSON.parse(init.body)).toEqual({ message: 'Hi', conversationId: 'conv-1' });
+    });
+
+    it('should send the personality with chat messages', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ response: 'ok', timestamp: '2025-01-01T00:00:00.000Z' }));
+
+      await service.sendChatMessage('Hi', {
+        personalityId: 'default',
+        personality: DEFAULT_AVATAR_PERSONALITY,
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://test.local/api/chat');
+      expect(JSON.parse(init.body)).toEqual({
+        message: 'Hi',
+        personalityId: 'default',
+        personality: DEFAULT_AVATAR_PERSONALITY,
+      });
+    });
+
+    it('should send recent turns and the context payload with chat messages', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ response: 'ok', timestamp: '2025-01-01T00:00:00.000Z' }));
+
+      const history = [{ role: 'user' as const, content: 'My name is Sam' }];
+      const context = { activeTopics: ['names'], userEmotion: 'happy', memories: [] };
+      await service.sendChatMessage('Who am I?', { history, context });
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(JSON.parse(init.body)).toEqual({ message: 'Who am I?', history, context });
+    });
+
+    it('should send the same idempotency key with every retry of a message', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(jsonResponse({ response: 'ok', timestamp: '2025-01-01T00:00:00.000Z' }));
+
+      await service.sendChatMessage('Hi', { retries: 1, retryDelay: 0 });
+
+      const [first, retry] = fetchMock.mock.calls.map(([, init]) => init.headers);
+      expect(first['Idempotency-Key']).toEqual(expect.any(String));
+      expect(retry['Idempotency-Key']).toBe(first['Idempotency-Key']);
+      expect(retry['Content-Type']).toBe('application/json');
+
+      // Each message gets its own key unless the caller names one
+      fetchMock
+        .mockResolvedValueOnce(createStreamResponse([
+          'event: done\ndata: {"response":"ok","timestamp":"2025-01-01T00:00:00.000Z"}\n\n',
+        ]))
+        .mockResolvedValueOnce(jsonResponse({ response: 'ok', timestamp: '2025-01-01T00:00:00.000Z' }));
+      await service.streamChatMessage('Hi', {}, { idempotencyKey: 'message-1' });
+      await service.sendChatMessage('Hi');
+      expect(fetchMock.mock.calls[2][1].headers['Idempotency-Key']).toBe('message-1');
+      expect(fetchMock.mock.calls[3][1].headers['Idempotency-Key']).not.toBe(first['Idempotency-Key']);
+      warn.mockRestore();
+    });
+
+    it('should cancel a chat request by its idempotency key', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+      await service.cancelChatRequest('message-1');
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://test.local/api/chat/requests/message-1');
+      expect(init.method).toBe('DELETE');
+    });
+
+    it('should request history for a conversation', async () => {
+      const messages = [{ id: '1', content: 'Hello', sender: 'user', timestamp: 1 }];
+      fetchMock.mockResolvedValue(jsonResponse(messages));
+
+      const history = await service.getChatHistory(createConversationId('conv 1'));
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://test.local/api/chat/history?conversationId=conv%201');
+      expect(history).toEqual(messages);
+    });
+
+    it('should create conversations seeded with messages', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({
+        id: 'conv-2',
+        title: 'Hello',
+        createdAt: 1,
+        updatedAt: 1,
+        messages: [{ id: 'm-1', content: 'Hello', sender: 'user', timestamp: 1 }],
+      }, 201));
+
+      const conversation = await service.createConversation({
+        messages: [{ content: 'Hello', sender: 'user' }],
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://test.local/api/conversations');
+      expect(init.method).toBe('POST');
+      expect(conversation.id).toBe('conv-2');
+    });
+
+    it('should surface 429s as RateLimitErrors with the retry delay', async () => {
+      fetchMock.mockResolvedValue(new Response(
+        JSON.stringify({ error: 'Daily token quota exceeded', reason: 'quota', retryAfter: 3600 }),
+        { status: 429, headers: { 'Content-Type': 'application/json', 'Retry-After': '3600' } }
+      ));
+
+      const error = await service.sendChatMessage('Hi').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ status: 429, retryAfterSeconds: 3600, reason: 'quota' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should tell a spent usage budget from other 429s', async () => {
+      fetchMock.mockResolvedValue(new Response(
+        JSON.stringify({ error: 'Usage budget exceeded', reason: 'budget', retryAfter: 86400 }),
+        { status: 429, headers: { 'Content-Type': 'application/json', 'Retry-After': '86400' } }
+      ));
+
+      const error = await service.sendChatMessage('Hi').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toMatchObject({ retryAfterSeconds: 86400, reason: 'budget' });
+    });
+
+    it('should surface missing conversations as 404 ApiErrors', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ error: 'Conversation not found' }, 404));
+
+      await expect(service.getConversation(createConversationId('missing'))).rejects.toMatchObject({
+        name: 'ApiError',
+        status: 404,
+      });
+    });
+  });
+
+  describe('response validation', () => {
+    it('should reject responses that break the API contract', async () => {
+      fetchMock.mockResolvedValue(jsonResponse([{ id: 'conv-1', title: 'Hi', messageCount: '2' }]));
+
+      const error = await service.listConversations().catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.message).toContain('Invalid response from server');
+      expect(error.data).toEqual([
+        '[0].createdAt is required',
+        '[0].updatedAt is required',
+        '[0].messageCount must be a number',
+      ]);
+    });
+
+    it('should reject a done event that is not a chat response', async () => {
+      fetchMock.mockResolvedValue(createStreamResponse([
+        'event: done\ndata: {"response":"ok","actions":[{"type":"room.load_preset","preset":"Moon"}]}\n\n',
+      ]));
+
+      await expect(service.streamChatMessage('Hi')).rejects.toThrow(/Invalid response from server: timestamp is required; actions\[0\]\.preset must be one of/);
+    });
+
+    it('should check the health endpoint', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ status: 'OK', message: '3DAvatar Backend is running' }));
+
+      await expect(service.healthCheck()).resolves.toEqual({ status: 'OK', message: '3DAvatar Backend is running' });
+      expect(fetchMock.mock.calls[0][0]).toBe('http://test.local/health');
+    });
+  });
+
+  describe('usage', () => {
+    it('should get the usage report of the caller', async () => {
+      const totals = { requests: 2, promptTokens: 100, completionTokens: 40, totalTokens: 140, costUsd: 0.001 };
+      const report = {
+        userId: 'sam',
+        user: totals,
+        session: totals,
+        budget: { limitUsd: 5, period: 'month', spentUsd: 0.001, remainingUsd: 4.999, resetsAt: 1 },
+      };
+      fetchMock.mockResolvedValue(jsonResponse(report));
+
+      await expect(service.getUsage()).resolves.toEqual(report);
+      expect(fetchMock.mock.calls[0][0]).toBe('http://test.local/api/usage');
+    });
+  });
+
+  describe('authentication', () => {
+    const loginResponse = (guest: boolean) => jsonResponse({
+      token: guest ? 'guest-token' : 'sam-token',
+      expiresAt: Date.now() + 60000,
+      sessionId: 'session-1',
+      user: { id: guest ? 'guest-1' : 'sam', name: guest ? 'Guest' : 'sam', guest },
+    });
+
+    it('should start a guest session when the server asks for authentication', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ error: 'Authentication required' }, 401))
+        .mockResolvedValueOnce(loginResponse(true))
+        .mockResolvedValueOnce(jsonResponse([]));
+
+      await expect(service.listConversations()).resolves.toEqual([]);
+
+      expect(fetchMock.mock.calls[1][0]).toBe('http://test.local/api/auth/login');
+      expect(fetchMock.mock.calls[2][1].headers).toMatchObject({ Authorization: 'Bearer guest-token' });
+      expect(service.getSession()).toMatchObject({ userId: 'guest-1', guest: true });
+
+      // Later services pick the stored session up
+      expect(new ApiService('http://test.local').getSession()?.token).toBe('guest-token');
+    });
+
+    it("should not replace a named user's expired session with a guest", async () => {
+      fetchMock
+        .mockResolvedValueOnce(loginResponse(false))
+        .mockResolvedValueOnce(jsonResponse({ error: 'Invalid or expired token' }, 401));
+
+      await service.login({ username: 'sam', password: 'secret' });
+
+      await expect(service.listConversations()).rejects.toMatchObject({ status: 401 });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(service.getSession()?.userId).toBe('sam');
+    });
+  });
+});
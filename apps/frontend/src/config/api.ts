@@ -1,4 +1,47 @@
 // API Configuration and Service
+import type { ZodType } from 'zod/v4';
+import {
+  ChatActivityReportSchema,
+  ChatResponseSchema,
+  ChatTokenEventSchema,
+  ConversationSchema,
+  ConversationSummarySchema,
+  ErrorGroupSchema,
+  ErrorReportBatchResultSchema,
+  FeedbackAnalyticsSchema,
+  FeedbackBatchResultSchema,
+  FeedbackBenchmarksSchema,
+  FeedbackRecommendationsSchema,
+  ErrorResponseSchema,
+  HealthResponseSchema,
+  LoginResponseSchema,
+  SpeechTranscriptionSchema,
+  StoredMessageSchema,
+  SynthesizedSpeechSchema,
+  UsageReportSchema,
+  ValidationStatsSchema,
+  validateContract,
+} from '@contracts';
+import type {
+  ChatActivityReport,
+  ClientAction,
+  ErrorGroup,
+  ErrorReport,
+  ErrorReportBatchResult,
+  FeedbackAnalytics,
+  FeedbackBatch,
+  FeedbackBatchResult,
+  FeedbackBenchmarks,
+  FeedbackRecommendations,
+  HealthResponse,
+  LoginResponse,
+  UsageReport,
+  ValidationStats,
+} from '@contracts';
+import { createSessionId, createUserId } from '../types/common';
+import type { ConversationId, SessionId, UserId } from '../types/common';
+import type { AvatarPersonality, ConversationGuidelines } from '../types/context';
+import type { SpeechSynthesisOptions, SpeechTranscription, SynthesizedSpeech } from '../types/speech';
 
 /**
  * Custom error types for better error handling
@@ -22,6 +65,31 @@ export class ApiError extends Error {
   }
 }
 
+export type RateLimitReason = 'rate_limit' | 'quota' | 'budget';
+
+const RATE_LIMIT_REASONS: readonly RateLimitReason[] = ['rate_limit', 'quota', 'budget'];
+
+/**
+ * 429 from the server: too many requests, the daily quota is used up,
+ * or the user's usage budget is spent
+ */
+export class RateLimitError extends ApiError {
+  public retryAfterSeconds: number;
+  public reason: RateLimitReason;
+
+  constructor(
+    message: string,
+    retryAfterSeconds: number,
+    reason: RateLimitReason = 'rate_limit',
+    data?: unknown
+  ) {
+    super(message, 429, 'Too Many Requests', data);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.reason = reason;
+  }
+}
+
 export class NetworkError extends Error {
   public originalError?: Error;
 
@@ -59,9 +127,84 @@ export interface ChatMessage {
   sender: 'user' | 'assistant';
 }
 
+/** Earlier turn of the conversation, sent so the model remembers it */
+export interface ChatHistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** Compact context built by ContextManager for the next response */
+export interface ChatContextPayload {
+  activeTopics: string[];
+  userEmotion: string;
+  /** Relevant memories, most relevant first */
+  memories: string[];
+}
+
 export interface ChatResponse {
   response: string;
   timestamp: string;
+  conversationId?: ConversationId;
+  /** Actions the avatar took on the app, for clientActionDispatcher */
+  actions?: ClientAction[];
+}
+
+/**
+ * Conversation API types
+ */
+export interface ConversationSummary {
+  id: ConversationId;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+export interface Conversation {
+  id: ConversationId;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+}
+
+export interface NewConversationMessage {
+  content: string;
+  sender: 'user' | 'assistant';
+  id?: string;
+  timestamp?: number;
+}
+
+export interface CreateConversationRequest {
+  title?: string;
+  messages?: NewConversationMessage[];
+}
+
+/**
+ * Auth API types
+ */
+export interface LoginCredentials {
+  username?: string;
+  password?: string;
+}
+
+export interface AuthSession {
+  token: string;
+  /** Milliseconds since epoch */
+  expiresAt: number;
+  userId: UserId;
+  sessionId: SessionId;
+  name: string;
+  /** Guest accounts are created on demand and replaced when they expire */
+  guest: boolean;
+}
+
+/**
+ * Callbacks for streamed chat responses
+ */
+export interface ChatStreamHandlers {
+  /** Called for every token with the text accumulated so far */
+  onToken?: (token: string, fullText: string) => void;
 }
 
 /**
@@ -84,11 +227,145 @@ interface RequestOptions {
   signal?: AbortSignal;
 }
 
+/**
+ * Chat request options
+ */
+interface ChatRequestOptions extends RequestOptions {
+  /** Store the exchange in this server-side conversation */
+  conversationId?: ConversationId;
+  /** Personality preset the server composes its system prompt from */
+  personalityId?: string;
+  /** Inline personality, merged over the preset on the server */
+  personality?: AvatarPersonality;
+  guidelines?: ConversationGuidelines;
+  /** Recent turns, oldest first; the server trims them to the model's context window */
+  history?: ChatHistoryTurn[];
+  context?: ChatContextPayload;
+  /**
+   * Sent as Idempotency-Key, so the server answers retries of the message with
+   * the response it already generated. A fresh key per call when omitted.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Time range of the admin analytics, in milliseconds since epoch; the
+ * server defaults to the 30 days until now
+ */
+export interface AnalyticsRange {
+  since?: number;
+  until?: number;
+}
+
+// Query string of the defined parameters, e.g. "?since=1&limit=10", or "" without any
+const toQuery = (params: Record<string, number | undefined>): string => {
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(name, String(value));
+  }
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+// randomUUID needs a secure context; plain http on a LAN address falls back
+const createIdempotencyKey = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Split chat options into the JSON request body, headers and fetch options
+ */
+const buildChatRequest = (message: string, options: ChatRequestOptions) => {
+  const {
+    conversationId,
+    personalityId,
+    personality,
+    guidelines,
+    history,
+    context,
+    idempotencyKey = createIdempotencyKey(),
+    ...requestOptions
+  } = options;
+
+  return {
+    // The same key goes with every retry of this call
+    headers: { 'Idempotency-Key': idempotencyKey },
+    body: JSON.stringify({
+      message: message.trim(),
+      conversationId,
+      personalityId,
+      personality,
+      guidelines,
+      history,
+      context,
+    }),
+    requestOptions,
+  };
+};
+
+/**
+ * Check a response body against its schema in the API contract
+ */
+const validateResponse = <T>(schema: ZodType, data: unknown, response?: Response): T => {
+  const validation = validateContract(schema, data);
+  if (!validation.ok) {
+    throw new ApiError(
+      `Invalid response from server: ${validation.details.join('; ')}`,
+      response?.status,
+      response?.statusText,
+      validation.details
+    );
+  }
+  return validation.data as T;
+};
+
 /**
  * Sleep utility for retry delays
  */
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Used when a 429 carries no usable Retry-After
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+/**
+ * Retry-After is either delay seconds or an HTTP date
+ */
+const parseRetryAfter = (value: string | null): number => {
+  if (!value) return DEFAULT_RETRY_AFTER_SECONDS;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.ceil(seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return DEFAULT_RETRY_AFTER_SECONDS;
+};
+
+const createRateLimitError = (response: Response, errorText: string): RateLimitError => {
+  let reason: RateLimitReason = 'rate_limit';
+  try {
+    const { reason: given } = JSON.parse(errorText);
+    if (RATE_LIMIT_REASONS.includes(given)) {
+      reason = given;
+    }
+  } catch {
+    // Not a JSON body, keep the default reason
+  }
+
+  return new RateLimitError(
+    `HTTP 429: ${errorText}`,
+    parseRetryAfter(response.headers.get('Retry-After')),
+    reason,
+    errorText
+  );
+};
+
 /**
  * Enhanced fetch with timeout and retry logic
  */
@@ -112,7 +389,9 @@ async function fetchWithTimeout(
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
     // Combine external signal with timeout signal
-    if (externalSignal) {
+    if (externalSignal?.aborted) {
+      controller.abort();
+    } else if (externalSignal) {
       externalSignal.addEventListener('abort', () => controller.abort());
     }
 
@@ -127,6 +406,9 @@ async function fetchWithTimeout(
       // Don't retry on client errors (4xx) except 408 (timeout)
       if (response.status >= 400 && response.status < 500 && response.status !== 408) {
         const errorText = await response.text().catch(() => 'Unknown error');
+        if (response.status === 429) {
+          throw createRateLimitError(response, errorText);
+        }
         throw new ApiError(
           `HTTP ${response.status}: ${errorText}`,
           response.status,
@@ -182,22 +464,215 @@ async function fetchWithTimeout(
   throw lastError!;
 }
 
+/**
+ * A single parsed Server-Sent Event
+ */
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Parse one raw SSE block ("event: x\ndata: y") into its fields
+ */
+function parseServerSentEvent(rawEvent: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of rawEvent.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  return { event, data: dataLines.join('\n') };
+}
+
+/**
+ * Read a response body as a sequence of Server-Sent Events
+ */
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const parsed = parseServerSentEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) {
+          yield parsed;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    // Flush a trailing event that was not followed by a blank line
+    const trailing = parseServerSentEvent(buffer.trim());
+    if (trailing) {
+      yield trailing;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const AUTH_STORAGE_KEY = '3davatar_auth_session';
+
+const loadStoredSession = (): AuthSession | null => {
+  try {
+    const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as AuthSession : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeSession = (session: AuthSession | null) => {
+  try {
+    if (session) {
+      localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(AUTH_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to store auth session in localStorage:', error);
+  }
+};
+
 /**
  * Enhanced API service with better error handling
+ *
+ * Requests carry the session token once there is one. When the server asks
+ * for authentication and the caller is (or was) a guest, a new guest session
+ * is started and the request sent again. They also name the avatar event
+ * channel, once connected, so the server pushes avatar events there.
  */
 export class ApiService {
   private baseUrl: string;
+  private session: AuthSession | null = loadStoredSession();
+  private pendingLogin: Promise<AuthSession> | null = null;
+  private avatarChannelId: string | null = null;
 
   constructor(baseUrl: string = API_CONFIG.BASE_URL) {
     this.baseUrl = baseUrl;
   }
 
   /**
-   * Generic API request method
+   * The current session, if logged in
+   */
+  getSession(): AuthSession | null {
+    return this.session;
+  }
+
+  /**
+   * Log in with a username and password, or as a guest without them
+   */
+  async login(credentials: LoginCredentials = {}): Promise<AuthSession> {
+    const response = await fetchWithTimeout(`${this.baseUrl}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(credentials),
+    });
+    const data = validateResponse<LoginResponse>(LoginResponseSchema, await response.json(), response);
+
+    const session: AuthSession = {
+      token: data.token,
+      expiresAt: data.expiresAt,
+      userId: createUserId(data.user.id),
+      sessionId: createSessionId(data.sessionId),
+      name: data.user.name,
+      guest: data.user.guest,
+    };
+    this.session = session;
+    storeSession(session);
+    return session;
+  }
+
+  /**
+   * Forget the session; the next request that needs one starts a guest session
+   */
+  logout(): void {
+    this.session = null;
+    storeSession(null);
+  }
+
+  /**
+   * WebSocket URL of the avatar events, with the session token when there is one
+   */
+  getAvatarEventsUrl(): string {
+    const url = `${this.baseUrl.replace(/^http/, 'ws')}/api/avatar/events`;
+    return this.session ? `${url}?token=${encodeURIComponent(this.session.token)}` : url;
+  }
+
+  /**
+   * Channel that chat requests ask the server to push avatar events to
+   */
+  setAvatarChannel(channelId: string | null): void {
+    this.avatarChannelId = channelId;
+  }
+
+  private withSessionHeaders(options: RequestInit & RequestOptions): RequestInit & RequestOptions {
+    if (!this.session && !this.avatarChannelId) return options;
+
+    return {
+      ...options,
+      headers: {
+        ...options.headers,
+        ...(this.session ? { 'Authorization': `Bearer ${this.session.token}` } : {}),
+        ...(this.avatarChannelId ? { 'X-Avatar-Channel': this.avatarChannelId } : {}),
+      },
+    };
+  }
+
+  // Concurrent requests that all hit a 401 share one guest login
+  private startGuestSession(): Promise<AuthSession> {
+    this.pendingLogin ??= this.login().finally(() => {
+      this.pendingLogin = null;
+    });
+    return this.pendingLogin;
+  }
+
+  /**
+   * fetchWithTimeout with the session headers, starting a guest session on 401
+   */
+  private async fetchWithSession(url: string, options: RequestInit & RequestOptions): Promise<Response> {
+    try {
+      return await fetchWithTimeout(url, this.withSessionHeaders(options));
+    } catch (error) {
+      // A named user has to log in again themselves
+      const canStartGuestSession = !this.session || this.session.guest;
+      if (!(error instanceof ApiError) || error.status !== 401 || !canStartGuestSession) {
+        throw error;
+      }
+
+      this.logout();
+      await this.startGuestSession();
+      return fetchWithTimeout(url, this.withSessionHeaders(options));
+    }
+  }
+
+  /**
+   * Generic API request method; JSON bodies are checked against the
+   * response schema when one is given
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit & RequestOptions = {}
+    options: RequestInit & RequestOptions = {},
+    schema?: ZodType
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
     
@@ -210,11 +685,11 @@ export class ApiService {
     } = options;
 
     const requestOptions: RequestInit & RequestOptions = {
+      ...fetchOptions,
       headers: {
         'Content-Type': 'application/json',
         ...fetchOptions.headers,
       },
-      ...fetchOptions,
       timeout,
       retries,
       retryDelay,
@@ -222,7 +697,7 @@ export class ApiService {
     };
 
     try {
-      const response = await fetchWithTimeout(url, requestOptions);
+      const response = await this.fetchWithSession(url, requestOptions);
 
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'Unknown error');
@@ -241,7 +716,7 @@ export class ApiService {
       }
 
       const data = await response.json();
-      return data;
+      return schema ? validateResponse<T>(schema, data, response) : data;
     } catch (error) {
       // Add context to errors
       if (error instanceof ApiError) {
@@ -261,37 +736,339 @@ export class ApiService {
    */
   async sendChatMessage(
     message: string,
-    options: RequestOptions = {}
+    options: ChatRequestOptions = {}
   ): Promise<ChatResponse> {
     if (!message.trim()) {
       throw new ApiError('Message cannot be empty', 400);
     }
 
+    const { headers, body, requestOptions } = buildChatRequest(message, options);
+
     return this.request<ChatResponse>('/api/chat', {
       method: 'POST',
-      body: JSON.stringify({ message: message.trim() }),
+      headers,
+      body,
+      ...requestOptions,
+    }, ChatResponseSchema);
+  }
+
+  /**
+   * Cancel a chat request on the server; aborting its fetch does not stop a
+   * request sent with an idempotency key, so a retry can still get its response
+   */
+  async cancelChatRequest(idempotencyKey: string, options: RequestOptions = {}): Promise<void> {
+    await this.request<string>(`/api/chat/requests/${encodeURIComponent(idempotencyKey)}`, {
+      method: 'DELETE',
       ...options,
     });
   }
 
+  /**
+   * Send chat message and receive the response token by token (SSE).
+   * Resolves with the complete response once the stream finishes.
+   */
+  async streamChatMessage(
+    message: string,
+    handlers: ChatStreamHandlers = {},
+    options: ChatRequestOptions = {}
+  ): Promise<ChatResponse> {
+    if (!message.trim()) {
+      throw new ApiError('Message cannot be empty', 400);
+    }
+
+    const endpoint = '/api/chat/stream';
+    const { headers, body, requestOptions } = buildChatRequest(message, options);
+
+    try {
+      const response = await this.fetchWithSession(`${this.baseUrl}${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          ...headers,
+        },
+        body,
+        ...requestOptions,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error');
+        throw new ApiError(
+          `HTTP ${response.status}: ${errorText}`,
+          response.status,
+          response.statusText,
+          errorText
+        );
+      }
+
+      if (!response.body) {
+        throw new NetworkError('Streaming is not supported by this browser');
+      }
+
+      let fullText = '';
+
+      for await (const event of readEventStream(response.body)) {
+        const data: unknown = JSON.parse(event.data);
+
+        switch (event.event) {
+          case 'token': {
+            const { content } = validateResponse<{ content: string }>(ChatTokenEventSchema, data, response);
+            fullText += content;
+            handlers.onToken?.(content, fullText);
+            break;
+          }
+          case 'done':
+            return validateResponse<ChatResponse>(ChatResponseSchema, data, response);
+          case 'error': {
+            const failure = validateResponse<{ error: string; details?: string | string[] }>(
+              ErrorResponseSchema, data, response
+            );
+            throw new ApiError(
+              `Stream error: ${failure.details || failure.error}`,
+              500,
+              'Stream Error',
+              failure
+            );
+          }
+        }
+      }
+
+      throw new NetworkError('Connection closed before the response was complete');
+    } catch (error) {
+      // Aborting mid-stream fails the body read, not always with an AbortError
+      if (options.signal?.aborted || (error instanceof DOMException && error.name === 'AbortError')) {
+        throw new Error('Request was cancelled');
+      }
+
+      // Add context to errors
+      if (error instanceof ApiError) {
+        error.message = `API Error at ${endpoint}: ${error.message}`;
+      } else if (error instanceof NetworkError) {
+        error.message = `Network Error at ${endpoint}: ${error.message}`;
+      } else if (error instanceof TimeoutError) {
+        error.message = `Timeout Error at ${endpoint}: ${error.message}`;
+      }
+
+      throw error;
+    }
+  }
+
   /**
    * Health check endpoint
    */
-  async healthCheck(options: RequestOptions = {}): Promise<{ status: string; timestamp: number }> {
-    return this.request<{ status: string; timestamp: number }>('/api/health', {
+  async healthCheck(options: RequestOptions = {}): Promise<HealthResponse> {
+    return this.request<HealthResponse>('/health', {
       method: 'GET',
       timeout: 5000, // Shorter timeout for health checks
       ...options,
-    });
+    }, HealthResponseSchema);
+  }
+
+  /**
+   * Tokens and estimated cost of the current user and session, with their budget
+   */
+  async getUsage(options: RequestOptions = {}): Promise<UsageReport> {
+    return this.request<UsageReport>('/api/usage', {
+      method: 'GET',
+      ...options,
+    }, UsageReportSchema);
+  }
+
+  /**
+   * Send a batch of error reports. With keepalive the request outlives the
+   * page, for reports sent while it unloads.
+   */
+  async reportErrors(
+    reports: ErrorReport[],
+    options: RequestOptions & { keepalive?: boolean } = {}
+  ): Promise<ErrorReportBatchResult> {
+    return this.request<ErrorReportBatchResult>('/api/errors', {
+      method: 'POST',
+      body: JSON.stringify({ reports }),
+      ...options,
+    }, ErrorReportBatchResultSchema);
   }
 
   /**
-   * Get chat history (if implemented)
+   * Upload a batch of feedback and interaction metrics, with keepalive
+   * while the page unloads
    */
-  async getChatHistory(options: RequestOptions = {}): Promise<ChatMessage[]> {
-    return this.request<ChatMessage[]>('/api/chat/history', {
+  async submitFeedback(
+    batch: FeedbackBatch,
+    options: RequestOptions & { keepalive?: boolean } = {}
+  ): Promise<FeedbackBatchResult> {
+    return this.request<FeedbackBatchResult>('/api/feedback', {
+      method: 'POST',
+      body: JSON.stringify(batch),
+      ...options,
+    }, FeedbackBatchResultSchema);
+  }
+
+  /**
+   * Chat volume, error rate, latency, topics and emotions across every user,
+   * by day; admins only
+   */
+  async getChatActivity(range: AnalyticsRange = {}, options: RequestOptions = {}): Promise<ChatActivityReport> {
+    return this.request<ChatActivityReport>(`/api/admin/analytics/chat${toQuery({ ...range })}`, {
       method: 'GET',
       ...options,
+    }, ChatActivityReportSchema);
+  }
+
+  /**
+   * Ratings, trends and critical issues of the feedback of every user; admins only
+   */
+  async getFeedbackAnalytics(range: AnalyticsRange = {}, options: RequestOptions = {}): Promise<FeedbackAnalytics> {
+    return this.request<FeedbackAnalytics>(`/api/admin/feedback/analytics${toQuery({ ...range })}`, {
+      method: 'GET',
+      ...options,
+    }, FeedbackAnalyticsSchema);
+  }
+
+  /**
+   * Improvements the feedback of every user calls for, most urgent first; admins only
+   */
+  async getFeedbackRecommendations(
+    range: AnalyticsRange = {},
+    options: RequestOptions = {}
+  ): Promise<FeedbackRecommendations> {
+    return this.request<FeedbackRecommendations>(`/api/admin/feedback/recommendations${toQuery({ ...range })}`, {
+      method: 'GET',
+      ...options,
+    }, FeedbackRecommendationsSchema);
+  }
+
+  /**
+   * The overall feedback score against its benchmarks; admins only
+   */
+  async getFeedbackBenchmarks(range: AnalyticsRange = {}, options: RequestOptions = {}): Promise<FeedbackBenchmarks> {
+    return this.request<FeedbackBenchmarks>(`/api/admin/feedback/benchmarks${toQuery({ ...range })}`, {
+      method: 'GET',
+      ...options,
+    }, FeedbackBenchmarksSchema);
+  }
+
+  /**
+   * What context validation found in the sessions of every user; admins only
+   */
+  async getValidationStats(range: AnalyticsRange = {}, options: RequestOptions = {}): Promise<ValidationStats> {
+    return this.request<ValidationStats>(`/api/admin/feedback/validation${toQuery({ ...range })}`, {
+      method: 'GET',
+      ...options,
+    }, ValidationStatsSchema);
+  }
+
+  /**
+   * Distinct errors reported by clients, most recently seen first; admins only
+   */
+  async listErrorGroups(
+    query: { since?: number; limit?: number } = {},
+    options: RequestOptions = {}
+  ): Promise<ErrorGroup[]> {
+    return this.request<ErrorGroup[]>(`/api/admin/errors${toQuery(query)}`, {
+      method: 'GET',
+      ...options,
+    }, ErrorGroupSchema.array());
+  }
+
+  /**
+   * Synthesize speech on the server, with the viseme track for lip sync.
+   * Fails with a 503 ApiError when the server has no voice configured.
+   */
+  async synthesizeSpeech(
+    text: string,
+    speech: SpeechSynthesisOptions = {},
+    options: RequestOptions = {}
+  ): Promise<SynthesizedSpeech> {
+    return this.request<SynthesizedSpeech>('/api/tts', {
+      method: 'POST',
+      body: JSON.stringify({ text, ...speech }),
+      ...options,
+    }, SynthesizedSpeechSchema);
+  }
+
+  /**
+   * Transcribe a recording on the server, for browsers without speech recognition.
+   * Fails with a 503 ApiError when the server has no recognizer configured.
+   */
+  async transcribeSpeech(
+    recording: Blob,
+    lang?: string,
+    options: RequestOptions = {}
+  ): Promise<SpeechTranscription> {
+    const query = lang ? `?lang=${encodeURIComponent(lang)}` : '';
+    return this.request<SpeechTranscription>(`/api/stt${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': recording.type || 'application/octet-stream' },
+      body: recording,
+      ...options,
+    }, SpeechTranscriptionSchema);
+  }
+
+  /**
+   * Get the messages of a stored conversation
+   */
+  async getChatHistory(
+    conversationId: ConversationId,
+    options: RequestOptions = {}
+  ): Promise<ChatMessage[]> {
+    return this.request<ChatMessage[]>(
+      `/api/chat/history?conversationId=${encodeURIComponent(conversationId)}`,
+      {
+        method: 'GET',
+        ...options,
+      },
+      StoredMessageSchema.array()
+    );
+  }
+
+  /**
+   * List stored conversations, most recently updated first
+   */
+  async listConversations(options: RequestOptions = {}): Promise<ConversationSummary[]> {
+    return this.request<ConversationSummary[]>('/api/conversations', {
+      method: 'GET',
+      ...options,
+    }, ConversationSummarySchema.array());
+  }
+
+  /**
+   * Get a stored conversation with its messages
+   */
+  async getConversation(
+    conversationId: ConversationId,
+    options: RequestOptions = {}
+  ): Promise<Conversation> {
+    return this.request<Conversation>(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+      method: 'GET',
+      ...options,
+    }, ConversationSchema);
+  }
+
+  /**
+   * Create a conversation, optionally seeded with existing messages
+   */
+  async createConversation(
+    conversation: CreateConversationRequest = {},
+    options: RequestOptions = {}
+  ): Promise<Conversation> {
+    return this.request<Conversation>('/api/conversations', {
+      method: 'POST',
+      body: JSON.stringify(conversation),
+      ...options,
+    }, ConversationSchema);
+  }
+
+  /**
+   * Delete a stored conversation
+   */
+  async deleteConversation(
+    conversationId: ConversationId,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await this.request<string>(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+      method: 'DELETE',
+      ...options,
     });
   }
 }
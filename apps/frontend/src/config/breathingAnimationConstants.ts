@@ -144,6 +144,34 @@ export const ANIMATION_TIMING = {
   }
 } as const;
 
+// Gesture cues from avatar events, played once over DURATION seconds
+export const GESTURE_ANIMATION = {
+  DURATION: 1.2,
+  NOD: { CYCLES: 2, ROTATION_X: 0.15 },
+  HEAD_TILT: { ROTATION_Z: 0.2 },
+  WAVE: { CYCLES: 3, ROTATION_Y: 0.15 },
+  TAIL_WAG: { CYCLES: 4, ROTATION_Y: 0.08 },
+  BOUNCE: { CYCLES: 2, HEIGHT: 0.08 }
+} as const;
+
+// Lip sync from the server voice's viseme track
+export const LIP_SYNC = {
+  BLEND: 0.5,                   // Share of the way to the target mouth shape per frame
+  HEAD_NOD: 0.06                // Jaw-like nod for models without mouth morph targets
+} as const;
+
+// Movement intensity multiplier per emotion from avatar events
+export const EMOTION_MOVEMENT_FACTOR = {
+  excited: 1.5,
+  happy: 1.2,
+  curious: 1.1,
+  neutral: 1.0,
+  confused: 0.9,
+  frustrated: 0.9,
+  calm: 0.7,
+  sad: 0.6
+} as const;
+
 // Math constants
 export const MATH_CONSTANTS = {
   PI_HALF: Math.PI * 0.5,        // π/2 for sine calculations
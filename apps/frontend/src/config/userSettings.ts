@@ -0,0 +1,36 @@
+import type { UserSettings } from '../types/common';
+
+export const USER_SETTINGS_STORAGE_KEY = '3davatar-settings';
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  theme: 'auto',
+  voiceEnabled: true,
+  voiceSpeed: 1,
+  voiceVolume: 0.8,
+  animationSpeed: 1,
+  reducedMotion: false,
+  fontSize: 'medium',
+  highContrast: false,
+  autoScroll: true,
+  soundEffects: true,
+  notifications: true,
+};
+
+/**
+ * Saved settings over the defaults
+ */
+export const loadUserSettings = (): UserSettings => {
+  const saved = localStorage.getItem(USER_SETTINGS_STORAGE_KEY);
+  if (!saved) return DEFAULT_USER_SETTINGS;
+
+  try {
+    return { ...DEFAULT_USER_SETTINGS, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return DEFAULT_USER_SETTINGS;
+  }
+};
+
+export const saveUserSettings = (settings: UserSettings): void => {
+  localStorage.setItem(USER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,32 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { apiService } from '../config/api';
+import { AvatarEventChannel } from '../services/avatarEventChannel';
+import { avatarEventStore } from '../services/avatarEventStore';
+import type { AvatarEventState, AvatarEventStore } from '../services/avatarEventStore';
+
+const subscribeToNothing = () => () => {};
+const getNoState = () => null;
+
+/**
+ * Keep the store connected to the server's avatar events while mounted
+ */
+export const useAvatarEventChannel = (store: AvatarEventStore = avatarEventStore): void => {
+  useEffect(() => {
+    const channel = new AvatarEventChannel(store, {
+      url: () => apiService.getAvatarEventsUrl(),
+      onChannel: channelId => apiService.setAvatarChannel(channelId),
+    });
+    channel.connect();
+
+    return () => channel.disconnect();
+  }, [store]);
+};
+
+/**
+ * Current avatar state of a store, or null without one
+ */
+export const useAvatarEventState = (store?: AvatarEventStore): AvatarEventState | null =>
+  useSyncExternalStore(
+    store ? store.subscribe : subscribeToNothing,
+    store ? store.getSnapshot : getNoState
+  );
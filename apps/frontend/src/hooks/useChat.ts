@@ -1,9 +1,13 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { apiService, ApiError, NetworkError, TimeoutError } from '../config/api';
-import { createContextManager } from '../services/contextManager';
-import { useTextToSpeech, CHILD_VOICE_CONFIG } from '../services/textToSpeechService';
+import { apiService, ApiError, NetworkError, RateLimitError, TimeoutError } from '../config/api';
+import { getContextManager } from '../services/contextManagerClient';
+import { DEFAULT_AVATAR_PERSONALITY, CONVERSATION_GUIDELINES } from '../config/avatarPersonality';
+import { useTextToSpeech, CHILD_VOICE_CONFIG, extractCompleteSentences } from '../services/textToSpeechService';
+import { avatarEventStore } from '../services/avatarEventStore';
+import { clientActionDispatcher } from '../services/clientActions';
 import type { Context, ContextAnalysis } from '../types/context';
-import type { ChatMessage } from '../config/api';
+import type { ChatMessage, ChatHistoryTurn } from '../config/api';
+import type { ConversationId } from '../types/common';
 import type { VoiceConfig } from '../services/textToSpeechService';
 
 interface Message {
@@ -12,6 +16,7 @@ interface Message {
   timestamp: number;
   sender: 'user' | 'assistant';
   isTyping?: boolean;
+  isStreaming?: boolean;
   error?: boolean;
 }
 
@@ -20,11 +25,16 @@ interface UseChatReturn {
   isTyping: boolean;
   error: string | null;
   sendMessage: (content: string) => Promise<void>;
+  /** Cancel the response being generated, dropping what has arrived of it */
+  stopGenerating: () => void;
   clearHistory: () => void;
   exportHistory: () => void;
   clearError: () => void;
   currentContext: Context | null;
   contextAnalysis: ContextAnalysis | null;
+  conversationId: ConversationId | null;
+  /** Seconds until the server accepts messages again after a 429, 0 when free to send */
+  cooldownSeconds: number;
   // TTS-related properties
   isSpeaking: boolean;
   stopSpeaking: () => void;
@@ -34,6 +44,32 @@ interface UseChatReturn {
 }
 
 const STORAGE_KEY = '3davatar_chat_history';
+const CONVERSATION_STORAGE_KEY = '3davatar_conversation_id';
+// Turns sent with each request; the server trims them to the model's context window
+const MAX_HISTORY_TURNS = 20;
+
+const RATE_LIMIT_MESSAGES = {
+  rate_limit: "You're sending messages a little fast. Let's take a short breather before the next one.",
+  quota: "We've chatted a lot today and reached the daily limit. Let's pick this up again later!",
+  budget: "We've used up the chat budget for now. Let's pick this up again once it resets!",
+} as const;
+
+// Completed turns, oldest first, in the shape the chat API expects
+// A keyed request keeps running on the server after its fetch is aborted, until cancelled there
+const cancelOnServer = async (idempotencyKey: string) => {
+  try {
+    await apiService.cancelChatRequest(idempotencyKey);
+  } catch (error) {
+    // Usually it had finished already
+    console.warn('Failed to cancel the chat request:', error);
+  }
+};
+
+const toHistoryTurns = (messages: Message[]): ChatHistoryTurn[] =>
+  messages
+    .filter(msg => !msg.isTyping && !msg.isStreaming && !msg.error && msg.content.trim())
+    .slice(-MAX_HISTORY_TURNS)
+    .map(msg => ({ role: msg.sender, content: msg.content }));
 
 /**
  * Custom hook for managing chat functionality
@@ -45,21 +81,122 @@ export const useChat = (): UseChatReturn => {
   const [error, setError] = useState<string | null>(null);
   const [currentContext, setCurrentContext] = useState<Context | null>(null);
   const [contextAnalysis, setContextAnalysis] = useState<ContextAnalysis | null>(null);
+  const [conversationId, setConversationId] = useState<ConversationId | null>(null);
+  const [cooldownSeconds, setCooldownSeconds] = useState(0);
   
-  const contextManagerRef = useRef(createContextManager());
+  const contextManagerRef = useRef(getContextManager());
+  const messagesRef = useRef<Message[]>([]);
+  const conversationIdRef = useRef<ConversationId | null>(null);
+  // Set once the user sends a message, so a late server load can't overwrite it
+  const hasSentMessageRef = useRef(false);
+  // Speech queue for sentences of a streamed response, spoken one after another
+  const speechQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Bumped on every stop so sentences queued before it are dropped
+  const speechGenerationRef = useRef(0);
+  // Streamed messages are spoken while they arrive, not again once complete
+  const spokenMessageIdsRef = useRef(new Set<string>());
+  // When the server will accept messages again after a 429
+  const cooldownUntilRef = useRef(0);
+  // Aborts the request of the response in progress
+  const responseControllerRef = useRef<AbortController | null>(null);
+  // Idempotency key of that request, to cancel it on the server
+  const responseKeyRef = useRef<string | null>(null);
 
   // Initialize text-to-speech with child voice
   const {
     speak,
-    stop: stopSpeaking,
+    stop: stopTTS,
     isSpeaking: isTTSSpeaking,
     isSupported: isTTSSupported,
+    lipSync,
     error: ttsError,
     currentConfig: ttsConfig,
     updateConfig: updateTTSConfig
   } = useTextToSpeech(CHILD_VOICE_CONFIG);
 
-  // Load chat history from localStorage on mount
+  // The avatar moves while it speaks, and lip-syncs to the server voice
+  useEffect(() => {
+    avatarEventStore.setSpeaking(isTTSSpeaking);
+    avatarEventStore.setLipSync(lipSync);
+  }, [isTTSSpeaking, lipSync]);
+
+  // Restore what the avatar remembers of the user from earlier visits
+  useEffect(() => {
+    const manager = contextManagerRef.current;
+    manager.initialize().catch(initError => {
+      console.warn('Failed to initialize the context manager:', initError);
+    });
+    return () => {
+      void manager.shutdown();
+    };
+  }, []);
+
+  // Stop current speech and drop any queued sentences
+  const stopSpeaking = useCallback(() => {
+    speechGenerationRef.current += 1;
+    speechQueueRef.current = Promise.resolve();
+    stopTTS();
+  }, [stopTTS]);
+
+  // Queue a sentence to be spoken after the ones before it
+  const queueSpeech = useCallback((text: string) => {
+    const generation = speechGenerationRef.current;
+    speechQueueRef.current = speechQueueRef.current
+      .then(() => {
+        if (generation !== speechGenerationRef.current) return;
+        return speak(text);
+      })
+      .catch(speechError => {
+        console.warn('Failed to speak assistant response:', speechError);
+      });
+  }, [speak]);
+
+  // Count the cooldown down once a second; the rate limit notice goes away with it
+  useEffect(() => {
+    if (cooldownSeconds <= 0) return;
+
+    const timer = setTimeout(() => {
+      const remaining = Math.max(0, Math.ceil((cooldownUntilRef.current - Date.now()) / 1000));
+      setCooldownSeconds(remaining);
+      if (remaining === 0) {
+        setError(current =>
+          Object.values(RATE_LIMIT_MESSAGES).some(message => message === current) ? null : current
+        );
+      }
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [cooldownSeconds]);
+
+  const startCooldown = useCallback((seconds: number) => {
+    cooldownUntilRef.current = Date.now() + seconds * 1000;
+    setCooldownSeconds(seconds);
+  }, []);
+
+  // Remember which conversation the server stores our history in
+  const rememberConversation = useCallback((id: ConversationId | null) => {
+    conversationIdRef.current = id;
+    setConversationId(id);
+
+    try {
+      if (id) {
+        localStorage.setItem(CONVERSATION_STORAGE_KEY, id);
+      } else {
+        localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Failed to store conversation id in localStorage:', error);
+    }
+  }, []);
+
+  // Show history without speaking it: only new responses are read aloud
+  const showHistory = useCallback((history: Message[]) => {
+    history.forEach(message => spokenMessageIdsRef.current.add(message.id));
+    setMessages(history);
+  }, []);
+
+  // Load chat history on mount: localStorage first for an instant render,
+  // then the server copy, which is authoritative when reachable
   useEffect(() => {
     const loadChatHistory = () => {
       try {
@@ -67,7 +204,7 @@ export const useChat = (): UseChatReturn => {
         if (savedHistory) {
           const parsedHistory = JSON.parse(savedHistory);
           if (Array.isArray(parsedHistory)) {
-            setMessages(parsedHistory);
+            showHistory(parsedHistory);
           }
         }
       } catch (error) {
@@ -75,11 +212,63 @@ export const useChat = (): UseChatReturn => {
       }
     };
 
+    const loadServerHistory = async () => {
+      let storedId: string | null = null;
+      try {
+        storedId = localStorage.getItem(CONVERSATION_STORAGE_KEY);
+      } catch (error) {
+        console.warn('Failed to read conversation id from localStorage:', error);
+      }
+      if (!storedId) return;
+
+      const id = storedId as ConversationId;
+      conversationIdRef.current = id;
+      setConversationId(id);
+
+      try {
+        const conversation = await apiService.getConversation(id);
+        if (!hasSentMessageRef.current && Array.isArray(conversation.messages)) {
+          showHistory(conversation.messages);
+        }
+      } catch (loadError) {
+        if (loadError instanceof ApiError && loadError.status === 404) {
+          // Deleted on the server: the local copy is re-uploaded on the next send
+          rememberConversation(null);
+        } else {
+          console.warn('Failed to load chat history from server, using local copy:', loadError);
+        }
+      }
+    };
+
     loadChatHistory();
-  }, []);
+    loadServerHistory();
+  }, [showHistory, rememberConversation]);
+
+  // Get the server conversation for this chat, creating it (seeded with the
+  // local history) on first use. Resolves undefined while the server is unreachable.
+  const ensureConversation = useCallback(async (history: Message[]): Promise<ConversationId | undefined> => {
+    if (conversationIdRef.current) {
+      return conversationIdRef.current;
+    }
+
+    try {
+      const conversation = await apiService.createConversation({
+        messages: history
+          .filter(message => !message.isTyping && !message.error && message.content)
+          .map(({ content, sender, timestamp }) => ({ content, sender, timestamp }))
+      });
+      rememberConversation(conversation.id);
+      return conversation.id;
+    } catch (createError) {
+      console.warn('Failed to create server conversation, keeping history locally:', createError);
+      return undefined;
+    }
+  }, [rememberConversation]);
 
   // Save messages to localStorage whenever messages change
   useEffect(() => {
+    messagesRef.current = messages;
+
     if (messages.length > 0) {
       try {
         localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
@@ -95,7 +284,7 @@ export const useChat = (): UseChatReturn => {
       if (messages.length === 0) return;
 
       const lastMessage = messages[messages.length - 1];
-      if (lastMessage.isTyping) return;
+      if (lastMessage.isTyping || lastMessage.isStreaming) return;
 
       try {
         // Convert to ChatMessage format for context processing
@@ -113,7 +302,7 @@ export const useChat = (): UseChatReturn => {
         setCurrentContext(context);
 
         // Analyze context for insights
-        const analysis = contextManagerRef.current.analyzeContext(context);
+        const analysis = await contextManagerRef.current.analyzeContext(context);
         setContextAnalysis(analysis);
 
         console.log('Context updated:', {
@@ -123,7 +312,12 @@ export const useChat = (): UseChatReturn => {
         });
 
         // If this is an assistant message, speak it with child voice
-        if (lastMessage.sender === 'assistant' && lastMessage.content && !lastMessage.isTyping) {
+        if (
+          lastMessage.sender === 'assistant' &&
+          lastMessage.content &&
+          !lastMessage.isTyping &&
+          !spokenMessageIdsRef.current.has(lastMessage.id)
+        ) {
           try {
             await speak(lastMessage.content);
             console.log('Assistant response spoken with child voice');
@@ -155,6 +349,11 @@ export const useChat = (): UseChatReturn => {
 
   // Send a message to the API and handle response
   const sendMessage = useCallback(async (content: string) => {
+    // The server would refuse it anyway; the UI shows the remaining wait
+    if (Date.now() < cooldownUntilRef.current) {
+      return;
+    }
+
     // Clear any existing errors
     setError(null);
 
@@ -167,12 +366,18 @@ export const useChat = (): UseChatReturn => {
       return;
     }
 
+    hasSentMessageRef.current = true;
+    const history = messagesRef.current;
+    const controller = new AbortController();
+    responseControllerRef.current = controller;
+
     try {
-      // Add user message
-      addMessage({
+      // Add user message; its id doubles as the idempotency key of the request
+      const userMessageId = addMessage({
         content: trimmedContent,
         sender: 'user'
       });
+      responseKeyRef.current = userMessageId;
 
       // Show typing indicator
       setIsTyping(true);
@@ -184,30 +389,86 @@ export const useChat = (): UseChatReturn => {
         isTyping: true
       });
 
+      // Text up to this index has already been queued for speech
+      let spokenIndex = 0;
+
       try {
-        // Send to API
-        const response = await apiService.sendChatMessage(trimmedContent);
-        
-        // Remove typing message
-        setMessages(prev => prev.filter(msg => msg.id !== typingMessageId));
-        
-        // Add assistant response (TTS will be handled by the effect above)
-        addMessage({
-          content: response.response || 'I received your message but had trouble responding.',
-          sender: 'assistant'
+        const activeConversationId = await ensureConversation(history);
+        // Without what it remembers if the context manager fails, but the avatar still answers
+        const chatContext = await contextManagerRef.current.getChatContextPayload(trimmedContent).catch(contextError => {
+          console.warn('Failed to build the chat context:', contextError);
+          return undefined;
         });
+        controller.signal.throwIfAborted();
+
+        // Stream from the API, filling the typing message in as tokens arrive
+        const response = await apiService.streamChatMessage(trimmedContent, {
+          onToken: (_token, fullText) => {
+            setMessages(prev => prev.map(msg =>
+              msg.id === typingMessageId
+                ? { ...msg, content: fullText, isTyping: false, isStreaming: true }
+                : msg
+            ));
+
+            // Start speaking as soon as each sentence is complete
+            const { sentences, nextIndex } = extractCompleteSentences(fullText, spokenIndex);
+            spokenIndex = nextIndex;
+            sentences.forEach(queueSpeech);
+          }
+        }, {
+          conversationId: activeConversationId,
+          history: toHistoryTurns(history),
+          context: chatContext,
+          // Sent inline so edits to the personality config change how the avatar talks
+          personality: DEFAULT_AVATAR_PERSONALITY,
+          guidelines: CONVERSATION_GUIDELINES,
+          idempotencyKey: userMessageId,
+          signal: controller.signal,
+        });
+
+        const finalContent = response.response || 'I received your message but had trouble responding.';
+
+        // Speak whatever trailed the last complete sentence
+        const remainder = spokenIndex > 0 ? finalContent.slice(spokenIndex).trim() : finalContent;
+        if (remainder) {
+          queueSpeech(remainder);
+        }
+        spokenMessageIdsRef.current.add(typingMessageId);
+
+        // Finalize the streamed message
+        setMessages(prev => prev.map(msg =>
+          msg.id === typingMessageId
+            ? { ...msg, content: finalContent, isTyping: false, isStreaming: false }
+            : msg
+        ));
+
+        // Apply what the avatar did to the app (switching the room, settings...)
+        clientActionDispatcher.dispatch(response.actions);
         
       } catch (apiError) {
         // Remove typing message
         setMessages(prev => prev.filter(msg => msg.id !== typingMessageId));
+
+        // Stopped by the user: the server keeps nothing of it either
+        if (controller.signal.aborted) {
+          return;
+        }
         
         // Handle different types of API errors
         let errorMessage = 'Failed to send message. Please try again.';
         
+        // The conversation is gone on the server: start a fresh one next time
+        if (apiError instanceof ApiError && apiError.status === 404) {
+          rememberConversation(null);
+        }
+
         if (apiError instanceof NetworkError) {
           errorMessage = 'Network error. Please check your connection and try again.';
         } else if (apiError instanceof TimeoutError) {
           errorMessage = 'Request timed out. Please try again.';
+        } else if (apiError instanceof RateLimitError) {
+          errorMessage = RATE_LIMIT_MESSAGES[apiError.reason];
+          startCooldown(apiError.retryAfterSeconds);
         } else if (apiError instanceof ApiError) {
           errorMessage = `Server error: ${apiError.message}`;
         }
@@ -220,25 +481,53 @@ export const useChat = (): UseChatReturn => {
       setError('An unexpected error occurred. Please try again.');
       console.error('Unexpected error in sendMessage:', error);
     } finally {
+      if (responseControllerRef.current === controller) {
+        responseControllerRef.current = null;
+        responseKeyRef.current = null;
+      }
       setIsTyping(false);
     }
-  }, [addMessage, stopSpeaking]);
+  }, [addMessage, stopSpeaking, queueSpeech, ensureConversation, rememberConversation, startCooldown]);
+
+  // Cancel the response in progress and stop reading it out
+  const stopGenerating = useCallback(() => {
+    responseControllerRef.current?.abort();
+    responseControllerRef.current = null;
+    if (responseKeyRef.current) {
+      void cancelOnServer(responseKeyRef.current);
+      responseKeyRef.current = null;
+    }
+    stopSpeaking();
+  }, [stopSpeaking]);
+
+  // No response arrives for an unmounted chat
+  useEffect(() => () => responseControllerRef.current?.abort(), []);
 
   // Clear chat history and stop any speech
   const clearHistory = useCallback(() => {
-    stopSpeaking();
+    stopGenerating();
     setMessages([]);
     setCurrentContext(null);
     setContextAnalysis(null);
     setError(null);
+
+    // Delete the server copy too; failures only leave an orphaned conversation
+    if (conversationIdRef.current) {
+      apiService.deleteConversation(conversationIdRef.current).catch(deleteError => {
+        console.warn('Failed to delete server conversation:', deleteError);
+      });
+    }
+    rememberConversation(null);
     
     try {
       localStorage.removeItem(STORAGE_KEY);
-      contextManagerRef.current.clearSession(true);
+      contextManagerRef.current.clearSession(true).catch(clearError => {
+        console.warn('Failed to clear the conversation context:', clearError);
+      });
     } catch (error) {
       console.warn('Failed to clear chat history:', error);
     }
-  }, [stopSpeaking]);
+  }, [stopGenerating, rememberConversation]);
 
   // Export chat history as JSON file
   const exportHistory = useCallback(() => {
@@ -279,11 +568,14 @@ export const useChat = (): UseChatReturn => {
     isTyping,
     error: error || ttsError, // Include TTS errors in the error state
     sendMessage,
+    stopGenerating,
     clearHistory,
     exportHistory,
     clearError,
     currentContext,
     contextAnalysis,
+    conversationId,
+    cooldownSeconds,
     // TTS-related properties
     isSpeaking: isTTSSpeaking,
     stopSpeaking,
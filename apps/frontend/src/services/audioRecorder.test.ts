@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AudioRecorder, pickRecordingMimeType } from './audioRecorder';
+
+const createFakes = () => {
+  const track = { stop: vi.fn() };
+  const stream = { getTracks: () => [track] } as unknown as MediaStream;
+  const recorder = {
+    state: 'inactive' as RecordingState,
+    mimeType: 'audio/ogg;codecs=opus',
+    ondataavailable: null as ((event: { data: Blob }) => void) | null,
+    onstop: null as (() => void) | null,
+    start: vi.fn(() => {
+      recorder.state = 'recording';
+    }),
+    stop: vi.fn(() => {
+      recorder.state = 'inactive';
+      recorder.ondataavailable?.({ data: new Blob(['ogg-bytes']) });
+      recorder.onstop?.();
+    }),
+  };
+  const createRecorder = vi.fn(() => recorder as unknown as MediaRecorder);
+  const audioRecorder = new AudioRecorder({
+    getUserMedia: vi.fn(async () => stream),
+    createRecorder,
+    isTypeSupported: mimeType => mimeType.startsWith('audio/ogg'),
+  });
+
+  return { track, recorder, createRecorder, audioRecorder };
+};
+
+describe('pickRecordingMimeType', () => {
+  it('should prefer Opus and leave the choice to the browser without a match', () => {
+    expect(pickRecordingMimeType(() => true)).toBe('audio/webm;codecs=opus');
+    expect(pickRecordingMimeType(mimeType => mimeType === 'audio/mp4')).toBe('audio/mp4');
+    expect(pickRecordingMimeType(() => false)).toBeUndefined();
+  });
+});
+
+describe('AudioRecorder', () => {
+  it('should record in a supported format and release the microphone when stopped', async () => {
+    const { track, recorder, createRecorder, audioRecorder } = createFakes();
+
+    await audioRecorder.start();
+    expect(audioRecorder.isRecording).toBe(true);
+    expect(createRecorder).toHaveBeenCalledWith(expect.anything(), { mimeType: 'audio/ogg;codecs=opus' });
+    expect(recorder.start).toHaveBeenCalled();
+
+    const recording = await audioRecorder.stop();
+
+    expect(recording.type).toBe('audio/ogg;codecs=opus');
+    expect(recording.size).toBe('ogg-bytes'.length);
+    expect(track.stop).toHaveBeenCalled();
+    expect(audioRecorder.isRecording).toBe(false);
+  });
+
+  it('should discard a cancelled recording', async () => {
+    const { track, recorder, audioRecorder } = createFakes();
+
+    await audioRecorder.start();
+    audioRecorder.cancel();
+
+    expect(recorder.stop).toHaveBeenCalled();
+    expect(track.stop).toHaveBeenCalled();
+    await expect(audioRecorder.stop()).rejects.toThrow('Not recording');
+  });
+});
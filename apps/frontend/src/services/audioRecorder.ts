@@ -0,0 +1,111 @@
+/**
+ * Microphone recording with MediaRecorder, for speech recognition on the server
+ */
+
+// In order of preference: Chrome and Firefox record Opus, Safari AAC
+const RECORDING_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/webm',
+  'audio/mp4',
+];
+
+export interface AudioRecorderOptions {
+  getUserMedia?: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  createRecorder?: (stream: MediaStream, options: MediaRecorderOptions) => MediaRecorder;
+  isTypeSupported?: (mimeType: string) => boolean;
+}
+
+/**
+ * The browser can record the microphone
+ */
+export const isAudioRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && typeof navigator.mediaDevices?.getUserMedia === 'function';
+
+/**
+ * Best recording format the browser supports, or undefined to let it choose
+ */
+export const pickRecordingMimeType = (
+  isTypeSupported: (mimeType: string) => boolean = mimeType => MediaRecorder.isTypeSupported(mimeType)
+): string | undefined => RECORDING_MIME_TYPES.find(isTypeSupported);
+
+/**
+ * Records one utterance at a time: start(), then stop() for the recording
+ */
+export class AudioRecorder {
+  private readonly getUserMedia: NonNullable<AudioRecorderOptions['getUserMedia']>;
+  private readonly createRecorder: NonNullable<AudioRecorderOptions['createRecorder']>;
+  private readonly isTypeSupported: AudioRecorderOptions['isTypeSupported'];
+  private recorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private chunks: Blob[] = [];
+
+  constructor(options: AudioRecorderOptions = {}) {
+    this.getUserMedia = options.getUserMedia ?? (constraints => navigator.mediaDevices.getUserMedia(constraints));
+    this.createRecorder = options.createRecorder ?? ((stream, recorderOptions) => new MediaRecorder(stream, recorderOptions));
+    this.isTypeSupported = options.isTypeSupported;
+  }
+
+  get isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /**
+   * Ask for the microphone and start recording
+   */
+  async start(): Promise<void> {
+    if (this.recorder) return;
+
+    const stream = await this.getUserMedia({ audio: true });
+    const mimeType = pickRecordingMimeType(this.isTypeSupported);
+    const recorder = this.createRecorder(stream, mimeType ? { mimeType } : {});
+
+    this.chunks = [];
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+
+    this.stream = stream;
+    this.recorder = recorder;
+    recorder.start();
+  }
+
+  /**
+   * Stop recording and release the microphone; resolves with the recording
+   */
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return Promise.reject(new Error('Not recording'));
+    }
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const recording = new Blob(this.chunks, { type: recorder.mimeType || 'audio/webm' });
+        this.release();
+        resolve(recording);
+      };
+      recorder.stop();
+    });
+  }
+
+  /**
+   * Stop recording and discard it
+   */
+  cancel(): void {
+    if (!this.recorder) return;
+
+    this.recorder.onstop = null;
+    if (this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+    }
+    this.release();
+  }
+
+  private release(): void {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.recorder = null;
+    this.chunks = [];
+  }
+}
@@ -0,0 +1,109 @@
+import { isAvatarEvent } from '../types/avatarEvents';
+import type { AvatarEventStore } from './avatarEventStore';
+
+export interface AvatarEventChannelOptions {
+  /** WebSocket URL, resolved on every (re)connect so it carries the current session */
+  url: () => string;
+  /** Told the channel id once connected, and null once disconnected */
+  onChannel?: (channelId: string | null) => void;
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  /** Injectable for tests */
+  createSocket?: (url: string) => WebSocket;
+}
+
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * WebSocket connection to the server's avatar events, feeding a store
+ *
+ * Reconnects with exponential backoff until disconnected.
+ */
+export class AvatarEventChannel {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private closed = true;
+  private readonly store: AvatarEventStore;
+  private readonly options: Required<AvatarEventChannelOptions>;
+
+  constructor(store: AvatarEventStore, options: AvatarEventChannelOptions) {
+    this.store = store;
+    this.options = {
+      onChannel: () => {},
+      reconnectDelayMs: DEFAULT_RECONNECT_DELAY_MS,
+      maxReconnectDelayMs: DEFAULT_MAX_RECONNECT_DELAY_MS,
+      createSocket: url => new WebSocket(url),
+      ...options,
+    };
+  }
+
+  connect(): void {
+    this.closed = false;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+      this.options.onChannel(null);
+      this.store.disconnected();
+    }
+  }
+
+  private open(): void {
+    let socket: WebSocket;
+    try {
+      socket = this.options.createSocket(this.options.url());
+    } catch (error) {
+      console.warn('Avatar events unavailable:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onmessage = message => {
+      let event: unknown;
+      try {
+        event = JSON.parse(String(message.data));
+      } catch {
+        return;
+      }
+      if (!isAvatarEvent(event)) return;
+
+      if (event.type === 'connected') {
+        this.attempts = 0;
+        this.options.onChannel(event.channelId);
+      }
+      this.store.dispatch(event);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+
+      this.socket = null;
+      this.options.onChannel(null);
+      this.store.disconnected();
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed) return;
+
+    const { reconnectDelayMs, maxReconnectDelayMs } = this.options;
+    const delay = Math.min(reconnectDelayMs * 2 ** this.attempts, maxReconnectDelayMs);
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+}
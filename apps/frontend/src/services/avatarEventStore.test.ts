@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AvatarEventStore, INITIAL_AVATAR_EVENT_STATE, reduceAvatarEvent } from './avatarEventStore';
+import { AvatarEventChannel } from './avatarEventChannel';
+import type { AvatarEvent } from '../types/avatarEvents';
+
+const timestamp = '2025-01-01T00:00:00.000Z';
+
+const started: AvatarEvent = { type: 'response_started', requestId: 'req-1', timestamp };
+
+describe('reduceAvatarEvent', () => {
+  it('should follow a response from start to finish', () => {
+    const events: AvatarEvent[] = [
+      { type: 'connected', channelId: 'channel-1', timestamp },
+      started,
+      { type: 'token', requestId: 'req-1', content: 'Hello! ', timestamp },
+      { type: 'emotion', requestId: 'req-1', emotion: 'happy', intensity: 0.6, timestamp },
+      { type: 'gesture', requestId: 'req-1', gesture: 'wave', timestamp },
+    ];
+    const state = events.reduce(reduceAvatarEvent, INITIAL_AVATAR_EVENT_STATE);
+
+    expect(state).toMatchObject({
+      connected: true,
+      channelId: 'channel-1',
+      requestId: 'req-1',
+      isResponding: true,
+      responseLength: 7,
+      emotion: 'happy',
+      emotionIntensity: 0.6,
+      gesture: { gesture: 'wave', sequence: 1 },
+    });
+
+    const finished = reduceAvatarEvent(state, {
+      type: 'response_finished',
+      requestId: 'req-1',
+      response: 'Hello! Nice to see you.',
+      timestamp,
+    });
+    expect(finished).toMatchObject({ isResponding: false, responseLength: 23, emotion: 'happy' });
+  });
+
+  it('should number repeated gestures', () => {
+    const gesture: AvatarEvent = { type: 'gesture', requestId: 'req-1', gesture: 'nod', timestamp };
+    const state = [started, gesture, gesture].reduce(reduceAvatarEvent, INITIAL_AVATAR_EVENT_STATE);
+
+    expect(state.gesture).toEqual({ gesture: 'nod', sequence: 2 });
+  });
+
+  it('should ignore events of other responses', () => {
+    const state = reduceAvatarEvent(INITIAL_AVATAR_EVENT_STATE, started);
+
+    expect(reduceAvatarEvent(state, { type: 'token', requestId: 'req-0', content: 'late', timestamp })).toBe(state);
+    expect(reduceAvatarEvent(state, {
+      type: 'response_finished', requestId: 'req-0', response: 'late', timestamp,
+    })).toBe(state);
+  });
+});
+
+describe('AvatarEventStore', () => {
+  it('should notify subscribers of changes only', () => {
+    const store = new AvatarEventStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.setUserTyping(true);
+    store.setUserTyping(true);
+    store.messageSent(42);
+    unsubscribe();
+    store.setSpeaking(true);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(store.getSnapshot()).toMatchObject({ userIsTyping: false, lastMessageLength: 42, isSpeaking: true });
+  });
+});
+
+describe('AvatarEventChannel', () => {
+  class FakeSocket {
+    onmessage: ((message: { data: string }) => void) | null = null;
+    onclose: (() => void) | null = null;
+    close = vi.fn();
+
+    receive(event: unknown) {
+      this.onmessage?.({ data: JSON.stringify(event) });
+    }
+  }
+
+  let sockets: FakeSocket[];
+  let store: AvatarEventStore;
+  let onChannel: ReturnType<typeof vi.fn>;
+  let channel: AvatarEventChannel;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sockets = [];
+    store = new AvatarEventStore();
+    onChannel = vi.fn();
+    channel = new AvatarEventChannel(store, {
+      url: () => 'ws://localhost/api/avatar/events',
+      onChannel,
+      reconnectDelayMs: 100,
+      createSocket: () => {
+        const socket = new FakeSocket();
+        sockets.push(socket);
+        return socket as unknown as WebSocket;
+      },
+    });
+  });
+
+  afterEach(() => {
+    channel.disconnect();
+    vi.useRealTimers();
+  });
+
+  it('should feed server events into the store', () => {
+    channel.connect();
+    sockets[0].receive({ type: 'connected', channelId: 'channel-1', timestamp });
+    sockets[0].receive(started);
+    sockets[0].receive({ type: 'unknown' });
+
+    expect(onChannel).toHaveBeenCalledWith('channel-1');
+    expect(store.getSnapshot()).toMatchObject({ connected: true, channelId: 'channel-1', isResponding: true });
+  });
+
+  it('should reconnect with backoff after the connection drops', () => {
+    channel.connect();
+    sockets[0].receive(started);
+    sockets[0].onclose?.();
+
+    expect(onChannel).toHaveBeenLastCalledWith(null);
+    expect(store.getSnapshot()).toMatchObject({ connected: false, isResponding: false });
+
+    vi.advanceTimersByTime(100);
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].onclose?.();
+    vi.advanceTimersByTime(100);
+    expect(sockets).toHaveLength(2);
+    vi.advanceTimersByTime(100);
+    expect(sockets).toHaveLength(3);
+  });
+
+  it('should stop reconnecting once disconnected', () => {
+    channel.connect();
+    channel.disconnect();
+
+    expect(sockets[0].close).toHaveBeenCalled();
+    vi.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(1);
+  });
+});
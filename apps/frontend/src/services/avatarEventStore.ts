@@ -0,0 +1,148 @@
+import type { EmotionState } from '../types/context';
+import type { AvatarEvent, AvatarGestureCue } from '../types/avatarEvents';
+import type { LipSyncTrack } from '../types/speech';
+
+/**
+ * Avatar state, driven by server events and local UI state
+ */
+export interface AvatarEventState {
+  /** Connected to the server's avatar channel */
+  readonly connected: boolean;
+  /** Id of the channel chat requests name to receive events */
+  readonly channelId: string | null;
+  /** Response being generated, if any */
+  readonly requestId: string | null;
+  readonly isResponding: boolean;
+  /** Length of the response so far */
+  readonly responseLength: number;
+  /** The response is being read aloud (TTS) */
+  readonly isSpeaking: boolean;
+  /** Viseme track of the voice while the server voice speaks */
+  readonly lipSync: LipSyncTrack | null;
+  readonly userIsTyping: boolean;
+  readonly lastMessageLength: number;
+  readonly emotion: EmotionState;
+  /** 0-1 */
+  readonly emotionIntensity: number;
+  /** Latest gesture cue */
+  readonly gesture: AvatarGestureCue | null;
+}
+
+export const INITIAL_AVATAR_EVENT_STATE: AvatarEventState = {
+  connected: false,
+  channelId: null,
+  requestId: null,
+  isResponding: false,
+  responseLength: 0,
+  isSpeaking: false,
+  lipSync: null,
+  userIsTyping: false,
+  lastMessageLength: 0,
+  emotion: 'neutral',
+  emotionIntensity: 0,
+  gesture: null,
+};
+
+/**
+ * Apply a server event to the avatar state
+ *
+ * Tokens and cues of a response other than the current one are ignored.
+ */
+export function reduceAvatarEvent(state: AvatarEventState, event: AvatarEvent): AvatarEventState {
+  switch (event.type) {
+    case 'connected':
+      return { ...state, connected: true, channelId: event.channelId };
+
+    case 'response_started':
+      return {
+        ...state,
+        requestId: event.requestId,
+        isResponding: true,
+        responseLength: 0,
+        emotion: 'neutral',
+        emotionIntensity: 0,
+      };
+
+    case 'token':
+      if (event.requestId !== state.requestId) return state;
+      return { ...state, responseLength: state.responseLength + event.content.length };
+
+    case 'emotion':
+      if (event.requestId !== state.requestId) return state;
+      return { ...state, emotion: event.emotion, emotionIntensity: event.intensity };
+
+    case 'gesture':
+      if (event.requestId !== state.requestId) return state;
+      return {
+        ...state,
+        gesture: { gesture: event.gesture, sequence: (state.gesture?.sequence ?? 0) + 1 },
+      };
+
+    case 'response_finished':
+      if (event.requestId !== state.requestId) return state;
+      return {
+        ...state,
+        isResponding: false,
+        responseLength: event.response.length,
+        ...(event.error ? { emotion: 'neutral', emotionIntensity: 0 } : {}),
+      };
+  }
+}
+
+/**
+ * External store of the avatar state, for useSyncExternalStore
+ */
+export class AvatarEventStore {
+  private state: AvatarEventState;
+  private listeners = new Set<() => void>();
+
+  constructor(initialState: AvatarEventState = INITIAL_AVATAR_EVENT_STATE) {
+    this.state = initialState;
+  }
+
+  getSnapshot = (): AvatarEventState => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  dispatch(event: AvatarEvent): void {
+    this.setState(reduceAvatarEvent(this.state, event));
+  }
+
+  /** The channel closed; a response in flight won't report its end */
+  disconnected(): void {
+    this.setState({ ...this.state, connected: false, channelId: null, requestId: null, isResponding: false });
+  }
+
+  setUserTyping(userIsTyping: boolean): void {
+    this.setState({ ...this.state, userIsTyping });
+  }
+
+  setSpeaking(isSpeaking: boolean): void {
+    this.setState({ ...this.state, isSpeaking });
+  }
+
+  setLipSync(lipSync: LipSyncTrack | null): void {
+    this.setState({ ...this.state, lipSync });
+  }
+
+  messageSent(length: number): void {
+    this.setState({ ...this.state, lastMessageLength: length, userIsTyping: false });
+  }
+
+  private setState(next: AvatarEventState): void {
+    if (next === this.state) return;
+
+    const changed = (Object.keys(next) as (keyof AvatarEventState)[]).some(key => next[key] !== this.state[key]);
+    if (!changed) return;
+
+    this.state = next;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const avatarEventStore = new AvatarEventStore();
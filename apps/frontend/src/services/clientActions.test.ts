@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ClientActionDispatcher, validateClientAction } from './clientActions';
+
+describe('validateClientAction', () => {
+  it('should accept the actions the server sends', () => {
+    expect(validateClientAction({ type: 'room.load_preset', preset: 'Cozy Living Room' }))
+      .toEqual({ type: 'room.load_preset', preset: 'Cozy Living Room' });
+    expect(validateClientAction({ type: 'avatar.set_movement_intensity', intensity: 'energetic' }))
+      .toEqual({ type: 'avatar.set_movement_intensity', intensity: 'energetic' });
+    expect(validateClientAction({ type: 'settings.update', settings: { theme: 'dark', voiceSpeed: 1.5 } }))
+      .toEqual({ type: 'settings.update', settings: { theme: 'dark', voiceSpeed: 1.5 } });
+  });
+
+  it('should reject unknown actions and values out of range', () => {
+    expect(validateClientAction({ type: 'room.delete' })).toBeNull();
+    expect(validateClientAction({ type: 'room.load_preset', preset: 'Moon Base' })).toBeNull();
+    expect(validateClientAction({ type: 'avatar.set_movement_intensity', intensity: 11 })).toBeNull();
+    expect(validateClientAction({ type: 'settings.update', settings: { voiceVolume: 5 } })).toBeNull();
+    expect(validateClientAction({ type: 'settings.update', settings: { __proto__: { theme: 'dark' } } })).toBeNull();
+    expect(validateClientAction({ type: 'settings.update', settings: { apiKey: 'x' } })).toBeNull();
+    expect(validateClientAction('room.load_preset')).toBeNull();
+  });
+});
+
+describe('ClientActionDispatcher', () => {
+  it('should hand valid actions to subscribers and drop the rest', () => {
+    const dispatcher = new ClientActionDispatcher();
+    const handler = vi.fn();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const unsubscribe = dispatcher.subscribe(handler);
+
+    dispatcher.dispatch([
+      { type: 'room.load_preset', preset: 'Modern Office' },
+      { type: 'settings.update', settings: {} },
+    ]);
+    dispatcher.dispatch(undefined);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ type: 'room.load_preset', preset: 'Modern Office' });
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    dispatcher.dispatch([{ type: 'avatar.set_movement_intensity', intensity: 'subtle' }]);
+    expect(handler).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,54 @@
+import { ClientActionSchema } from '@contracts';
+import type { ClientAction } from '../types/clientActions';
+
+/**
+ * Check an action received from the server; null when it is not one we can apply
+ */
+export function validateClientAction(value: unknown): ClientAction | null {
+  const result = ClientActionSchema.safeParse(value);
+  if (!result.success) return null;
+
+  // The schema reads inherited properties too; those were not sent by the server
+  const action = result.data;
+  if (action.type === 'settings.update') {
+    const sent = (value as { settings: object }).settings;
+    const ownSettingsOnly = Object.keys(action.settings).every(key =>
+      Object.prototype.hasOwnProperty.call(sent, key)
+    );
+    if (!ownSettingsOnly) return null;
+  }
+
+  return action;
+}
+
+export type ClientActionHandler = (action: ClientAction) => void;
+
+/**
+ * Hands the actions of chat responses to whoever applies them (see App)
+ */
+export class ClientActionDispatcher {
+  private handlers = new Set<ClientActionHandler>();
+
+  subscribe = (handler: ClientActionHandler): (() => void) => {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  };
+
+  /**
+   * Validate and apply actions; invalid ones are dropped
+   */
+  dispatch(actions: readonly unknown[] | undefined): void {
+    for (const candidate of actions ?? []) {
+      const action = validateClientAction(candidate);
+      if (!action) {
+        console.warn('Ignoring invalid client action:', candidate);
+        continue;
+      }
+      this.handlers.forEach(handler => handler(action));
+    }
+  }
+}
+
+export const clientActionDispatcher = new ClientActionDispatcher();
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createContextManager, ContextManager } from './contextManager';
+import { createMessageId, createTimestamp } from '../types/common';
+import type { ChatMessage } from '../types/common';
+
+const createMessage = (content: string, sender: ChatMessage['sender'] = 'user'): ChatMessage => ({
+  id: createMessageId(`msg_${Math.random().toString(36).slice(2)}`),
+  content,
+  sender,
+  timestamp: createTimestamp(Date.now())
+});
+
+describe('ContextManager', () => {
+  let contextManager: ContextManager;
+
+  beforeEach(() => {
+    contextManager = createContextManager();
+  });
+
+  afterEach(() => {
+    contextManager.destroy();
+    vi.restoreAllMocks();
+  });
+
+  describe('processMessage', () => {
+    it('should report what validation found with the interaction metrics', async () => {
+      const track = vi.spyOn(contextManager['feedbackCollector'], 'trackValidationMetrics');
+
+      await contextManager.processMessage(createMessage('Hello there'));
+      await contextManager.processMessage(createMessage('Tell me about the sea'));
+
+      expect(track).toHaveBeenCalledTimes(2);
+      expect(track).toHaveBeenLastCalledWith('anonymous', expect.objectContaining({ validations: 2 }));
+    });
+
+    it('should not validate when validation is turned off', async () => {
+      contextManager.destroy();
+      contextManager = createContextManager({ validation: { enabled: false, rules: [], strictMode: false } });
+      const track = vi.spyOn(contextManager['feedbackCollector'], 'trackValidationMetrics');
+
+      await contextManager.processMessage(createMessage('Hello there'));
+
+      expect(track).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getChatContextPayload', () => {
+    it('should describe topics and emotion for the query', async () => {
+      await contextManager.processMessage(createMessage('I love talking about astronomy and planets'));
+
+      const payload = await contextManager.getChatContextPayload('Tell me more about planets, this is awesome');
+
+      expect(payload.activeTopics).toContain('planets');
+      expect(typeof payload.userEmotion).toBe('string');
+      expect(payload.memories).toEqual([]);
+    });
+
+    it('should include memories relevant to the query', async () => {
+      contextManager['memory'].longTermMemory.updatePreference({
+        category: 'hobbies',
+        preference: 'enjoys astronomy',
+        confidence: 0.9,
+        evidence: [],
+        lastUpdated: new Date()
+      });
+
+      const payload = await contextManager.getChatContextPayload('astronomy');
+
+      expect(payload.memories).toEqual(['hobbies: enjoys astronomy']);
+    });
+  });
+});
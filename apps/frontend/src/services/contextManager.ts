@@ -13,13 +13,20 @@ import type {
   UserProfile,
   EmotionState,
   ConversationPhase,
-  EnvironmentData
+  EnvironmentData,
+  SignificantInteraction,
+  LearnedPreference
 } from '../types/context';
 import type { ChatMessage } from '../types/common';
+import { createMessageId, createTimestamp } from '../types/common';
+import type { ChatContextPayload } from '../config/api';
 import type { IContextManager, ServiceHealth } from '../interfaces/ServiceInterfaces';
 
 import { LRUContextCache, CacheKeyGenerator, createContextCache } from './contextCache';
 import { AvatarMemorySystem, createMemorySystem } from './memorySystem';
+import type { InteractionEdit, MemorySnapshot, PreferenceEdit, PreferenceRef } from './memorySystem';
+import { createMemoryStorage } from './memoryStorage';
+import type { MemoryStorageAdapter } from './memoryStorage';
 import { EmotionalIntelligence } from './emotionalIntelligence';
 import { ContextCompressor, createContextCompressor } from './contextCompression';
 import { FeedbackCollector, createFeedbackCollector } from './feedbackCollection';
@@ -27,6 +34,9 @@ import { ContextValidator, createContextValidator } from './contextValidation';
 import type { ConversationSummary } from './contextCompression';
 import { AVATAR_PERSONALITY_CONFIG } from '../config/avatarPersonality';
 
+// Memories sent with each chat request; the server trims further to fit
+const MAX_CONTEXT_MEMORIES = 5;
+
 /**
  * Main Context Manager
  * Orchestrates all context management systems for intelligent conversation
@@ -44,10 +54,13 @@ export class ContextManager implements IContextManager {
   private isInitialized = false;
   private isHealthy = true;
 
-  constructor(config?: Partial<ContextManagerConfig>) {
+  constructor(
+    config?: Partial<ContextManagerConfig>,
+    memoryStorage: MemoryStorageAdapter | null = createMemoryStorage()
+  ) {
     this.config = this.createDefaultConfig(config);
     this.cache = createContextCache(this.config.cache);
-    this.memory = createMemorySystem(this.config.memory);
+    this.memory = createMemorySystem(this.config.memory, memoryStorage);
     this.emotionalIntelligence = new EmotionalIntelligence();
     this.contextCompressor = createContextCompressor();
     this.feedbackCollector = createFeedbackCollector();
@@ -140,6 +153,10 @@ export class ContextManager implements IContextManager {
       
       // Store in memory
       this.memory.processMessage(message, context);
+
+      if (this.config.validation.enabled) {
+        this.validateContext(context);
+      }
       
       // Cache the context
       const cacheKey = CacheKeyGenerator.forConversationContext(
@@ -187,6 +204,80 @@ export class ContextManager implements IContextManager {
     }
   }
 
+  /**
+   * Build the compact context sent with a chat request: active topics,
+   * the user's emotion and memories relevant to the query, after the ones
+   * the user pinned
+   */
+  async getChatContextPayload(query: string): Promise<ChatContextPayload> {
+    const queryMessage: ChatMessage = {
+      id: createMessageId(`query_${Date.now()}`),
+      content: query,
+      sender: 'user',
+      timestamp: createTimestamp(Date.now())
+    };
+    const recentMessages = this.memory.shortTermMemory.getRecentMessages(10);
+    const relevantMemories = await this.memory.getRelevantMemories(query, MAX_CONTEXT_MEMORIES);
+
+    const { significantInteractions, learnedPreferences } = this.memory.longTermMemory;
+    const describe = (interactions: SignificantInteraction[], preferences: LearnedPreference[]) => [
+      ...interactions.map(interaction => interaction.summary),
+      ...preferences.map(pref => `${pref.category}: ${pref.preference}`)
+    ];
+
+    const memories = [...new Set([
+      ...describe(
+        significantInteractions.filter(interaction => interaction.pinned),
+        learnedPreferences.filter(pref => pref.pinned)
+      ),
+      ...describe(relevantMemories.significantInteractions, relevantMemories.learnedPreferences)
+    ])].slice(0, MAX_CONTEXT_MEMORIES);
+
+    return {
+      activeTopics: this.extractActiveTopics([...recentMessages, queryMessage]),
+      // The message itself is recorded once it goes through processMessage
+      userEmotion: this.detectEmotion(queryMessage, false),
+      memories
+    };
+  }
+
+  /**
+   * What the avatar remembers about the user, for them to look through
+   */
+  async getMemorySnapshot(): Promise<MemorySnapshot> {
+    return this.memory.getMemorySnapshot();
+  }
+
+  /**
+   * Change or pin a remembered interaction; false when it is gone
+   */
+  editInteraction(id: string, changes: InteractionEdit): Promise<boolean> {
+    return this.memory.editInteraction(id, changes);
+  }
+
+  deleteInteraction(id: string): Promise<boolean> {
+    return this.memory.deleteInteraction(id);
+  }
+
+  /**
+   * Change or pin a learned preference; false when it is gone
+   */
+  editPreference(ref: PreferenceRef, changes: PreferenceEdit): Promise<boolean> {
+    return this.memory.editPreference(ref, changes);
+  }
+
+  deletePreference(ref: PreferenceRef): Promise<boolean> {
+    return this.memory.deletePreference(ref);
+  }
+
+  /**
+   * Forget everything about the user, stored memories included; rejects
+   * when stored memories could not be cleared
+   */
+  async wipeMemories(): Promise<void> {
+    await this.clearSession(false);
+  }
+
   /**
    * Analyze context for response optimization
    */
@@ -225,6 +316,22 @@ export class ContextManager implements IContextManager {
     });
   }
 
+  /**
+   * Apply updates to the current context. The user profile is kept in
+   * long-term memory; the rest lasts until the next message builds a new
+   * context.
+   */
+  async updateContext(updates: Partial<Context>): Promise<Context> {
+    if (updates.session?.userProfile) {
+      this.updateUserProfile(updates.session.userProfile);
+    }
+
+    const context = { ...this.memory.workingMemory.currentContext, ...updates };
+    this.memory.workingMemory.updateContext(context);
+    this.cache.set(CacheKeyGenerator.forSession(this.currentSessionId), context);
+    return context;
+  }
+
   /**
    * Get current session context
    */
@@ -311,7 +418,6 @@ export class ContextManager implements IContextManager {
     context?: any
   ): void {
     this.feedbackCollector.collectExplicitFeedback(
-      this.currentSessionId,
       userId,
       rating,
       category as any,
@@ -338,8 +444,8 @@ export class ContextManager implements IContextManager {
   /**
    * Clear session data
    */
-  clearSession(preserveUserProfile: boolean = true): void {
-    this.memory.clearMemories(preserveUserProfile);
+  async clearSession(preserveUserProfile: boolean = true): Promise<void> {
+    const memoriesCleared = this.memory.clearMemories(preserveUserProfile);
     this.cache.clear();
     this.contextCompressor.clearCache();
     this.currentSessionId = this.generateSessionId();
@@ -349,6 +455,25 @@ export class ContextManager implements IContextManager {
       preservedUserProfile: preserveUserProfile,
       timestamp: new Date()
     });
+
+    await memoriesCleared;
+  }
+
+  /**
+   * Get configuration
+   */
+  getConfig(): ContextManagerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update configuration; cache settings apply right away
+   */
+  updateConfig(updates: Partial<ContextManagerConfig>): void {
+    this.config = { ...this.config, ...updates };
+    if (updates.cache) {
+      this.cache.updateConfig(updates.cache);
+    }
   }
 
   /**
@@ -398,7 +523,7 @@ export class ContextManager implements IContextManager {
   }
 
   private async buildContextFromMemory(query: string): Promise<Context> {
-    const relevantMemories = this.memory.getRelevantMemories(query);
+    const relevantMemories = await this.memory.getRelevantMemories(query);
     const system = this.buildSystemContext();
     const session = this.getCurrentSessionContext();
     
@@ -541,18 +666,20 @@ export class ContextManager implements IContextManager {
     };
   }
 
-  private detectEmotion(message: ChatMessage): EmotionState {
+  private detectEmotion(message: ChatMessage, recordPattern: boolean = true): EmotionState {
     // Use emotional intelligence for enhanced emotion detection
     try {
       const context = this.buildMinimalContext(message);
       const analysis = this.emotionalIntelligence.analyzeEmotionalState(message.content, context);
       
       // Update emotional patterns
-      this.emotionalIntelligence.updateEmotionalPattern(
-        context.session.userProfile.userId, 
-        analysis.detectedEmotion, 
-        message.content
-      );
+      if (recordPattern) {
+        this.emotionalIntelligence.updateEmotionalPattern(
+          context.session.userProfile.userId, 
+          analysis.detectedEmotion, 
+          message.content
+        );
+      }
       
       // Map detected emotion to EmotionState
       const emotionMap: Record<string, EmotionState> = {
@@ -689,8 +816,7 @@ export class ContextManager implements IContextManager {
 
   private extractSessionObjectives(): string[] {
     // Extract objectives from conversation patterns
-    const memories = this.memory.getRelevantMemories('goal objective want need');
-    return memories.learnedPreferences
+    return this.memory.longTermMemory.learnedPreferences
       .filter(pref => pref.category === 'objectives')
       .map(pref => pref.preference);
   }
@@ -741,7 +867,8 @@ export class ContextManager implements IContextManager {
       memory: {
         shortTerm: config?.memory?.shortTerm ?? 50,
         longTerm: config?.memory?.longTerm ?? 1000,
-        workingMemory: config?.memory?.workingMemory ?? 20
+        workingMemory: config?.memory?.workingMemory ?? 20,
+        consolidation: config?.memory?.consolidation
       },
       processing: {
         maxProcessingTime: config?.processing?.maxProcessingTime ?? 5000,
@@ -756,7 +883,21 @@ export class ContextManager implements IContextManager {
     };
   }
 
-  private setupEventForwarding(): void {
+  // Validation results go out with the session's interaction metrics
+  private validateContext(context: Context): void {
+    this.contextValidator.validateContext(context);
+    const stats = this.contextValidator.getValidationStats();
+
+    this.feedbackCollector.trackValidationMetrics(context.session.userProfile.userId, {
+      validations: stats.totalValidations,
+      invalid: stats.invalidCount,
+      averageValidationTime: stats.averageValidationTime,
+      maxValidationTime: stats.performanceMetrics.maxTime,
+      issues: stats.commonIssues
+    });
+  }
+
+    private setupEventForwarding(): void {
     // Forward cache events
     this.cache.on('context_cached', (event) => {
       this.emitEvent('context_cached', event.payload);
@@ -902,4 +1043,4 @@ export interface ContextStats {
  */
 export function createContextManager(config?: Partial<ContextManagerConfig>): ContextManager {
   return new ContextManager(config);
-} 
\ No newline at end of file
+}
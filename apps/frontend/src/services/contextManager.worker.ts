@@ -0,0 +1,6 @@
+// Runs the context pipeline off the main thread, for ContextManagerClient
+
+import { createContextManager } from './contextManager';
+import { serveContextManager } from './contextManagerRpc';
+
+serveContextManager(createContextManager(), self);
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { ContextManagerClient } from './contextManagerClient';
+import { ContextManager } from './contextManager';
+import { serveContextManager } from './contextManagerRpc';
+import { IndexedDBMemoryStorage } from './memoryStorage';
+import { createMessageId, createTimestamp } from '../types/common';
+import type { ChatMessage } from '../types/common';
+import type { ContextEvent } from '../types/context';
+
+const createMessage = (content: string): ChatMessage => ({
+  id: createMessageId(`msg_${Math.random().toString(36).slice(2)}`),
+  content,
+  sender: 'user',
+  timestamp: createTimestamp(Date.now())
+});
+
+// The manager is served over a MessageChannel, as it is from the worker
+describe('ContextManagerClient', () => {
+  let manager: ContextManager;
+  let client: ContextManagerClient;
+  let channel: MessageChannel;
+
+  beforeEach(async () => {
+    manager = new ContextManager(undefined, null);
+    channel = new MessageChannel();
+    serveContextManager(manager, channel.port1);
+    client = new ContextManagerClient(channel.port2, () => {
+      channel.port1.close();
+      channel.port2.close();
+    });
+    await client.initialize();
+  });
+
+  afterEach(async () => {
+    await client.cleanup();
+    manager.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('should run the pipeline in the manager and answer with copies', async () => {
+    const context = await client.processMessage(createMessage('I love talking about astronomy and planets'));
+    const analysis = await client.analyzeContext(context);
+    const payload = await client.getChatContextPayload('Tell me more about planets');
+
+    expect(context.immediate.activeTopics).toContain('planets');
+    expect(context.session.startTime).toBeInstanceOf(Date);
+    expect(client.getSessionContext()).toBe(context);
+    expect(analysis.relevanceScore).toBeGreaterThan(0);
+    expect(payload.activeTopics).toContain('planets');
+    expect(client.getConfig()).toEqual(manager.getConfig());
+    expect(manager['memory'].shortTermMemory.getRecentMessages(10)).toHaveLength(1);
+  });
+
+  it('should apply every part of a context update in the manager', async () => {
+    const context = await client.processMessage(createMessage('I love talking about astronomy and planets'));
+    const profile = { ...context.session.userProfile, userId: 'sam' };
+
+    const updated = await client.updateContext({
+      session: { ...context.session, userProfile: profile },
+      immediate: { ...context.immediate, activeTopics: ['telescopes'] },
+    });
+
+    expect(updated.immediate.activeTopics).toEqual(['telescopes']);
+    expect(client.getSessionContext()).toBe(updated);
+    expect(manager['memory'].longTermMemory.userProfile.userId).toBe('sam');
+    expect(manager['memory'].workingMemory.currentContext.immediate.activeTopics).toEqual(['telescopes']);
+  });
+
+  it('should bridge the events listened to, until the last listener is removed', async () => {
+    const events: ContextEvent[] = [];
+    const listener = (event: ContextEvent) => events.push(event);
+    client.on('context_updated', listener);
+
+    // Remounting under StrictMode shuts the manager down and initializes it again
+    await client.shutdown();
+    await client.initialize();
+    const context = await client.processMessage(createMessage('Tell me about rockets'));
+    await client.analyzeContext(context);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].payload.analysis).toMatchObject({ relevanceScore: expect.any(Number) });
+    expect(events[0].timestamp).toBeInstanceOf(Date);
+
+    client.off('context_updated', listener);
+    await client.analyzeContext(context);
+    expect(events).toHaveLength(1);
+  });
+
+  it('should only shut the manager down once its last user is done', async () => {
+    const shutdown = vi.spyOn(manager, 'shutdown');
+    // The chat and one more user of the shared client
+    await client.initialize();
+
+    await client.shutdown();
+    expect(shutdown).not.toHaveBeenCalled();
+    await client.shutdown();
+    expect(shutdown).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject with the error thrown by the manager', async () => {
+    vi.spyOn(manager, 'getMemorySnapshot').mockRejectedValue(new Error('storage unavailable'));
+
+    await expect(client.getMemorySnapshot()).rejects.toThrow('storage unavailable');
+    expect(client.isHealthy()).toBe(true);
+  });
+
+  it('should fail every call once the worker has failed', async () => {
+    const pending = client.getChatContextPayload('anything');
+    client.fail(new Error('worker failed to load'));
+
+    await expect(pending).rejects.toThrow('worker failed to load');
+    await expect(client.clearSession()).rejects.toThrow('worker failed to load');
+    expect(client.isHealthy()).toBe(false);
+  });
+});
+
+describe('ContextManagerClient with stored memory', () => {
+  it('should run overlapping initialize and shutdown calls in order', async () => {
+    const factory = new IDBFactory();
+    const seed = new IndexedDBMemoryStorage('memory', factory);
+    await seed.save({
+      interactions: [{
+        id: 'interaction_1',
+        timestamp: new Date(1000),
+        summary: 'Talked about space',
+        impact: 0.7,
+        emotionalResonance: 0.8,
+        topics: ['space'],
+      }],
+      preferences: [],
+      relationship: null,
+    });
+    seed.close();
+
+    const manager = new ContextManager(undefined, new IndexedDBMemoryStorage('memory', factory));
+    const channel = new MessageChannel();
+    serveContextManager(manager, channel.port1);
+    const client = new ContextManagerClient(channel.port2, () => {
+      channel.port1.close();
+      channel.port2.close();
+    });
+
+    // As a StrictMode remount does, without waiting in between
+    await Promise.allSettled([client.initialize(), client.shutdown(), client.initialize()]);
+
+    const stored = new IndexedDBMemoryStorage('memory', factory);
+    expect(manager['memory'].longTermMemory.significantInteractions).toHaveLength(1);
+    expect((await stored.load()).interactions).toHaveLength(1);
+
+    stored.close();
+    await client.cleanup();
+    manager.destroy();
+  });
+});
+
+describe('getContextManager', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it('should start the worker on first use, once', async () => {
+    const worker = { addEventListener: vi.fn(), removeEventListener: vi.fn(), postMessage: vi.fn(), terminate: vi.fn() };
+    const Worker = vi.fn(() => worker);
+    vi.stubGlobal('Worker', Worker);
+
+    const { getContextManager } = await import('./contextManagerClient');
+    expect(Worker).not.toHaveBeenCalled();
+
+    expect(getContextManager()).toBe(getContextManager());
+    expect(Worker).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,317 @@
+import type {
+  Context,
+  ContextAnalysis,
+  ContextEvent,
+  ContextEventType,
+  ContextManagerConfig,
+  UserProfile
+} from '../types/context';
+import type { ChatMessage } from '../types/common';
+import type { ChatContextPayload } from '../config/api';
+import type { IContextManager } from '../interfaces/ServiceInterfaces';
+import { createContextManager } from './contextManager';
+import { serveContextManager } from './contextManagerRpc';
+import type {
+  ContextManagerPort,
+  ContextManagerRequest,
+  ContextManagerResponse,
+  RemoteArgs,
+  RemoteMethod,
+  RemoteResult
+} from './contextManagerRpc';
+import type { InteractionEdit, MemorySnapshot, PreferenceEdit, PreferenceRef } from './memorySystem';
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * The ContextManager as seen from the main thread
+ *
+ * The manager itself runs in a Web Worker, so compression, validation,
+ * emotion analysis and memory updates don't take frames from the 3D room.
+ * Every call is a message to it, answered asynchronously; results are
+ * copies. Listeners added with on() are called with the events the manager
+ * posts back. getSessionContext() and getConfig() answer from the last
+ * context and config the worker sent.
+ *
+ * initialize() and shutdown() are counted, so the users of a shared client
+ * each pair them: the manager starts with the first initialize() and shuts
+ * down with the matching last shutdown().
+ */
+export class ContextManagerClient implements IContextManager {
+  readonly name = 'ContextManager';
+  readonly version = '1.0.0';
+  private readonly port: ContextManagerPort;
+  private readonly terminate: () => void;
+  private readonly pending = new Map<number, PendingCall>();
+  private readonly eventListeners = new Map<ContextEventType, Set<(event: ContextEvent) => void>>();
+  private nextCallId = 0;
+  // initialize() calls not yet matched by a shutdown()
+  private users = 0;
+  private initialization: Promise<void> | null = null;
+  private failure: Error | null = null;
+  private sessionContext: Context | null = null;
+  private config: ContextManagerConfig | null = null;
+
+  /**
+   * @param terminate Stops whatever serves the port, once cleaned up
+   */
+  constructor(port: ContextManagerPort, terminate: () => void = () => {}) {
+    this.port = port;
+    this.terminate = terminate;
+    this.port.addEventListener('message', this.handleMessage);
+    this.port.start?.();
+  }
+
+  // Service interface methods
+  isHealthy(): boolean {
+    return this.failure === null;
+  }
+
+  async initialize(): Promise<void> {
+    this.users++;
+    if (!this.initialization) {
+      const initialization = (async () => {
+        await this.call('initialize');
+        this.config = await this.call('getConfig');
+      })();
+      this.initialization = initialization;
+      // The next initialize() tries again
+      initialization.catch(() => {
+        if (this.initialization === initialization) {
+          this.initialization = null;
+        }
+      });
+    }
+    await this.initialization;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.users > 0 && --this.users > 0) {
+      return;
+    }
+    this.initialization = null;
+    await this.call('shutdown');
+  }
+
+  /**
+   * Shut the manager down and stop its worker; later calls fail
+   */
+  async cleanup(): Promise<void> {
+    this.users = 0;
+    await this.shutdown().catch(() => {});
+    this.fail(new Error('ContextManager has been cleaned up'));
+    this.port.removeEventListener('message', this.handleMessage);
+    this.eventListeners.clear();
+    this.terminate();
+  }
+
+  healthCheck(): Promise<RemoteResult<'healthCheck'>> {
+    return this.call('healthCheck');
+  }
+
+  /**
+   * Fail every call, pending and later, with the error; for a worker that
+   * failed to load
+   */
+  fail(error: Error): void {
+    this.failure ??= error;
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+
+  async processMessage(message: ChatMessage): Promise<Context> {
+    this.sessionContext = await this.call('processMessage', message);
+    return this.sessionContext;
+  }
+
+  analyzeContext(context: Context): Promise<ContextAnalysis> {
+    return this.call('analyzeContext', context);
+  }
+
+  getChatContextPayload(query: string): Promise<ChatContextPayload> {
+    return this.call('getChatContextPayload', query);
+  }
+
+  /**
+   * The context last built from a message
+   */
+  getSessionContext(): Context {
+    if (!this.sessionContext) {
+      throw new Error('No message has been processed yet');
+    }
+    return this.sessionContext;
+  }
+
+  /**
+   * Apply updates to the context in the manager; see ContextManager.updateContext
+   */
+  async updateContext(updates: Partial<Context>): Promise<Context> {
+    this.sessionContext = await this.call('updateContext', updates);
+    return this.sessionContext;
+  }
+
+  updateUserProfile(updates: Partial<UserProfile>): Promise<void> {
+    return this.call('updateUserProfile', updates);
+  }
+
+  async clearSession(preserveUserProfile: boolean = true): Promise<void> {
+    await this.call('clearSession', preserveUserProfile);
+    this.sessionContext = null;
+  }
+
+  getConfig(): ContextManagerConfig {
+    if (!this.config) {
+      throw new Error('ContextManager is not initialized');
+    }
+    return this.config;
+  }
+
+  updateConfig(updates: Partial<ContextManagerConfig>): void {
+    if (this.config) {
+      this.config = { ...this.config, ...updates };
+    }
+    this.call('updateConfig', updates).catch(error => {
+      console.warn('Failed to update the context manager config:', error);
+    });
+  }
+
+  getMemorySnapshot(): Promise<MemorySnapshot> {
+    return this.call('getMemorySnapshot');
+  }
+
+  editInteraction(id: string, changes: InteractionEdit): Promise<boolean> {
+    return this.call('editInteraction', id, changes);
+  }
+
+  deleteInteraction(id: string): Promise<boolean> {
+    return this.call('deleteInteraction', id);
+  }
+
+  editPreference(ref: PreferenceRef, changes: PreferenceEdit): Promise<boolean> {
+    return this.call('editPreference', ref, changes);
+  }
+
+  deletePreference(ref: PreferenceRef): Promise<boolean> {
+    return this.call('deletePreference', ref);
+  }
+
+  wipeMemories(): Promise<void> {
+    return this.call('wipeMemories');
+  }
+
+  /**
+   * Add event listener; the manager only posts the events listened to
+   */
+  on(eventType: ContextEventType, listener: (event: ContextEvent) => void): void {
+    let listeners = this.eventListeners.get(eventType);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(eventType, listeners);
+      this.post({ type: 'subscribe', event: eventType });
+    }
+    listeners.add(listener);
+  }
+
+  /**
+   * Remove event listener
+   */
+  off(eventType: ContextEventType, listener: (event: ContextEvent) => void): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (!listeners?.delete(listener) || listeners.size > 0) {
+      return;
+    }
+    this.eventListeners.delete(eventType);
+    this.post({ type: 'unsubscribe', event: eventType });
+  }
+
+  addEventListener(eventType: ContextEventType, listener: (event: ContextEvent) => void): () => void {
+    this.on(eventType, listener);
+    return () => this.off(eventType, listener);
+  }
+
+  removeEventListener(eventType: ContextEventType, listener: (event: ContextEvent) => void): void {
+    this.off(eventType, listener);
+  }
+
+  // Private methods
+
+  private call<M extends RemoteMethod>(method: M, ...args: RemoteArgs<M>): Promise<RemoteResult<M>> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    const id = this.nextCallId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: value => resolve(value as RemoteResult<M>), reject });
+      this.post({ type: 'call', id, method, args });
+    });
+  }
+
+  private post(request: ContextManagerRequest): void {
+    this.port.postMessage(request);
+  }
+
+  private handleMessage = ({ data: response }: MessageEvent<ContextManagerResponse>): void => {
+    if (response.type === 'event') {
+      this.eventListeners.get(response.event.type)?.forEach(listener => listener(response.event));
+      return;
+    }
+
+    const call = this.pending.get(response.id);
+    if (!call) {
+      return;
+    }
+    this.pending.delete(response.id);
+
+    if (response.type === 'result') {
+      call.resolve(response.value);
+    } else {
+      const error = new Error(response.error.message);
+      error.name = response.error.name;
+      call.reject(error);
+    }
+  };
+}
+
+/**
+ * A client for a ContextManager in a new Web Worker. Where workers aren't
+ * available (tests, for one) the manager runs on this thread, behind the
+ * same asynchronous interface.
+ */
+export function createContextManagerClient(): ContextManagerClient {
+  if (typeof Worker === 'undefined') {
+    const { port1, port2 } = new MessageChannel();
+    serveContextManager(createContextManager(), port1);
+    return new ContextManagerClient(port2, () => {
+      port1.close();
+      port2.close();
+    });
+  }
+
+  const worker = new Worker(new URL('./contextManager.worker.ts', import.meta.url), { type: 'module' });
+  const client = new ContextManagerClient(worker, () => worker.terminate());
+  // A worker that failed to load never answers, so calls to it would never settle
+  let answered = false;
+  worker.addEventListener('message', () => { answered = true; }, { once: true });
+  worker.addEventListener('error', event => {
+    if (!answered) {
+      client.fail(new Error(`Context manager worker failed to load: ${event.message}`));
+    }
+  });
+  return client;
+}
+
+let sharedClient: ContextManagerClient | null = null;
+
+/**
+ * The client shared by the chat and the memory inspector, so both see the
+ * same memory. Its worker starts on the first call rather than when this
+ * module is imported.
+ */
+export function getContextManager(): ContextManagerClient {
+  sharedClient ??= createContextManagerClient();
+  return sharedClient;
+}
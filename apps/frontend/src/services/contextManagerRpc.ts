@@ -0,0 +1,128 @@
+// Messages between ContextManagerClient and the ContextManager it drives,
+// usually in a Web Worker (contextManager.worker.ts)
+
+import type { ContextEvent, ContextEventType } from '../types/context';
+import type { ContextManager } from './contextManager';
+
+/**
+ * The ContextManager methods the client calls. Arguments and results are
+ * structured-cloned on the way, which keeps plain data and Dates.
+ */
+export const REMOTE_METHODS = [
+  'initialize',
+  'shutdown',
+  'healthCheck',
+  'processMessage',
+  'analyzeContext',
+  'getChatContextPayload',
+  'updateContext',
+  'updateUserProfile',
+  'clearSession',
+  'getConfig',
+  'updateConfig',
+  'getMemorySnapshot',
+  'editInteraction',
+  'deleteInteraction',
+  'editPreference',
+  'deletePreference',
+  'wipeMemories',
+] as const satisfies readonly (keyof ContextManager)[];
+
+export type RemoteMethod = typeof REMOTE_METHODS[number];
+
+export type RemoteArgs<M extends RemoteMethod> =
+  ContextManager[M] extends (...args: infer A) => unknown ? A : never;
+
+export type RemoteResult<M extends RemoteMethod> =
+  ContextManager[M] extends (...args: never[]) => infer R ? Awaited<R> : never;
+
+export type ContextManagerRequest =
+  | { type: 'call'; id: number; method: RemoteMethod; args: unknown[] }
+  | { type: 'subscribe' | 'unsubscribe'; event: ContextEventType };
+
+export type ContextManagerResponse =
+  | { type: 'result'; id: number; value: unknown }
+  | { type: 'error'; id: number; error: { name: string; message: string } }
+  | { type: 'event'; event: ContextEvent };
+
+/**
+ * Either end of the channel: a Worker, the worker's global scope or a
+ * MessagePort
+ */
+export interface ContextManagerPort {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  /** MessagePorts only deliver once started */
+  start?(): void;
+}
+
+const isRemoteMethod = (method: string): method is RemoteMethod =>
+  (REMOTE_METHODS as readonly string[]).includes(method);
+
+/**
+ * Answer the calls coming in on the port with the manager, one at a time in
+ * the order they came, and post the events subscribed to back. A shutdown
+ * arriving while initialize() still restores memory would otherwise save the
+ * half-restored memory over the stored one.
+ */
+export function serveContextManager(manager: ContextManager, port: ContextManagerPort): void {
+  const forwarders = new Map<ContextEventType, (event: ContextEvent) => void>();
+  const post = (message: ContextManagerResponse) => port.postMessage(message);
+  // Settles once every call so far has
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const call = async (method: RemoteMethod, args: unknown[]): Promise<unknown> => {
+    const value = await (manager[method] as (...args: unknown[]) => unknown).apply(manager, args);
+    // Shutting down drops every listener, but the client's stay subscribed
+    if (method === 'shutdown') {
+      forwarders.forEach((forward, eventType) => manager.on(eventType, forward));
+    }
+    return value;
+  };
+
+  port.addEventListener('message', ({ data: request }: MessageEvent<ContextManagerRequest>) => {
+    switch (request.type) {
+      case 'call': {
+        const { id, method, args } = request;
+        const result = queue.then(() =>
+          isRemoteMethod(method) ? call(method, args) : Promise.reject(new Error(`Unknown method: ${method}`))
+        );
+        queue = result.catch(() => {});
+        result
+          .then(value => post({ type: 'result', id, value }))
+          .catch((error: unknown) => post({
+            type: 'error',
+            id,
+            error: error instanceof Error
+              ? { name: error.name, message: error.message }
+              : { name: 'Error', message: String(error) },
+          }));
+        break;
+      }
+      case 'subscribe': {
+        if (forwarders.has(request.event)) break;
+        const forward = (event: ContextEvent) => {
+          // An event that can't be cloned must not fail the call emitting it
+          try {
+            post({ type: 'event', event });
+          } catch (error) {
+            console.warn(`Failed to forward ${event.type} event:`, error);
+          }
+        };
+        forwarders.set(request.event, forward);
+        manager.on(request.event, forward);
+        break;
+      }
+      case 'unsubscribe': {
+        const forward = forwarders.get(request.event);
+        if (forward) {
+          forwarders.delete(request.event);
+          manager.off(request.event, forward);
+        }
+        break;
+      }
+    }
+  });
+  port.start?.();
+}
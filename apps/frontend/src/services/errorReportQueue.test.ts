@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ErrorReport } from '@contracts';
+import { ErrorReportQueue } from './errorReportQueue';
+import { ApiError, NetworkError, RateLimitError } from '../config/api';
+
+const report = (errorId: string, message = 'Boom'): ErrorReport => ({
+  errorId,
+  timestamp: 1736942400000,
+  error: { name: 'TypeError', message, stack: 'TypeError: Boom\n    at AvatarModel (AvatarModel.tsx:1:1)' },
+  url: 'http://localhost:5173/',
+  userAgent: 'vitest',
+  retryCount: 0,
+  recoveryAttempted: false,
+});
+
+const sentIds = (send: ReturnType<typeof vi.fn>, call: number) =>
+  (send.mock.calls[call][0] as ErrorReport[]).map(sent => sent.errorId);
+
+describe('ErrorReportQueue', () => {
+  let send: ReturnType<typeof vi.fn>;
+  let queue: ErrorReportQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    send = vi.fn().mockResolvedValue({ accepted: 1, duplicates: 0 });
+    queue = new ErrorReportQueue({ send, flushDelayMs: 100, batchSize: 2, retryDelayMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send reports in batches shortly after they arrive', async () => {
+    queue.enqueue(report('e1'));
+    queue.enqueue(report('e2'));
+    queue.enqueue(report('e3'));
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(sentIds(send, 0)).toEqual(['e1', 'e2']);
+    expect(sentIds(send, 1)).toEqual(['e3']);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should send failed batches again with growing delays', async () => {
+    send
+      .mockRejectedValueOnce(new NetworkError('offline'))
+      .mockRejectedValueOnce(new ApiError('Server error', 503));
+    queue.enqueue(report('e1'));
+
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    // Doubled after the second failure
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(send).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(sentIds(send, 2)).toEqual(['e1']);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should wait as long as a 429 asks, and drop batches the server refuses', async () => {
+    send
+      .mockRejectedValueOnce(new RateLimitError('Too many', 30))
+      .mockRejectedValueOnce(new ApiError('Invalid error reports', 400));
+    queue.enqueue(report('e1'));
+
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.advanceTimersByTimeAsync(29999);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(queue.size).toBe(0);
+    warn.mockRestore();
+  });
+
+  it('should send what is left with keepalive when the page goes away', async () => {
+    const stopListening = queue.listen(window);
+    queue.enqueue(report('e1', 'x'.repeat(5000)));
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(send).toHaveBeenCalledWith([expect.objectContaining({ errorId: 'e1' })], { keepalive: true });
+    expect((send.mock.calls[0][0] as ErrorReport[])[0].error.message).toHaveLength(2000);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    stopListening();
+    queue.enqueue(report('e2'));
+    window.dispatchEvent(new Event('pagehide'));
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,47 @@
+import { ERROR_REPORT_LIMITS, MAX_ERROR_REPORT_BATCH } from '@contracts';
+import type { ErrorReport } from '@contracts';
+import { apiService } from '../config/api';
+import { UploadQueue } from './uploadQueue';
+import type { SendBatch, UploadQueueOptions } from './uploadQueue';
+
+export type SendErrorReports = SendBatch<ErrorReport>;
+
+export type ErrorReportQueueOptions = Omit<UploadQueueOptions<ErrorReport>, 'keyOf' | 'label'>;
+
+const truncate = (text: string, limit: number): string => text.length > limit ? text.slice(0, limit) : text;
+
+// The server refuses whole batches over one report that is too long
+const fitToLimits = (report: ErrorReport): ErrorReport => ({
+  ...report,
+  error: {
+    name: truncate(report.error.name, ERROR_REPORT_LIMITS.name),
+    message: truncate(report.error.message, ERROR_REPORT_LIMITS.message),
+    ...(report.error.stack !== undefined ? { stack: truncate(report.error.stack, ERROR_REPORT_LIMITS.stack) } : {}),
+  },
+  ...(report.componentStack !== undefined
+    ? { componentStack: truncate(report.componentStack, ERROR_REPORT_LIMITS.stack) }
+    : {}),
+  url: truncate(report.url, ERROR_REPORT_LIMITS.url),
+  userAgent: truncate(report.userAgent, ERROR_REPORT_LIMITS.userAgent),
+});
+
+/**
+ * Error reports waiting to be sent to the server (POST /api/errors)
+ *
+ * The server counts a report it already has once, so the queue's resends
+ * are safe.
+ */
+export class ErrorReportQueue extends UploadQueue<ErrorReport> {
+  constructor(options: ErrorReportQueueOptions) {
+    super({ batchSize: MAX_ERROR_REPORT_BATCH, ...options, label: 'error reports' });
+  }
+
+  enqueue(report: ErrorReport): void {
+    super.enqueue(fitToLimits(report));
+  }
+}
+
+// The queue retries with backoff itself, so each send is tried once
+export const errorReportQueue = new ErrorReportQueue({
+  send: (reports, options) => apiService.reportErrors(reports, { ...options, retries: 0 }),
+});
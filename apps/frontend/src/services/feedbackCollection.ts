@@ -1,5 +1,8 @@
 // Feedback Collection Service for Avatar System
 
+import { feedbackUploader } from './feedbackUploader';
+import type { FeedbackUploader } from './feedbackUploader';
+
 /**
  * Feedback Collection Service for Avatar System
  * 
@@ -75,6 +78,7 @@ export interface InteractionMetrics {
   satisfactionScore: number; // 0-1
   technicalMetrics: TechnicalMetrics;
   behavioralMetrics: BehavioralMetrics;
+  validationMetrics?: ValidationMetrics;
 }
 
 export interface TechnicalMetrics {
@@ -86,6 +90,14 @@ export interface TechnicalMetrics {
   networkLatency: number;
 }
 
+export interface ValidationMetrics {
+  validations: number;
+  invalid: number;
+  averageValidationTime: number; // milliseconds
+  maxValidationTime: number; // milliseconds
+  issues: { type: string; count: number }[];
+}
+
 export interface BehavioralMetrics {
   messageLength: number;
   questionCount: number;
@@ -195,9 +207,15 @@ export class FeedbackCollector {
   private interactionMetrics: Map<string, InteractionMetrics> = new Map();
   private analyticsCache: FeedbackAnalytics | null = null;
   private lastAnalyticsUpdate: Date = new Date();
+  private uploader: FeedbackUploader | null;
 
-  constructor(config?: Partial<FeedbackConfig>) {
+  /**
+   * With an uploader, stored feedback and interaction metrics are also sent
+   * to the server, which aggregates them across users
+   */
+  constructor(config?: Partial<FeedbackConfig>, uploader: FeedbackUploader | null = null) {
     this.config = this.createDefaultConfig(config);
+    this.uploader = uploader;
   }
 
   /**
@@ -286,7 +304,7 @@ export class FeedbackCollector {
       behavioralMetrics: this.buildBehavioralMetrics(behavioralMetrics)
     };
 
-    this.interactionMetrics.set(sessionId, metrics);
+    this.storeInteractionMetrics(metrics);
     this.invalidateAnalyticsCache();
     return metrics;
   }
@@ -309,7 +327,7 @@ export class FeedbackCollector {
       networkLatency: metrics.networkLatency || interactionMetrics.technicalMetrics.networkLatency
     };
     
-    this.interactionMetrics.set(sessionId, interactionMetrics);
+    this.storeInteractionMetrics(interactionMetrics);
     this.invalidateAnalyticsCache();
   }
 
@@ -334,10 +352,23 @@ export class FeedbackCollector {
     // Update engagement score based on new metrics
     interactionMetrics.engagementScore = this.calculateEngagementScore(interactionMetrics.behavioralMetrics);
     
-    this.interactionMetrics.set(sessionId, interactionMetrics);
+    this.storeInteractionMetrics(interactionMetrics);
     this.invalidateAnalyticsCache();
   }
 
+  /**
+   * Track what context validation found in the session so far
+   */
+  trackValidationMetrics(userId: string, metrics: ValidationMetrics): void {
+    const sessionId = this.getCurrentSessionId(userId);
+    const interactionMetrics = this.getOrCreateInteractionMetrics(sessionId, userId);
+
+    interactionMetrics.validationMetrics = metrics;
+    interactionMetrics.timestamp = new Date();
+
+    this.storeInteractionMetrics(interactionMetrics);
+  }
+
   /**
    * Get comprehensive feedback analytics
    */
@@ -680,6 +711,16 @@ export class FeedbackCollector {
     }
     
     this.feedbackStore.set(feedback.id, feedback);
+    if (this.config.analyticsEnabled) {
+      this.uploader?.addFeedback(feedback);
+    }
+  }
+
+  private storeInteractionMetrics(metrics: InteractionMetrics): void {
+    this.interactionMetrics.set(metrics.sessionId, metrics);
+    if (this.config.analyticsEnabled) {
+      this.uploader?.addInteraction(metrics);
+    }
   }
 
   private hashUserId(userId: string): string {
@@ -1348,6 +1389,9 @@ export interface FeedbackStats {
   cacheHitRate: number;
 }
 
-export function createFeedbackCollector(config?: Partial<FeedbackConfig>): FeedbackCollector {
-  return new FeedbackCollector(config);
+export function createFeedbackCollector(
+  config?: Partial<FeedbackConfig>,
+  uploader: FeedbackUploader | null = feedbackUploader
+): FeedbackCollector {
+  return new FeedbackCollector(config, uploader);
 } 
\ No newline at end of file
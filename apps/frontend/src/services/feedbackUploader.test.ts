@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { FeedbackBatch } from '@contracts';
+import { FEEDBACK_STORAGE_KEY, FeedbackUploader } from './feedbackUploader';
+import { FeedbackCollector } from './feedbackCollection';
+import { NetworkError } from '../config/api';
+
+const sentBatch = (send: ReturnType<typeof vi.fn>, call: number) => send.mock.calls[call][0] as FeedbackBatch;
+
+describe('FeedbackUploader', () => {
+  let send: ReturnType<typeof vi.fn>;
+  let uploader: FeedbackUploader;
+  let collector: FeedbackCollector;
+
+  const setOnline = (onLine: boolean) => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(onLine);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    send = vi.fn().mockResolvedValue({ accepted: 1, duplicates: 0 });
+    uploader = new FeedbackUploader({ send, flushDelayMs: 100, retryDelayMs: 1000 });
+    collector = new FeedbackCollector({ privacyMode: 'full' }, uploader);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it('should upload feedback with the latest metrics of each session', async () => {
+    collector.trackInteraction('sam', 60, 4);
+    collector.collectExplicitFeedback('sam', 2, 'accuracy', 'Wrong answer', { responseTime: 900 });
+    collector.trackBehavioralMetrics('sam', { questionCount: 2 });
+    collector.trackValidationMetrics('sam', {
+      validations: 3,
+      invalid: 1,
+      averageValidationTime: 2,
+      maxValidationTime: 4,
+      issues: [{ type: 'missing_required', count: 1 }],
+    });
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    const batch = sentBatch(send, 0);
+    expect(batch.feedback).toEqual([expect.objectContaining({
+      type: 'explicit',
+      rating: 2,
+      category: 'accuracy',
+      content: 'Wrong answer',
+      timestamp: expect.any(Number),
+      context: expect.objectContaining({ responseTime: 900 }),
+    })]);
+    expect(batch.interactions).toHaveLength(1);
+    expect(batch.interactions[0]).toMatchObject({
+      duration: 60,
+      behavioralMetrics: { questionCount: 2 },
+      validationMetrics: { validations: 3, invalid: 1, issues: [{ type: 'missing_required', count: 1 }] },
+    });
+    expect(uploader.size).toBe(0);
+  });
+
+  it('should keep feedback not sent yet across reloads', async () => {
+    send.mockRejectedValueOnce(new NetworkError('offline'));
+    collector.collectExplicitFeedback('sam', 5, 'helpfulness', 'Great');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    // The page reloads before the retry
+    const reloadedSend = vi.fn().mockResolvedValue({ accepted: 1, duplicates: 0 });
+    const reloaded = new FeedbackUploader({ send: reloadedSend, flushDelayMs: 100 });
+    expect(reloaded.size).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sentBatch(reloadedSend, 0).feedback).toEqual([expect.objectContaining({ content: 'Great' })]);
+    expect(localStorage.getItem(FEEDBACK_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should wait for the browser to be back online', async () => {
+    const stopListening = uploader.listen(window);
+    setOnline(false);
+    collector.collectExplicitFeedback('sam', 4, 'helpfulness', 'Nice');
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(send).not.toHaveBeenCalled();
+
+    setOnline(true);
+    window.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(uploader.size).toBe(0);
+    stopListening();
+  });
+
+  it('should keep stored feedback until the keepalive upload succeeds', async () => {
+    let succeed: (value: unknown) => void = () => {};
+    send.mockReturnValueOnce(new Promise(resolve => { succeed = resolve; }));
+    const stopListening = uploader.listen(window);
+    collector.collectExplicitFeedback('sam', 3, 'user_experience', 'Okay');
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ feedback: [expect.anything()] }), { keepalive: true });
+    expect(localStorage.getItem(FEEDBACK_STORAGE_KEY)).not.toBeNull();
+
+    succeed({ accepted: 1, duplicates: 0 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(localStorage.getItem(FEEDBACK_STORAGE_KEY)).toBeNull();
+    stopListening();
+  });
+});
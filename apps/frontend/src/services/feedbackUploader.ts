@@ -0,0 +1,127 @@
+import { FEEDBACK_CONTENT_LIMIT, MAX_FEEDBACK_BATCH } from '@contracts';
+import type { FeedbackBatch, FeedbackItem, InteractionMetrics as InteractionSnapshot } from '@contracts';
+import { apiService } from '../config/api';
+import { UploadQueue } from './uploadQueue';
+import type { UploadQueueOptions } from './uploadQueue';
+import type { InteractionMetrics, UserFeedback } from './feedbackCollection';
+
+export const FEEDBACK_STORAGE_KEY = '3davatar_feedback_queue';
+
+export type FeedbackUpload =
+  | { kind: 'feedback'; item: FeedbackItem }
+  | { kind: 'interaction'; item: InteractionSnapshot };
+
+export type SendFeedback = (batch: FeedbackBatch, options: { keepalive?: boolean }) => Promise<unknown>;
+
+export interface FeedbackUploaderOptions
+  extends Omit<UploadQueueOptions<FeedbackUpload>, 'send' | 'keyOf' | 'label'> {
+  send: SendFeedback;
+}
+
+// Longest label the server accepts in feedback context and metadata
+const LABEL_LIMIT = 200;
+
+const label = (text: string): string => text.slice(0, LABEL_LIMIT);
+const unit = (value: number): number => Math.min(1, Math.max(0, value));
+
+// The server refuses whole batches over one item out of range
+const toFeedbackItem = (feedback: UserFeedback): FeedbackItem => ({
+  id: feedback.id,
+  sessionId: feedback.sessionId,
+  timestamp: feedback.timestamp.getTime(),
+  type: feedback.type,
+  ...(feedback.rating !== undefined ? { rating: Math.min(5, Math.max(1, Math.round(feedback.rating))) } : {}),
+  category: feedback.category,
+  content: feedback.content.slice(0, FEEDBACK_CONTENT_LIMIT),
+  context: {
+    ...(feedback.context.messageId !== undefined ? { messageId: label(feedback.context.messageId) } : {}),
+    conversationPhase: label(feedback.context.conversationPhase),
+    userEmotion: label(feedback.context.userEmotion),
+    responseTime: feedback.context.responseTime,
+    contextSize: feedback.context.contextSize,
+    activeFeatures: feedback.context.activeFeatures.slice(0, 50).map(label),
+    userIntent: label(feedback.context.userIntent),
+  },
+  metadata: {
+    ...feedback.metadata,
+    deviceType: label(feedback.metadata.deviceType),
+    confidence: unit(feedback.metadata.confidence),
+    userEngagement: unit(feedback.metadata.userEngagement),
+  },
+});
+
+const toInteractionSnapshot = (metrics: InteractionMetrics): InteractionSnapshot => ({
+  sessionId: metrics.sessionId,
+  timestamp: metrics.timestamp.getTime(),
+  duration: metrics.duration,
+  messageCount: metrics.messageCount,
+  userInitiated: metrics.userInitiated,
+  completionRate: unit(metrics.completionRate),
+  engagementScore: unit(metrics.engagementScore),
+  satisfactionScore: unit(metrics.satisfactionScore),
+  technicalMetrics: { ...metrics.technicalMetrics, cacheHitRate: unit(metrics.technicalMetrics.cacheHitRate) },
+  behavioralMetrics: { ...metrics.behavioralMetrics },
+  ...(metrics.validationMetrics ? {
+    validationMetrics: {
+      ...metrics.validationMetrics,
+      issues: metrics.validationMetrics.issues.slice(0, 50).map(issue => ({ ...issue, type: label(issue.type) })),
+    },
+  } : {}),
+});
+
+const toBatch = (uploads: FeedbackUpload[]): FeedbackBatch => ({
+  feedback: uploads.flatMap(upload => upload.kind === 'feedback' ? [upload.item] : []),
+  interactions: uploads.flatMap(upload => upload.kind === 'interaction' ? [upload.item] : []),
+});
+
+/**
+ * Feedback and interaction metrics waiting to be uploaded (POST /api/feedback)
+ *
+ * The queue is kept in localStorage, so nothing collected is lost to a
+ * reload or to being offline; it is sent on the next visit otherwise.
+ * Only the latest snapshot of a session's interaction metrics waits to be
+ * sent, as the server keeps only the latest one anyway.
+ */
+export class FeedbackUploader {
+  private readonly queue: UploadQueue<FeedbackUpload>;
+
+  constructor({ send, ...options }: FeedbackUploaderOptions) {
+    this.queue = new UploadQueue<FeedbackUpload>({
+      storageKey: FEEDBACK_STORAGE_KEY,
+      batchSize: MAX_FEEDBACK_BATCH,
+      ...options,
+      send: (uploads, sendOptions) => send(toBatch(uploads), sendOptions),
+      keyOf: upload => upload.kind === 'interaction' ? upload.item.sessionId : undefined,
+      label: 'feedback',
+    });
+  }
+
+  /** Uploads not sent yet */
+  get size(): number {
+    return this.queue.size;
+  }
+
+  addFeedback(feedback: UserFeedback): void {
+    this.queue.enqueue({ kind: 'feedback', item: toFeedbackItem(feedback) });
+  }
+
+  addInteraction(metrics: InteractionMetrics): void {
+    this.queue.enqueue({ kind: 'interaction', item: toInteractionSnapshot(metrics) });
+  }
+
+  flush = (): Promise<void> => this.queue.flush();
+
+  /**
+   * Upload once the page is hidden or unloaded, and once the browser is back
+   * online; returns the function that stops listening
+   */
+  listen(target: Window = window): () => void {
+    return this.queue.listen(target);
+  }
+}
+
+// The queue retries with backoff itself, so each send is tried once
+export const feedbackUploader = new FeedbackUploader({
+  send: (batch, options) => apiService.submitFeedback(batch, { ...options, retries: 0 }),
+  flushDelayMs: 5000,
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { Object3D } from 'three';
+import { applyViseme, findMouthMorphs, hasMouthMorphs, visemeAt, VISEME_MOUTH_OPENNESS } from './lipSync';
+import type { VisemeCue } from '../types/speech';
+
+const model = (...meshes: Partial<Record<'morphTargetDictionary' | 'morphTargetInfluences', unknown>>[]) => ({
+  traverse: (callback: (object: Object3D) => void) => meshes.forEach(mesh => callback(mesh as unknown as Object3D)),
+});
+
+describe('visemeAt', () => {
+  const cues: VisemeCue[] = [
+    { viseme: 'PP', start: 0, end: 100 },
+    { viseme: 'aa', start: 100, end: 250 },
+    { viseme: 'SS', start: 300, end: 400 },
+  ];
+
+  it('should find the cue held at a position', () => {
+    expect(visemeAt(cues, 0)).toBe('PP');
+    expect(visemeAt(cues, 100)).toBe('aa');
+    expect(visemeAt(cues, 399)).toBe('SS');
+  });
+
+  it('should be silent between cues and outside the track', () => {
+    expect(visemeAt(cues, 275)).toBe('sil');
+    expect(visemeAt(cues, 400)).toBe('sil');
+    expect(visemeAt(cues, -5)).toBe('sil');
+    expect(visemeAt([], 10)).toBe('sil');
+  });
+});
+
+describe('findMouthMorphs', () => {
+  it('should find viseme and open-mouth morph targets', () => {
+    const morphs = findMouthMorphs(model(
+      { morphTargetDictionary: { viseme_aa: 0, viseme_PP: 1, eyeBlink: 2 }, morphTargetInfluences: [0, 0, 0] },
+      { morphTargetDictionary: { jawOpen: 0 }, morphTargetInfluences: [0] },
+      {}
+    ));
+
+    expect(morphs.visemes.map(binding => [binding.viseme, binding.index])).toEqual([['aa', 0], ['PP', 1]]);
+    expect(morphs.openness).toHaveLength(1);
+    expect(hasMouthMorphs(morphs)).toBe(true);
+    expect(hasMouthMorphs(findMouthMorphs(model({})))).toBe(false);
+  });
+});
+
+describe('applyViseme', () => {
+  it('should ease viseme morph targets toward the current viseme', () => {
+    const influences = [0, 1];
+    const morphs = findMouthMorphs(model({ morphTargetDictionary: { viseme_aa: 0, viseme_PP: 1 }, morphTargetInfluences: influences }));
+
+    applyViseme(morphs, 'aa', 0.5);
+
+    expect(influences).toEqual([0.5, 0.5]);
+  });
+
+  it('should open the mouth by the viseme on rigs without viseme targets', () => {
+    const influences = [0];
+    const morphs = findMouthMorphs(model({ morphTargetDictionary: { mouthOpen: 0 }, morphTargetInfluences: influences }));
+
+    applyViseme(morphs, 'O', 1);
+
+    expect(influences[0]).toBe(VISEME_MOUTH_OPENNESS.O);
+  });
+});
@@ -0,0 +1,113 @@
+import type { Mesh, Object3D } from 'three';
+import type { Viseme, VisemeCue } from '../types/speech';
+
+/**
+ * How far each viseme opens the mouth (0-1), for rigs that only have an
+ * open-mouth or jaw morph target
+ */
+export const VISEME_MOUTH_OPENNESS: Record<Viseme, number> = {
+  sil: 0,
+  PP: 0,
+  FF: 0.15,
+  TH: 0.25,
+  DD: 0.3,
+  kk: 0.35,
+  CH: 0.3,
+  SS: 0.15,
+  nn: 0.25,
+  RR: 0.3,
+  aa: 1,
+  E: 0.6,
+  I: 0.4,
+  O: 0.8,
+  U: 0.5,
+};
+
+const VISEMES_BY_NAME = new Map(
+  (Object.keys(VISEME_MOUTH_OPENNESS) as Viseme[]).map(viseme => [viseme.toLowerCase(), viseme])
+);
+
+const OPEN_MOUTH_MORPHS = new Set(['mouthopen', 'mouth_open', 'jawopen', 'jaw_open']);
+
+/**
+ * The viseme held at a playback position; silence outside the track
+ */
+export function visemeAt(cues: readonly VisemeCue[], timeMs: number): Viseme {
+  let low = 0;
+  let high = cues.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const cue = cues[middle];
+    if (timeMs < cue.start) {
+      high = middle - 1;
+    } else if (timeMs >= cue.end) {
+      low = middle + 1;
+    } else {
+      return cue.viseme;
+    }
+  }
+
+  return 'sil';
+}
+
+interface MorphBinding {
+  readonly influences: number[];
+  readonly index: number;
+}
+
+/**
+ * Mouth morph targets of a model
+ */
+export interface MouthMorphs {
+  /** `viseme_aa`, `viseme_PP`, ... (Ready Player Me / Oculus naming) */
+  readonly visemes: readonly (MorphBinding & { readonly viseme: Viseme })[];
+  /** `mouthOpen` / `jawOpen` */
+  readonly openness: readonly MorphBinding[];
+}
+
+/**
+ * Find the morph targets lip sync can drive in a model
+ */
+export function findMouthMorphs(root: Pick<Object3D, 'traverse'>): MouthMorphs {
+  const visemes: MouthMorphs['visemes'][number][] = [];
+  const openness: MorphBinding[] = [];
+
+  root.traverse(object => {
+    const { morphTargetDictionary, morphTargetInfluences } = object as Mesh;
+    if (!morphTargetDictionary || !morphTargetInfluences) return;
+
+    for (const [name, index] of Object.entries(morphTargetDictionary)) {
+      const key = name.toLowerCase();
+      const viseme = key.startsWith('viseme_') ? VISEMES_BY_NAME.get(key.slice('viseme_'.length)) : undefined;
+
+      if (viseme) {
+        visemes.push({ influences: morphTargetInfluences, index, viseme });
+      } else if (OPEN_MOUTH_MORPHS.has(key)) {
+        openness.push({ influences: morphTargetInfluences, index });
+      }
+    }
+  });
+
+  return { visemes, openness };
+}
+
+export const hasMouthMorphs = (morphs: MouthMorphs): boolean =>
+  morphs.visemes.length > 0 || morphs.openness.length > 0;
+
+/**
+ * Ease the mouth toward a viseme, `blend` (0-1) of the way per call.
+ * Rigs with viseme morph targets use those; others open the mouth or jaw.
+ */
+export function applyViseme(morphs: MouthMorphs, viseme: Viseme, blend: number): void {
+  const ease = ({ influences, index }: MorphBinding, target: number) => {
+    influences[index] += (target - influences[index]) * blend;
+  };
+
+  if (morphs.visemes.length > 0) {
+    morphs.visemes.forEach(binding => ease(binding, binding.viseme === viseme ? 1 : 0));
+    return;
+  }
+
+  morphs.openness.forEach(binding => ease(binding, VISEME_MOUTH_OPENNESS[viseme]));
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AvatarMemorySystem } from './memorySystem';
+import { createMessageId, createTimestamp } from '../types/common';
+import type { ChatMessage } from '../types/common';
+import type { SignificantInteraction } from '../types/context';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createMessage = (content: string): ChatMessage => ({
+  id: createMessageId(`msg_${Math.random().toString(36).slice(2)}`),
+  content,
+  sender: 'user',
+  timestamp: createTimestamp(Date.now())
+});
+
+const interaction = (id: string, summary: string, topics: string[] = []): SignificantInteraction => ({
+  id,
+  timestamp: new Date(),
+  summary,
+  impact: 0.5,
+  emotionalResonance: 0.5,
+  topics,
+});
+
+describe('memory consolidation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should promote themes recurring in recent messages once', async () => {
+    const memory = new AvatarMemorySystem();
+    ['I bought a saxophone', 'Saxophone practice went well', 'My saxophone teacher is great']
+      .forEach(content => memory.shortTermMemory.addMessage(createMessage(content)));
+
+    expect((await memory.consolidate()).promoted).toEqual(['theme_saxophone']);
+    expect(memory.longTermMemory.significantInteractions[0].summary).toContain('My saxophone teacher is great');
+    expect((await memory.consolidate()).promoted).toEqual([]);
+  });
+
+  it('should merge near-duplicate interactions', async () => {
+    const memory = new AvatarMemorySystem();
+    memory.longTermMemory.storeSignificantInteraction(
+      interaction('first', 'excited discussion about travel: "I am planning a trip to Kyoto in April..."', ['planning', 'kyoto'])
+    );
+    memory.longTermMemory.storeSignificantInteraction({
+      ...interaction('second', 'excited discussion about travel: "I am planning my trip to Kyoto for April..."', ['kyoto', 'april']),
+      impact: 0.8,
+    });
+    memory.longTermMemory.storeSignificantInteraction(interaction('other', 'a new telescope', ['telescope']));
+
+    const report = await memory.consolidate();
+
+    expect(report.merged).toBe(1);
+    const ids = memory.longTermMemory.significantInteractions.map(found => found.id);
+    expect(ids.sort()).toEqual(['other', 'second']);
+    const merged = memory.longTermMemory.significantInteractions.find(found => found.id === 'second');
+    expect(merged).toMatchObject({ impact: 0.8, topics: ['kyoto', 'april', 'planning'] });
+    expect((await memory.getRelevantMemories('kyoto')).significantInteractions.map(found => found.id)).toEqual(['second']);
+  });
+
+  it('should forget memories that are not recalled and keep recalled ones', async () => {
+    vi.useFakeTimers();
+    const memory = new AvatarMemorySystem();
+    memory.longTermMemory.storeSignificantInteraction(interaction('recalled', 'my dog biscuit'));
+    memory.longTermMemory.storeSignificantInteraction(interaction('unrecalled', 'a new telescope'));
+    await memory.getRelevantMemories('biscuit');
+
+    // Four half-lives for the unrecalled memory, two for the recalled one
+    vi.setSystemTime(Date.now() + 120 * DAY_MS);
+    const report = await memory.consolidate();
+
+    expect(report.forgotten).toBe(1);
+    expect(memory.longTermMemory.significantInteractions.map(found => found.id)).toEqual(['recalled']);
+    expect(memory.longTermMemory.significantInteractions[0].recallCount).toBe(1);
+  });
+
+  it('should keep pinned memories however faded', async () => {
+    vi.useFakeTimers();
+    const memory = new AvatarMemorySystem();
+    memory.longTermMemory.storeSignificantInteraction(interaction('pinned', 'my dog biscuit'));
+    await memory.editInteraction('pinned', { pinned: true });
+
+    vi.setSystemTime(Date.now() + 365 * DAY_MS);
+
+    expect((await memory.consolidate()).forgotten).toBe(0);
+  });
+
+  it('should consolidate in the background as configured', async () => {
+    vi.useFakeTimers();
+    const memory = new AvatarMemorySystem({ consolidation: { intervalMs: 1000, promotionThreshold: 2 } });
+    const consolidated = vi.fn();
+    memory.on('memory_consolidated', consolidated);
+    await memory.initialize();
+
+    memory.shortTermMemory.addMessage(createMessage('Chess openings are hard'));
+    memory.shortTermMemory.addMessage(createMessage('I lost at chess again'));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(consolidated).toHaveBeenCalledWith(expect.objectContaining({ promoted: ['theme_chess'] }));
+    await memory.shutdown();
+  });
+});
@@ -0,0 +1,92 @@
+// Consolidation of the avatar's long-term memory
+// Recurring themes are promoted, near-duplicates merged, and unrecalled memories fade
+
+import type { MemoryConsolidationLimits, SignificantInteraction } from '../types/context';
+import type { ChatMessage } from '../types/common';
+import { tokenize } from './memoryRetrieval';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CONSOLIDATION_LIMITS: MemoryConsolidationLimits = {
+  intervalMs: 60 * 1000,
+  promotionThreshold: 3,
+  mergeSimilarity: 0.8,
+  halfLifeDays: 30,
+  recallReinforcement: 2,
+  forgetBelow: 0.05,
+};
+
+/**
+ * What one consolidation changed
+ */
+export interface ConsolidationReport {
+  promoted: string[]; // ids of the interactions created from themes
+  merged: number;
+  forgotten: number;
+}
+
+/**
+ * How much of a memory is left (0-1): its impact, halved every half-life
+ * since it was last recalled (or made). Every recall lengthens the
+ * half-life, so memories recalled often fade slower.
+ */
+export function memoryStrength(
+  interaction: SignificantInteraction,
+  now: number,
+  limits: Pick<MemoryConsolidationLimits, 'halfLifeDays' | 'recallReinforcement'>
+): number {
+  const since = (interaction.lastRecalled ?? interaction.timestamp).getTime();
+  const halfLifeMs = limits.halfLifeDays * DAY_MS * limits.recallReinforcement ** (interaction.recallCount ?? 0);
+  return interaction.impact * 2 ** (-Math.max(0, now - since) / halfLifeMs);
+}
+
+/**
+ * Count one more recall of the interaction, now
+ */
+export function reinforce(interaction: SignificantInteraction, now: number): void {
+  interaction.recallCount = (interaction.recallCount ?? 0) + 1;
+  interaction.lastRecalled = new Date(now);
+}
+
+/**
+ * Terms at least threshold of the user's messages mention, with the latest
+ * message mentioning each, most mentioned first
+ */
+export function findRecurringThemes(
+  messages: ChatMessage[],
+  threshold: number
+): Array<{ theme: string; count: number; latest: ChatMessage }> {
+  const themes = new Map<string, { count: number; latest: ChatMessage }>();
+  messages
+    .filter(message => message.sender === 'user')
+    .forEach(message => {
+      new Set(tokenize(message.content)).forEach(theme => {
+        themes.set(theme, { count: (themes.get(theme)?.count ?? 0) + 1, latest: message });
+      });
+    });
+
+  return [...themes.entries()]
+    .filter(([, { count }]) => count >= threshold)
+    .map(([theme, { count, latest }]) => ({ theme, count, latest }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * One interaction for two alike ones: the more impactful one's summary,
+ * both's topics and recalls, kept from when the first was made
+ */
+export function mergeInteractions(
+  kept: SignificantInteraction,
+  merged: SignificantInteraction
+): SignificantInteraction {
+  const recalls = [kept.lastRecalled, merged.lastRecalled].filter((date): date is Date => date !== undefined);
+  return {
+    ...kept,
+    timestamp: new Date(Math.min(kept.timestamp.getTime(), merged.timestamp.getTime())),
+    impact: Math.max(kept.impact, merged.impact),
+    emotionalResonance: Math.max(kept.emotionalResonance, merged.emotionalResonance),
+    topics: [...new Set([...kept.topics, ...merged.topics])],
+    recallCount: (kept.recallCount ?? 0) + (merged.recallCount ?? 0),
+    ...(recalls.length > 0 ? { lastRecalled: new Date(Math.max(...recalls.map(date => date.getTime()))) } : {}),
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { LearnedPreference, SignificantInteraction } from '../types/context';
+import { AvatarMemorySystem } from './memorySystem';
+import { LexicalEmbeddingModel, OnDeviceEmbeddingModel, VectorIndex, tokenize } from './memoryRetrieval';
+import {
+  RECALL_INTERACTIONS,
+  RECALL_PREFERENCES,
+  RECALL_QUERIES,
+  preferenceId,
+} from '../test-utils/memoryRecallFixture';
+
+const RECALL_AT = 3;
+
+// How memories were matched before the vector index: the whole query as a substring
+const keywordSearch = (query: string): string[] => {
+  const queryLower = query.toLowerCase();
+  return [
+    ...RECALL_INTERACTIONS
+      .filter(interaction =>
+        interaction.summary.toLowerCase().includes(queryLower) ||
+        interaction.topics.some(topic => topic.includes(queryLower)))
+      .sort((a, b) => b.impact - a.impact)
+      .slice(0, RECALL_AT)
+      .map(interaction => interaction.id),
+    ...RECALL_PREFERENCES
+      .filter(pref =>
+        pref.category.toLowerCase().includes(queryLower) ||
+        pref.preference.toLowerCase().includes(queryLower))
+      .map(preferenceId),
+  ];
+};
+
+// Share of the relevant memories found, averaged over the queries
+const recall = async (search: (query: string) => Promise<string[]> | string[]): Promise<number> => {
+  let total = 0;
+  for (const { query, relevant } of RECALL_QUERIES) {
+    const found = new Set(await search(query));
+    total += relevant.filter(id => found.has(id)).length / relevant.length;
+  }
+  return total / RECALL_QUERIES.length;
+};
+
+const rememberFixture = (memory: AvatarMemorySystem) => {
+  RECALL_INTERACTIONS.forEach(interaction => memory.longTermMemory.storeSignificantInteraction(interaction));
+  RECALL_PREFERENCES.forEach(pref => memory.longTermMemory.updatePreference(pref));
+};
+
+const interaction = (id: string, summary: string): SignificantInteraction => ({
+  id,
+  timestamp: new Date(),
+  summary,
+  impact: 0.5,
+  emotionalResonance: 0.5,
+  topics: [],
+});
+
+describe('memory retrieval', () => {
+  it('should recall more of the benchmark than keyword matching', async () => {
+    const memory = new AvatarMemorySystem();
+    rememberFixture(memory);
+
+    const indexed = await recall(async query => {
+      const result = await memory.getRelevantMemories(query, RECALL_AT);
+      return [
+        ...result.significantInteractions.map(found => found.id),
+        ...result.learnedPreferences.map(preferenceId),
+      ];
+    });
+    const keyword = await recall(keywordSearch);
+
+    expect(keyword).toBeLessThan(0.1);
+    expect(indexed).toBeGreaterThan(0.8);
+  });
+
+  it('should rank the most similar memory first', async () => {
+    const memory = new AvatarMemorySystem({}, null, new LexicalEmbeddingModel({ weighting: 'tfidf' }));
+    rememberFixture(memory);
+
+    const result = await memory.getRelevantMemories('Is Biscuit feeling any better?', RECALL_AT);
+
+    expect(result.significantInteractions[0].id).toBe('dog');
+    expect(result.relevanceScore).toBeGreaterThan(0.1);
+  });
+
+  it('should forget what is removed from long-term memory', async () => {
+    const memory = new AvatarMemorySystem({ longTerm: 1 });
+    memory.longTermMemory.storeSignificantInteraction({ ...interaction('old', 'a trip to kyoto'), impact: 0.2 });
+    memory.longTermMemory.storeSignificantInteraction(interaction('new', 'a new telescope'));
+
+    expect((await memory.getRelevantMemories('kyoto')).significantInteractions).toEqual([]);
+
+    memory.clearMemories(false);
+    expect((await memory.getRelevantMemories('telescope')).significantInteractions).toEqual([]);
+  });
+
+  it('should stem and drop stop words', () => {
+    expect(tokenize('I was planning the trips')).toEqual(['plan', 'trip']);
+    expect(tokenize('communication_style: prefers_brief_responses')).toEqual([
+      'communication', 'style', 'prefer', 'brief', 'respons',
+    ]);
+  });
+
+  it('should load an on-device model once and embed each text once', async () => {
+    const encode = vi.fn(async (texts: string[]) =>
+      texts.map(text => [text.includes('dog') ? 1 : 0, text.includes('cat') ? 1 : 0]));
+    const load = vi.fn().mockResolvedValue(encode);
+    const index = new VectorIndex<LearnedPreference | string>(new OnDeviceEmbeddingModel({ name: 'test', load }));
+    index.add('dog', 'my dog', 'dog');
+    index.add('cat', 'my cat', 'cat');
+
+    expect((await index.search('a dog', 5)).map(found => found.item)).toEqual(['dog']);
+    expect((await index.search('a cat', 5)).map(found => found.item)).toEqual(['cat']);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(encode.mock.calls.map(([texts]) => texts)).toEqual([['my dog', 'my cat'], ['a dog'], ['a cat']]);
+  });
+});
@@ -0,0 +1,318 @@
+// Semantic retrieval for the avatar's memory
+// Pluggable embedding models and the vector index getRelevantMemories queries
+
+/**
+ * A text as a vector: dense for neural models, sparse (term -> weight) for
+ * lexical ones. Vectors of one model are always of the same kind.
+ */
+export type Embedding = number[] | ReadonlyMap<string, number>;
+
+/**
+ * Turns texts into vectors whose cosine similarity says how related they are
+ */
+export interface EmbeddingModel {
+  readonly name: string;
+  /** Similarity below which a memory is not considered relevant at all */
+  readonly minSimilarity: number;
+  /**
+   * Learn from the texts of every indexed memory; models with corpus
+   * statistics (TF-IDF, BM25) need this before embedding, and every stored
+   * vector is computed again after it
+   */
+  fit?(documents: string[]): void;
+  embed(texts: string[]): Promise<Embedding[]>;
+}
+
+export interface ScoredItem<T> {
+  item: T;
+  score: number;
+}
+
+// Words too common to say anything about what a text is about
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'for', 'from', 'had',
+  'has', 'have', 'having', 'he', 'her', 'here', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is',
+  'it', 'its', 'just', 'me', 'more', 'most', 'my', 'no', 'not', 'now', 'of', 'on', 'or', 'our', 'out',
+  'she', 'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'those', 'to', 'too', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your', 'tell', 'talk', 'talked', 'remember',
+  'also', 'get', 'got', 'know', 'like', 'okay', 'one', 'please', 'really', 'thank', 'thanks', 'think',
+  'want', 'well', 'yes', 'yeah',
+]);
+
+// Crude suffix stripping, so that "plans", "planned" and "planning" meet
+const stem = (word: string): string => {
+  if (word.length <= 4 || word.endsWith('ss')) return word;
+  for (const suffix of ['ingly', 'edly', 'ing', 'ies', 'ied', 'ed', 'es', 'ly', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      const root = word.slice(0, -suffix.length);
+      if (suffix === 'ies' || suffix === 'ied') return `${root}y`;
+      // "planning" -> "plann" -> "plan"
+      return root.length > 3 && root[root.length - 1] === root[root.length - 2] ? root.slice(0, -1) : root;
+    }
+  }
+  return word;
+};
+
+/**
+ * The terms of a text: lowercased, without stop words, stemmed
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/_/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+export function cosineSimilarity(a: Embedding, b: Embedding): number {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  if (a instanceof Map && b instanceof Map) {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let dot = 0;
+    small.forEach((weight, term) => {
+      dot += weight * (large.get(term) ?? 0);
+    });
+    const norm = (vector: ReadonlyMap<string, number>) =>
+      Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+    const normA = norm(a);
+    const normB = norm(b);
+    return normA > 0 && normB > 0 ? dot / (normA * normB) : 0;
+  }
+
+  return 0;
+}
+
+export interface LexicalEmbeddingOptions {
+  /** How term frequencies are weighted (default: bm25) */
+  weighting?: 'bm25' | 'tfidf';
+  /** BM25 term frequency saturation */
+  k1?: number;
+  /** BM25 document length normalization */
+  b?: number;
+}
+
+/**
+ * Sparse term vectors weighted by TF-IDF or BM25, learned from the indexed
+ * memories. Needs no download and runs anywhere; the default model.
+ */
+export class LexicalEmbeddingModel implements EmbeddingModel {
+  readonly name: string;
+  readonly minSimilarity = 0.05;
+
+  private documentFrequency = new Map<string, number>();
+  private documentCount = 0;
+  private averageLength = 1;
+  private readonly weighting: 'bm25' | 'tfidf';
+  private readonly k1: number;
+  private readonly b: number;
+
+  constructor({ weighting = 'bm25', k1 = 1.2, b = 0.75 }: LexicalEmbeddingOptions = {}) {
+    this.weighting = weighting;
+    this.k1 = k1;
+    this.b = b;
+    this.name = weighting;
+  }
+
+  fit(documents: string[]): void {
+    this.documentFrequency = new Map();
+    let totalLength = 0;
+    for (const document of documents) {
+      const terms = tokenize(document);
+      totalLength += terms.length;
+      new Set(terms).forEach(term => {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      });
+    }
+    this.documentCount = documents.length;
+    this.averageLength = documents.length > 0 ? Math.max(1, totalLength / documents.length) : 1;
+  }
+
+  async embed(texts: string[]): Promise<Embedding[]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): Map<string, number> {
+    const terms = tokenize(text);
+    const counts = new Map<string, number>();
+    terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+
+    const vector = new Map<string, number>();
+    counts.forEach((count, term) => {
+      // Smoothed, so terms no memory has still count a little in queries
+      const df = this.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (this.documentCount - df + 0.5) / (df + 0.5));
+      const tf = this.weighting === 'bm25'
+        ? (count * (this.k1 + 1)) / (count + this.k1 * (1 - this.b + this.b * terms.length / this.averageLength))
+        : count / terms.length;
+      vector.set(term, tf * idf);
+    });
+    return vector;
+  }
+}
+
+/**
+ * Encodes texts into dense vectors, e.g. a transformers.js
+ * feature-extraction pipeline with mean pooling
+ */
+export type TextEncoder = (texts: string[]) => Promise<number[][]>;
+
+export interface OnDeviceEmbeddingOptions {
+  name: string;
+  /** Loads the model once, when the first text is embedded */
+  load: () => Promise<TextEncoder>;
+  minSimilarity?: number;
+}
+
+/**
+ * A neural embedding model running in the browser. It is only loaded once
+ * memories are first searched, and embeddings of texts seen before are
+ * reused.
+ */
+export class OnDeviceEmbeddingModel implements EmbeddingModel {
+  readonly name: string;
+  readonly minSimilarity: number;
+
+  private encoder: Promise<TextEncoder> | null = null;
+  private readonly load: () => Promise<TextEncoder>;
+  private readonly cache = new Map<string, number[]>();
+
+  constructor({ name, load, minSimilarity = 0.3 }: OnDeviceEmbeddingOptions) {
+    this.name = name;
+    this.load = load;
+    this.minSimilarity = minSimilarity;
+  }
+
+  async embed(texts: string[]): Promise<Embedding[]> {
+    const missing = [...new Set(texts.filter(text => !this.cache.has(text)))];
+    if (missing.length > 0) {
+      this.encoder ??= this.load().catch(error => {
+        // Tried again on the next search
+        this.encoder = null;
+        throw error;
+      });
+      const vectors = await (await this.encoder)(missing);
+      missing.forEach((text, index) => this.cache.set(text, vectors[index]));
+    }
+    return texts.map(text => this.cache.get(text)!);
+  }
+}
+
+interface IndexEntry<T> {
+  text: string;
+  item: T;
+  embedding: Embedding | null;
+}
+
+/**
+ * Items searchable by the similarity of their text to a query
+ *
+ * Adding is synchronous; items are embedded on the next search. Models that
+ * learn from the corpus are fitted again, and every item embedded again,
+ * whenever the items changed since. Search is exhaustive, which is plenty
+ * for the few thousand memories the avatar keeps.
+ */
+export class VectorIndex<T> {
+  private entries = new Map<string, IndexEntry<T>>();
+  private fitted = false;
+  private readonly model: EmbeddingModel;
+
+  constructor(model: EmbeddingModel = new LexicalEmbeddingModel()) {
+    this.model = model;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get modelName(): string {
+    return this.model.name;
+  }
+
+  /** Add an item, or replace the item with the same id */
+  add(id: string, text: string, item: T): void {
+    const existing = this.entries.get(id);
+    const embedding = existing?.text === text && !this.model.fit ? existing.embedding : null;
+    this.entries.set(id, { text, item, embedding });
+    if (existing?.text !== text) this.fitted = false;
+  }
+
+  remove(id: string): void {
+    if (this.entries.delete(id)) this.fitted = false;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.fitted = false;
+  }
+
+  /**
+   * The items most similar to the query, most similar first
+   */
+  async search(query: string, limit: number): Promise<ScoredItem<T>[]> {
+    if (this.entries.size === 0 || limit <= 0) return [];
+
+    await this.embedPending();
+    const [queryEmbedding] = await this.model.embed([query]);
+
+    const scored: ScoredItem<T>[] = [];
+    this.entries.forEach(entry => {
+      const score = entry.embedding ? cosineSimilarity(queryEmbedding, entry.embedding) : 0;
+      if (score >= this.model.minSimilarity) {
+        scored.push({ item: entry.item, score });
+      }
+    });
+    return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Every pair of items at least minScore similar to each other, most
+   * similar first. Compares each item with every other.
+   */
+  async similarPairs(minScore: number): Promise<Array<{ a: T; b: T; score: number }>> {
+    await this.embedPending();
+
+    const entries = [...this.entries.values()];
+    const pairs: Array<{ a: T; b: T; score: number }> = [];
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const score = cosineSimilarity(entries[i].embedding!, entries[j].embedding!);
+        if (score >= minScore) {
+          pairs.push({ a: entries[i].item, b: entries[j].item, score });
+        }
+      }
+    }
+    return pairs.sort((x, y) => y.score - x.score);
+  }
+
+  private async embedPending(): Promise<void> {
+    if (this.model.fit && !this.fitted) {
+      this.model.fit([...this.entries.values()].map(entry => entry.text));
+      this.entries.forEach(entry => {
+        entry.embedding = null;
+      });
+      this.fitted = true;
+    }
+
+    const pending = [...this.entries.values()].filter(entry => entry.embedding === null);
+    if (pending.length === 0) return;
+
+    const embeddings = await this.model.embed(pending.map(entry => entry.text));
+    pending.forEach((entry, index) => {
+      entry.embedding = embeddings[index];
+    });
+  }
+}
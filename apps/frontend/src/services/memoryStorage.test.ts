@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  IndexedDBMemoryStorage,
+  InMemoryMemoryStorage,
+  MAX_PREFERENCE_EVIDENCE,
+  MEMORY_MIGRATIONS,
+  MEMORY_SCHEMA_VERSION,
+} from './memoryStorage';
+import type { MemoryMigration, MemoryRecords } from './memoryStorage';
+import { ContextManager } from './contextManager';
+import { createMessageId, createTimestamp } from '../types/common';
+import type { ChatMessage } from '../types/common';
+
+const createMessage = (content: string): ChatMessage => ({
+  id: createMessageId(`msg_${Math.random().toString(36).slice(2)}`),
+  content,
+  sender: 'user',
+  timestamp: createTimestamp(Date.now())
+});
+
+describe('InMemoryMemoryStorage', () => {
+  it('should migrate records written by an older schema version', async () => {
+    const version1: MemoryRecords = {
+      interactions: [{
+        id: 'interaction_1',
+        timestamp: new Date(0),
+        summary: 'Talked about space',
+        impact: 0.7,
+        emotionalResonance: 0.8,
+        topics: ['Space', 'space', 'rockets'],
+      }],
+      preferences: [{
+        category: 'communication_style',
+        preference: 'prefers_brief_responses',
+        confidence: 0.3,
+        evidence: Array.from({ length: 50 }, (_, index) => `message ${index}`),
+        lastUpdated: new Date(0),
+      }],
+      relationship: null,
+    };
+
+    const { interactions, preferences } = await new InMemoryMemoryStorage({ records: version1, version: 1 }).load();
+
+    expect(MEMORY_SCHEMA_VERSION).toBe(2);
+    expect(interactions[0].topics).toEqual(['space', 'rockets']);
+    expect(preferences[0].evidence).toHaveLength(MAX_PREFERENCE_EVIDENCE);
+    expect(preferences[0].evidence[MAX_PREFERENCE_EVIDENCE - 1]).toBe('message 49');
+  });
+});
+
+describe('IndexedDBMemoryStorage', () => {
+  let factory: IDBFactory;
+  let storage: IndexedDBMemoryStorage;
+
+  const requestDone = <T,>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+  // A database as version 1 of the app left it
+  const openVersion1 = async (records: MemoryRecords): Promise<void> => {
+    const request = factory.open('memory', 1);
+    request.onupgradeneeded = () => {
+      const transaction = request.transaction!;
+      MEMORY_MIGRATIONS[0].upgradeStores!(request.result, transaction);
+      records.interactions.forEach(interaction => transaction.objectStore('interactions').put(interaction));
+      records.preferences.forEach(preference => transaction.objectStore('preferences').put(preference));
+      transaction.objectStore('relationship').put(records.relationship, 'current');
+    };
+    (await requestDone(request)).close();
+  };
+
+  const storedVersion = async (): Promise<number> => {
+    const db = await requestDone(factory.open('memory'));
+    db.close();
+    return db.version;
+  };
+
+  const version1: MemoryRecords = {
+    interactions: [{
+      id: 'interaction_1',
+      timestamp: new Date(1000),
+      summary: 'Talked about space',
+      impact: 0.7,
+      emotionalResonance: 0.8,
+      topics: ['Space', 'space', 'Rockets'],
+    }],
+    preferences: [{
+      category: 'communication_style',
+      preference: 'prefers_brief_responses',
+      confidence: 0.3,
+      evidence: Array.from({ length: 30 }, (_, index) => `message ${index}`),
+      lastUpdated: new Date(1000),
+    }],
+    relationship: {
+      trustLevel: 0.6,
+      intimacyLevel: 0.4,
+      sharedExperiences: ['a trip to the planetarium'],
+      communicationEvolution: [{ phase: 'getting_to_know', characteristics: ['curious'], timestamp: new Date(1000) }],
+    },
+  };
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+    storage = new IndexedDBMemoryStorage('memory', factory);
+  });
+
+  afterEach(() => {
+    storage.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should migrate the records of a version 1 database to version 2', async () => {
+    await openVersion1(version1);
+
+    const { interactions, preferences, relationship } = await storage.load();
+    storage.close();
+
+    expect(await storedVersion()).toBe(2);
+    expect(interactions).toEqual([{ ...version1.interactions[0], topics: ['space', 'rockets'] }]);
+    expect(preferences).toEqual([{
+      ...version1.preferences[0],
+      evidence: version1.preferences[0].evidence.slice(-MAX_PREFERENCE_EVIDENCE),
+    }]);
+    expect(relationship).toEqual(version1.relationship);
+  });
+
+  it('should leave the database at version 1 when the migration fails', async () => {
+    await openVersion1(version1);
+    vi.spyOn(MEMORY_MIGRATIONS[1] as Required<MemoryMigration>, 'migrateRecords').mockImplementation(() => {
+      throw new Error('unreadable record');
+    });
+
+    await expect(storage.load()).rejects.toThrow('unreadable record');
+
+    expect(await storedVersion()).toBe(1);
+    vi.restoreAllMocks();
+    expect((await storage.load()).interactions[0].topics).toEqual(['space', 'rockets']);
+  });
+
+  it('should keep each topic once, lowercase, when saving', async () => {
+    await storage.save({ ...version1, interactions: [{ ...version1.interactions[0], topics: ['Music', 'music'] }] });
+
+    expect((await storage.load()).interactions[0].topics).toEqual(['music']);
+  });
+});
+
+describe('AvatarMemorySystem with storage', () => {
+  it('should remember the user across visits', async () => {
+    const storage = new InMemoryMemoryStorage();
+
+    const firstVisit = new ContextManager(undefined, storage);
+    await firstVisit.initialize();
+    await firstVisit.processMessage(createMessage(
+      'Please remember this, it is important: I am planning a long trip to Japan next spring with my sister'
+    ));
+    firstVisit['memory'].updateRelationshipProgress({ trustLevel: 0.8 });
+    await firstVisit.shutdown();
+
+    const secondVisit = new ContextManager(undefined, storage);
+    await secondVisit.initialize();
+    const { longTermMemory } = secondVisit['memory'];
+
+    expect(longTermMemory.significantInteractions).toHaveLength(1);
+    expect(longTermMemory.significantInteractions[0].timestamp).toBeInstanceOf(Date);
+    expect(longTermMemory.relationshipProgress.trustLevel).toBe(0.8);
+    expect((await secondVisit.getChatContextPayload('japan')).memories?.length).toBeGreaterThan(0);
+
+    // Forgetting everything forgets it for later visits too
+    await secondVisit.clearSession(false);
+    await secondVisit.shutdown();
+    expect(await storage.load()).toEqual({ interactions: [], preferences: [], relationship: expect.anything() });
+  });
+});
@@ -0,0 +1,268 @@
+// Persistent storage for the avatar's long-term memory
+// IndexedDB in the browser, in memory for tests and browsers without it
+
+import type { LearnedPreference, RelationshipProgress, SignificantInteraction } from '../types/context';
+
+/**
+ * The long-term memory records kept between visits
+ */
+export interface MemoryRecords {
+  interactions: SignificantInteraction[];
+  preferences: LearnedPreference[];
+  /** Null until the relationship first changes */
+  relationship: RelationshipProgress | null;
+}
+
+/**
+ * Where AvatarMemorySystem keeps its long-term memory. Records are loaded
+ * migrated to MEMORY_SCHEMA_VERSION.
+ */
+export interface MemoryStorageAdapter {
+  load(): Promise<MemoryRecords>;
+  /** Replace every stored record with these */
+  save(records: MemoryRecords): Promise<void>;
+  clear(): Promise<void>;
+  close(): void;
+}
+
+/**
+ * One step of the stored schema. Object stores and indexes are created by
+ * upgradeStores (IndexedDB only); records written by the version before are
+ * rewritten by migrateRecords.
+ */
+export interface MemoryMigration {
+  version: number;
+  description: string;
+  upgradeStores?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  migrateRecords?: (records: MemoryRecords) => MemoryRecords;
+}
+
+export const MEMORY_DATABASE_NAME = '3davatar_memory';
+
+// Pieces of evidence kept per learned preference; the oldest are dropped first
+export const MAX_PREFERENCE_EVIDENCE = 20;
+
+const INTERACTIONS_STORE = 'interactions';
+const PREFERENCES_STORE = 'preferences';
+const RELATIONSHIP_STORE = 'relationship';
+const RELATIONSHIP_KEY = 'current';
+
+// From version 2 on, each topic is kept once, lowercase
+const withNormalizedTopics = (interaction: SignificantInteraction): SignificantInteraction => ({
+  ...interaction,
+  topics: [...new Set(interaction.topics.map(topic => topic.toLowerCase()))],
+});
+
+const normalizeRecords = (records: MemoryRecords): MemoryRecords => ({
+  ...records,
+  interactions: records.interactions.map(withNormalizedTopics),
+});
+
+export const MEMORY_MIGRATIONS: MemoryMigration[] = [
+  {
+    version: 1,
+    description: 'Interactions by id, preferences by category and preference, one relationship record',
+    upgradeStores: db => {
+      db.createObjectStore(INTERACTIONS_STORE, { keyPath: 'id' });
+      db.createObjectStore(PREFERENCES_STORE, { keyPath: ['category', 'preference'] });
+      db.createObjectStore(RELATIONSHIP_STORE);
+    },
+  },
+  {
+    version: 2,
+    description: 'Interactions indexed by time; preference evidence capped, interaction topics deduplicated',
+    upgradeStores: (_db, transaction) => {
+      transaction.objectStore(INTERACTIONS_STORE).createIndex('timestamp', 'timestamp');
+    },
+    migrateRecords: records => ({
+      ...records,
+      interactions: records.interactions.map(withNormalizedTopics),
+      preferences: records.preferences.map(preference => ({
+        ...preference,
+        evidence: preference.evidence.slice(-MAX_PREFERENCE_EVIDENCE),
+      })),
+    }),
+  },
+];
+
+export const MEMORY_SCHEMA_VERSION = MEMORY_MIGRATIONS[MEMORY_MIGRATIONS.length - 1].version;
+
+const emptyRecords = (): MemoryRecords => ({ interactions: [], preferences: [], relationship: null });
+
+/**
+ * Records written at fromVersion, as the current version reads them
+ */
+export function migrateMemoryRecords(records: MemoryRecords, fromVersion: number): MemoryRecords {
+  return MEMORY_MIGRATIONS
+    .filter(migration => migration.version > fromVersion && migration.migrateRecords)
+    .reduce((migrated, migration) => migration.migrateRecords!(migrated), records);
+}
+
+/**
+ * Memory kept for as long as the instance lives. Records of an older schema
+ * version can be given to try migrations with.
+ */
+export class InMemoryMemoryStorage implements MemoryStorageAdapter {
+  private records: MemoryRecords;
+
+  constructor(initial: { records: MemoryRecords; version: number } | null = null) {
+    this.records = initial
+      ? migrateMemoryRecords(structuredClone(initial.records), initial.version)
+      : emptyRecords();
+  }
+
+  async load(): Promise<MemoryRecords> {
+    return structuredClone(this.records);
+  }
+
+  async save(records: MemoryRecords): Promise<void> {
+    // Copies, so later changes to the live memory are not saved by accident
+    this.records = normalizeRecords(structuredClone(records));
+  }
+
+  async clear(): Promise<void> {
+    this.records = emptyRecords();
+  }
+
+  close(): void {}
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Memory transaction aborted'));
+  });
+
+function readRecords(transaction: IDBTransaction): Promise<MemoryRecords> {
+  return Promise.all([
+    requestResult(transaction.objectStore(INTERACTIONS_STORE).getAll()),
+    requestResult(transaction.objectStore(PREFERENCES_STORE).getAll()),
+    requestResult(transaction.objectStore(RELATIONSHIP_STORE).get(RELATIONSHIP_KEY)),
+  ]).then(([interactions, preferences, relationship]) => ({
+    interactions,
+    preferences,
+    relationship: relationship ?? null,
+  }));
+}
+
+function writeRecords(transaction: IDBTransaction, records: MemoryRecords): void {
+  const interactions = transaction.objectStore(INTERACTIONS_STORE);
+  const preferences = transaction.objectStore(PREFERENCES_STORE);
+  const relationship = transaction.objectStore(RELATIONSHIP_STORE);
+
+  interactions.clear();
+  preferences.clear();
+  relationship.clear();
+  records.interactions.forEach(interaction => interactions.put(interaction));
+  records.preferences.forEach(preference => preferences.put(preference));
+  if (records.relationship) {
+    relationship.put(records.relationship, RELATIONSHIP_KEY);
+  }
+}
+
+/**
+ * Memory kept in IndexedDB, so the avatar remembers the user across visits
+ *
+ * Opening the database runs the migrations newer than the stored version
+ * inside the upgrade transaction: stores first, then stored records. When a
+ * migration fails the upgrade is aborted, leaving the stored version as it
+ * was, and opening rejects with the migration's error.
+ */
+export class IndexedDBMemoryStorage implements MemoryStorageAdapter {
+  private db: Promise<IDBDatabase> | null = null;
+  private readonly databaseName: string;
+  private readonly factory: IDBFactory;
+
+  constructor(databaseName: string = MEMORY_DATABASE_NAME, factory: IDBFactory = indexedDB) {
+    this.databaseName = databaseName;
+    this.factory = factory;
+  }
+
+  async load(): Promise<MemoryRecords> {
+    const transaction = (await this.open()).transaction(
+      [INTERACTIONS_STORE, PREFERENCES_STORE, RELATIONSHIP_STORE],
+      'readonly'
+    );
+    return readRecords(transaction);
+  }
+
+  async save(records: MemoryRecords): Promise<void> {
+    const transaction = (await this.open()).transaction(
+      [INTERACTIONS_STORE, PREFERENCES_STORE, RELATIONSHIP_STORE],
+      'readwrite'
+    );
+    writeRecords(transaction, normalizeRecords(records));
+    return transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    return this.save(emptyRecords());
+  }
+
+  close(): void {
+    void this.db?.then(db => db.close(), () => {});
+    this.db = null;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = this.factory.open(this.databaseName, MEMORY_SCHEMA_VERSION);
+      let migrationError: unknown = null;
+
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        const fromVersion = event.oldVersion;
+
+        MEMORY_MIGRATIONS
+          .filter(migration => migration.version > fromVersion)
+          .forEach(migration => migration.upgradeStores?.(db, transaction));
+
+        const rewritesRecords = fromVersion > 0 && MEMORY_MIGRATIONS.some(migration =>
+          migration.version > fromVersion && migration.migrateRecords);
+        if (rewritesRecords) {
+          // The upgrade transaction stays open while it has requests pending
+          readRecords(transaction)
+            .then(records => writeRecords(transaction, migrateMemoryRecords(records, fromVersion)))
+            .catch(error => {
+              migrationError = error;
+              try {
+                transaction.abort();
+              } catch {
+                // A failed request has aborted it already
+              }
+            });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab opened a newer version; let it upgrade
+        db.onversionchange = () => this.close();
+        resolve(db);
+      };
+      request.onerror = () => reject(migrationError ?? request.error);
+      request.onblocked = () => console.warn('Memory database upgrade waits for other tabs to close it');
+    });
+
+    // A failed open is tried again next time
+    this.db.catch(() => {
+      this.db = null;
+    });
+    return this.db;
+  }
+}
+
+/**
+ * IndexedDB storage where the browser has it, or null to keep memory for
+ * the page's lifetime only
+ */
+export function createMemoryStorage(): MemoryStorageAdapter | null {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBMemoryStorage() : null;
+}
@@ -12,14 +12,43 @@ import type {
   LearnedPreference,
   RelationshipProgress,
   ActiveProcess,
-  MemoryLimits
+  MemoryLimits,
+  MemoryConsolidationLimits
 } from '../types/context';
 import type { ChatMessage } from '../types/common';
 import type { IMemorySystem, ServiceHealth } from '../interfaces/ServiceInterfaces';
+import { MAX_PREFERENCE_EVIDENCE } from './memoryStorage';
+import type { MemoryRecords, MemoryStorageAdapter } from './memoryStorage';
+import { LexicalEmbeddingModel, VectorIndex } from './memoryRetrieval';
+import type { EmbeddingModel, ScoredItem } from './memoryRetrieval';
+import {
+  DEFAULT_CONSOLIDATION_LIMITS,
+  findRecurringThemes,
+  memoryStrength,
+  mergeInteractions,
+  reinforce
+} from './memoryConsolidation';
+import type { ConsolidationReport } from './memoryConsolidation';
+import { tokenize } from './memoryRetrieval';
+
+// Changes are saved together once they stop coming for this long
+const SAVE_DELAY_MS = 250;
 
 /**
  * Comprehensive Memory Management System
  * Handles different types of memory for intelligent conversation continuity
+ *
+ * With a storage adapter, long-term memory (significant interactions,
+ * learned preferences and relationship progress) is loaded by initialize()
+ * and saved shortly after each change, so the avatar remembers the user
+ * across visits.
+ *
+ * Long-term memories are retrieved by meaning rather than shared keywords:
+ * they are kept in a vector index embedded by the given model (BM25
+ * weighted terms unless another model is given).
+ *
+ * Once initialized, long-term memory is consolidated in the background
+ * (see consolidate()), as configured by MemoryLimits.consolidation.
  */
 export class AvatarMemorySystem implements MemorySystem, IMemorySystem {
   shortTermMemory: ShortTermMemoryManager;
@@ -30,16 +59,28 @@ export class AvatarMemorySystem implements MemorySystem, IMemorySystem {
   private eventListeners = new Map<string, Array<(data: Record<string, unknown>) => void>>();
   private isInitialized = false;
   private isHealthy = true;
-
-  constructor(limits: Partial<MemoryLimits> = {}) {
+  private storage: MemoryStorageAdapter | null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private consolidationLimits: MemoryConsolidationLimits;
+  private consolidationTimer: ReturnType<typeof setInterval> | null = null;
+  private consolidation: Promise<ConsolidationReport> | null = null;
+
+  constructor(
+    limits: Partial<MemoryLimits> = {},
+    storage: MemoryStorageAdapter | null = null,
+    embeddingModel: EmbeddingModel = new LexicalEmbeddingModel()
+  ) {
+    this.storage = storage;
     this.memoryLimits = {
       shortTerm: limits.shortTerm ?? 50,      // 50 messages
       longTerm: limits.longTerm ?? 1000,      // 1000 interactions
-      workingMemory: limits.workingMemory ?? 20 // 20 active processes
+      workingMemory: limits.workingMemory ?? 20, // 20 active processes
+      consolidation: limits.consolidation
     };
+    this.consolidationLimits = { ...DEFAULT_CONSOLIDATION_LIMITS, ...limits.consolidation };
 
     this.shortTermMemory = new ShortTermMemoryManager(this.memoryLimits.shortTerm);
-    this.longTermMemory = new LongTermMemoryManager(this.memoryLimits.longTerm);
+    this.longTermMemory = new LongTermMemoryManager(this.memoryLimits.longTerm, embeddingModel);
     this.workingMemory = new WorkingMemoryManager(this.memoryLimits.workingMemory);
   }
 
@@ -62,6 +103,7 @@ export class AvatarMemorySystem implements MemorySystem, IMemorySystem {
     // Extract and learn preferences
     const preferences = this.extractPreferences(message, context);
     preferences.forEach(pref => this.longTermMemory.updatePreference(pref));
+    this.scheduleSave();
 
     // Emit memory update event
     this.emitEvent('memory_updated', {
@@ -72,26 +114,91 @@ export class AvatarMemorySystem implements MemorySystem, IMemorySystem {
   }
 
   /**
-   * Retrieve relevant memories for context building
+   * Retrieve relevant memories for context building, most similar to the
+   * query first. Recalling interactions strengthens them against forgetting.
    */
-  getRelevantMemories(query: string, limit: number = 10): RelevantMemoryResult {
+  async getRelevantMemories(query: string, limit: number = 10): Promise<RelevantMemoryResult> {
     const shortTerm = this.shortTermMemory.getRecentMessages(limit);
-    const longTerm = this.longTermMemory.searchSignificantInteractions(query, limit);
-    const preferences = this.longTermMemory.getRelevantPreferences(query);
+    const { interactions, preferences } = await this.longTermMemory.search(query, limit);
+
+    const now = Date.now();
+    interactions.forEach(({ item }) => reinforce(item, now));
+    if (interactions.length > 0) {
+      this.scheduleSave();
+    }
 
     return {
       recentMessages: shortTerm,
-      significantInteractions: longTerm,
-      learnedPreferences: preferences,
-      relevanceScore: this.calculateRelevanceScore(query, shortTerm, longTerm)
+      significantInteractions: interactions.map(({ item }) => item),
+      learnedPreferences: preferences.map(({ item }) => item),
+      relevanceScore: this.calculateRelevanceScore(shortTerm, [...interactions, ...preferences])
     };
   }
 
+  /**
+   * Consolidate long-term memory: themes recurring in the user's recent
+   * messages become long-term memories, near-duplicate interactions are
+   * merged, and interactions faded on the forgetting curve are forgotten.
+   * Runs every MemoryLimits.consolidation.intervalMs once initialized.
+   */
+  consolidate(): Promise<ConsolidationReport> {
+    // A run still going covers this request too
+    this.consolidation ??= this.runConsolidation().finally(() => {
+      this.consolidation = null;
+    });
+    return this.consolidation;
+  }
+
+  /**
+   * Everything long-term memory holds about the user, as copies
+   */
+  getMemorySnapshot(): MemorySnapshot {
+    return structuredClone({
+      interactions: this.longTermMemory.significantInteractions,
+      preferences: this.longTermMemory.learnedPreferences,
+      relationship: this.longTermMemory.relationshipProgress,
+      userProfile: this.longTermMemory.userProfile
+    });
+  }
+
+  /**
+   * Change what is remembered of an interaction (its summary, topics or
+   * pin), saved right away; false when there is no such interaction
+   */
+  editInteraction(id: string, changes: InteractionEdit): Promise<boolean> {
+    return this.applyEdit(this.longTermMemory.editInteraction(id, changes));
+  }
+
+  /**
+   * Forget an interaction, saved right away; false when there is no such
+   * interaction
+   */
+  deleteInteraction(id: string): Promise<boolean> {
+    return this.applyEdit(this.longTermMemory.removeInteraction(id));
+  }
+
+  /**
+   * Change a learned preference (its wording or pin), saved right away;
+   * false when there is no such preference
+   */
+  editPreference(ref: PreferenceRef, changes: PreferenceEdit): Promise<boolean> {
+    return this.applyEdit(this.longTermMemory.editPreference(ref, changes));
+  }
+
+  /**
+   * Forget a learned preference, saved right away; false when there is no
+   * such preference
+   */
+  deletePreference(ref: PreferenceRef): Promise<boolean> {
+    return this.applyEdit(this.longTermMemory.removePreference(ref));
+  }
+
   /**
    * Update user relationship progress
    */
   updateRelationshipProgress(progress: Partial<RelationshipProgress>): void {
     this.longTermMemory.updateRelationshipProgress(progress);
+    this.scheduleSave();
     
     this.emitEvent('relationship_updated', {
       progress,
@@ -113,20 +220,25 @@ export class AvatarMemorySystem implements MemorySystem, IMemorySystem {
   }
 
   /**
-   * Clear all memories (with optional preservation of long-term data)
+   * Clear all memories (with optional preservation of long-term data);
+   * rejects when stored long-term memory could not be cleared
    */
-  clearMemories(preserveLongTerm: boolean = true): void {
+  clearMemories(preserveLongTerm: boolean = true): Promise<void> {
     this.shortTermMemory.clear();
     this.workingMemory.clear();
-    
+
+    let cleared = Promise.resolve();
     if (!preserveLongTerm) {
       this.longTermMemory.clear();
+      this.clearTimer();
+      cleared = this.storage?.clear() ?? cleared;
     }
 
     this.emitEvent('memory_cleared', {
       preservedLongTerm: preserveLongTerm,
       timestamp: new Date()
     });
+    return cleared;
   }
 
   /**
@@ -163,6 +275,8 @@ export class AvatarMemorySystem implements MemorySystem, IMemorySystem {
       this.shortTermMemory.clear();
       this.longTermMemory.clear();
       this.workingMemory.clear();
+      await this.restore();
+      this.startConsolidation();
       
       this.isInitialized = true;
       this.isHealthy = true;
@@ -177,6 +291,9 @@ export class AvatarMemorySystem implements MemorySystem, IMemorySystem {
       // Persist important data before shutdown
       const stats = this.getMemoryStats();
       console.log('Memory system shutdown. Final stats:', stats);
+      this.stopConsolidation();
+      await this.save();
+      this.storage?.close();
       
       this.eventListeners.clear();
       this.isInitialized = false;
@@ -197,6 +314,7 @@ export class AvatarMemorySystem implements MemorySystem, IMemorySystem {
       status,
       details: {
         initialized: this.isInitialized,
+        persistent: this.storage !== null,
         memoryUtilization,
         shortTermCount: stats.shortTerm.messageCount,
         longTermCount: stats.longTerm.interactionCount,
@@ -206,8 +324,98 @@ export class AvatarMemorySystem implements MemorySystem, IMemorySystem {
     };
   }
 
+  /**
+   * Save long-term memory now rather than after the save delay
+   */
+  async save(): Promise<void> {
+    try {
+      await this.persist();
+    } catch (error) {
+      // Memory keeps working for this visit; the next change tries again
+      console.warn('Failed to save memories:', error);
+    }
+  }
+
   // Private methods
 
+  private async restore(): Promise<void> {
+    if (!this.storage) return;
+
+    try {
+      this.longTermMemory.restore(await this.storage.load());
+    } catch (error) {
+      console.warn('Failed to load stored memories:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    this.clearTimer();
+    if (!this.storage) return;
+
+    await this.storage.save(this.longTermMemory.toRecords());
+  }
+
+  // Edits are the user's own, so a failure to store one is theirs to see
+  private async applyEdit(changed: boolean): Promise<boolean> {
+    if (changed) {
+      await this.persist();
+      this.emitEvent('memory_updated', {
+        timestamp: new Date(),
+        memoryTypes: ['long_term']
+      });
+    }
+    return changed;
+  }
+
+  private async runConsolidation(): Promise<ConsolidationReport> {
+    const limits = this.consolidationLimits;
+    const now = Date.now();
+
+    const promoted = this.longTermMemory.promoteThemes(
+      this.shortTermMemory.getRecentMessages(),
+      limits.promotionThreshold,
+      now
+    );
+    const merged = await this.longTermMemory.mergeSimilar(limits.mergeSimilarity);
+    const forgotten = this.longTermMemory.forget(now, limits);
+
+    const report: ConsolidationReport = { promoted: promoted.map(interaction => interaction.id), merged, forgotten };
+    if (promoted.length > 0 || merged > 0 || forgotten > 0) {
+      this.scheduleSave();
+      this.emitEvent('memory_consolidated', { ...report, timestamp: new Date(now) });
+    }
+    return report;
+  }
+
+  private startConsolidation(): void {
+    if (this.consolidationTimer || this.consolidationLimits.intervalMs <= 0) return;
+    this.consolidationTimer = setInterval(() => {
+      this.consolidate().catch(error => console.warn('Memory consolidation failed:', error));
+    }, this.consolidationLimits.intervalMs);
+  }
+
+  private stopConsolidation(): void {
+    if (this.consolidationTimer) {
+      clearInterval(this.consolidationTimer);
+      this.consolidationTimer = null;
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.storage || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private clearTimer(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+
   private isSignificantInteraction(message: ChatMessage, context: Context): boolean {
     // Determine significance based on various factors
     const factors = [
@@ -312,40 +520,15 @@ export class AvatarMemorySystem implements MemorySystem, IMemorySystem {
     return [...new Set(keywords)].slice(0, 5); // Return unique keywords, max 5
   }
 
-  private calculateRelevanceScore(query: string, shortTerm: ChatMessage[], longTerm: SignificantInteraction[]): number {
-    // Calculate overall relevance score (0-1 scale)
-    let score = 0.0;
-    const queryLower = query.toLowerCase();
-    const queryWords = queryLower.split(' ').filter(word => word.length > 0);
-    
-    // Short-term relevance
-    const recentRelevant = shortTerm.filter(msg => {
-      const contentLower = msg.content.toLowerCase();
-      return queryWords.some(word => contentLower.includes(word));
-    }).length;
-    
-    if (shortTerm.length > 0) {
-      score += (recentRelevant / shortTerm.length) * 0.4;
-    }
-    
-    // Long-term relevance
-    const longTermRelevant = longTerm.filter(interaction => {
-      const summaryLower = interaction.summary.toLowerCase();
-      return queryWords.some(word => 
-        summaryLower.includes(word) || 
-        interaction.topics.some(topic => topic.toLowerCase().includes(word))
-      );
-    }).length;
-    
-    if (longTerm.length > 0) {
-      score += (longTermRelevant / longTerm.length) * 0.6;
-    }
-    
+  private calculateRelevanceScore(shortTerm: ChatMessage[], matches: ScoredItem<unknown>[]): number {
+    // How similar the best matching memory is (0-1 scale)
+    let score = Math.max(0, ...matches.map(match => match.score));
+
     // Ensure minimum score if any data exists
-    if (shortTerm.length > 0 || longTerm.length > 0) {
+    if (shortTerm.length > 0 || this.longTermMemory.significantInteractions.length > 0) {
       score = Math.max(score, 0.1);
     }
-    
+
     return Math.min(score, 1.0);
   }
 
@@ -423,6 +606,13 @@ class ShortTermMemoryManager implements ShortTermMemory {
   }
 }
 
+type IndexedMemory =
+  | { kind: 'interaction'; interaction: SignificantInteraction }
+  | { kind: 'preference'; preference: LearnedPreference };
+
+const preferenceKey = (preference: LearnedPreference): string =>
+  `preference:${preference.category}:${preference.preference}`;
+
 /**
  * Long-term Memory Manager
  */
@@ -433,9 +623,12 @@ class LongTermMemoryManager implements LongTermMemory {
   relationshipProgress: RelationshipProgress;
 
   private capacity: number;
+  // Interactions and preferences share one index, so their scores compare
+  private index: VectorIndex<IndexedMemory>;
 
-  constructor(capacity: number) {
+  constructor(capacity: number, embeddingModel: EmbeddingModel) {
     this.capacity = capacity;
+    this.index = new VectorIndex(embeddingModel);
     
     // Initialize with default values
     this.userProfile = this.createDefaultUserProfile();
@@ -444,24 +637,106 @@ class LongTermMemoryManager implements LongTermMemory {
 
   storeSignificantInteraction(interaction: SignificantInteraction): void {
     this.significantInteractions.push(interaction);
+    this.indexInteraction(interaction);
     
-    // Remove oldest interactions if over capacity
+    // Remove oldest interactions if over capacity; pinned ones only the user removes
     if (this.significantInteractions.length > this.capacity) {
       this.significantInteractions.sort((a, b) => a.impact - b.impact);
-      this.significantInteractions.shift();
+      const evicted = this.significantInteractions.findIndex(candidate => !candidate.pinned);
+      if (evicted >= 0) {
+        const [removed] = this.significantInteractions.splice(evicted, 1);
+        this.index.remove(removed.id);
+      }
     }
   }
 
-  searchSignificantInteractions(query: string, limit: number = 10): SignificantInteraction[] {
-    const queryLower = query.toLowerCase();
-    
-    return this.significantInteractions
-      .filter(interaction => 
-        interaction.summary.toLowerCase().includes(queryLower) ||
-        interaction.topics.some(topic => topic.includes(queryLower))
-      )
-      .sort((a, b) => b.impact - a.impact)
-      .slice(0, limit);
+  /**
+   * The interactions and preferences most similar to the query, up to limit
+   * of each
+   */
+  async search(query: string, limit: number = 10): Promise<{
+    interactions: ScoredItem<SignificantInteraction>[];
+    preferences: ScoredItem<LearnedPreference>[];
+  }> {
+    const interactions: ScoredItem<SignificantInteraction>[] = [];
+    const preferences: ScoredItem<LearnedPreference>[] = [];
+
+    for (const { item, score } of await this.index.search(query, this.index.size)) {
+      if (item.kind === 'interaction' && interactions.length < limit) {
+        interactions.push({ item: item.interaction, score });
+      } else if (item.kind === 'preference' && preferences.length < limit) {
+        preferences.push({ item: item.preference, score });
+      }
+    }
+    return { interactions, preferences };
+  }
+
+  /**
+   * Remember themes recurring in at least threshold of the messages that no
+   * interaction is about yet; returns the interactions made of them
+   */
+  promoteThemes(messages: ChatMessage[], threshold: number, now: number): SignificantInteraction[] {
+    const knownTopics = new Set(this.significantInteractions.flatMap(interaction => tokenize(interaction.topics.join(' '))));
+
+    const promoted = findRecurringThemes(messages, threshold)
+      .filter(({ theme }) => !knownTopics.has(theme))
+      .map(({ theme, count, latest }): SignificantInteraction => ({
+        id: `theme_${theme}`,
+        timestamp: new Date(now),
+        summary: `recurring discussion about ${theme}: "${latest.content.substring(0, 100)}..."`,
+        impact: Math.min(1, 0.3 + 0.1 * count),
+        emotionalResonance: 0.3,
+        topics: [theme]
+      }));
+    promoted.forEach(interaction => this.storeSignificantInteraction(interaction));
+    return promoted;
+  }
+
+  /**
+   * Merge interactions at least minSimilarity alike into the more impactful
+   * of them; returns how many were merged away
+   */
+  async mergeSimilar(minSimilarity: number): Promise<number> {
+    const pairs = await this.index.similarPairs(minSimilarity);
+    // Interactions may have changed while the index was searched
+    const current = new Map(this.significantInteractions.map(interaction => [interaction.id, interaction]));
+    let merged = 0;
+
+    for (const { a, b } of pairs) {
+      if (a.kind !== 'interaction' || b.kind !== 'interaction') continue;
+      const first = current.get(a.interaction.id);
+      const second = current.get(b.interaction.id);
+      if (!first || !second || (first.pinned && second.pinned)) continue;
+
+      // A pinned interaction is never merged away
+      const [kept, dropped] = second.pinned || (!first.pinned && second.impact > first.impact)
+        ? [second, first]
+        : [first, second];
+      const combined = mergeInteractions(kept, dropped);
+      current.set(kept.id, combined);
+      current.delete(dropped.id);
+      this.index.remove(dropped.id);
+      this.indexInteraction(combined);
+      merged++;
+    }
+
+    if (merged > 0) {
+      this.significantInteractions = [...current.values()];
+    }
+    return merged;
+  }
+
+  /**
+   * Forget unpinned interactions that faded below limits.forgetBelow;
+   * returns how many were forgotten
+   */
+  forget(now: number, limits: MemoryConsolidationLimits): number {
+    const forgotten = new Set(this.significantInteractions.filter(interaction =>
+      !interaction.pinned && memoryStrength(interaction, now, limits) < limits.forgetBelow));
+
+    forgotten.forEach(interaction => this.index.remove(interaction.id));
+    this.significantInteractions = this.significantInteractions.filter(interaction => !forgotten.has(interaction));
+    return forgotten.size;
   }
 
   updatePreference(preference: LearnedPreference): void {
@@ -472,23 +747,67 @@ class LongTermMemoryManager implements LongTermMemory {
     if (existing) {
       // Update existing preference - use the higher confidence value
       existing.confidence = Math.max(existing.confidence, preference.confidence);
-      existing.evidence.push(...preference.evidence);
+      existing.evidence = [...existing.evidence, ...preference.evidence].slice(-MAX_PREFERENCE_EVIDENCE);
       existing.lastUpdated = preference.lastUpdated;
+      if (preference.pinned) {
+        existing.pinned = true;
+      }
     } else {
       // Add new preference
       this.learnedPreferences.push(preference);
+      this.index.add(preferenceKey(preference), `${preference.category} ${preference.preference}`, {
+        kind: 'preference',
+        preference
+      });
     }
   }
 
-  getRelevantPreferences(query: string): LearnedPreference[] {
-    const queryLower = query.toLowerCase();
-    
-    return this.learnedPreferences
-      .filter(pref => 
-        pref.category.toLowerCase().includes(queryLower) ||
-        pref.preference.toLowerCase().includes(queryLower)
-      )
-      .sort((a, b) => b.confidence - a.confidence);
+  /**
+   * Change an interaction as the user asked; false when there is no such
+   * interaction
+   */
+  editInteraction(id: string, changes: InteractionEdit): boolean {
+    const interaction = this.significantInteractions.find(candidate => candidate.id === id);
+    if (!interaction) return false;
+
+    Object.assign(interaction, changes);
+    this.indexInteraction(interaction);
+    return true;
+  }
+
+  removeInteraction(id: string): boolean {
+    const remaining = this.significantInteractions.filter(interaction => interaction.id !== id);
+    if (remaining.length === this.significantInteractions.length) return false;
+
+    this.significantInteractions = remaining;
+    this.index.remove(id);
+    return true;
+  }
+
+  /**
+   * Change a preference as the user asked; one renamed to a preference
+   * already learned is merged into it. False when there is no such preference.
+   */
+  editPreference(ref: PreferenceRef, changes: PreferenceEdit): boolean {
+    const preference = this.findPreference(ref);
+    if (!preference) return false;
+
+    if (changes.preference === undefined || changes.preference === preference.preference) {
+      Object.assign(preference, changes);
+    } else {
+      this.removePreference(ref);
+      this.updatePreference({ ...preference, ...changes });
+    }
+    return true;
+  }
+
+  removePreference(ref: PreferenceRef): boolean {
+    const preference = this.findPreference(ref);
+    if (!preference) return false;
+
+    this.learnedPreferences = this.learnedPreferences.filter(candidate => candidate !== preference);
+    this.index.remove(preferenceKey(preference));
+    return true;
   }
 
   updateRelationshipProgress(progress: Partial<RelationshipProgress>): void {
@@ -498,9 +817,37 @@ class LongTermMemoryManager implements LongTermMemory {
     };
   }
 
+  /**
+   * The records kept between visits
+   */
+  toRecords(): MemoryRecords {
+    return {
+      interactions: this.significantInteractions,
+      preferences: this.learnedPreferences,
+      relationship: this.relationshipProgress,
+    };
+  }
+
+  /**
+   * Take over stored records; interactions already in memory are kept
+   */
+  restore(records: MemoryRecords): void {
+    const restoredIds = new Set(records.interactions.map(interaction => interaction.id));
+    this.significantInteractions = [
+      ...records.interactions,
+      ...this.significantInteractions.filter(interaction => !restoredIds.has(interaction.id)),
+    ];
+    records.interactions.forEach(interaction => this.indexInteraction(interaction));
+    records.preferences.forEach(preference => this.updatePreference(preference));
+    if (records.relationship) {
+      this.relationshipProgress = records.relationship;
+    }
+  }
+
   clear(): void {
     this.significantInteractions = [];
     this.learnedPreferences = [];
+    this.index.clear();
     this.userProfile = this.createDefaultUserProfile();
     this.relationshipProgress = this.createDefaultRelationshipProgress();
   }
@@ -515,6 +862,18 @@ class LongTermMemoryManager implements LongTermMemory {
     };
   }
 
+  private findPreference(ref: PreferenceRef): LearnedPreference | undefined {
+    return this.learnedPreferences.find(preference =>
+      preference.category === ref.category && preference.preference === ref.preference);
+  }
+
+  private indexInteraction(interaction: SignificantInteraction): void {
+    this.index.add(interaction.id, `${interaction.summary} ${interaction.topics.join(' ')}`, {
+      kind: 'interaction',
+      interaction
+    });
+  }
+
   private createDefaultUserProfile(): UserProfile {
     return {
       userId: 'anonymous',
@@ -723,6 +1082,22 @@ class WorkingMemoryManager implements WorkingMemory {
 
 // Type definitions for memory statistics and results
 
+/**
+ * Long-term memory as the user sees it
+ */
+export interface MemorySnapshot {
+  interactions: SignificantInteraction[];
+  preferences: LearnedPreference[];
+  relationship: RelationshipProgress;
+  userProfile: UserProfile;
+}
+
+/** Learned preferences are told apart by category and preference */
+export type PreferenceRef = Pick<LearnedPreference, 'category' | 'preference'>;
+
+export type InteractionEdit = Partial<Pick<SignificantInteraction, 'summary' | 'topics' | 'pinned'>>;
+export type PreferenceEdit = Partial<Pick<LearnedPreference, 'preference' | 'pinned'>>;
+
 export interface RelevantMemoryResult {
   recentMessages: ChatMessage[];
   significantInteractions: SignificantInteraction[];
@@ -762,8 +1137,13 @@ export interface WorkingMemoryStats {
 }
 
 /**
- * Create a memory system with default configuration
+ * Create a memory system with default configuration, kept in storage when
+ * given and searched with the given embedding model
  */
-export function createMemorySystem(limits?: Partial<MemoryLimits>): AvatarMemorySystem {
-  return new AvatarMemorySystem(limits);
+export function createMemorySystem(
+  limits?: Partial<MemoryLimits>,
+  storage: MemoryStorageAdapter | null = null,
+  embeddingModel?: EmbeddingModel
+): AvatarMemorySystem {
+  return new AvatarMemorySystem(limits, storage, embeddingModel);
 } 
\ No newline at end of file
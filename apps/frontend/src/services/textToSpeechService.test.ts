@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { extractCompleteSentences } from './textToSpeechService';
+
+describe('extractCompleteSentences', () => {
+  it('should return only sentences followed by whitespace', () => {
+    const result = extractCompleteSentences('Hi there! How are you? I am');
+
+    expect(result.sentences).toEqual(['Hi there!', 'How are you?']);
+    expect(result.nextIndex).toBe('Hi there! How are you? '.length);
+  });
+
+  it('should continue from a previous index', () => {
+    const text = 'First one. Second one. Third';
+    const first = extractCompleteSentences(text.slice(0, 11));
+    const second = extractCompleteSentences(text, first.nextIndex);
+
+    expect(first.sentences).toEqual(['First one.']);
+    expect(second.sentences).toEqual(['Second one.']);
+  });
+
+  it('should not split on decimals or unfinished punctuation', () => {
+    expect(extractCompleteSentences('Version 3.5 is out.').sentences).toEqual([]);
+    expect(extractCompleteSentences('She said "wow!" and left').sentences).toEqual(['She said "wow!"']);
+  });
+});
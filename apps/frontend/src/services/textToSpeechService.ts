@@ -1,4 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { apiService, ApiError } from '../config/api';
+import type { LipSyncTrack } from '../types/speech';
 
 // Voice configuration interface
 export interface VoiceConfig {
@@ -19,12 +21,63 @@ export const CHILD_VOICE_CONFIG: VoiceConfig = {
   age: 'child'
 };
 
+/**
+ * Find sentences in streamed text that are complete and ready to be spoken.
+ * A sentence is complete once its terminal punctuation is followed by
+ * whitespace, so decimals ("3.5") and unfinished trailing text are held back.
+ * Returns the sentences found after `fromIndex` and the index where the
+ * unfinished remainder starts.
+ */
+export const extractCompleteSentences = (
+  text: string,
+  fromIndex: number = 0
+): { sentences: string[]; nextIndex: number } => {
+  const sentences: string[] = [];
+  const boundary = /[.!?]+["')\]]*\s+/g;
+  boundary.lastIndex = fromIndex;
+
+  let nextIndex = fromIndex;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const sentence = text.slice(nextIndex, end).trim();
+    if (sentence) {
+      sentences.push(sentence);
+    }
+    nextIndex = end;
+  }
+
+  return { sentences, nextIndex };
+};
+
+// Server voice requests give up after this long and fall back to the browser voice
+const SERVER_SPEECH_TIMEOUT = 15000;
+
+// The server has no voice (503) or no TTS route (404): don't ask again this session
+let serverVoiceUnavailable = false;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const bytes = Uint8Array.from(atob(base64), character => character.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
+export interface TextToSpeechOptions {
+  /** Speak with the server's voice, which comes with lip sync, before the browser's (default true) */
+  useServerVoice?: boolean;
+}
+
 // Text-to-speech hook interface
 export interface UseTextToSpeechReturn {
   speak: (text: string, config?: Partial<VoiceConfig>) => Promise<void>;
   stop: () => void;
   isSpeaking: boolean;
+  /** Browser speech synthesis is available */
   isSupported: boolean;
+  /** Viseme track of the server voice while it plays */
+  lipSync: LipSyncTrack | null;
   availableVoices: SpeechSynthesisVoice[];
   currentConfig: VoiceConfig;
   updateConfig: (config: Partial<VoiceConfig>) => void;
@@ -32,17 +85,25 @@ export interface UseTextToSpeechReturn {
 }
 
 /**
- * Custom hook for text-to-speech functionality with child voice support
+ * Custom hook for text-to-speech functionality with child voice support.
+ * Uses the server voice when there is one, and the browser's otherwise.
  */
-export const useTextToSpeech = (initialConfig: VoiceConfig = CHILD_VOICE_CONFIG): UseTextToSpeechReturn => {
+export const useTextToSpeech = (
+  initialConfig: VoiceConfig = CHILD_VOICE_CONFIG,
+  { useServerVoice = true }: TextToSpeechOptions = {}
+): UseTextToSpeechReturn => {
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isSupported, setIsSupported] = useState(false);
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [currentConfig, setCurrentConfig] = useState<VoiceConfig>(initialConfig);
   const [error, setError] = useState<string | null>(null);
+  const [lipSync, setLipSync] = useState<LipSyncTrack | null>(null);
   
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
   const currentVoiceRef = useRef<SpeechSynthesisVoice | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Bumped by stop(), so audio synthesized after it is not played
+  const playbackRef = useRef(0);
 
   // Check if speech synthesis is supported
   useEffect(() => {
@@ -154,12 +215,52 @@ export const useTextToSpeech = (initialConfig: VoiceConfig = CHILD_VOICE_CONFIG)
     return utterance;
   }, []);
 
+  // Synthesize on the server and play the audio, publishing its viseme track while it plays
+  const speakWithServer = useCallback(async (text: string, config: VoiceConfig): Promise<void> => {
+    const playback = playbackRef.current;
+    const speech = await apiService.synthesizeSpeech(
+      text,
+      { lang: config.lang, rate: clamp(config.rate, 0.5, 2), pitch: clamp(config.pitch, 0, 2) },
+      { timeout: SERVER_SPEECH_TIMEOUT, retries: 0 }
+    );
+    if (playback !== playbackRef.current) return;
+
+    const url = URL.createObjectURL(base64ToBlob(speech.audio, speech.mimeType));
+    const audio = new Audio(url);
+    audio.volume = clamp(config.volume, 0, 1);
+    audioRef.current = audio;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const finish = (playbackError?: Error) => {
+        if (settled) return;
+        settled = true;
+        URL.revokeObjectURL(url);
+        if (audioRef.current === audio) audioRef.current = null;
+        setIsSpeaking(false);
+        setLipSync(null);
+        if (playbackError) reject(playbackError);
+        else resolve();
+      };
+
+      audio.onplaying = () => {
+        setIsSpeaking(true);
+        setError(null);
+        setLipSync({ visemes: speech.visemes, currentTimeMs: () => audio.currentTime * 1000 });
+      };
+      audio.onended = () => finish();
+      // stop() pauses
+      audio.onpause = () => finish();
+      audio.onerror = () => finish(new Error('Failed to play synthesized speech'));
+
+      Promise.resolve(audio.play()).catch(playError => {
+        finish(playError instanceof Error ? playError : new Error(String(playError)));
+      });
+    });
+  }, []);
+
   // Speak text with optional configuration override
   const speak = useCallback(async (text: string, configOverride?: Partial<VoiceConfig>): Promise<void> => {
-    if (!isSupported) {
-      throw new Error('Text-to-speech is not supported');
-    }
-
     if (!text.trim()) {
       return;
     }
@@ -169,6 +270,26 @@ export const useTextToSpeech = (initialConfig: VoiceConfig = CHILD_VOICE_CONFIG)
 
     // Merge configuration
     const config = { ...currentConfig, ...configOverride };
+
+    if (useServerVoice && !serverVoiceUnavailable) {
+      const playback = playbackRef.current;
+      try {
+        await speakWithServer(text, config);
+        return;
+      } catch (serverError) {
+        // Stopped meanwhile: nothing left to say
+        if (playback !== playbackRef.current) return;
+
+        if (serverError instanceof ApiError && (serverError.status === 503 || serverError.status === 404)) {
+          serverVoiceUnavailable = true;
+        }
+        console.warn('Server voice failed, using the browser voice:', serverError);
+      }
+    }
+
+    if (!isSupported) {
+      throw new Error('Text-to-speech is not supported');
+    }
     
     try {
       // Create and configure utterance
@@ -197,14 +318,18 @@ export const useTextToSpeech = (initialConfig: VoiceConfig = CHILD_VOICE_CONFIG)
       setError(`Failed to start speech synthesis: ${error}`);
       throw error;
     }
-  }, [isSupported, currentConfig, createUtterance]);
+  }, [isSupported, currentConfig, createUtterance, useServerVoice, speakWithServer]);
 
   // Stop speech
   const stop = useCallback(() => {
-    if (speechSynthesis.speaking) {
+    playbackRef.current += 1;
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if ('speechSynthesis' in window && speechSynthesis.speaking) {
       speechSynthesis.cancel();
     }
     setIsSpeaking(false);
+    setLipSync(null);
     utteranceRef.current = null;
   }, []);
 
@@ -231,6 +356,7 @@ export const useTextToSpeech = (initialConfig: VoiceConfig = CHILD_VOICE_CONFIG)
     stop,
     isSpeaking,
     isSupported,
+    lipSync,
     availableVoices,
     currentConfig,
     updateConfig,
@@ -0,0 +1,243 @@
+import { ApiError, RateLimitError } from '../config/api';
+
+export type SendBatch<T> = (items: T[], options: { keepalive?: boolean }) => Promise<unknown>;
+
+export interface UploadQueueOptions<T> {
+  send: SendBatch<T>;
+  /** Wait this long after an item for others to join its batch */
+  flushDelayMs?: number;
+  batchSize?: number;
+  /** Items held while the server is unreachable; the oldest are dropped first */
+  maxQueued?: number;
+  /** Wait after the first failed send, doubled with each failure after it */
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  /** Keep the queue in localStorage under this key, so items outlive a reload */
+  storageKey?: string;
+  /** A queued item is replaced by a newer one with the same key, e.g. snapshots of the same session */
+  keyOf?: (item: T) => string | undefined;
+  /** What the items are called in warnings */
+  label?: string;
+}
+
+// Browsers refuse keepalive requests with bodies larger than 64 KiB
+const KEEPALIVE_BODY_LIMIT = 60 * 1024;
+
+// The server will not take the batch however often it is sent
+const isRejected = (error: unknown): boolean =>
+  error instanceof ApiError &&
+  error.status !== undefined &&
+  error.status >= 400 &&
+  error.status < 500 &&
+  error.status !== 408 &&
+  !(error instanceof RateLimitError);
+
+// Sending while the browser knows it is offline only burns through the backoff
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Items waiting to be sent to the server in batches
+ *
+ * Items are sent shortly after they arrive. Failed batches are sent again
+ * with exponential backoff, or once the browser is back online; the server
+ * must store an item it already has once, so resending is safe. What is left
+ * when the page goes away is sent in one last keepalive request.
+ */
+export class UploadQueue<T> {
+  private items: T[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sending = false;
+  private failures = 0;
+
+  private readonly send: SendBatch<T>;
+  private readonly flushDelayMs: number;
+  private readonly batchSize: number;
+  private readonly maxQueued: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly storageKey?: string;
+  private readonly keyOf?: (item: T) => string | undefined;
+  private readonly label: string;
+
+  constructor({
+    send,
+    flushDelayMs = 2000,
+    batchSize = 50,
+    maxQueued = 200,
+    retryDelayMs = 1000,
+    maxRetryDelayMs = 60000,
+    storageKey,
+    keyOf,
+    label = 'items',
+  }: UploadQueueOptions<T>) {
+    this.send = send;
+    this.flushDelayMs = flushDelayMs;
+    this.batchSize = batchSize;
+    this.maxQueued = maxQueued;
+    this.retryDelayMs = retryDelayMs;
+    this.maxRetryDelayMs = maxRetryDelayMs;
+    this.storageKey = storageKey;
+    this.keyOf = keyOf;
+    this.label = label;
+
+    // Items an earlier page did not get to send
+    this.items = this.load();
+    if (this.items.length > 0) {
+      this.schedule(this.flushDelayMs);
+    }
+  }
+
+  /** Items not sent yet */
+  get size(): number {
+    return this.items.length;
+  }
+
+  enqueue(item: T): void {
+    const key = this.keyOf?.(item);
+    if (key !== undefined) {
+      this.items = this.items.filter(queued => this.keyOf?.(queued) !== key);
+    }
+
+    this.items.push(item);
+    if (this.items.length > this.maxQueued) {
+      this.items.splice(0, this.items.length - this.maxQueued);
+    }
+    this.persist();
+
+    // A backoff in progress is not cut short by new items
+    if (!this.timer && !this.sending) {
+      this.schedule(this.flushDelayMs);
+    }
+  }
+
+  /**
+   * Send every queued item, batch by batch; stops at the first failure
+   * and tries again after the backoff
+   */
+  flush = async (): Promise<void> => {
+    this.clearTimer();
+    if (this.sending || isOffline()) return;
+
+    this.sending = true;
+    try {
+      while (this.items.length > 0) {
+        const batch = this.items.slice(0, this.batchSize);
+        try {
+          await this.send(batch, {});
+          this.failures = 0;
+        } catch (error) {
+          if (!isRejected(error)) {
+            this.failures += 1;
+            this.schedule(this.backoffDelay(error));
+            return;
+          }
+          console.warn(`Dropping ${this.label} the server refused:`, error);
+        }
+        this.remove(batch);
+      }
+    } finally {
+      this.sending = false;
+    }
+  };
+
+  /**
+   * Send what is left in one keepalive request, which outlives the page.
+   * Items are put back should the page stay after all and the send fail;
+   * stored items stay stored until the send succeeds.
+   */
+  flushOnUnload = (): void => {
+    this.clearTimer();
+    if (isOffline()) return;
+
+    const batch: T[] = [];
+    let bodySize = 0;
+    for (const item of this.items.slice(0, this.batchSize)) {
+      bodySize += JSON.stringify(item).length + 1;
+      if (bodySize > KEEPALIVE_BODY_LIMIT && batch.length > 0) break;
+      batch.push(item);
+    }
+    if (batch.length === 0) return;
+
+    this.remove(batch, false);
+    this.send(batch, { keepalive: true }).then(
+      () => this.persist(),
+      () => {
+        this.items.unshift(...batch);
+        this.schedule(this.flushDelayMs);
+      }
+    );
+  };
+
+  /**
+   * Flush once the page is hidden or unloaded, and once the browser is back
+   * online; returns the function that stops listening
+   */
+  listen(target: Window = window): () => void {
+    const onVisibilityChange = () => {
+      if (target.document.visibilityState === 'hidden') {
+        this.flushOnUnload();
+      }
+    };
+
+    target.addEventListener('pagehide', this.flushOnUnload);
+    target.addEventListener('online', this.flush);
+    target.document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      target.removeEventListener('pagehide', this.flushOnUnload);
+      target.removeEventListener('online', this.flush);
+      target.document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }
+
+  private backoffDelay(error: unknown): number {
+    const delay = Math.min(this.retryDelayMs * 2 ** (this.failures - 1), this.maxRetryDelayMs);
+    return error instanceof RateLimitError ? Math.max(delay, error.retryAfterSeconds * 1000) : delay;
+  }
+
+  // Items may have been added, replaced or dropped while the batch was on its way
+  private remove(batch: T[], persist = true): void {
+    const sent = new Set(batch);
+    this.items = this.items.filter(item => !sent.has(item));
+    if (persist) this.persist();
+  }
+
+  private load(): T[] {
+    if (!this.storageKey) return [];
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      const items: unknown = stored ? JSON.parse(stored) : [];
+      return Array.isArray(items) ? items.slice(-this.maxQueued) as T[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private persist(): void {
+    if (!this.storageKey) return;
+    try {
+      if (this.items.length > 0) {
+        localStorage.setItem(this.storageKey, JSON.stringify(this.items));
+      } else {
+        localStorage.removeItem(this.storageKey);
+      }
+    } catch (error) {
+      console.warn(`Failed to store queued ${this.label} in localStorage:`, error);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -1,4 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
+import { apiService, ApiError } from '../config/api';
+import { AudioRecorder, isAudioRecordingSupported } from './audioRecorder';
 
 // Types for speech recognition
 interface SpeechRecognitionEvent {
@@ -51,33 +53,59 @@ declare global {
 }
 
 /**
- * Custom hook for voice recognition functionality
+ * How speech is recognized: by the browser (Web Speech API), or by recording
+ * it and transcribing it on the server
+ */
+export type VoiceRecognitionMode = 'browser' | 'server';
+
+const RECOGNITION_LANGUAGE = 'en-US';
+// Listening stops by itself after this long
+const MAX_LISTENING_TIME = 30000;
+const SERVER_TRANSCRIPTION_TIMEOUT = 60000;
+
+// The server has no recognizer (503) or no STT route (404): don't offer it again this session
+let serverRecognitionUnavailable = false;
+
+const detectRecognitionMode = (): VoiceRecognitionMode | null => {
+  if ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window) return 'browser';
+  if (isAudioRecordingSupported() && !serverRecognitionUnavailable) return 'server';
+  return null;
+};
+
+/**
+ * Custom hook for voice recognition functionality.
+ * Browsers without speech recognition record the microphone and have the server transcribe it.
  */
 export const useVoiceService = () => {
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState('');
+  // Words recognized so far that may still change (browser recognition only)
+  const [interimTranscript, setInterimTranscript] = useState('');
+  // A recording is being transcribed on the server
+  const [isTranscribing, setIsTranscribing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isSupported, setIsSupported] = useState(false);
+  const [mode, setMode] = useState<VoiceRecognitionMode | null>(null);
+  const isSupported = mode !== null;
   
   const recognitionRef = useRef<SpeechRecognitionInterface | null>(null);
+  const recorderRef = useRef<AudioRecorder | null>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Check if speech recognition is supported
+  // Check how speech can be recognized
   useEffect(() => {
-    const supported = 'SpeechRecognition' in window || 'webkitSpeechRecognition' in window;
-    setIsSupported(supported);
+    setMode(detectRecognitionMode());
   }, []);
 
   // Initialize speech recognition
   const initializeRecognition = useCallback(() => {
-    if (!isSupported) return null;
+    if (mode !== 'browser') return null;
 
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
     const recognition = new SpeechRecognition();
 
     recognition.continuous = false;
     recognition.interimResults = true;
-    recognition.lang = 'en-US';
+    recognition.lang = RECOGNITION_LANGUAGE;
 
     recognition.onstart = () => {
       setIsListening(true);
@@ -86,11 +114,13 @@ export const useVoiceService = () => {
 
     recognition.onend = () => {
       setIsListening(false);
+      setInterimTranscript('');
     };
 
     // Handle speech recognition results
     recognition.onresult = (event) => {
       let finalTranscript = '';
+      let interim = '';
       
       for (let i = event.resultIndex; i < event.results.length; i++) {
         const transcript = event.results[i][0].transcript;
@@ -98,11 +128,11 @@ export const useVoiceService = () => {
         if (event.results[i].isFinal) {
           finalTranscript += transcript;
         } else {
-          // Handle interim results if needed in the future
-          // const interimTranscript = transcript;
+          interim += transcript;
         }
       }
       
+      setInterimTranscript(interim);
       if (finalTranscript) {
         setTranscript(finalTranscript);
       }
@@ -114,7 +144,34 @@ export const useVoiceService = () => {
     };
 
     return recognition;
-  }, [isSupported]);
+  }, [mode]);
+
+  // Transcribe a recording on the server; it answers in one go, without interim results
+  const transcribeRecording = useCallback(async (recording: Blob) => {
+    if (recording.size === 0) return;
+
+    setIsTranscribing(true);
+    try {
+      const { text } = await apiService.transcribeSpeech(recording, RECOGNITION_LANGUAGE, {
+        timeout: SERVER_TRANSCRIPTION_TIMEOUT,
+        retries: 0,
+      });
+      if (text) {
+        setTranscript(text);
+      }
+    } catch (transcriptionError) {
+      if (transcriptionError instanceof ApiError && (transcriptionError.status === 503 || transcriptionError.status === 404)) {
+        serverRecognitionUnavailable = true;
+        setMode(null);
+        setError('Speech recognition is not available');
+      } else {
+        setError('Failed to transcribe speech');
+      }
+      console.error('Speech transcription error:', transcriptionError);
+    } finally {
+      setIsTranscribing(false);
+    }
+  }, []);
 
   // Stop listening
   const stopListening = useCallback(() => {
@@ -123,13 +180,51 @@ export const useVoiceService = () => {
       recognitionRef.current = null;
     }
 
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorderRef.current = null;
+      // Still opening the microphone: startRecording discards it
+      if (recorder.isRecording) {
+        void recorder.stop().then(transcribeRecording);
+      }
+    }
+
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current);
       timeoutRef.current = null;
     }
 
     setIsListening(false);
-  }, []);
+  }, [transcribeRecording]);
+
+  // Record until stopped, for the server to transcribe
+  const startRecording = useCallback(async () => {
+    if (recorderRef.current) return;
+
+    const recorder = new AudioRecorder();
+    recorderRef.current = recorder;
+
+    try {
+      await recorder.start();
+    } catch (recordingError) {
+      recorderRef.current = null;
+      setError('Failed to access the microphone');
+      console.error('Audio recording error:', recordingError);
+      return;
+    }
+
+    // Stopped or unmounted while the microphone was being opened
+    if (recorderRef.current !== recorder) {
+      recorder.cancel();
+      return;
+    }
+
+    setIsListening(true);
+    setError(null);
+    timeoutRef.current = setTimeout(() => {
+      stopListening();
+    }, MAX_LISTENING_TIME);
+  }, [stopListening]);
 
   // Start listening
   const startListening = useCallback(() => {
@@ -138,7 +233,12 @@ export const useVoiceService = () => {
       return;
     }
 
-    if (isListening) return;
+    if (isListening || isTranscribing) return;
+
+    if (mode === 'server') {
+      void startRecording();
+      return;
+    }
 
     try {
       recognitionRef.current = initializeRecognition();
@@ -148,13 +248,13 @@ export const useVoiceService = () => {
         // Set timeout to auto-stop after 30 seconds
         timeoutRef.current = setTimeout(() => {
           stopListening();
-        }, 30000);
+        }, MAX_LISTENING_TIME);
       }
     } catch (error) {
       setError('Failed to start speech recognition');
       console.error('Speech recognition error:', error);
     }
-  }, [isSupported, isListening, initializeRecognition, stopListening]);
+  }, [isSupported, isListening, isTranscribing, mode, startRecording, initializeRecognition, stopListening]);
 
   // Toggle listening
   const toggleListening = useCallback(() => {
@@ -168,6 +268,7 @@ export const useVoiceService = () => {
   // Clear transcript
   const clearTranscript = useCallback(() => {
     setTranscript('');
+    setInterimTranscript('');
   }, []);
 
   // Clear error
@@ -181,6 +282,8 @@ export const useVoiceService = () => {
       if (recognitionRef.current) {
         recognitionRef.current.abort();
       }
+      recorderRef.current?.cancel();
+      recorderRef.current = null;
       if (timeoutRef.current) {
         clearTimeout(timeoutRef.current);
       }
@@ -190,8 +293,11 @@ export const useVoiceService = () => {
   return {
     isListening,
     transcript,
+    interimTranscript,
+    isTranscribing,
     error,
     isSupported,
+    mode,
     startListening,
     stopListening,
     toggleListening,
@@ -0,0 +1,77 @@
+/**
+ * Memory recall benchmark
+ * Remembered interactions and preferences, and questions a user might ask
+ * later about them, in their own words rather than the memory's
+ */
+
+import type { LearnedPreference, SignificantInteraction } from '../types/context';
+
+export interface RecallQuery {
+  query: string;
+  /** Ids of the interactions and preferences the query is about */
+  relevant: string[];
+}
+
+const interaction = (
+  id: string,
+  summary: string,
+  topics: string[],
+  impact: number = 0.6
+): SignificantInteraction => ({
+  id,
+  timestamp: new Date('2026-01-01T12:00:00Z'),
+  summary,
+  impact,
+  emotionalResonance: 0.5,
+  topics,
+});
+
+const preference = (category: string, value: string): LearnedPreference => ({
+  category,
+  preference: value,
+  confidence: 0.7,
+  evidence: [],
+  lastUpdated: new Date('2026-01-01T12:00:00Z'),
+});
+
+/** Id a preference has in RecallQuery.relevant */
+export const preferenceId = (pref: LearnedPreference): string => `${pref.category}:${pref.preference}`;
+
+export const RECALL_INTERACTIONS: SignificantInteraction[] = [
+  interaction('trip', 'excited discussion about travel, japan: "I am planning a trip to Kyoto and Tokyo next spring..."', ['planning', 'trip', 'kyoto', 'tokyo', 'spring']),
+  interaction('dog', 'sad discussion about pets: "My dog Biscuit has been sick all week and the vet is worried..."', ['biscuit', 'sick', 'week', 'worried'], 0.9),
+  interaction('job', 'anxious discussion about work: "I have a job interview at a robotics startup on Friday..."', ['interview', 'robotics', 'startup', 'friday']),
+  interaction('marathon', 'happy discussion about running: "I finally finished my first marathon in under four hours..."', ['finally', 'finished', 'first', 'marathon', 'under']),
+  interaction('guitar', 'excited discussion about music: "I started learning guitar and can play three chords now..."', ['started', 'learning', 'guitar', 'play', 'chords']),
+  interaction('sister', 'happy discussion about family: "My sister is getting married in August in Lisbon..."', ['sister', 'getting', 'married', 'august', 'lisbon']),
+  interaction('thesis', 'stressed discussion about studies: "My thesis on coral reef bleaching is due in two weeks..."', ['thesis', 'coral', 'reef', 'bleaching', 'weeks']),
+  interaction('garden', 'calm discussion about hobbies: "The tomatoes in my balcony garden are finally ripening..."', ['tomatoes', 'balcony', 'garden', 'finally', 'ripening']),
+  interaction('move', 'nervous discussion about home: "We are moving to a new apartment in Berlin next month..."', ['moving', 'apartment', 'berlin', 'next', 'month']),
+  interaction('book', 'curious discussion about reading: "I am reading a novel about the history of the Silk Road..."', ['reading', 'novel', 'history', 'silk', 'road']),
+  interaction('astronomy', 'excited discussion about space: "I saw Saturn\'s rings through my new telescope last night..."', ['saturn', 'rings', 'through', 'telescope', 'night']),
+  interaction('cooking', 'proud discussion about food: "I baked sourdough bread from my own starter for the first time..."', ['baked', 'sourdough', 'bread', 'starter', 'first']),
+];
+
+export const RECALL_PREFERENCES: LearnedPreference[] = [
+  preference('communication_style', 'prefers_brief_responses'),
+  preference('interests', 'loves astronomy and stargazing'),
+  preference('diet', 'vegetarian, avoids meat and fish'),
+  preference('objectives', 'wants to become fluent in japanese'),
+];
+
+export const RECALL_QUERIES: RecallQuery[] = [
+  { query: 'How are my plans for Japan coming along?', relevant: ['trip'] },
+  { query: 'Is Biscuit feeling any better?', relevant: ['dog'] },
+  { query: 'Wish me luck for the interview', relevant: ['job'] },
+  { query: 'I want to run another marathon', relevant: ['marathon'] },
+  { query: 'Which guitar chords should I learn next?', relevant: ['guitar'] },
+  { query: 'What should I wear to the wedding when my sister marries?', relevant: ['sister'] },
+  { query: 'Any tips for finishing a thesis on time?', relevant: ['thesis'] },
+  { query: 'My tomato plants have a strange disease', relevant: ['garden'] },
+  { query: 'Where should we eat after we move to Berlin?', relevant: ['move', preferenceId(RECALL_PREFERENCES[2])] },
+  { query: 'Recommend another history novel', relevant: ['book'] },
+  { query: 'What can I see with a telescope tonight?', relevant: ['astronomy', preferenceId(RECALL_PREFERENCES[1])] },
+  { query: 'My sourdough came out flat', relevant: ['cooking'] },
+  { query: 'Teach me some Japanese phrases', relevant: ['trip', preferenceId(RECALL_PREFERENCES[3])] },
+  { query: 'Keep your responses brief please', relevant: [preferenceId(RECALL_PREFERENCES[0])] },
+];
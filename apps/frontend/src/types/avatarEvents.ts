@@ -0,0 +1,82 @@
+/**
+ * Avatar events pushed by the server over the avatar WebSocket
+ * (mirrors apps/backend/src/avatarEvents/types.ts)
+ */
+import type { EmotionState } from './context';
+
+export type AvatarGesture = 'wave' | 'nod' | 'head_tilt' | 'tail_wag' | 'bounce';
+
+interface AvatarEventBase {
+  /** ISO 8601 */
+  readonly timestamp: string;
+}
+
+/** First event on a connection: the channel chat requests name to receive events */
+export interface ConnectedEvent extends AvatarEventBase {
+  readonly type: 'connected';
+  readonly channelId: string;
+}
+
+export interface ResponseStartedEvent extends AvatarEventBase {
+  readonly type: 'response_started';
+  readonly requestId: string;
+  readonly conversationId?: string;
+}
+
+export interface TokenEvent extends AvatarEventBase {
+  readonly type: 'token';
+  readonly requestId: string;
+  readonly content: string;
+}
+
+export interface EmotionEvent extends AvatarEventBase {
+  readonly type: 'emotion';
+  readonly requestId: string;
+  readonly emotion: EmotionState;
+  /** 0-1 */
+  readonly intensity: number;
+}
+
+export interface GestureEvent extends AvatarEventBase {
+  readonly type: 'gesture';
+  readonly requestId: string;
+  readonly gesture: AvatarGesture;
+}
+
+export interface ResponseFinishedEvent extends AvatarEventBase {
+  readonly type: 'response_finished';
+  readonly requestId: string;
+  /** Empty when the request failed */
+  readonly response: string;
+  readonly conversationId?: string;
+  readonly error?: string;
+}
+
+export type AvatarEvent =
+  | ConnectedEvent
+  | ResponseStartedEvent
+  | TokenEvent
+  | EmotionEvent
+  | GestureEvent
+  | ResponseFinishedEvent;
+
+/** A gesture to play; the sequence number tells repeats of the same gesture apart */
+export interface AvatarGestureCue {
+  readonly gesture: AvatarGesture;
+  readonly sequence: number;
+}
+
+const AVATAR_EVENT_TYPES: ReadonlySet<string> = new Set([
+  'connected',
+  'response_started',
+  'token',
+  'emotion',
+  'gesture',
+  'response_finished',
+]);
+
+// Type guard for messages from the socket
+export const isAvatarEvent = (value: unknown): value is AvatarEvent =>
+  typeof value === 'object' &&
+  value !== null &&
+  AVATAR_EVENT_TYPES.has((value as { type?: unknown }).type as string);
@@ -0,0 +1,14 @@
+/**
+ * Actions the avatar takes on the app, returned with chat responses
+ * (defined by the API contract, apps/backend/src/contracts/clientActions.ts)
+ *
+ * room.load_preset               load a room preset (useRoomModel.loadPreset)
+ * avatar.set_movement_intensity  how lively the avatar moves (useAvatar)
+ * settings.update                change the given settings only
+ */
+import type { ClientAction } from '@contracts';
+
+export { MOVEMENT_INTENSITIES, ROOM_PRESETS } from '@contracts';
+export type { ClientAction, MovementIntensity as ActionMovementIntensity, RoomPreset, UserSettingsPatch } from '@contracts';
+
+export type ClientActionType = ClientAction['type'];
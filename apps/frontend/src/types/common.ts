@@ -1,5 +1,6 @@
 // Enhanced common types with strict type safety for 3D Avatar project
 // Eliminates 'any' types and provides branded types for better type safety
+import type { UserSettings } from '@contracts';
 
 // Branded types for unique identification
 export type UserId = string & { readonly __brand: 'UserId' };
@@ -360,6 +361,11 @@ export function exhaustiveCheck<T>(value: T): T {
   return value;
 }
 
+// User settings, edited in the Settings panel and by avatar actions (defined by the API contract)
+export type { UserSettings };
+export type ThemePreference = UserSettings['theme'];
+export type FontSize = UserSettings['fontSize'];
+
 // Type-safe event system
 export interface TypedEvent<T = Record<string, unknown>> {
   readonly type: string;
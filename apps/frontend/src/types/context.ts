@@ -141,6 +141,17 @@ export interface MemoryLimits {
   shortTerm: number;
   longTerm: number;
   workingMemory: number;
+  /** How long-term memory is consolidated in the background (defaults when left out) */
+  consolidation?: Partial<MemoryConsolidationLimits>;
+}
+
+export interface MemoryConsolidationLimits {
+  intervalMs: number; // between consolidations; 0 only consolidates on demand
+  promotionThreshold: number; // user messages a short-term theme must recur in
+  mergeSimilarity: number; // 0-1, interactions at least this similar are merged
+  halfLifeDays: number; // for a memory never recalled
+  recallReinforcement: number; // each recall multiplies the half-life by this
+  forgetBelow: number; // 0-1, memories weaker than this are forgotten
 }
 
 /**
@@ -341,6 +352,9 @@ export interface SignificantInteraction {
   impact: number; // 0-1
   emotionalResonance: number; // 0-1
   topics: string[];
+  recallCount?: number; // times retrieved as relevant
+  lastRecalled?: Date;
+  pinned?: boolean; // never forgotten, always part of the chat context
 }
 
 export interface LearnedPreference {
@@ -349,6 +363,7 @@ export interface LearnedPreference {
   confidence: number; // 0-1
   evidence: string[];
   lastUpdated: Date;
+  pinned?: boolean; // always part of the chat context
 }
 
 export interface RelationshipProgress {
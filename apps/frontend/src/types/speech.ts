@@ -0,0 +1,63 @@
+/**
+ * Server-side speech synthesis with its lip sync tracks, and speech recognition
+ * (mirrors apps/backend/src/tts/types.ts and apps/backend/src/stt/types.ts)
+ */
+
+/**
+ * Mouth shapes (the Oculus/ARKit viseme set most avatar rigs ship with)
+ */
+export type Viseme =
+  | 'sil' | 'PP' | 'FF' | 'TH' | 'DD' | 'kk' | 'CH' | 'SS' | 'nn' | 'RR'
+  | 'aa' | 'E' | 'I' | 'O' | 'U';
+
+/** A phoneme and when it is spoken, in milliseconds from the start of the audio */
+export interface PhonemeTiming {
+  readonly phoneme: string;
+  readonly start: number;
+  readonly end: number;
+}
+
+/** A mouth shape and when it is held, in milliseconds from the start of the audio */
+export interface VisemeCue {
+  readonly viseme: Viseme;
+  readonly start: number;
+  readonly end: number;
+}
+
+export interface SpeechSynthesisOptions {
+  /** Language tag such as en-US */
+  lang?: string;
+  /** 0.5 to 2 */
+  rate?: number;
+  /** 0 to 2 */
+  pitch?: number;
+}
+
+export interface SynthesizedSpeech {
+  /** Base64 */
+  readonly audio: string;
+  readonly mimeType: string;
+  readonly durationMs: number;
+  /** Engine that produced the audio */
+  readonly engine: string;
+  readonly phonemes: readonly PhonemeTiming[];
+  readonly visemes: readonly VisemeCue[];
+}
+
+export interface SpeechTranscription {
+  /** Empty when nothing was said */
+  readonly text: string;
+  /** Language recognized in (ISO 639-1), or auto when the engine detected it */
+  readonly language: string;
+  /** Engine that recognized the speech */
+  readonly engine: string;
+}
+
+/**
+ * Viseme track of audio that is playing, with the playback position to read it at
+ */
+export interface LipSyncTrack {
+  readonly visemes: readonly VisemeCue[];
+  /** Playback position in milliseconds */
+  readonly currentTimeMs: () => number;
+}
@@ -1,10 +1,26 @@
 /// <reference types="vitest" />
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// The API contract lives with the backend (apps/backend/src/contracts)
+const contractsDir = fileURLToPath(new URL('../backend/src/contracts', import.meta.url))
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      '@contracts': `${contractsDir}/index.ts`,
+    },
+    // The contract imports zod from outside this app; use this app's copy
+    dedupe: ['zod'],
+  },
+  server: {
+    fs: {
+      allow: ['.', contractsDir],
+    },
+  },
   test: {
     globals: true,
     environment: 'jsdom',
@@ -31,7 +31,7 @@ export default defineConfig({
 
   webServer: [
     {
-      command: 'cd apps/frontend && npm run dev',
+      command: 'cd apps/frontend && npm run dev -- --port 5177 --strictPort',
       port: 5177,
       reuseExistingServer: !process.env.CI,
     },
@@ -39,6 +39,10 @@ export default defineConfig({
       command: 'cd apps/backend && npm run dev',
       port: 3001,
       reuseExistingServer: !process.env.CI,
+      // Scripted offline provider: e2e runs need no network or API key
+      env: {
+        LLM_PROVIDER: 'mock',
+      },
     },
   ],
 }); 
\ No newline at end of file